@@ -0,0 +1,55 @@
+import { THEMES } from "@/lib/generator";
+import { INITIAL_FORM, toBlueprintInput, type FormState } from "@/lib/brief";
+import { runPipeline, type PipelineEvent } from "@/lib/agent-pipeline";
+import { resolveCopyProvider } from "@/lib/copy-provider";
+import { parseTheme } from "@/lib/themes";
+import { encodeEvent } from "@/lib/sse";
+
+export const dynamic = "force-dynamic";
+
+// The editor's form, field for field; anything else is rejected before a stream is opened.
+const isFormState = (value: unknown): value is FormState =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.keys(INITIAL_FORM).every((key) => typeof (value as Record<string, unknown>)[key] === "string");
+
+export async function POST(request: Request) {
+  const payload = (await request.json().catch(() => null)) as { form?: unknown; theme?: unknown } | null;
+  if (!isFormState(payload?.form)) {
+    return Response.json({ error: "Expected a JSON body with a `form` brief" }, { status: 400 });
+  }
+  const { form } = payload;
+  const theme = payload.theme === undefined ? undefined : parseTheme(payload.theme, THEMES);
+  if (theme === null) {
+    return Response.json(
+      { error: "`theme` must be a built-in theme or a custom theme with valid colors" },
+      { status: 400 },
+    );
+  }
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: PipelineEvent) => {
+        if (!request.signal.aborted) controller.enqueue(encoder.encode(encodeEvent(event)));
+      };
+      try {
+        // A custom theme isn't known to the server, so the client sends the one the brief points at.
+        const input = toBlueprintInput(form, theme ? [theme, ...THEMES] : THEMES);
+        await runPipeline(input, { provider: resolveCopyProvider(), emit, signal: request.signal });
+      } catch (error) {
+        emit({ type: "error", message: error instanceof Error ? error.message : "Generation failed" });
+      } finally {
+        if (!request.signal.aborted) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
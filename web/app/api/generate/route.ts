@@ -0,0 +1,33 @@
+import { BRIEF_SCHEMA, BriefSchemaError, parseBrief } from "@/lib/brief-schema";
+import { generatePage } from "@/lib/generate-page";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// The schema the POST body is validated against, for editors and pipelines that check briefs up front.
+export function GET() {
+  return Response.json(BRIEF_SCHEMA, { headers: { "Content-Type": "application/schema+json" } });
+}
+
+// Non-streaming counterpart of /api/agent for CI: takes a brief file's JSON and returns the blueprint and HTML.
+// `?pageUrl=` sets the canonical URL of the published page.
+export async function POST(request: Request) {
+  const payload: unknown = await request.json().catch(() => null);
+  if (payload === null) return Response.json({ error: "Expected a JSON brief" }, { status: 400 });
+
+  const { origin, searchParams } = new URL(request.url);
+  try {
+    const page = await generatePage(parseBrief(payload), {
+      pageUrl: searchParams.get("pageUrl") ?? undefined,
+      appUrl: origin,
+      signal: request.signal,
+    });
+    return Response.json(page);
+  } catch (error) {
+    if (error instanceof BriefSchemaError) {
+      return Response.json({ error: "Invalid brief", issues: error.issues }, { status: 400 });
+    }
+    console.error("Headless generation failed", error);
+    return Response.json({ error: error instanceof Error ? error.message : "Generation failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { isHttpUrl } from "@/lib/cta";
+import { escapeHtml } from "@/lib/html-document";
+import { LeadValidationError, listLeads, parseLead, saveLead } from "@/lib/lead-store";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Exported pages are hosted anywhere, so submissions come cross-origin.
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Accept",
+};
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+const readFields = async (request: Request): Promise<Record<string, unknown> | null> => {
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    const payload = await request.json().catch(() => null);
+    return payload && typeof payload === "object" ? (payload as Record<string, unknown>) : null;
+  }
+  const data = await request.formData().catch(() => null);
+  return data ? Object.fromEntries([...data.entries()].filter(([, value]) => typeof value === "string")) : null;
+};
+
+// Links back to the page the form was posted from. The Referer is only trusted when it's an http(s) URL on the
+// origin the browser says the post came from.
+const backLink = (request: Request) => {
+  const referrer = request.headers.get("referer");
+  const origin = request.headers.get("origin");
+  if (!referrer || !origin || !isHttpUrl(referrer)) return null;
+  return new URL(referrer).origin === origin ? referrer : null;
+};
+
+// Forms posted without JavaScript get a page to land on instead of JSON.
+const htmlReply = (message: string, status: number, back?: string | null) =>
+  new Response(
+    `<!doctype html><html lang="en"><meta charset="utf-8"><title>${escapeHtml(message)}</title><body style="font:16px/1.5 system-ui,sans-serif;max-width:480px;margin:80px auto;padding:0 24px"><p>${escapeHtml(message)}</p>${back ? `<p><a href="${escapeHtml(back)}">← Back</a></p>` : ""}</body></html>`,
+    { status, headers: { ...CORS_HEADERS, "Content-Type": "text/html; charset=utf-8" } },
+  );
+
+export async function POST(request: Request) {
+  const wantsJson =
+    request.headers.get("accept")?.includes("application/json") ||
+    request.headers.get("content-type")?.includes("application/json");
+  const referrer = request.headers.get("referer");
+  const reply = (message: string, status: number) =>
+    wantsJson
+      ? Response.json(status < 400 ? { ok: true } : { error: message }, { status, headers: CORS_HEADERS })
+      : htmlReply(message, status, backLink(request));
+
+  const fields = await readFields(request);
+  if (!fields) return reply("Expected a form or JSON body", 400);
+
+  try {
+    const lead = parseLead(fields, referrer ?? undefined);
+    if (lead) await saveLead(lead);
+    return reply("Thanks! Your details were received.", 201);
+  } catch (error) {
+    if (error instanceof LeadValidationError) return reply(error.message, 400);
+    console.error("Saving lead failed", error);
+    return reply("Couldn't save your details. Please try again.", 500);
+  }
+}
+
+// Lets you check test submissions while developing; the local store isn't meant to serve leads in production.
+export async function GET() {
+  if (process.env.NODE_ENV === "production") {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+  try {
+    return Response.json({ leads: await listLeads() });
+  } catch (error) {
+    console.error("Reading leads failed", error);
+    return Response.json({ error: "Couldn't read the local leads store" }, { status: 500 });
+  }
+}
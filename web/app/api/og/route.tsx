@@ -0,0 +1,46 @@
+import { ImageResponse } from "next/og";
+import { DARK_TEXT, parseColor } from "@/lib/colors";
+import { OG_IMAGE_SIZE } from "@/lib/seo";
+
+// Query values end up in inline styles, so anything that doesn't parse as a color falls back.
+const color = (value: string | null, fallback: string) => (value && parseColor(value) ? value : fallback);
+
+const clamp = (value: string | null, limit: number) => (value ?? "").slice(0, limit);
+
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const from = color(params.get("from"), "#0f172a");
+  const to = color(params.get("to"), from);
+  const text = color(params.get("text"), DARK_TEXT);
+  const title = clamp(params.get("title"), 120) || "Untitled";
+  const eyebrow = clamp(params.get("eyebrow"), 60);
+  const name = clamp(params.get("name"), 40);
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: 80,
+        background: `linear-gradient(135deg, ${from}, ${to})`,
+        color: text,
+        fontFamily: "sans-serif",
+      }}
+    >
+      <div style={{ display: "flex", fontSize: 28, letterSpacing: 6, textTransform: "uppercase", opacity: 0.8 }}>
+        {eyebrow}
+      </div>
+      <div style={{ display: "flex", fontSize: title.length > 60 ? 60 : 76, fontWeight: 700, lineHeight: 1.1 }}>
+        {title}
+      </div>
+      <div style={{ display: "flex", fontSize: 32, fontWeight: 600 }}>{name}</div>
+    </div>,
+    {
+      ...OG_IMAGE_SIZE,
+      headers: { "Cache-Control": "public, max-age=86400, immutable" },
+    },
+  );
+}
@@ -0,0 +1,90 @@
+import { cookies } from "next/headers";
+import {
+  MAX_COMMENTS_PER_SHARE,
+  SHARE_COOKIE_PREFIX,
+  ShareCommentsFullError,
+  ShareExpiredError,
+  ShareLockedError,
+  ShareNotFoundError,
+  addComment,
+  openShare,
+  setCommentResolved,
+  type SharedPage,
+} from "@/lib/share-store";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+type CommentRequest = {
+  sectionId?: unknown;
+  x?: unknown;
+  y?: unknown;
+  text?: unknown;
+  author?: unknown;
+  commentId?: unknown;
+  resolved?: unknown;
+};
+
+// Reviewers get the same access to comments as to the page: the link must exist, be live and be unlocked.
+const withShare = async (
+  { params }: RouteContext,
+  handle: (share: SharedPage) => Promise<Response>,
+  failure: string,
+): Promise<Response> => {
+  const { id } = await params;
+  try {
+    const share = await openShare(id, (await cookies()).get(`${SHARE_COOKIE_PREFIX}${id}`)?.value);
+    return await handle(share);
+  } catch (error) {
+    if (error instanceof ShareNotFoundError) return Response.json({ error: "Share link not found" }, { status: 404 });
+    if (error instanceof ShareExpiredError) return Response.json({ error: "Share link expired" }, { status: 410 });
+    if (error instanceof ShareLockedError) return Response.json({ error: "Enter the password first" }, { status: 401 });
+    if (error instanceof ShareCommentsFullError) {
+      return Response.json({ error: `This link already has ${MAX_COMMENTS_PER_SHARE} comments` }, { status: 409 });
+    }
+    console.error(failure, error);
+    return Response.json({ error: failure }, { status: 500 });
+  }
+};
+
+const readPayload = async (request: Request) => (await request.json().catch(() => null)) as CommentRequest | null;
+
+export async function GET(_request: Request, context: RouteContext) {
+  return withShare(context, async (share) => Response.json({ comments: share.comments }), "Couldn't read comments");
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  return withShare(
+    context,
+    async (share) => {
+      const payload = await readPayload(request);
+      const text = typeof payload?.text === "string" ? payload.text.trim() : "";
+      if (!payload || !text) return Response.json({ error: "Write a comment first" }, { status: 400 });
+      const comment = await addComment(share.id, {
+        sectionId: typeof payload.sectionId === "string" ? payload.sectionId : undefined,
+        x: Number(payload.x),
+        y: Number(payload.y),
+        text,
+        author: typeof payload.author === "string" ? payload.author : undefined,
+      });
+      return Response.json({ comment }, { status: 201 });
+    },
+    "Couldn't save the comment",
+  );
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  return withShare(
+    context,
+    async (share) => {
+      const payload = await readPayload(request);
+      if (typeof payload?.commentId !== "string" || typeof payload.resolved !== "boolean") {
+        return Response.json({ error: "Expected a comment id and resolved flag" }, { status: 400 });
+      }
+      return Response.json({ comments: await setCommentResolved(share.id, payload.commentId, payload.resolved) });
+    },
+    "Couldn't update the comment",
+  );
+}
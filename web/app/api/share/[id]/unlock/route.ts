@@ -0,0 +1,47 @@
+import {
+  SHARE_COOKIE_PREFIX,
+  ShareNotFoundError,
+  getShare,
+  takeUnlockAttempt,
+  unlockClient,
+  unlockToken,
+  verifyPassword,
+} from "@/lib/share-store";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// How many proxies in front of the app append to X-Forwarded-For; unset means none, and the header is ignored.
+const PROXY_HOPS = Number(process.env.LAUNCHPILOT_PROXY_HOPS ?? 0);
+
+// The password form on /p/[id] posts here without JavaScript; both outcomes redirect back to the page.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const pageUrl = new URL(`/p/${id}`, request.url);
+  try {
+    const share = await getShare(id);
+    const data = await request.formData().catch(() => null);
+    const password = data?.get("password");
+    if (!takeUnlockAttempt(share.id, unlockClient(request.headers, PROXY_HOPS))) {
+      pageUrl.searchParams.set("error", "throttled");
+      return Response.redirect(pageUrl, 303);
+    }
+    if (typeof password !== "string" || !(await verifyPassword(share, password))) {
+      pageUrl.searchParams.set("error", "1");
+      return Response.redirect(pageUrl, 303);
+    }
+    const cookie = [
+      `${SHARE_COOKIE_PREFIX}${share.id}=${unlockToken(share)}`,
+      `Path=/`,
+      "HttpOnly",
+      "SameSite=Lax",
+      ...(share.expiresAt ? [`Expires=${new Date(share.expiresAt).toUTCString()}`] : []),
+      ...(pageUrl.protocol === "https:" ? ["Secure"] : []),
+    ].join("; ");
+    return new Response(null, { status: 303, headers: { Location: pageUrl.toString(), "Set-Cookie": cookie } });
+  } catch (error) {
+    if (error instanceof ShareNotFoundError) return Response.redirect(pageUrl, 303);
+    console.error("Unlocking share failed", error);
+    return Response.json({ error: "Couldn't unlock the share link" }, { status: 500 });
+  }
+}
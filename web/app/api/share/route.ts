@@ -0,0 +1,79 @@
+import { isPageBlueprint } from "@/lib/sections";
+import { MAX_EXPIRY_DAYS, createShare } from "@/lib/share-store";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type ShareRequest = {
+  productName?: unknown;
+  blueprint?: unknown;
+  password?: unknown;
+  expiresInDays?: unknown;
+};
+
+// Uploaded images travel inside the blueprint, so pages can be a few megabytes, but not unbounded.
+const MAX_SHARE_BYTES = 8 * 1024 * 1024;
+
+class PayloadTooLargeError extends Error {}
+
+// Stops reading as soon as the body passes the limit, whatever Content-Length claimed.
+const readBody = async (request: Request) => {
+  if (Number(request.headers.get("content-length")) > MAX_SHARE_BYTES) throw new PayloadTooLargeError();
+  const reader = request.body?.getReader();
+  if (!reader) return "";
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength;
+    if (size > MAX_SHARE_BYTES) {
+      await reader.cancel();
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(chunk.value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const parsePayload = (body: string) => {
+  try {
+    return JSON.parse(body) as ShareRequest | null;
+  } catch {
+    return null;
+  }
+};
+
+export async function POST(request: Request) {
+  let body: string;
+  try {
+    body = await readBody(request);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return Response.json({ error: "Shared pages can be up to 8 MB; try smaller images" }, { status: 413 });
+    }
+    return Response.json({ error: "Couldn't read the request" }, { status: 400 });
+  }
+  const payload = parsePayload(body);
+  if (!payload || !isPageBlueprint(payload.blueprint)) {
+    return Response.json({ error: "Expected a page blueprint" }, { status: 400 });
+  }
+  const { expiresInDays, password } = payload;
+  if (
+    expiresInDays != null &&
+    (typeof expiresInDays !== "number" || expiresInDays <= 0 || expiresInDays > MAX_EXPIRY_DAYS)
+  ) {
+    return Response.json({ error: `Links expire after 1 to ${MAX_EXPIRY_DAYS} days, or never` }, { status: 400 });
+  }
+
+  try {
+    const share = await createShare({
+      productName: typeof payload.productName === "string" ? payload.productName.trim() : "",
+      blueprint: payload.blueprint,
+      password: typeof password === "string" && password ? password : undefined,
+      expiresInDays: expiresInDays ?? undefined,
+    });
+    return Response.json({ id: share.id, url: `/p/${share.id}`, expiresAt: share.expiresAt ?? null }, { status: 201 });
+  } catch (error) {
+    console.error("Saving share failed", error);
+    return Response.json({ error: "Couldn't save the share link" }, { status: 500 });
+  }
+}
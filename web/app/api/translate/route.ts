@@ -0,0 +1,37 @@
+import { getLocale, SOURCE_LOCALE } from "@/lib/locales";
+import { resolveCopyProvider } from "@/lib/copy-provider";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const payload = (await request.json().catch(() => null)) as {
+    locale?: string;
+    strings?: Record<string, string>;
+  } | null;
+  if (!payload?.locale || typeof payload.strings !== "object" || payload.strings === null) {
+    return Response.json({ error: "Expected a JSON body with a `locale` and `strings`" }, { status: 400 });
+  }
+  const locale = getLocale(payload.locale);
+  if (locale.code === SOURCE_LOCALE.code || locale.code !== payload.locale) {
+    return Response.json({ error: `Can't translate into ${payload.locale}` }, { status: 400 });
+  }
+
+  const provider = resolveCopyProvider();
+  if (!provider.translate) {
+    return Response.json(
+      { error: "No translation provider is configured. Import a strings file instead." },
+      { status: 501 },
+    );
+  }
+
+  try {
+    const strings = await provider.translate(
+      { locale: locale.code, localeName: locale.name, strings: payload.strings },
+      { signal: request.signal },
+    );
+    return Response.json({ locale: locale.code, strings });
+  } catch (error) {
+    console.error("Translation failed", error);
+    return Response.json({ error: error instanceof Error ? error.message : "Translation failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,132 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+import type { ReactNode } from "react";
+import { SharedPreview } from "@/components/shared-preview";
+import { buildPageHtml } from "@/lib/export-html";
+import { resolveSeo } from "@/lib/seo";
+import {
+  SHARE_COOKIE_PREFIX,
+  ShareNotFoundError,
+  getShare,
+  isExpired,
+  isUnlocked,
+  type SharedPage,
+} from "@/lib/share-store";
+
+export const dynamic = "force-dynamic";
+
+type SharePageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ error?: string }>;
+};
+
+const loadShare = async (id: string): Promise<SharedPage> => {
+  try {
+    return await getShare(id);
+  } catch (error) {
+    if (error instanceof ShareNotFoundError) notFound();
+    throw error;
+  }
+};
+
+// Review links are for the people they're sent to, never for search engines.
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const { id } = await params;
+  const share = await loadShare(id);
+  return {
+    title: `${share.productName || "Untitled page"} • Shared preview`,
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharePage({ params, searchParams }: SharePageProps) {
+  const { id } = await params;
+  const share = await loadShare(id);
+
+  if (isExpired(share)) {
+    return (
+      <ShareShell productName={share.productName}>
+        <ShareNotice title="This link has expired">Ask whoever shared it for a fresh one.</ShareNotice>
+      </ShareShell>
+    );
+  }
+
+  if (!isUnlocked(share, (await cookies()).get(`${SHARE_COOKIE_PREFIX}${share.id}`)?.value)) {
+    const { error } = await searchParams;
+    return (
+      <ShareShell productName={share.productName}>
+        <ShareNotice title="This preview is password protected">
+          <form method="post" action={`/api/share/${share.id}/unlock`} className="mt-6 grid gap-3">
+            <input
+              type="password"
+              name="password"
+              required
+              autoFocus
+              aria-label="Password"
+              placeholder="Password"
+              className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:border-emerald-400 focus:outline-none"
+            />
+            {error && (
+              <p className="text-xs text-rose-300">
+                {error === "throttled"
+                  ? "Too many attempts. Try again in a few minutes."
+                  : "That password didn't match."}
+              </p>
+            )}
+            <button
+              type="submit"
+              className="rounded-full bg-emerald-400 px-4 py-2 text-sm font-semibold text-slate-900 transition hover:bg-emerald-300"
+            >
+              View page
+            </button>
+          </form>
+        </ShareNotice>
+      </ShareShell>
+    );
+  }
+
+  const { blueprint, productName } = share;
+  const html = buildPageHtml(blueprint, { seo: resolveSeo(blueprint, { productName }) });
+  const sectionLabels = Object.fromEntries(
+    blueprint.sections.map((section) => [section.id, section.label || section.headline]),
+  );
+
+  return (
+    <ShareShell productName={productName} expiresAt={share.expiresAt}>
+      <SharedPreview shareId={share.id} html={html} comments={share.comments} sectionLabels={sectionLabels} />
+    </ShareShell>
+  );
+}
+
+type ShareShellProps = {
+  productName: string;
+  expiresAt?: string;
+  children: ReactNode;
+};
+
+const ShareShell = ({ productName, expiresAt, children }: ShareShellProps) => (
+  <div className="min-h-screen bg-slate-950 text-white">
+    <div className="mx-auto max-w-7xl space-y-6 px-6 py-8">
+      <header className="flex flex-wrap items-baseline justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-emerald-300">Shared preview</p>
+          <h1 className="text-2xl font-semibold">{productName || "Untitled page"}</h1>
+        </div>
+        {expiresAt && (
+          <p className="text-xs text-slate-400">
+            Link expires {new Date(expiresAt).toLocaleDateString("en", { dateStyle: "medium" })}
+          </p>
+        )}
+      </header>
+      {children}
+    </div>
+  </div>
+);
+
+const ShareNotice = ({ title, children }: { title: string; children: ReactNode }) => (
+  <div className="mx-auto max-w-md rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur">
+    <h2 className="text-lg font-semibold">{title}</h2>
+    <div className="mt-2 text-sm text-slate-300">{children}</div>
+  </div>
+);
@@ -1,197 +1,400 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { THEMES, TONES, composeBlueprint, type LandingBlueprint } from "@/lib/generator";
 import {
-  THEMES,
-  TONES,
-  buildExportHtml,
-  composeBlueprint,
-  type LandingBlueprint,
-  type ThemeOption,
-  type ToneOption,
-} from "@/lib/generator";
+  HERO_LAYOUTS,
+  INITIAL_FORM,
+  getTheme,
+  toBlueprintInput,
+  toFileStem,
+  type FormState,
+} from "@/lib/brief";
+import { applyA11yFixes, auditPage, withA11yColors, type A11yFix } from "@/lib/a11y";
+import { generateBlueprint, streamGeneration, translateStrings } from "@/lib/agent-client";
+import type { AnalyticsSettings } from "@/lib/analytics";
+import { planStages, type StageStatus } from "@/lib/agent-pipeline";
+import { countBySeverity, issuesFor, lintBrief, type BriefIssue, type IssueSeverity } from "@/lib/brief-lint";
+import { BrandKitError, brandKitToTheme, parseBrandKit } from "@/lib/brand-kit";
+import { applyEdits, countEdits, dropSectionEdits, type BlueprintEdits } from "@/lib/blueprint-edits";
+import { templateProvider } from "@/lib/copy-provider";
+import type { CtaTargets } from "@/lib/cta";
+import { DEFAULT_VIEWPORT, type ViewportSettings } from "@/lib/devices";
+import { buildExportReact } from "@/lib/export-react";
+import { buildExportMarkdown } from "@/lib/export-markdown";
+import { buildExportNotion } from "@/lib/export-notion";
+import { buildPageHtml } from "@/lib/export-html";
+import type { EditorSnapshot } from "@/lib/history";
+import type { Project, ProjectVersion } from "@/lib/library";
+import {
+  SOURCE_LOCALE,
+  TranslationImportError,
+  buildLocalizedFiles,
+  buildStringsFile,
+  flagStrings,
+  getLocale,
+  listTextSlots,
+  localizeBlueprint,
+  mergeTranslations,
+  parseStringsFile,
+  setTranslation,
+  summarizeFlags,
+  type Translations,
+} from "@/lib/locales";
+import {
+  createSection,
+  insertSection,
+  mergeRegenerated,
+  moveSection,
+  regenerateSection,
+  removeSection,
+  replaceSection,
+  restoreSection,
+  type PageBlueprint,
+} from "@/lib/sections";
+import { defaultSeoDescription, defaultSeoTitle, resolveSeo, type SeoSettings } from "@/lib/seo";
+import { DEFAULT_SITE_PAGES, buildSiteFiles, composeSite, type SitePageId } from "@/lib/site";
+import { applyThemeStyle, createCustomTheme, isCustomTheme, type CustomTheme } from "@/lib/themes";
+import { useCustomThemes } from "@/lib/use-custom-themes";
+import {
+  MAX_VARIANTS,
+  MIN_VARIANTS,
+  VARIANT_AXES,
+  planVariants,
+  toVariantId,
+  type Variant,
+  type VariantAxis,
+} from "@/lib/variants";
+import { useProjectLibrary } from "@/lib/use-project-library";
+import { useUndoHistory } from "@/lib/use-undo-history";
+import { useCollaboration, type FieldCollaboration } from "@/lib/use-collaboration";
+import { buildZip } from "@/lib/zip";
+import { A11yPanel } from "@/components/a11y-panel";
+import { AnalyticsPanel } from "@/components/analytics-panel";
+import { SharePanel } from "@/components/share-panel";
+import { BriefImportDialog } from "@/components/brief-import-dialog";
+import { ChangesPanel } from "@/components/changes-panel";
+import { CollabPanel } from "@/components/collab-panel";
+import { AuthorNote, PresenceBadges, PresenceCarets } from "@/components/collab-presence";
+import { CtaPanel } from "@/components/cta-panel";
+import { DeviceFrames, DeviceToolbar } from "@/components/device-preview";
+import { ImagesPanel } from "@/components/images-panel";
+import { LandingPreview, type SectionActions } from "@/components/landing-preview";
+import { LocalePanel, LocaleSwitcher } from "@/components/locale-panel";
+import { ProjectLibrary } from "@/components/project-library";
+import { SeoPanel } from "@/components/seo-panel";
+import { SitePagesPanel, SiteTabs } from "@/components/site-pages";
+import { ThemeEditor } from "@/components/theme-editor";
+import { VariantGrid } from "@/components/variant-grid";
 import { clsx } from "clsx";
 
-const HERO_LAYOUTS: Array<{ id: "split" | "center" | "left"; label: string; description: string }> = [
-  {
-    id: "split",
-    label: "Split",
-    description: "Visual stats on the right, story on the left",
-  },
-  {
-    id: "center",
-    label: "Centered",
-    description: "Big headline centered, stacked call-to-actions",
-  },
-  {
-    id: "left",
-    label: "Left",
-    description: "All content aligned left for productivity brands",
-  },
-];
-
 type AgentStep = {
   id: string;
   title: string;
   caption: string;
-  status: "pending" | "active" | "done";
+  status: StageStatus;
+  startedAt?: number;
+  durationMs?: number;
 };
 
-type FormState = {
-  productName: string;
-  oneLiner: string;
-  audience: string;
-  problem: string;
-  solution: string;
-  differentiator: string;
-  cta: string;
-  featuresText: string;
-  toneId: string;
-  themeId: string;
-  heroLayout: "split" | "center" | "left";
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
 };
 
-const INITIAL_FORM: FormState = {
-  productName: "LaunchPilot",
-  oneLiner: "An AI teammate that drafts high-impact landing pages in under 60 seconds.",
-  audience: "growth teams and indie founders",
-  problem: "Your launches stall while you wrangle copywriters, designers, and approvals.",
-  solution: "LaunchPilot assembles narrative, layout, and copy automatically based on a single product brief.",
-  differentiator:
-    "It reasons about your audience and positioning, producing on-brand pages that convert like your best marketer wrote them.",
-  cta: "Generate my launch page",
-  featuresText: [
-    "Audience-tuned hero copy that sounds like your brand",
-    "Feature blocks that explain the value, not just the features",
-    "Proof sections with metrics, quotes, and visuals",
-    "Exportable HTML, React, and Notion-friendly versions",
-  ].join("\n"),
-  toneId: TONES[0].id,
-  themeId: THEMES[1].id,
-  heroLayout: "split",
+type ThemeDraft = {
+  theme: CustomTheme;
+  // Restored when an unsaved theme is discarded.
+  previousThemeId: string;
+  notes?: string[];
 };
 
-const parseFeatures = (value: string) =>
-  value
-    .split(/\n|,/)
-    .map((entry) => entry.trim())
-    .filter(Boolean);
-
-const getTone = (id: string): ToneOption => TONES.find((tone) => tone.id === id) ?? TONES[0];
-const getTheme = (id: string): ThemeOption => THEMES.find((theme) => theme.id === id) ?? THEMES[0];
-
-const buildDefaultBlueprint = () =>
-  composeBlueprint({
-    productName: INITIAL_FORM.productName,
-    oneLiner: INITIAL_FORM.oneLiner,
-    audience: INITIAL_FORM.audience,
-    problem: INITIAL_FORM.problem,
-    solution: INITIAL_FORM.solution,
-    features: parseFeatures(INITIAL_FORM.featuresText),
-    differentiator: INITIAL_FORM.differentiator,
-    cta: INITIAL_FORM.cta,
-    tone: getTone(INITIAL_FORM.toneId),
-    theme: getTheme(INITIAL_FORM.themeId),
-    heroLayout: INITIAL_FORM.heroLayout,
-  });
+// The page origin never changes, so there is nothing to subscribe to.
+const subscribeToNothing = () => () => {};
+
+const buildDefaultBlueprint = () => composeBlueprint(toBlueprintInput(INITIAL_FORM));
+
+const buildInitialEditor = (): EditorSnapshot => ({
+  form: INITIAL_FORM,
+  blueprint: buildDefaultBlueprint(),
+  edits: {},
+});
 
 export default function Home() {
-  const [form, setForm] = useState<FormState>(INITIAL_FORM);
-  const [blueprint, setBlueprint] = useState<LandingBlueprint>(buildDefaultBlueprint);
+  // The brief, the page and its copy edits live in the collaboration session, shared when a room is open.
+  const collab = useCollaboration(buildInitialEditor);
+  const { form, blueprint: baseBlueprint, edits } = collab.editor;
+  const { setForm, setBlueprint: setBaseBlueprint, setEdits } = collab;
   const [steps, setSteps] = useState<AgentStep[]>([]);
   const [loading, setLoading] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [themeDraft, setThemeDraft] = useState<ThemeDraft | null>(null);
+  const [brandKitError, setBrandKitError] = useState<string | null>(null);
+  const [variantAxis, setVariantAxis] = useState<VariantAxis>("tone");
+  const [variantCount, setVariantCount] = useState(3);
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [pendingVariants, setPendingVariants] = useState(0);
+  const [winnerId, setWinnerId] = useState<string | null>(null);
+  const [sitePageIds, setSitePageIds] = useState<SitePageId[]>(DEFAULT_SITE_PAGES);
+  const [activePageId, setActivePageId] = useState<SitePageId>("home");
+  const [siteUrl, setSiteUrl] = useState("");
+  const [translations, setTranslations] = useState<Translations>({});
+  const [localeCodes, setLocaleCodes] = useState<string[]>([]);
+  const [previewLocale, setPreviewLocale] = useState(SOURCE_LOCALE.code);
+  const [translating, setTranslating] = useState<string | null>(null);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  const [openPanel, setOpenPanel] = useState<PreviewPanel | null>(null);
+  const [briefImportOpen, setBriefImportOpen] = useState(false);
+  const [viewport, setViewport] = useState<ViewportSettings>(DEFAULT_VIEWPORT);
+  // The generated social image is served by this app, so exports link to it by absolute URL.
+  const appUrl = useSyncExternalStore(
+    subscribeToNothing,
+    () => window.location.origin,
+    () => "",
+  );
+  const customThemes = useCustomThemes();
   const timersRef = useRef<number[]>([]);
+  const runRef = useRef<AbortController | null>(null);
+  const brandKitInputRef = useRef<HTMLInputElement>(null);
+
+  const clearTimers = () => {
+    timersRef.current.forEach((timer) => window.clearTimeout(timer));
+    timersRef.current = [];
+  };
+
+  // The draft shadows its saved copy so the preview follows the editor live.
+  const themes = useMemo(
+    () => [...(themeDraft ? [themeDraft.theme] : []), ...THEMES, ...customThemes.themes],
+    [themeDraft, customThemes.themes],
+  );
+  const activeTheme = getTheme(form.themeId, themes);
+
+  const handleOpenProject = (project: Project, version?: ProjectVersion) => {
+    runRef.current?.abort();
+    clearTimers();
+    setSteps([]);
+    setLoading(false);
+    setForm(project.brief);
+    setBaseBlueprint(version?.blueprint ?? composeBlueprint(toBlueprintInput(project.brief, themes)));
+    setEdits(version?.edits ?? {});
+    setTranslations(version?.translations ?? {});
+    setLocaleCodes(Object.keys(version?.translations ?? {}));
+    setPreviewLocale(SOURCE_LOCALE.code);
+    history.clear();
+  };
+
+  const library = useProjectLibrary({ onOpen: handleOpenProject });
+  const { saveBrief } = library;
+
+  const history = useUndoHistory({
+    current: { form, blueprint: baseBlueprint, edits },
+    // Restoring a snapshot in a room would write it over everyone's changes since, not just undo your own.
+    disabled: collab.roomId !== null,
+    onRestore: (snapshot) => {
+      setForm(snapshot.form);
+      setBaseBlueprint(snapshot.blueprint);
+      setEdits(snapshot.edits);
+      library.saveVersion(snapshot.blueprint.generatedAt, { blueprint: snapshot.blueprint, edits: snapshot.edits });
+    },
+  });
 
   useEffect(() => {
     return () => {
       timersRef.current.forEach((timer) => window.clearTimeout(timer));
+      runRef.current?.abort();
     };
   }, []);
 
-  const exportHtml = useMemo(() => buildExportHtml(blueprint), [blueprint]);
+  useEffect(() => {
+    saveBrief(form);
+  }, [form, saveBrief]);
+
+  const issues = useMemo(() => lintBrief(form), [form]);
+  const issueCounts = countBySeverity(issues);
+  const themedBlueprint = useMemo(
+    () => withA11yColors(isCustomTheme(activeTheme) ? applyThemeStyle(baseBlueprint, activeTheme) : baseBlueprint),
+    [baseBlueprint, activeTheme],
+  );
+  const blueprint = useMemo(() => applyEdits(themedBlueprint, edits), [themedBlueprint, edits]);
+  const productName = form.productName.trim() || "Untitled";
+  const seo = useMemo(() => resolveSeo(blueprint, { productName, appUrl }), [blueprint, productName, appUrl]);
+  const exportHtml = useMemo(() => buildPageHtml(blueprint, { seo, appUrl }), [blueprint, seo, appUrl]);
+  // Audited only while the panel is open: the DOM checks need a browser, so the server render would differ.
+  const a11yIssues = useMemo(
+    () => (openPanel === "a11y" ? auditPage(blueprint, exportHtml) : []),
+    [openPanel, blueprint, exportHtml],
+  );
+  const site = useMemo(
+    () => composeSite(productName, toBlueprintInput(form, themes), blueprint, sitePageIds),
+    [productName, form, themes, blueprint, sitePageIds],
+  );
+  const textSlots = useMemo(() => listTextSlots(blueprint), [blueprint]);
+  const localeFlags = useMemo(
+    () => Object.fromEntries(localeCodes.map((code) => [code, flagStrings(textSlots, translations[code])])),
+    [localeCodes, textSlots, translations],
+  );
+  const localeSummaries = useMemo(
+    () =>
+      Object.fromEntries(Object.entries(localeFlags).map(([code, flags]) => [code, summarizeFlags(textSlots, flags)])),
+    [localeFlags, textSlots],
+  );
+  const previewingTranslation = previewLocale !== SOURCE_LOCALE.code;
+  const previewBlueprint = useMemo(
+    () => (previewingTranslation ? localizeBlueprint(blueprint, translations[previewLocale]) : blueprint),
+    [previewingTranslation, blueprint, translations, previewLocale],
+  );
+  const activePage = site.pages.find((page) => page.id === activePageId) ?? site.pages[0];
+  // Device frames show exactly what a download would contain, site navigation included.
+  const deviceHtml = useMemo(() => {
+    if (viewport.mode !== "devices") return "";
+    if (previewingTranslation && activePage.id === "home") {
+      return buildPageHtml(previewBlueprint, { seo, locale: getLocale(previewLocale), appUrl });
+    }
+    if (site.pages.length === 1) return exportHtml;
+    const files = buildSiteFiles(site, siteUrl, appUrl);
+    return files.find((file) => file.path.endsWith(`/${activePage.path}`))?.contents ?? exportHtml;
+  }, [
+    viewport.mode,
+    previewingTranslation,
+    activePage,
+    previewBlueprint,
+    seo,
+    previewLocale,
+    site,
+    exportHtml,
+    siteUrl,
+    appUrl,
+  ]);
+  const siteUrlPlaceholder = `https://${toFileStem(form.productName)}.com`;
+  // Manual edits override copy everywhere, so variants are compared (and exported) with them applied.
+  const editedVariants = useMemo(
+    () => variants.map((variant) => ({ ...variant, blueprint: applyEdits(withA11yColors(variant.blueprint), edits) })),
+    [variants, edits],
+  );
+
+  const updateStep = (id: string, patch: Partial<AgentStep>) => {
+    setSteps((current) => current.map((step) => (step.id === id ? { ...step, ...patch } : step)));
+  };
 
-  const syncStep = (index: number, status: AgentStep["status"], extra?: Partial<AgentStep>) => {
+  // Marks whatever the run didn't finish: the running step gets the reason, anything still queued is skipped.
+  const settleSteps = (status: "failed" | "skipped", reason: string) => {
     setSteps((current) =>
-      current.map((step, stepIndex) =>
-        stepIndex === index
-          ? {
-              ...step,
-              status,
-              ...extra,
-            }
-          : step,
-      ),
+      current.map((step) => {
+        if (step.status === "active") {
+          return {
+            ...step,
+            status,
+            caption: reason,
+            durationMs: step.startedAt ? Date.now() - step.startedAt : undefined,
+          };
+        }
+        if (step.status !== "pending") return step;
+        return { ...step, status: "skipped", caption: `Skipped: ${reason.toLowerCase()}` };
+      }),
     );
   };
 
+  const handleCancel = () => runRef.current?.abort();
+
   const schedule = (delay: number, callback: () => void) => {
     const timer = window.setTimeout(callback, delay);
     timersRef.current.push(timer);
   };
 
-  const handleGenerate = () => {
-    timersRef.current.forEach((timer) => window.clearTimeout(timer));
-    timersRef.current = [];
+  // Merged into the page as it is when generation finishes, so edits made while it ran are kept.
+  const applyGenerated = (generated: LandingBlueprint) => {
+    const current = collab.getEditor();
+    const nextBlueprint = mergeRegenerated(current.blueprint, applyThemeStyle(generated, activeTheme));
+    history.record("Generate page");
+    setBaseBlueprint(nextBlueprint);
+    library.recordVersion(nextBlueprint, { edits: current.edits, translations });
+  };
 
-    const tone = getTone(form.toneId);
-    const theme = getTheme(form.themeId);
-    const features = parseFeatures(form.featuresText);
-
-    const freshSteps: AgentStep[] = [
-      {
-        id: "analyze",
-        title: "Decode the brief",
-        caption: "Understanding audience, promise, and differentiators",
-        status: "active",
-      },
-      {
-        id: "structure",
-        title: "Map the narrative",
-        caption: "Assembling hero, proof, workflow, and CTA",
-        status: "pending",
-      },
-      {
-        id: "polish",
-        title: "Polish the layout",
-        caption: `Applying ${theme.name} theme with ${tone.name.toLowerCase()} tone`,
-        status: "pending",
-      },
-    ];
-
-    setSteps(freshSteps);
-    setLoading(true);
+  // The template generator runs in the browser too, so a missing or unreachable agent route still yields a page.
+  const generateOffline = (reason: string) => {
+    const input = toBlueprintInput(form, themes);
+    setSteps(
+      planStages(input, templateProvider).map((stage) => ({
+        ...stage,
+        status: "done",
+        caption: stage.id === "copy" ? `Offline — used template copy (${reason})` : stage.caption,
+      })),
+    );
+    applyGenerated(composeBlueprint(input));
+  };
 
-    schedule(650, () => {
-      syncStep(0, "done");
-      syncStep(1, "active");
-    });
+  const handleGenerate = async () => {
+    if (issueCounts.error > 0) return;
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    let planned = false;
+    let received = false;
+    let failed = false;
+    let streamed = 0;
 
-    schedule(1200, () => {
-      const nextBlueprint = composeBlueprint({
-        productName: form.productName,
-        oneLiner: form.oneLiner,
-        audience: form.audience,
-        problem: form.problem,
-        solution: form.solution,
-        features,
-        differentiator: form.differentiator,
-        cta: form.cta,
-        tone,
-        theme,
-        heroLayout: form.heroLayout,
-      });
-      setBlueprint(nextBlueprint);
-      syncStep(1, "done");
-      syncStep(2, "active");
-    });
+    setSteps([]);
+    setLoading(true);
 
-    schedule(1750, () => {
-      syncStep(2, "done", {
-        caption: `Ready to export • ${new Date().toLocaleTimeString()}`,
-      });
-      setLoading(false);
-    });
+    try {
+      await streamGeneration(
+        form,
+        isCustomTheme(activeTheme) ? activeTheme : undefined,
+        (event) => {
+          switch (event.type) {
+            case "plan":
+              planned = true;
+              setSteps(event.stages.map((stage) => ({ ...stage, status: "pending" })));
+              break;
+            case "stage":
+              updateStep(event.id, {
+                status: event.status,
+                ...(event.status === "active" ? { startedAt: Date.now() } : {}),
+                ...(event.caption ? { caption: event.caption } : {}),
+                ...(event.durationMs !== undefined ? { durationMs: event.durationMs } : {}),
+              });
+              break;
+            case "token":
+              streamed += event.text.length;
+              updateStep("copy", { caption: `Drafting… ${streamed} characters streamed` });
+              break;
+            case "result":
+              received = true;
+              applyGenerated(event.blueprint);
+              break;
+            case "error":
+              failed = true;
+              console.error("Agent run failed", event.message);
+              break;
+          }
+        },
+        controller.signal,
+      );
+      if (!received && !failed) settleSteps("failed", "The agent stopped before returning a page");
+    } catch (error) {
+      if (controller.signal.aborted) {
+        settleSteps("skipped", "Cancelled");
+      } else if (!planned) {
+        console.error("Agent route unavailable", error);
+        generateOffline(error instanceof Error ? error.message : "agent unavailable");
+      } else {
+        console.error("Agent stream broke", error);
+        settleSteps("failed", error instanceof Error ? error.message : "Connection lost");
+      }
+    } finally {
+      if (runRef.current === controller) {
+        runRef.current = null;
+        setLoading(false);
+      }
+    }
   };
 
   const handleCopy = async () => {
@@ -206,20 +409,310 @@ export default function Home() {
 
   const handleDownload = () => {
     const blob = new Blob([exportHtml], { type: "text/html;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `${form.productName.replace(/\s+/g, "-").toLowerCase()}-landing.html`;
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `${toFileStem(form.productName)}-landing.html`);
+  };
+
+  const handleDownloadReact = () => {
+    const { files } = buildExportReact(blueprint, { name: form.productName });
+    const blob = new Blob([buildZip(files)], { type: "application/zip" });
+    downloadBlob(blob, `${toFileStem(form.productName)}-landing-react.zip`);
+  };
+
+  const handleDownloadMarkdown = () => {
+    const blob = new Blob([buildExportMarkdown(blueprint)], { type: "text/markdown;charset=utf-8" });
+    downloadBlob(blob, `${toFileStem(form.productName)}-landing.md`);
+  };
+
+  // Wrapped as `children` so the file can be posted as-is to Notion's append-block-children endpoint.
+  const handleDownloadNotion = () => {
+    const json = JSON.stringify({ children: buildExportNotion(blueprint) }, null, 2);
+    downloadBlob(new Blob([json], { type: "application/json" }), `${toFileStem(form.productName)}-notion.json`);
+  };
+
+  const handleGenerateVariants = async () => {
+    if (issueCounts.error > 0) return;
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    const batchStartedAt = Date.now();
+    const specs = planVariants(form, variantAxis, variantCount);
+    const customTheme = isCustomTheme(activeTheme) ? activeTheme : undefined;
+
+    setVariants([]);
+    setWinnerId(null);
+    setPendingVariants(specs.length);
+    setLoading(true);
+
+    try {
+      // One at a time: a shared copy provider is usually rate limited, and results stream into the grid as they land.
+      for (const spec of specs) {
+        let generated: LandingBlueprint;
+        try {
+          generated = await generateBlueprint(spec.form, customTheme, controller.signal);
+        } catch (error) {
+          if (controller.signal.aborted) throw error;
+          console.error(`Variant ${spec.letter} fell back to the template generator`, error);
+          generated = composeBlueprint(toBlueprintInput(spec.form, themes));
+        }
+        const variant: Variant = {
+          ...spec,
+          id: toVariantId(form.productName, batchStartedAt, spec.letter),
+          blueprint: mergeRegenerated(collab.getEditor().blueprint, applyThemeStyle(generated, activeTheme)),
+        };
+        setVariants((current) => [...current, variant]);
+        setPendingVariants((count) => count - 1);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) console.error("Variant generation failed", error);
+    } finally {
+      if (runRef.current === controller) {
+        runRef.current = null;
+        setLoading(false);
+        setPendingVariants(0);
+      }
+    }
+  };
+
+  const handlePickWinner = (picked: Variant) => {
+    // The grid shows variants with edits applied; keep the unedited page so edits stay separate.
+    const variant = variants.find((entry) => entry.id === picked.id) ?? picked;
+    setWinnerId(variant.id);
+    history.record("Pick variant");
+    setForm((current) => ({ ...current, toneId: variant.form.toneId, heroLayout: variant.form.heroLayout }));
+    // Sections, images and settings changed since the variants ran stay as they are now.
+    const nextBlueprint = mergeRegenerated(baseBlueprint, variant.blueprint);
+    setBaseBlueprint(nextBlueprint);
+    library.recordVersion(nextBlueprint, { edits, translations });
+  };
+
+  const variantFileStem = (variant: Variant) => `${toFileStem(form.productName)}-variant-${variant.letter.toLowerCase()}`;
+
+  const variantHtml = (variant: Variant) =>
+    buildPageHtml(variant.blueprint, {
+      variantId: variant.id,
+      seo: resolveSeo(variant.blueprint, { productName, appUrl }),
+      appUrl,
+    });
+
+  const handleDownloadVariantHtml = (variant: Variant) => {
+    const html = variantHtml(variant);
+    downloadBlob(new Blob([html], { type: "text/html;charset=utf-8" }), `${variantFileStem(variant)}.html`);
+  };
+
+  const handleDownloadVariantReact = (variant: Variant) => {
+    const { files } = buildExportReact(variant.blueprint, { name: form.productName, variantId: variant.id });
+    downloadBlob(new Blob([buildZip(files)], { type: "application/zip" }), `${variantFileStem(variant)}-react.zip`);
+  };
+
+  const handleDownloadAllVariants = () => {
+    const files = editedVariants.map((variant) => ({
+      path: `${variantFileStem(variant)}.html`,
+      contents: variantHtml(variant),
+    }));
+    const blob = new Blob([buildZip(files)], { type: "application/zip" });
+    downloadBlob(blob, `${toFileStem(form.productName)}-variants.zip`);
+  };
+
+  const toggleSitePage = (id: SitePageId) =>
+    setSitePageIds((current) => (current.includes(id) ? current.filter((entry) => entry !== id) : [...current, id]));
+
+  const handleDownloadSite = () => {
+    const files = buildSiteFiles(site, siteUrl || siteUrlPlaceholder, appUrl);
+    const blob = new Blob([buildZip(files)], { type: "application/zip" });
+    downloadBlob(blob, `${toFileStem(form.productName)}-site.zip`);
+  };
+
+  const handleSaveProject = () => {
+    void library.create(form.productName.trim() || "Untitled project", form, baseBlueprint, { edits, translations });
+  };
+
+  const handleNewProject = () => {
+    runRef.current?.abort();
+    clearTimers();
+    library.close();
+    setSteps([]);
+    setLoading(false);
+    setForm(INITIAL_FORM);
+    setBaseBlueprint(buildDefaultBlueprint());
+    setEdits({});
+    setTranslations({});
+    setLocaleCodes([]);
+    setPreviewLocale(SOURCE_LOCALE.code);
+    history.clear();
+  };
+
+  const updateEdits = (next: BlueprintEdits) => {
+    setEdits(next);
+    library.saveVersion(baseBlueprint.generatedAt, { edits: next });
+  };
+
+  const updateTranslations = (next: Translations) => {
+    setTranslations(next);
+    library.saveVersion(baseBlueprint.generatedAt, { translations: next });
+  };
+
+  // While previewing a translation, edits go to that locale; strings that aren't translatable stay shared.
+  const handleEdit = (path: string, value: string) => {
+    const slot = previewingTranslation && textSlots.find((entry) => entry.path === path);
+    if (slot) {
+      updateTranslations(setTranslation(translations, previewLocale, path, { text: value, source: slot.source }));
+      return;
+    }
+    history.record("Edit copy");
+    updateEdits({ ...edits, [path]: value });
+  };
+
+  const toggleLocale = (code: string) => {
+    setLocaleCodes((current) =>
+      current.includes(code) ? current.filter((entry) => entry !== code) : [...current, code],
+    );
+    if (code === previewLocale) setPreviewLocale(SOURCE_LOCALE.code);
+  };
+
+  const handleTranslate = async (code: string) => {
+    const flags = localeFlags[code] ?? {};
+    const strings = Object.fromEntries(
+      textSlots.filter((slot) => slot.path in flags).map((slot) => [slot.path, slot.source]),
+    );
+    setTranslating(code);
+    setTranslationError(null);
+    try {
+      updateTranslations(mergeTranslations(translations, code, textSlots, await translateStrings(code, strings)));
+      setPreviewLocale(code);
+    } catch (error) {
+      console.error(`Translating into ${code} failed`, error);
+      setTranslationError(error instanceof Error ? error.message : "Translation failed.");
+    } finally {
+      setTranslating(null);
+    }
+  };
+
+  const handleImportStrings = async (file: File) => {
+    setTranslationError(null);
+    try {
+      const { locale, texts } = parseStringsFile(await file.text());
+      const code = locale ?? (previewingTranslation ? previewLocale : undefined);
+      if (!code || getLocale(code).code !== code || code === SOURCE_LOCALE.code) {
+        throw new TranslationImportError(
+          locale
+            ? `${locale} isn't a supported language.`
+            : "Preview the language first, or add a `locale` to the file.",
+        );
+      }
+      updateTranslations(mergeTranslations(translations, code, textSlots, texts));
+      setLocaleCodes((current) => (current.includes(code) ? current : [...current, code]));
+      setPreviewLocale(code);
+    } catch (error) {
+      if (!(error instanceof TranslationImportError)) console.error("Strings import failed", error);
+      setTranslationError(error instanceof Error ? error.message : "Couldn't read that strings file.");
+    }
+  };
+
+  const handleDownloadStrings = (code: string) => {
+    const json = buildStringsFile(textSlots, code, translations[code]);
+    downloadBlob(new Blob([json], { type: "application/json" }), `${toFileStem(form.productName)}-${code}.json`);
+  };
+
+  const handleDownloadLocales = () => {
+    const files = buildLocalizedFiles(productName, blueprint, translations, localeCodes, siteUrl, appUrl);
+    downloadBlob(new Blob([buildZip(files)], { type: "application/zip" }), `${toFileStem(form.productName)}-i18n.zip`);
+  };
+
+  // Panels report every keystroke, so back-to-back changes in the same group undo as one step.
+  const updateBlueprint = (label: string, next: PageBlueprint, nextEdits = edits, group?: string) => {
+    history.record(label, group);
+    setBaseBlueprint(next);
+    setEdits(nextEdits);
+    library.saveVersion(next.generatedAt, { blueprint: next, edits: nextEdits });
+  };
+
+  const handleSeoChange = (settings: SeoSettings) =>
+    updateBlueprint("Change SEO", { ...baseBlueprint, seo: settings }, edits, "seo");
+
+  const handleCtaChange = (ctas: CtaTargets) =>
+    updateBlueprint("Change CTAs", { ...baseBlueprint, ctas }, edits, "cta");
+
+  const handleAnalyticsChange = (analytics?: AnalyticsSettings) =>
+    updateBlueprint("Change analytics", { ...baseBlueprint, analytics }, edits, "analytics");
+
+  const handleImagesChange = (next: PageBlueprint, group?: string) =>
+    updateBlueprint("Change images", next, edits, group);
+
+  const handleA11yFix = (fixes: A11yFix[]) =>
+    updateBlueprint("Fix accessibility", applyA11yFixes(baseBlueprint, fixes));
+
+  const handleRestoreSection = (source: PageBlueprint, sectionId: string) =>
+    updateBlueprint(
+      "Restore section",
+      restoreSection(baseBlueprint, source, sectionId),
+      dropSectionEdits(edits, sectionId),
+    );
+
+  const sectionActions: SectionActions = {
+    onRegenerate: (sectionId) => {
+      const section = baseBlueprint.sections.find((entry) => entry.id === sectionId);
+      if (!section) return;
+      const regenerated = regenerateSection(section, toBlueprintInput(form, themes));
+      updateBlueprint(
+        "Regenerate section",
+        replaceSection(baseBlueprint, regenerated),
+        dropSectionEdits(edits, sectionId),
+      );
+    },
+    onRemove: (sectionId) =>
+      updateBlueprint("Remove section", removeSection(baseBlueprint, sectionId), dropSectionEdits(edits, sectionId)),
+    onMove: (from, to) => updateBlueprint("Move section", moveSection(baseBlueprint, from, to)),
+    onInsert: (kind, index) =>
+      updateBlueprint(
+        "Add section",
+        insertSection(baseBlueprint, createSection(kind, toBlueprintInput(form, themes)), index),
+      ),
   };
 
   const updateField = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    history.record("Edit brief", `form.${key}`);
     setForm((current) => ({ ...current, [key]: value }));
   };
 
+  const openThemeEditor = (theme: CustomTheme, notes?: string[]) => {
+    setBrandKitError(null);
+    setThemeDraft({ theme, previousThemeId: form.themeId, notes });
+    updateField("themeId", theme.id);
+  };
+
+  const handleImportBrandKit = async (file: File) => {
+    try {
+      const kit = parseBrandKit(await file.text());
+      const { theme, mapped } = brandKitToTheme(kit, activeTheme, blueprint.gradient);
+      openThemeEditor(kit.name ? theme : { ...theme, name: file.name.replace(/\.[^.]+$/, "") }, mapped);
+    } catch (error) {
+      if (!(error instanceof BrandKitError)) console.error("Brand kit import failed", error);
+      setBrandKitError(error instanceof Error ? error.message : "Couldn't read that brand kit.");
+    }
+  };
+
+  const isSavedTheme = (id: string) => customThemes.themes.some((theme) => theme.id === id);
+
+  const handleSaveTheme = () => {
+    if (!themeDraft) return;
+    customThemes.saveTheme({ ...themeDraft.theme, name: themeDraft.theme.name.trim() || "Untitled theme" });
+    setThemeDraft(null);
+  };
+
+  const handleCancelTheme = () => {
+    if (!themeDraft) return;
+    if (!isSavedTheme(themeDraft.theme.id)) updateField("themeId", themeDraft.previousThemeId);
+    setThemeDraft(null);
+  };
+
+  const handleDeleteTheme = () => {
+    if (!themeDraft) return;
+    customThemes.deleteTheme(themeDraft.theme.id);
+    const { previousThemeId, theme } = themeDraft;
+    updateField("themeId", previousThemeId === theme.id ? INITIAL_FORM.themeId : previousThemeId);
+    setThemeDraft(null);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-black text-slate-100">
       <div className="mx-auto flex max-w-7xl flex-col gap-12 px-6 pb-24 pt-14 lg:px-12">
@@ -238,67 +731,138 @@ export default function Home() {
 
         <div className="grid items-start gap-8 lg:grid-cols-[420px,1fr]">
           <aside className="sticky top-6 flex flex-col gap-6 rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-2xl shadow-black/40 backdrop-blur-lg">
+            <ProjectLibrary
+              library={library}
+              blueprint={blueprint}
+              onSave={handleSaveProject}
+              onNew={handleNewProject}
+            />
+
+            <CollabPanel collab={collab} />
+
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold text-white">Agent Brief</h2>
-              <button
-                className="rounded-full border border-white/10 px-3 py-1 text-xs font-medium text-slate-300 hover:border-white/25 hover:text-white"
-                onClick={() => setForm(INITIAL_FORM)}
-              >
-                Reset
-              </button>
+              <div className="flex gap-2">
+                <button
+                  className="rounded-full border border-white/10 px-3 py-1 text-xs font-medium text-slate-300 hover:border-white/25 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+                  onClick={history.undo}
+                  disabled={!history.undoLabel}
+                  title={
+                    collab.roomId
+                      ? "Undo is off during a live session"
+                      : history.undoLabel
+                        ? `Undo “${history.undoLabel}” (⌘Z)`
+                        : "Nothing to undo"
+                  }
+                >
+                  Undo
+                </button>
+                <button
+                  className="rounded-full border border-white/10 px-3 py-1 text-xs font-medium text-slate-300 hover:border-white/25 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+                  onClick={history.redo}
+                  disabled={!history.redoLabel}
+                  title={
+                    collab.roomId
+                      ? "Redo is off during a live session"
+                      : history.redoLabel
+                        ? `Redo “${history.redoLabel}” (⇧⌘Z)`
+                        : "Nothing to redo"
+                  }
+                >
+                  Redo
+                </button>
+                <button
+                  className="rounded-full border border-white/10 px-3 py-1 text-xs font-medium text-slate-300 hover:border-white/25 hover:text-white"
+                  onClick={() => setBriefImportOpen(true)}
+                >
+                  Import
+                </button>
+                <button
+                  className="rounded-full border border-white/10 px-3 py-1 text-xs font-medium text-slate-300 hover:border-white/25 hover:text-white"
+                  onClick={() => {
+                    history.record("Reset brief");
+                    setForm(INITIAL_FORM);
+                  }}
+                >
+                  Reset
+                </button>
+              </div>
             </div>
+            {briefImportOpen && (
+              <BriefImportDialog
+                form={form}
+                onApply={(next) => {
+                  history.record("Import brief");
+                  setForm(next);
+                  setBriefImportOpen(false);
+                }}
+                onClose={() => setBriefImportOpen(false)}
+              />
+            )}
 
             <div className="grid gap-3 text-sm">
-              <LabeledField label="Product name">
+              <LabeledField
+                label="Product name"
+                issues={issuesFor(issues, "productName")}
+                collab={collab.field("productName")}
+              >
                 <input
                   className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-400"
                   value={form.productName}
                   onChange={(event) => updateField("productName", event.target.value)}
                 />
               </LabeledField>
-              <LabeledField label="One-liner">
+              <LabeledField label="One-liner" issues={issuesFor(issues, "oneLiner")} collab={collab.field("oneLiner")}>
                 <input
                   className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-400"
                   value={form.oneLiner}
                   onChange={(event) => updateField("oneLiner", event.target.value)}
                 />
               </LabeledField>
-              <LabeledField label="Audience">
+              <LabeledField label="Audience" issues={issuesFor(issues, "audience")} collab={collab.field("audience")}>
                 <input
                   className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-400"
                   value={form.audience}
                   onChange={(event) => updateField("audience", event.target.value)}
                 />
               </LabeledField>
-              <LabeledField label="Problem">
+              <LabeledField label="Problem" issues={issuesFor(issues, "problem")} collab={collab.field("problem")}>
                 <textarea
                   className="min-h-[72px] w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-400"
                   value={form.problem}
                   onChange={(event) => updateField("problem", event.target.value)}
                 />
               </LabeledField>
-              <LabeledField label="Solution">
+              <LabeledField label="Solution" issues={issuesFor(issues, "solution")} collab={collab.field("solution")}>
                 <textarea
                   className="min-h-[72px] w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-400"
                   value={form.solution}
                   onChange={(event) => updateField("solution", event.target.value)}
                 />
               </LabeledField>
-              <LabeledField label="Differentiator">
+              <LabeledField
+                label="Differentiator"
+                issues={issuesFor(issues, "differentiator")}
+                collab={collab.field("differentiator")}
+              >
                 <textarea
                   className="min-h-[72px] w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-400"
                   value={form.differentiator}
                   onChange={(event) => updateField("differentiator", event.target.value)}
                 />
               </LabeledField>
-              <LabeledField label="Call to action copy">
+              <LabeledField label="Call to action copy" issues={issuesFor(issues, "cta")} collab={collab.field("cta")}>
                 <input
                   className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-400"
                   value={form.cta}
                   onChange={(event) => updateField("cta", event.target.value)}
                 />
               </LabeledField>
-              <LabeledField label="Features">
+              <LabeledField
+                label="Features"
+                issues={issuesFor(issues, "featuresText")}
+                collab={collab.field("featuresText")}
+              >
                 <textarea
                   placeholder="One feature per line"
                   className="min-h-[120px] w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-400"
@@ -309,7 +873,7 @@ export default function Home() {
             </div>
 
             <div className="grid gap-4">
-              <LabeledField label="Tone">
+              <LabeledField label="Tone" collab={collab.field("toneId")}>
                 <div className="grid grid-cols-1 gap-2">
                   {TONES.map((tone) => (
                     <button
@@ -329,35 +893,88 @@ export default function Home() {
                 </div>
               </LabeledField>
 
-              <LabeledField label="Theme">
+              <LabeledField label="Theme" collab={collab.field("themeId")}>
                 <div className="grid grid-cols-2 gap-2">
-                  {THEMES.map((theme) => (
+                  {[...THEMES, ...customThemes.themes].map((saved) => {
+                    const theme = saved.id === themeDraft?.theme.id ? themeDraft.theme : saved;
+                    return (
+                      <div key={theme.id} className="relative">
+                        <button
+                          onClick={() => updateField("themeId", theme.id)}
+                          disabled={themeDraft !== null}
+                          className={clsx(
+                            "group relative flex w-full flex-col gap-2 rounded-2xl border px-4 py-3 text-left transition disabled:cursor-not-allowed",
+                            form.themeId === theme.id
+                              ? "border-emerald-400 bg-white/10"
+                              : "border-white/10 bg-white/5",
+                          )}
+                        >
+                          <span className="truncate pr-8 text-sm font-semibold text-white">{theme.name}</span>
+                          <div className="flex gap-1">
+                            {Object.entries(theme.palette).slice(0, 4).map(([key, color]) => (
+                              <span
+                                key={key}
+                                className="h-6 w-6 rounded-full border border-white/10"
+                                style={{ backgroundColor: color }}
+                              />
+                            ))}
+                          </div>
+                        </button>
+                        {isCustomTheme(theme) && !themeDraft && (
+                          <button
+                            className="absolute right-2 top-2 rounded-full border border-white/10 px-2 py-0.5 text-[11px] text-slate-300 hover:border-white/25 hover:text-white"
+                            onClick={() => openThemeEditor(theme)}
+                          >
+                            Edit
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {!themeDraft && (
                     <button
-                      key={theme.id}
-                      onClick={() => updateField("themeId", theme.id)}
-                      className={clsx(
-                        "group relative flex flex-col gap-2 rounded-2xl border px-4 py-3 text-left transition",
-                        form.themeId === theme.id
-                          ? "border-emerald-400 bg-white/10"
-                          : "border-white/10 bg-white/5",
-                      )}
+                      onClick={() => openThemeEditor(createCustomTheme(activeTheme, blueprint.gradient))}
+                      className="flex items-center justify-center rounded-2xl border border-dashed border-white/15 px-4 py-3 text-xs font-semibold text-slate-300 transition hover:border-emerald-400/60 hover:text-white"
                     >
-                      <span className="text-sm font-semibold text-white">{theme.name}</span>
-                      <div className="flex gap-1">
-                        {Object.entries(theme.palette).slice(0, 4).map(([key, color]) => (
-                          <span
-                            key={key}
-                            className="h-6 w-6 rounded-full border border-white/10"
-                            style={{ backgroundColor: color }}
-                          />
-                        ))}
-                      </div>
+                      + New theme from {activeTheme.name}
                     </button>
-                  ))}
+                  )}
+                  {!themeDraft && (
+                    <button
+                      onClick={() => brandKitInputRef.current?.click()}
+                      className="col-span-2 flex items-center justify-center rounded-2xl border border-dashed border-white/15 px-4 py-3 text-xs font-semibold text-slate-300 transition hover:border-emerald-400/60 hover:text-white"
+                    >
+                      Import brand kit (tokens JSON, CSS, Tailwind config)
+                    </button>
+                  )}
+                  <input
+                    ref={brandKitInputRef}
+                    type="file"
+                    accept=".json,.css,.js,.cjs,.mjs,.ts,application/json,text/css,text/javascript"
+                    className="hidden"
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      event.target.value = "";
+                      if (file) void handleImportBrandKit(file);
+                    }}
+                  />
                 </div>
+                {brandKitError && <span className="text-xs text-rose-300">{brandKitError}</span>}
               </LabeledField>
 
-              <LabeledField label="Hero layout">
+              {themeDraft && (
+                <ThemeEditor
+                  theme={themeDraft.theme}
+                  saved={isSavedTheme(themeDraft.theme.id)}
+                  notes={themeDraft.notes}
+                  onChange={(theme) => setThemeDraft({ ...themeDraft, theme })}
+                  onSave={handleSaveTheme}
+                  onCancel={handleCancelTheme}
+                  onDelete={handleDeleteTheme}
+                />
+              )}
+
+              <LabeledField label="Hero layout" collab={collab.field("heroLayout")}>
                 <div className="grid gap-2">
                   {HERO_LAYOUTS.map((layout) => (
                     <button
@@ -378,26 +995,123 @@ export default function Home() {
               </LabeledField>
             </div>
 
-            <button
-              onClick={handleGenerate}
-              className={clsx(
-                "group flex items-center justify-center gap-2 rounded-2xl bg-emerald-400 px-5 py-3 text-sm font-semibold text-emerald-950 shadow-emerald-500/50 transition",
-                loading ? "opacity-70" : "hover:-translate-y-0.5 hover:shadow-xl",
-              )}
-              disabled={loading}
-            >
-              {loading ? (
-                <span className="flex items-center gap-2">
-                  <span className="h-2.5 w-2.5 animate-ping rounded-full bg-emerald-900" />
-                  Generating…
-                </span>
-              ) : (
-                <span className="flex items-center gap-2">
-                  <span className="h-2.5 w-2.5 rounded-full bg-emerald-900" />
-                  Generate landing page
-                </span>
+            {(issueCounts.error > 0 || issueCounts.warning > 0) && (
+              <p
+                className={clsx(
+                  "rounded-2xl border px-4 py-3 text-xs",
+                  issueCounts.error > 0
+                    ? "border-rose-500/40 bg-rose-500/10 text-rose-100"
+                    : "border-amber-400/40 bg-amber-400/10 text-amber-100",
+                )}
+              >
+                {issueCounts.error > 0
+                  ? `Fix ${issueCounts.error} ${issueCounts.error === 1 ? "error" : "errors"} in the brief before generating.`
+                  : `${issueCounts.warning} ${issueCounts.warning === 1 ? "warning" : "warnings"} in the brief — you can generate anyway, but the page will be weaker.`}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleGenerate}
+                className={clsx(
+                  "group flex flex-1 items-center justify-center gap-2 rounded-2xl bg-emerald-400 px-5 py-3 text-sm font-semibold text-emerald-950 shadow-emerald-500/50 transition",
+                  loading ? "opacity-70" : "hover:-translate-y-0.5 hover:shadow-xl",
+                )}
+                disabled={loading || issueCounts.error > 0}
+              >
+                {loading ? (
+                  <span className="flex items-center gap-2">
+                    <span className="h-2.5 w-2.5 animate-ping rounded-full bg-emerald-900" />
+                    Generating…
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-2">
+                    <span className="h-2.5 w-2.5 rounded-full bg-emerald-900" />
+                    Generate landing page
+                  </span>
+                )}
+              </button>
+              {loading && (
+                <button
+                  onClick={handleCancel}
+                  className="rounded-2xl border border-rose-400/60 px-4 py-3 text-sm font-semibold text-rose-200 transition hover:border-rose-400 hover:text-white"
+                >
+                  Cancel
+                </button>
               )}
-            </button>
+            </div>
+
+            <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">A/B variants</h3>
+                <div className="flex items-center gap-2 text-xs text-slate-300">
+                  <button
+                    className="h-6 w-6 rounded-full border border-white/10 hover:border-white/25 disabled:opacity-40"
+                    disabled={variantCount <= MIN_VARIANTS}
+                    onClick={() => setVariantCount((count) => count - 1)}
+                    aria-label="Fewer variants"
+                  >
+                    −
+                  </button>
+                  <span className="w-4 text-center tabular-nums">{variantCount}</span>
+                  <button
+                    className="h-6 w-6 rounded-full border border-white/10 hover:border-white/25 disabled:opacity-40"
+                    disabled={variantCount >= MAX_VARIANTS}
+                    onClick={() => setVariantCount((count) => count + 1)}
+                    aria-label="More variants"
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {VARIANT_AXES.map((axis) => (
+                  <button
+                    key={axis.id}
+                    title={axis.description}
+                    onClick={() => setVariantAxis(axis.id)}
+                    className={clsx(
+                      "rounded-xl border px-2 py-2 text-xs font-semibold transition",
+                      variantAxis === axis.id
+                        ? "border-emerald-400 bg-emerald-400/10 text-white"
+                        : "border-white/10 text-slate-300 hover:border-white/25",
+                    )}
+                  >
+                    {axis.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleGenerateVariants}
+                disabled={loading || issueCounts.error > 0}
+                className="w-full rounded-xl border border-emerald-400/60 px-4 py-2 text-xs font-semibold text-emerald-100 transition hover:border-emerald-400 hover:text-white disabled:opacity-50"
+              >
+                {pendingVariants > 0
+                  ? `Generating variant ${variants.length + 1} of ${variants.length + pendingVariants}…`
+                  : `Generate ${variantCount} variants by ${VARIANT_AXES.find((axis) => axis.id === variantAxis)?.label.toLowerCase()}`}
+              </button>
+            </div>
+
+            <SitePagesPanel
+              selected={sitePageIds}
+              onToggle={toggleSitePage}
+              siteUrl={siteUrl}
+              siteUrlPlaceholder={siteUrlPlaceholder}
+              onSiteUrlChange={setSiteUrl}
+              onDownload={handleDownloadSite}
+            />
+
+            <LocalePanel
+              selected={localeCodes}
+              summaries={localeSummaries}
+              translating={translating}
+              error={translationError}
+              onToggle={toggleLocale}
+              onTranslate={handleTranslate}
+              onDownloadStrings={handleDownloadStrings}
+              onImport={handleImportStrings}
+              onDownloadAll={handleDownloadLocales}
+            />
 
             <div className="space-y-3">
               <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Agent timeline</h3>
@@ -415,18 +1129,33 @@ export default function Home() {
                       step.status === "done" && "border-emerald-500/60 bg-emerald-500/10 text-emerald-100",
                       step.status === "active" && "border-cyan-400/70 bg-cyan-400/10 text-cyan-100",
                       step.status === "pending" && "border-white/10 bg-white/5 text-slate-300",
+                      step.status === "failed" && "border-rose-500/60 bg-rose-500/10 text-rose-100",
+                      step.status === "skipped" && "border-dashed border-white/10 bg-transparent text-slate-400",
                     )}
                   >
                     <div className="flex items-center justify-between gap-3">
                       <span className="font-semibold">{step.title}</span>
-                      <span
-                        className={clsx(
-                          "h-2.5 w-2.5 rounded-full",
-                          step.status === "done" && "bg-emerald-400",
-                          step.status === "active" && "bg-cyan-300 animate-pulse",
-                          step.status === "pending" && "bg-slate-500",
+                      <span className="flex items-center gap-2">
+                        {step.status === "active" && step.startedAt ? (
+                          <ElapsedTime startedAt={step.startedAt} />
+                        ) : (
+                          step.durationMs !== undefined && (
+                            <span className="text-xs tabular-nums text-slate-300/80">
+                              {formatDuration(step.durationMs)}
+                            </span>
+                          )
                         )}
-                      />
+                        <span
+                          className={clsx(
+                            "h-2.5 w-2.5 rounded-full",
+                            step.status === "done" && "bg-emerald-400",
+                            step.status === "active" && "bg-cyan-300 animate-pulse",
+                            step.status === "pending" && "bg-slate-500",
+                            step.status === "failed" && "bg-rose-400",
+                            step.status === "skipped" && "border border-slate-500",
+                          )}
+                        />
+                      </span>
                     </div>
                     <p className="mt-1 text-xs text-slate-200/80">{step.caption}</p>
                   </div>
@@ -436,8 +1165,85 @@ export default function Home() {
           </aside>
 
           <section className="flex flex-col gap-6">
-            <PreviewHeader blueprint={blueprint} onCopy={handleCopy} onDownload={handleDownload} copied={copied} />
-            <LandingPreview blueprint={blueprint} />
+            {(variants.length > 0 || pendingVariants > 0) && (
+              <VariantGrid
+                variants={editedVariants}
+                pending={pendingVariants}
+                winnerId={winnerId}
+                onPick={handlePickWinner}
+                onDownloadHtml={handleDownloadVariantHtml}
+                onDownloadReact={handleDownloadVariantReact}
+                onDownloadAll={handleDownloadAllVariants}
+                onClose={() => {
+                  if (pendingVariants > 0) handleCancel();
+                  setVariants([]);
+                  setWinnerId(null);
+                }}
+              />
+            )}
+            {site.pages.length > 1 && <SiteTabs site={site} activeId={activePage.id} onSelect={setActivePageId} />}
+            {localeCodes.length > 0 && activePage.id === "home" && (
+              <LocaleSwitcher locales={localeCodes} active={previewLocale} onSelect={setPreviewLocale} />
+            )}
+            <PreviewHeader
+              blueprint={blueprint}
+              onCopy={handleCopy}
+              onDownload={handleDownload}
+              onDownloadReact={handleDownloadReact}
+              onDownloadMarkdown={handleDownloadMarkdown}
+              onDownloadNotion={handleDownloadNotion}
+              copied={copied}
+              editCount={countEdits(edits)}
+              onDiscardEdits={() => updateEdits({})}
+              openPanel={openPanel}
+              onTogglePanel={(panel) => setOpenPanel((open) => (open === panel ? null : panel))}
+            />
+            {openPanel === "images" && (
+              <ImagesPanel blueprint={baseBlueprint} theme={blueprint} onChange={handleImagesChange} />
+            )}
+            {openPanel === "cta" && <CtaPanel blueprint={baseBlueprint} onChange={handleCtaChange} />}
+            {openPanel === "analytics" && <AnalyticsPanel blueprint={baseBlueprint} onChange={handleAnalyticsChange} />}
+            {openPanel === "seo" && (
+              <SeoPanel
+                seo={seo}
+                settings={baseBlueprint.seo ?? {}}
+                defaults={{ title: defaultSeoTitle(blueprint, productName), description: defaultSeoDescription(blueprint) }}
+                onChange={handleSeoChange}
+              />
+            )}
+            {openPanel === "a11y" && <A11yPanel issues={a11yIssues} onFix={handleA11yFix} />}
+            {openPanel === "share" && <SharePanel productName={productName} blueprint={blueprint} />}
+            {openPanel === "changes" && (
+              <ChangesPanel
+                blueprint={baseBlueprint}
+                edits={edits}
+                versions={library.activeProject?.versions ?? []}
+                history={history.entries}
+                onRestoreSection={handleRestoreSection}
+              />
+            )}
+            <DeviceToolbar settings={viewport} onChange={setViewport} />
+            {viewport.mode === "devices" ? (
+              <DeviceFrames html={deviceHtml} settings={viewport} />
+            ) : activePage.id === "home" ? (
+              <LandingPreview
+                blueprint={previewBlueprint}
+                edits={previewingTranslation ? {} : edits}
+                onEdit={handleEdit}
+                sectionActions={sectionActions}
+                lang={getLocale(previewLocale).code}
+                dir={getLocale(previewLocale).dir}
+                flags={previewingTranslation ? localeFlags[previewLocale] : undefined}
+              />
+            ) : (
+              <>
+                <p className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-slate-300">
+                  {activePage.navLabel} is composed from the brief and the home page&apos;s theme. Edit those to change it,
+                  then download the site to get every page linked together.
+                </p>
+                <LandingPreview blueprint={activePage.blueprint} />
+              </>
+            )}
           </section>
         </div>
       </div>
@@ -445,15 +1251,51 @@ export default function Home() {
   );
 }
 
+const ElapsedTime = ({ startedAt }: { startedAt: number }) => {
+  const [now, setNow] = useState(startedAt);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 100);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return <span className="text-xs tabular-nums text-cyan-100/80">{formatDuration(Math.max(0, now - startedAt))}</span>;
+};
+
 type LabeledFieldProps = {
   label: string;
+  issues?: BriefIssue[];
+  // Teammates here and who changed the field last, while in a live session.
+  collab?: FieldCollaboration;
   children: React.ReactNode;
 };
 
-const LabeledField = ({ label, children }: LabeledFieldProps) => (
-  <label className="grid gap-1 text-left">
-    <span className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">{label}</span>
-    {children}
+const ISSUE_STYLES: Record<IssueSeverity, string> = {
+  error: "text-rose-300",
+  warning: "text-amber-300",
+  info: "text-sky-300",
+};
+
+const LabeledField = ({ label, issues = [], collab, children }: LabeledFieldProps) => (
+  <label
+    className="grid gap-1 text-left"
+    data-collab-field={collab?.field}
+    onFocus={collab?.onActivity}
+    onSelect={collab?.onActivity}
+    onBlur={collab?.onLeave}
+  >
+    <span className="flex items-center justify-between gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+      {label}
+      {collab && <PresenceBadges peers={collab.peers.filter((peer) => peer.caret === undefined)} />}
+    </span>
+    {collab ? <PresenceCarets peers={collab.peers}>{children}</PresenceCarets> : children}
+    {issues.map((issue) => (
+      <span key={issue.rule + issue.message} className={clsx("flex gap-1.5 text-xs", ISSUE_STYLES[issue.severity])}>
+        <span className="font-semibold uppercase tracking-wide">{issue.severity}</span>
+        <span className="text-slate-300">{issue.message}</span>
+      </span>
+    ))}
+    {collab?.author && <AuthorNote author={collab.author} />}
   </label>
 );
 
@@ -461,18 +1303,73 @@ type PreviewHeaderProps = {
   blueprint: LandingBlueprint;
   onCopy: () => void;
   onDownload: () => void;
+  onDownloadReact: () => void;
+  onDownloadMarkdown: () => void;
+  onDownloadNotion: () => void;
   copied: boolean;
+  editCount: number;
+  onDiscardEdits: () => void;
+  openPanel: PreviewPanel | null;
+  onTogglePanel: (panel: PreviewPanel) => void;
 };
 
-const PreviewHeader = ({ blueprint, onCopy, onDownload, copied }: PreviewHeaderProps) => {
+type PreviewPanel = "images" | "cta" | "analytics" | "seo" | "a11y" | "share" | "changes";
+
+const PREVIEW_PANELS: Array<{ id: PreviewPanel; label: string }> = [
+  { id: "images", label: "Images" },
+  { id: "cta", label: "CTAs" },
+  { id: "analytics", label: "Analytics" },
+  { id: "seo", label: "SEO" },
+  { id: "a11y", label: "Accessibility" },
+  { id: "share", label: "Share" },
+  { id: "changes", label: "Changes" },
+];
+
+const PreviewHeader = ({
+  blueprint,
+  onCopy,
+  onDownload,
+  onDownloadReact,
+  onDownloadMarkdown,
+  onDownloadNotion,
+  copied,
+  editCount,
+  onDiscardEdits,
+  openPanel,
+  onTogglePanel,
+}: PreviewHeaderProps) => {
   return (
     <div className="flex flex-wrap items-center justify-between gap-3 rounded-3xl border border-white/10 bg-white/5 px-6 py-4 shadow-2xl shadow-black/40 backdrop-blur">
       <div>
         <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Preview</p>
         <h2 className="mt-1 text-lg font-semibold text-white">{blueprint.hero.title}</h2>
-        <p className="text-xs text-slate-400">Generated {new Date(blueprint.generatedAt).toLocaleTimeString()}</p>
+        <p className="text-xs text-slate-400">
+          Generated {new Date(blueprint.generatedAt).toLocaleTimeString()}
+          {editCount > 0 && (
+            <>
+              {" "}
+              • {editCount} manual {editCount === 1 ? "edit" : "edits"} kept on regenerate{" "}
+              <button className="font-semibold text-slate-300 underline hover:text-white" onClick={onDiscardEdits}>
+                Discard
+              </button>
+            </>
+          )}
+        </p>
       </div>
       <div className="flex flex-wrap items-center gap-2">
+        {PREVIEW_PANELS.map((panel) => (
+          <button
+            key={panel.id}
+            onClick={() => onTogglePanel(panel.id)}
+            aria-expanded={openPanel === panel.id}
+            className={clsx(
+              "rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white",
+              openPanel === panel.id && "border-emerald-400 bg-emerald-500/10 text-emerald-200",
+            )}
+          >
+            {panel.label}
+          </button>
+        ))}
         <button
           onClick={onCopy}
           className={clsx(
@@ -482,6 +1379,24 @@ const PreviewHeader = ({ blueprint, onCopy, onDownload, copied }: PreviewHeaderP
         >
           {copied ? "Copied" : "Copy HTML"}
         </button>
+        <button
+          onClick={onDownloadReact}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white"
+        >
+          Download React
+        </button>
+        <button
+          onClick={onDownloadMarkdown}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white"
+        >
+          Download Markdown
+        </button>
+        <button
+          onClick={onDownloadNotion}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white"
+        >
+          Download Notion
+        </button>
         <button
           onClick={onDownload}
           className="rounded-full bg-emerald-400 px-4 py-2 text-xs font-semibold text-emerald-950 shadow-emerald-500/40 transition hover:-translate-y-0.5 hover:shadow-lg"
@@ -492,127 +1407,3 @@ const PreviewHeader = ({ blueprint, onCopy, onDownload, copied }: PreviewHeaderP
     </div>
   );
 };
-
-type LandingPreviewProps = {
-  blueprint: LandingBlueprint;
-};
-
-const LandingPreview = ({ blueprint }: LandingPreviewProps) => {
-  const { hero, sections, palette, gradient, heroLayout } = blueprint;
-  const heroText = palette.text === "#1c1917" || palette.text === "#064e3b" ? "#0f172a" : "#f8fafc";
-
-  return (
-    <div className="overflow-hidden rounded-[40px] border border-white/10 bg-slate-950/60 shadow-[0_40px_120px_rgba(15,23,42,0.45)] backdrop-blur-xl">
-      <div
-        className={clsx(
-          "relative px-8 py-16 sm:px-12 sm:py-20",
-          heroLayout === "center" ? "text-center" : "",
-        )}
-        style={{ background: gradient, color: heroText }}
-      >
-        <div
-          className={clsx(
-            "mx-auto flex max-w-5xl flex-col gap-12",
-            heroLayout === "split" && "lg:flex-row lg:items-center lg:justify-between",
-            heroLayout === "left" && "items-start text-left",
-            heroLayout === "center" && "items-center",
-          )}
-        >
-          <div className={clsx("max-w-xl", heroLayout === "center" && "mx-auto")}
-            style={{ color: heroText }}
-          >
-            <p className={clsx("text-xs font-semibold uppercase tracking-[0.3em]", heroLayout === "center" && "mx-auto max-w-fit")}
-              style={{ opacity: 0.8 }}
-            >
-              {hero.eyebrow}
-            </p>
-            <h1
-              className={clsx(
-                "mt-6 font-semibold leading-tight",
-                heroLayout === "center" ? "text-4xl sm:text-5xl" : "text-[38px] sm:text-[46px]",
-              )}
-            >
-              {hero.title}
-            </h1>
-            <p className="mt-4 text-base sm:text-lg" style={{ opacity: 0.92 }}>
-              {hero.subtitle}
-            </p>
-            <div
-              className={clsx(
-                "mt-8 flex flex-wrap items-center gap-4",
-                heroLayout === "center" && "justify-center",
-              )}
-            >
-              <button
-                className="rounded-full bg-white px-6 py-3 text-sm font-semibold text-slate-900 shadow-lg shadow-black/20 transition hover:-translate-y-0.5 hover:shadow-xl"
-              >
-                {hero.primaryCta}
-              </button>
-              <button
-                className="rounded-full border border-white/60 bg-transparent px-6 py-3 text-sm font-semibold transition hover:-translate-y-0.5"
-                style={{ color: heroText }}
-              >
-                {hero.secondaryCta} →
-              </button>
-            </div>
-          </div>
-
-          <div
-            className={clsx(
-              "grid gap-4 rounded-3xl border border-white/40 bg-white/15 p-6 text-left shadow-[0_20px_60px_rgba(15,23,42,0.22)] backdrop-blur-xl",
-              heroLayout === "split" ? "max-w-xs" : "lg:max-w-xs",
-            )}
-          >
-            {hero.stats.map((stat) => (
-              <div key={stat.label}>
-                <p className="text-3xl font-semibold">{stat.value}</p>
-                <p className="text-sm" style={{ opacity: 0.85 }}>
-                  {stat.label}
-                </p>
-              </div>
-            ))}
-          </div>
-        </div>
-      </div>
-
-      <div
-        className="space-y-16 px-8 py-16 sm:px-12"
-        style={{ backgroundColor: palette.surface, color: palette.text }}
-      >
-        {sections.map((section) => (
-          <div
-            key={section.id}
-            className="mx-auto flex w-full max-w-5xl flex-col gap-8 rounded-3xl border border-black/5 bg-white/70 p-8 shadow-[0_20px_60px_rgba(15,23,42,0.12)]"
-            style={{ backgroundColor: heroLayout === "center" ? "rgba(255,255,255,0.85)" : "rgba(255,255,255,0.8)" }}
-          >
-            <div className="space-y-2">
-              <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">{section.label}</p>
-              <h3 className="text-2xl font-semibold text-slate-900">{section.headline}</h3>
-              <p className="text-sm text-slate-600">{section.body}</p>
-            </div>
-            {section.items?.length ? (
-              <div className="grid gap-4 md:grid-cols-2">
-                {section.items.map((item) => (
-                  <div
-                    key={item.title + item.description}
-                    className="rounded-2xl border border-slate-100 bg-white px-5 py-4 shadow-sm shadow-slate-900/5"
-                  >
-                    <h4 className="text-base font-semibold text-slate-900">{item.title}</h4>
-                    <p className="mt-1 text-sm text-slate-600">{item.description}</p>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="flex flex-wrap items-center gap-3">
-                <button className="rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white shadow">
-                  {blueprint.hero.primaryCta}
-                </button>
-                <span className="text-sm font-medium text-slate-500">Need a custom export? Ask the agent in chat.</span>
-              </div>
-            )}
-          </div>
-        ))}
-      </div>
-    </div>
-  );
-};
@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+// The `launchpilot` command (`"bin": { "launchpilot": "bin/launchpilot.mjs" }`): runs scripts/launchpilot.ts
+// through tsx with tsconfig.tsx.json, from any working directory, so paths in the arguments stay relative to it.
+import { spawnSync } from "node:child_process";
+import { fileURLToPath } from "node:url";
+
+const resolve = (relative) => fileURLToPath(new URL(relative, import.meta.url));
+const tsx = fileURLToPath(import.meta.resolve("tsx/cli"));
+
+const result = spawnSync(
+  process.execPath,
+  [tsx, "--tsconfig", resolve("../tsconfig.tsx.json"), resolve("../scripts/launchpilot.ts"), ...process.argv.slice(2)],
+  { stdio: "inherit" },
+);
+process.exit(result.status ?? 1);
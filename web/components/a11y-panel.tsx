@@ -0,0 +1,73 @@
+"use client";
+
+import { clsx } from "clsx";
+import { FIX_LABELS, fixesFor, type A11yFix, type A11yIssue } from "@/lib/a11y";
+import { countBySeverity, type IssueSeverity } from "@/lib/brief-lint";
+
+type A11yPanelProps = {
+  issues: A11yIssue[];
+  onFix: (fixes: A11yFix[]) => void;
+};
+
+const SEVERITY_STYLES: Record<IssueSeverity, string> = {
+  error: "bg-rose-400",
+  warning: "bg-amber-300",
+  info: "bg-sky-300",
+};
+
+const SEVERITY_ORDER: IssueSeverity[] = ["error", "warning", "info"];
+
+export const A11yPanel = ({ issues, onFix }: A11yPanelProps) => {
+  const counts = countBySeverity(issues);
+  const fixable = fixesFor(issues);
+  const sorted = [...issues].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Accessibility · WCAG 2.1 AA</p>
+          <h2 className={clsx("mt-1 text-lg font-semibold", counts.error ? "text-rose-200" : "text-emerald-200")}>
+            {counts.error
+              ? `${counts.error} ${counts.error === 1 ? "violation" : "violations"} to fix before publishing`
+              : "No AA violations found"}
+          </h2>
+          <p className="text-xs text-slate-400">
+            {counts.warning} {counts.warning === 1 ? "warning" : "warnings"} • {counts.info} to check by hand
+          </p>
+        </div>
+        {fixable.length > 0 && (
+          <button
+            onClick={() => onFix(fixable)}
+            className="rounded-full bg-emerald-400 px-4 py-2 text-xs font-semibold text-emerald-950 transition hover:-translate-y-0.5"
+          >
+            Fix {fixable.length} automatically
+          </button>
+        )}
+      </div>
+      {sorted.length > 0 && (
+        <ul className="divide-y divide-white/5 rounded-2xl border border-white/10">
+          {sorted.map((issue) => (
+            <li key={issue.rule + issue.message} className="flex items-start gap-3 px-4 py-3 text-sm">
+              <span className={clsx("mt-1.5 h-2 w-2 shrink-0 rounded-full", SEVERITY_STYLES[issue.severity])} />
+              <div className="min-w-0 flex-1">
+                <p className="text-slate-200">{issue.message}</p>
+                <p className="mt-0.5 text-xs text-slate-500">
+                  <span className="uppercase tracking-wide">{issue.severity}</span> • WCAG {issue.wcag} • {issue.rule}
+                </p>
+              </div>
+              {issue.fix && (
+                <button
+                  onClick={() => onFix([issue.fix as A11yFix])}
+                  className="shrink-0 rounded-full border border-emerald-400/60 px-3 py-1 text-xs font-semibold text-emerald-100 transition hover:border-emerald-400 hover:text-white"
+                >
+                  {FIX_LABELS[issue.fix]}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
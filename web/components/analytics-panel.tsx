@@ -0,0 +1,121 @@
+"use client";
+
+import type { ReactNode } from "react";
+import {
+  ANALYTICS_PROVIDERS,
+  getAnalyticsProvider,
+  listTrackedEvents,
+  validateAnalytics,
+  type AnalyticsProvider,
+  type AnalyticsSettings,
+} from "@/lib/analytics";
+import type { PageBlueprint } from "@/lib/sections";
+
+type AnalyticsPanelProps = {
+  blueprint: PageBlueprint;
+  onChange: (settings?: AnalyticsSettings) => void;
+};
+
+export const AnalyticsPanel = ({ blueprint, onChange }: AnalyticsPanelProps) => {
+  const settings = blueprint.analytics;
+  const provider = settings && getAnalyticsProvider(settings.provider);
+  const error = settings && validateAnalytics(settings);
+  const update = (patch: Partial<AnalyticsSettings>) => settings && onChange({ ...settings, ...patch });
+
+  return (
+    <div className="grid gap-6 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur lg:grid-cols-2">
+      <div className="grid content-start gap-4">
+        <AnalyticsField label="Provider">
+          <select
+            className={INPUT_CLASS}
+            value={settings?.provider ?? ""}
+            onChange={(event) =>
+              onChange(
+                event.target.value
+                  ? { provider: event.target.value as AnalyticsProvider, siteId: "", trackSections: true }
+                  : undefined,
+              )
+            }
+          >
+            <option value="" className="bg-slate-900">
+              None
+            </option>
+            {ANALYTICS_PROVIDERS.map((entry) => (
+              <option key={entry.id} value={entry.id} className="bg-slate-900">
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        </AnalyticsField>
+        {settings && provider && (
+          <>
+            <AnalyticsField label={provider.idLabel}>
+              <input
+                className={INPUT_CLASS}
+                placeholder={provider.placeholder}
+                value={settings.siteId}
+                onChange={(event) => update({ siteId: event.target.value })}
+              />
+            </AnalyticsField>
+            {provider.defaultHost && (
+              <AnalyticsField label="Host (self-hosted or proxied)">
+                <input
+                  className={INPUT_CLASS}
+                  placeholder={provider.defaultHost}
+                  value={settings.host ?? ""}
+                  onChange={(event) => update({ host: event.target.value })}
+                />
+              </AnalyticsField>
+            )}
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                className="accent-emerald-400"
+                checked={settings.trackSections !== false}
+                onChange={(event) => update({ trackSections: event.target.checked })}
+              />
+              Track when each section scrolls into view
+            </label>
+            {error ? (
+              <p className="text-xs text-amber-300">{error} Exports skip tracking until this is fixed.</p>
+            ) : (
+              <p className="text-xs text-slate-400">
+                Exports load {provider.label} and tag the events listed here. The preview never sends events.
+              </p>
+            )}
+          </>
+        )}
+        {!settings && (
+          <p className="text-xs text-slate-400">
+            Pick a provider to add its snippet to every export, with CTA clicks, section views and form submissions
+            tagged automatically.
+          </p>
+        )}
+      </div>
+
+      {settings && (
+        <div className="grid content-start gap-2">
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Events</p>
+          <ul className="divide-y divide-white/5 rounded-2xl border border-white/10">
+            {listTrackedEvents(blueprint, settings).map((event) => (
+              <li key={event.name} className="flex flex-wrap items-baseline justify-between gap-x-3 px-4 py-2 text-xs">
+                <span className="font-mono text-emerald-200">{event.name}</span>
+                <span className="text-slate-400">{event.trigger}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const INPUT_CLASS =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:border-emerald-400 focus:outline-none";
+
+const AnalyticsField = ({ label, children }: { label: string; children: ReactNode }) => (
+  <label className="grid gap-1 text-xs">
+    <span className="text-slate-400">{label}</span>
+    {children}
+  </label>
+);
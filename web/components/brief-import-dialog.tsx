@@ -0,0 +1,185 @@
+"use client";
+
+import clsx from "clsx";
+import { useEffect, useRef, useState } from "react";
+import type { FormState } from "@/lib/brief";
+import {
+  BriefImportError,
+  IMPORT_FIELDS,
+  applyBriefImport,
+  importBrief,
+  type BriefImport,
+  type ImportField,
+} from "@/lib/brief-import";
+
+type BriefImportDialogProps = {
+  form: FormState;
+  onApply: (form: FormState) => void;
+  onClose: () => void;
+};
+
+const CONFIDENCE_STYLES = {
+  found: "border-emerald-400/60 bg-emerald-400/10 text-emerald-200",
+  guessed: "border-amber-400/60 bg-amber-400/10 text-amber-200",
+};
+
+export const BriefImportDialog = ({ form, onApply, onClose }: BriefImportDialogProps) => {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pasted, setPasted] = useState("");
+  const [result, setResult] = useState<(BriefImport & { fileName?: string }) | null>(null);
+  const [selected, setSelected] = useState<ImportField[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    dialog?.showModal();
+    return () => dialog?.close();
+  }, []);
+
+  const handleSource = (source: string, fileName?: string) => {
+    try {
+      const brief = importBrief(source, fileName);
+      setResult({ ...brief, fileName });
+      setSelected(IMPORT_FIELDS.map((field) => field.key).filter((key) => brief.values[key]));
+      setError(null);
+    } catch (importError) {
+      if (!(importError instanceof BriefImportError)) console.error("Brief import failed", importError);
+      setError(importError instanceof Error ? importError.message : "Couldn't read that file.");
+    }
+  };
+
+  const toggle = (key: ImportField) =>
+    setSelected((current) => (current.includes(key) ? current.filter((entry) => entry !== key) : [...current, key]));
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={onClose}
+      className="m-auto w-full max-w-3xl rounded-3xl border border-white/10 bg-slate-900 p-0 text-slate-100 shadow-2xl shadow-black/60 backdrop:bg-black/70 backdrop:backdrop-blur-sm"
+    >
+      <div className="space-y-5 p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Import a brief</h2>
+            <p className="mt-1 text-sm text-slate-400">
+              From a README, a markdown PRD or an existing landing page. Nothing changes until you apply.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="text-xl leading-none text-slate-400 transition hover:text-white"
+          >
+            ×
+          </button>
+        </div>
+
+        {!result ? (
+          <div className="grid gap-3">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center justify-center rounded-2xl border border-dashed border-white/15 px-4 py-6 text-sm font-semibold text-slate-300 transition hover:border-emerald-400/60 hover:text-white"
+            >
+              Choose a file (.md, .txt, .html)
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".md,.markdown,.txt,.html,.htm,text/markdown,text/plain,text/html"
+              className="hidden"
+              onChange={async (event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) handleSource(await file.text(), file.name);
+              }}
+            />
+            <p className="text-center text-xs uppercase tracking-[0.3em] text-slate-500">or paste</p>
+            <textarea
+              rows={8}
+              placeholder="# Product name&#10;&#10;## Problem&#10;…"
+              className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 font-mono text-xs text-white focus:border-emerald-400 focus:outline-none"
+              value={pasted}
+              onChange={(event) => setPasted(event.target.value)}
+            />
+            <button
+              type="button"
+              disabled={!pasted.trim()}
+              onClick={() => handleSource(pasted)}
+              className="justify-self-end rounded-full bg-emerald-400 px-5 py-2 text-sm font-semibold text-slate-900 transition hover:bg-emerald-300 disabled:opacity-60"
+            >
+              Extract fields
+            </button>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            <p className="text-xs text-slate-400">
+              Read{" "}
+              {result.fileName ? <span className="font-mono text-slate-200">{result.fileName}</span> : "pasted text"} as{" "}
+              {result.format === "html" ? "an HTML page" : "markdown"}.{" "}
+              <strong className="text-emerald-200">Found</strong> values sit under a matching heading or tag;{" "}
+              <strong className="text-amber-200">guessed</strong> ones are inferred, so check them first.
+            </p>
+            <ul className="max-h-[55vh] divide-y divide-white/5 overflow-y-auto rounded-2xl border border-white/10">
+              {IMPORT_FIELDS.map(({ key, label }) => {
+                const imported = result.values[key];
+                return (
+                  <li key={key} className={clsx("grid gap-1 px-4 py-3", !imported && "opacity-60")}>
+                    <label className="flex flex-wrap items-center gap-2 text-xs">
+                      <input
+                        type="checkbox"
+                        className="accent-emerald-400"
+                        disabled={!imported}
+                        checked={selected.includes(key)}
+                        onChange={() => toggle(key)}
+                      />
+                      <span className="font-semibold uppercase tracking-[0.2em] text-slate-300">{label}</span>
+                      {imported ? (
+                        <span
+                          className={clsx(
+                            "rounded-full border px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide",
+                            CONFIDENCE_STYLES[imported.confidence],
+                          )}
+                        >
+                          {imported.confidence}
+                        </span>
+                      ) : (
+                        <span className="text-slate-500">Not found — keeps its current value</span>
+                      )}
+                      {imported && <span className="text-slate-500">from {imported.source}</span>}
+                    </label>
+                    {imported && <p className="whitespace-pre-line pl-6 text-sm text-slate-100">{imported.value}</p>}
+                    {imported && form[key] && form[key] !== imported.value && (
+                      <p className="line-clamp-1 pl-6 text-xs text-slate-500">Replaces “{form[key]}”</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="flex flex-wrap justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setResult(null)}
+                className="rounded-full border border-white/15 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-white/30 hover:text-white"
+              >
+                Try another source
+              </button>
+              <button
+                type="button"
+                disabled={selected.length === 0}
+                onClick={() => onApply(applyBriefImport(form, result, selected))}
+                className="rounded-full bg-emerald-400 px-5 py-2 text-sm font-semibold text-slate-900 transition hover:bg-emerald-300 disabled:opacity-60"
+              >
+                Apply {selected.length} {selected.length === 1 ? "field" : "fields"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-rose-300">{error}</p>}
+      </div>
+    </dialog>
+  );
+};
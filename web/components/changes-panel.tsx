@@ -0,0 +1,210 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { clsx } from "clsx";
+import { applyEdits, type BlueprintEdits } from "@/lib/blueprint-edits";
+import { countChanges, diffBlueprints, type SectionDiff, type TextChange } from "@/lib/blueprint-diff";
+import type { HistoryEntry } from "@/lib/history";
+import type { ProjectVersion } from "@/lib/library";
+import type { PageBlueprint } from "@/lib/sections";
+
+type ChangesPanelProps = {
+  blueprint: PageBlueprint;
+  edits: BlueprintEdits;
+  // Saved versions of the open project, newest first.
+  versions: ProjectVersion[];
+  // Undo steps from this session, oldest first.
+  history: HistoryEntry[];
+  onRestoreSection: (source: PageBlueprint, sectionId: string) => void;
+};
+
+type Baseline = { id: string; group: "saved" | "session"; label: string; blueprint: PageBlueprint };
+
+const STATUS_STYLES: Record<SectionDiff["status"], string> = {
+  added: "border-emerald-400/60 bg-emerald-400/10 text-emerald-200",
+  removed: "border-rose-400/60 bg-rose-400/10 text-rose-200",
+  changed: "border-amber-400/60 bg-amber-400/10 text-amber-200",
+  unchanged: "border-white/10 text-slate-400",
+};
+
+const formatTime = (value: number | string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// Pages are compared as the reader saw them, with that version's manual edits applied.
+const listBaselines = (
+  blueprint: PageBlueprint,
+  edits: BlueprintEdits,
+  versions: ProjectVersion[],
+  history: HistoryEntry[],
+) => {
+  const saved = versions
+    .filter((version) => version.generatedAt !== blueprint.generatedAt)
+    .map((version, index): Baseline => ({
+      id: version.id,
+      group: "saved",
+      label: `v${versions.length - index} · ${formatTime(version.generatedAt)}`,
+      blueprint: applyEdits(version.blueprint, version.edits ?? {}),
+    }));
+  // Brief-only steps don't touch the page, so only steps that changed it are worth comparing against.
+  const session: Baseline[] = [];
+  history.forEach((entry, index) => {
+    const after = history[index + 1]?.snapshot ?? { blueprint, edits };
+    if (after.blueprint === entry.snapshot.blueprint && after.edits === entry.snapshot.edits) return;
+    session.unshift({
+      id: `session-${index}`,
+      group: "session",
+      label: `Before “${entry.label}” · ${formatTime(entry.at)}`,
+      blueprint: applyEdits(entry.snapshot.blueprint, entry.snapshot.edits),
+    });
+  });
+  return [...session, ...saved];
+};
+
+export const ChangesPanel = ({ blueprint, edits, versions, history, onRestoreSection }: ChangesPanelProps) => {
+  const baselines = useMemo(
+    () => listBaselines(blueprint, edits, versions, history),
+    [blueprint, edits, versions, history],
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const baseline = baselines.find((entry) => entry.id === selectedId) ?? baselines[0];
+  const current = useMemo(() => applyEdits(blueprint, edits), [blueprint, edits]);
+  const diff = useMemo(() => baseline && diffBlueprints(baseline.blueprint, current), [baseline, current]);
+
+  if (!baseline || !diff) {
+    return (
+      <div className="rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300 shadow-2xl shadow-black/40 backdrop-blur">
+        Nothing to compare yet. Generate again, edit the page or save the project to keep versions, then come back to
+        see what changed.
+      </div>
+    );
+  }
+
+  const total = countChanges(diff);
+  const unchanged = diff.sections.filter((section) => section.status === "unchanged");
+  const sections = showUnchanged ? diff.sections : diff.sections.filter((section) => section.status !== "unchanged");
+
+  return (
+    <div className="space-y-5 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Changes</p>
+          <h2 className="mt-1 text-lg font-semibold text-white">
+            {total
+              ? `${total} ${total === 1 ? "change" : "changes"} since this version`
+              : "No changes since this version"}
+          </h2>
+        </div>
+        <label className="grid gap-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+          Compare with
+          <select
+            className="rounded-2xl border border-white/10 bg-slate-900 px-3 py-2 text-sm normal-case tracking-normal text-white focus:border-emerald-400 focus:outline-none"
+            value={baseline.id}
+            onChange={(event) => setSelectedId(event.target.value)}
+          >
+            {(["session", "saved"] as const).map((group) => {
+              const options = baselines.filter((entry) => entry.group === group);
+              return (
+                options.length > 0 && (
+                  <optgroup key={group} label={group === "session" ? "This session" : "Saved versions"}>
+                    {options.map((entry) => (
+                      <option key={entry.id} value={entry.id}>
+                        {entry.label}
+                      </option>
+                    ))}
+                  </optgroup>
+                )
+              );
+            })}
+          </select>
+        </label>
+      </div>
+
+      {diff.theme.length > 0 && <ChangeGroup title="Theme" changes={diff.theme} />}
+      {diff.hero.length > 0 && <ChangeGroup title="Hero" changes={diff.hero} />}
+
+      {sections.length > 0 && (
+        <ul className="space-y-3">
+          {sections.map((section) => (
+            <li key={section.id} className="rounded-2xl border border-white/10 bg-slate-950/40 px-4 py-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span
+                  className={clsx(
+                    "rounded-full border px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide",
+                    STATUS_STYLES[section.status],
+                  )}
+                >
+                  {section.status}
+                </span>
+                {section.status === "changed" && section.moved && (
+                  <span className="rounded-full border border-sky-400/60 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-sky-200">
+                    moved
+                  </span>
+                )}
+                <p className="min-w-0 flex-1 truncate text-sm font-semibold text-white">
+                  {section.headline || section.label || section.id}
+                </p>
+                {(section.status === "changed" || section.status === "removed") && (
+                  <button
+                    onClick={() => onRestoreSection(baseline.blueprint, section.id)}
+                    className="shrink-0 rounded-full border border-emerald-400/60 px-3 py-1 text-xs font-semibold text-emerald-100 transition hover:border-emerald-400 hover:text-white"
+                  >
+                    Restore this section
+                  </button>
+                )}
+              </div>
+              {section.status === "changed" && (
+                <div className="mt-2 space-y-2">
+                  {section.text.length > 0 && <ChangeList changes={section.text} />}
+                  <ItemList label="Added" items={section.addedItems} className="text-emerald-200" />
+                  <ItemList label="Removed" items={section.removedItems} className="text-rose-200 line-through" />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unchanged.length > 0 && (
+        <button onClick={() => setShowUnchanged((value) => !value)} className="text-xs text-slate-400 hover:text-white">
+          {showUnchanged ? "Hide" : "Show"} {unchanged.length} unchanged{" "}
+          {unchanged.length === 1 ? "section" : "sections"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ChangeGroup = ({ title, changes }: { title: string; changes: TextChange[] }) => (
+  <div className="space-y-2">
+    <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">{title}</h3>
+    <ChangeList changes={changes} />
+  </div>
+);
+
+const ChangeList = ({ changes }: { changes: TextChange[] }) => (
+  <dl className="space-y-2 text-sm">
+    {changes.map((entry) => (
+      <div key={entry.label} className="grid gap-1 sm:grid-cols-[140px,1fr]">
+        <dt className="text-xs text-slate-400">{entry.label}</dt>
+        <dd className="min-w-0 space-y-0.5">
+          {entry.before && <p className="break-words text-rose-200/80 line-through">{entry.before}</p>}
+          {entry.after && <p className="break-words text-emerald-200">{entry.after}</p>}
+        </dd>
+      </div>
+    ))}
+  </dl>
+);
+
+const ItemList = ({ label, items, className }: { label: string; items: string[]; className: string }) =>
+  items.length > 0 && (
+    <p className="text-xs text-slate-400">
+      {label} items:{" "}
+      {items.map((item, index) => (
+        <span key={item}>
+          {index > 0 && ", "}
+          <span className={className}>{item}</span>
+        </span>
+      ))}
+    </p>
+  );
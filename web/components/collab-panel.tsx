@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { clsx } from "clsx";
+import { displayName } from "@/lib/collab";
+import type { CollabStatus } from "@/lib/collab-session";
+import type { Collaboration } from "@/lib/use-collaboration";
+
+type CollabPanelProps = {
+  collab: Collaboration;
+};
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  offline: "Offline",
+  connecting: "Connecting…",
+  syncing: "Loading the shared brief…",
+  live: "Live",
+  reconnecting: "Reconnecting… your changes are kept and sent when it's back",
+};
+
+export const CollabPanel = ({ collab }: CollabPanelProps) => {
+  const [copied, setCopied] = useState(false);
+  const { roomId, self, peers, status, error } = collab;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch (copyError) {
+      console.error("Copy failed", copyError);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Live session</h3>
+        {roomId && (
+          <span className="flex items-center gap-1.5 text-xs text-slate-300">
+            <span
+              className={clsx(
+                "h-2 w-2 rounded-full",
+                status === "live" ? "bg-emerald-400" : "animate-pulse bg-amber-300",
+              )}
+            />
+            {status === "live" ? "Live" : "Connecting"}
+          </span>
+        )}
+      </div>
+
+      <label className="grid gap-1 text-xs">
+        <span className="text-slate-400">Your name, shown to teammates</span>
+        <NameInput name={collab.name} onCommit={collab.rename} />
+      </label>
+
+      {roomId ? (
+        <>
+          {status !== "live" && <p className="text-xs text-slate-400">{STATUS_LABELS[status]}</p>}
+          {error && <p className="text-xs text-rose-300">{error}</p>}
+          <ul className="flex flex-wrap gap-2">
+            {[...(self ? [self] : []), ...peers].map((peer) => (
+              <li
+                key={peer.id}
+                className="flex items-center gap-1.5 rounded-full border border-white/10 px-2.5 py-1 text-xs text-slate-200"
+              >
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: peer.color }} />
+                {displayName(peer.name)}
+                {peer.id === self?.id && <span className="text-slate-400">(you)</span>}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCopy}
+              className="flex-1 rounded-xl border border-emerald-400/60 px-4 py-2 text-xs font-semibold text-emerald-100 transition hover:border-emerald-400 hover:text-white"
+            >
+              {copied ? "Invite link copied" : "Copy invite link"}
+            </button>
+            <button
+              onClick={() => {
+                setCopied(false);
+                collab.leave();
+              }}
+              className="rounded-xl border border-white/10 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:border-white/25 hover:text-white"
+            >
+              Leave
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-slate-400">
+            Edit the brief and the page together. Everyone with the link sees changes as they&apos;re typed, and edits
+            to the same text merge instead of overwriting each other.
+          </p>
+          <button
+            onClick={collab.start}
+            className="w-full rounded-xl border border-emerald-400/60 px-4 py-2 text-xs font-semibold text-emerald-100 transition hover:border-emerald-400 hover:text-white"
+          >
+            Start a live session
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Committed on blur so a rename is one change for everyone else, not one per keystroke.
+const NameInput = ({ name, onCommit }: { name: string; onCommit: (name: string) => void }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null && draft.trim() !== name) onCommit(draft.trim());
+    setDraft(null);
+  };
+  return (
+    <input
+      className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-white focus:border-emerald-400 focus:outline-none"
+      placeholder="Guest"
+      maxLength={40}
+      value={draft ?? name}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") commit();
+      }}
+    />
+  );
+};
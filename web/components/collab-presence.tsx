@@ -0,0 +1,146 @@
+"use client";
+
+import { useLayoutEffect, useRef, type ReactNode } from "react";
+import { displayName } from "@/lib/collab";
+import type { FieldAuthor, PeerCaret } from "@/lib/use-collaboration";
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement;
+
+const MIRRORED_STYLES = [
+  "boxSizing",
+  "width",
+  "paddingTop",
+  "paddingRight",
+  "paddingBottom",
+  "paddingLeft",
+  "borderTopWidth",
+  "borderRightWidth",
+  "borderBottomWidth",
+  "borderLeftWidth",
+  "fontFamily",
+  "fontSize",
+  "fontWeight",
+  "fontStyle",
+  "letterSpacing",
+  "lineHeight",
+  "textTransform",
+  "wordSpacing",
+  "tabSize",
+] as const;
+
+// Fields don't expose where a character is drawn, so the text up to the caret is laid out in an invisible copy
+// with the same box and font, and the end of it measured.
+const caretPosition = (field: FieldElement, index: number) => {
+  const style = window.getComputedStyle(field);
+  const mirror = document.createElement("div");
+  MIRRORED_STYLES.forEach((property) => {
+    mirror.style[property] = style[property];
+  });
+  Object.assign(mirror.style, {
+    position: "absolute",
+    top: "0",
+    left: "-9999px",
+    visibility: "hidden",
+    borderStyle: "solid",
+    whiteSpace: field instanceof HTMLTextAreaElement ? "pre-wrap" : "pre",
+    overflowWrap: "break-word",
+  });
+  mirror.textContent = field.value.slice(0, index);
+  const marker = document.createElement("span");
+  marker.textContent = "\u200b";
+  mirror.append(marker);
+  document.body.append(mirror);
+  const left = marker.offsetLeft - field.scrollLeft;
+  const top = marker.offsetTop - field.scrollTop;
+  const height = marker.offsetHeight;
+  mirror.remove();
+  const visible = left >= 0 && left <= field.clientWidth && top >= 0 && top + height <= field.clientHeight + 2;
+  return {
+    left: field.offsetLeft + field.clientLeft + left,
+    top: field.offsetTop + field.clientTop + top,
+    height,
+    visible,
+  };
+};
+
+type PresenceCaretsProps = {
+  peers: PeerCaret[];
+  children: ReactNode;
+};
+
+// Teammates' carets drawn over the field in their colour.
+export const PresenceCarets = ({ peers, children }: PresenceCaretsProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const field = container?.querySelector("input, textarea");
+    if (!container || !(field instanceof HTMLInputElement || field instanceof HTMLTextAreaElement)) return;
+    const place = () =>
+      peers.forEach((peer) => {
+        const caret = container.querySelector<HTMLElement>(`[data-peer="${peer.id}"]`);
+        if (!caret || peer.caret === undefined) return;
+        const { left, top, height, visible } = caretPosition(field, peer.caret);
+        caret.style.transform = `translate(${left}px, ${top}px)`;
+        caret.style.height = `${height}px`;
+        caret.style.opacity = visible ? "1" : "0";
+      });
+    place();
+    field.addEventListener("scroll", place);
+    window.addEventListener("resize", place);
+    return () => {
+      field.removeEventListener("scroll", place);
+      window.removeEventListener("resize", place);
+    };
+  }, [peers]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      {children}
+      {peers.map(
+        (peer) =>
+          peer.caret !== undefined && (
+            <span
+              key={peer.id}
+              data-peer={peer.id}
+              aria-hidden
+              className="pointer-events-none absolute left-0 top-0 w-0.5 opacity-0 transition-transform duration-75"
+              style={{ backgroundColor: peer.color }}
+            >
+              <span
+                className="absolute -top-4 left-0 whitespace-nowrap rounded px-1 text-[10px] font-semibold leading-4 text-slate-950"
+                style={{ backgroundColor: peer.color }}
+              >
+                {displayName(peer.name)}
+              </span>
+            </span>
+          ),
+      )}
+    </div>
+  );
+};
+
+// Everyone in the field, for pickers that have no caret to draw.
+export const PresenceBadges = ({ peers }: { peers: PeerCaret[] }) =>
+  peers.length > 0 && (
+    <span className="flex gap-1">
+      {peers.map((peer) => (
+        <span
+          key={peer.id}
+          title={`${displayName(peer.name)} is here`}
+          className="rounded-full px-1.5 text-[10px] font-semibold normal-case tracking-normal text-slate-950"
+          style={{ backgroundColor: peer.color }}
+        >
+          {displayName(peer.name)}
+        </span>
+      ))}
+    </span>
+  );
+
+export const AuthorNote = ({ author }: { author: FieldAuthor }) => (
+  <span className="flex items-center gap-1.5 text-[11px] text-slate-500">
+    <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: author.color }} />
+    Last edited by {author.name} at{" "}
+    {new Date(author.at).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}
+  </span>
+);
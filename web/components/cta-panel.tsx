@@ -0,0 +1,188 @@
+"use client";
+
+import type { ReactNode } from "react";
+import {
+  CTA_SLOTS,
+  CTA_TYPES,
+  LEADS_ROUTE,
+  LEAD_FORMS,
+  createCtaTarget,
+  getCta,
+  validateCta,
+  type CtaSlot,
+  type CtaTarget,
+  type CtaTargets,
+  type CtaType,
+  type LeadFormKind,
+} from "@/lib/cta";
+import type { PageBlueprint } from "@/lib/sections";
+
+type CtaPanelProps = {
+  blueprint: PageBlueprint;
+  onChange: (ctas: CtaTargets) => void;
+};
+
+const SLOT_LABELS: Record<CtaSlot, string> = { primary: "Primary button", secondary: "Secondary button" };
+
+export const CtaPanel = ({ blueprint, onChange }: CtaPanelProps) => {
+  const update = (slot: CtaSlot, target: CtaTarget) => onChange({ ...blueprint.ctas, [slot]: target });
+  const hasForm = CTA_SLOTS.some((slot) => getCta(blueprint, slot).type === "form");
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur">
+      <div className="grid gap-6 lg:grid-cols-2">
+        {CTA_SLOTS.map((slot) => (
+          <CtaEditor
+            key={slot}
+            title={SLOT_LABELS[slot]}
+            label={slot === "primary" ? blueprint.hero.primaryCta : blueprint.hero.secondaryCta}
+            target={getCta(blueprint, slot)}
+            blueprint={blueprint}
+            onChange={(target) => update(slot, target)}
+          />
+        ))}
+      </div>
+      {hasForm && (
+        <p className="text-xs text-slate-400">
+          Forms post to this app&apos;s{" "}
+          <a
+            href={LEADS_ROUTE}
+            target="_blank"
+            rel="noreferrer"
+            className="font-mono text-emerald-300 hover:text-white"
+          >
+            {LEADS_ROUTE}
+          </a>{" "}
+          unless you set an endpoint. Submissions are kept in <span className="font-mono">.data/leads.jsonl</span> for
+          testing — point the form at your own backend before going live.
+        </p>
+      )}
+    </div>
+  );
+};
+
+type CtaEditorProps = {
+  title: string;
+  label: string;
+  target: CtaTarget;
+  blueprint: PageBlueprint;
+  onChange: (target: CtaTarget) => void;
+};
+
+const CtaEditor = ({ title, label, target, blueprint, onChange }: CtaEditorProps) => {
+  const error = validateCta(target);
+
+  return (
+    <div className="grid content-start gap-3">
+      <p className="text-xs uppercase tracking-[0.3em] text-slate-400">
+        {title} · <span className="normal-case tracking-normal text-slate-200">“{label}”</span>
+      </p>
+      <CtaField label="Opens">
+        <select
+          className={INPUT_CLASS}
+          value={target.type}
+          onChange={(event) => onChange(createCtaTarget(event.target.value as CtaType))}
+        >
+          {CTA_TYPES.map((type) => (
+            <option key={type.id} value={type.id} className="bg-slate-900">
+              {type.label}
+            </option>
+          ))}
+        </select>
+      </CtaField>
+
+      {target.type === "section" && (
+        <CtaField label="Section">
+          <select
+            className={INPUT_CLASS}
+            value={target.sectionId ?? ""}
+            onChange={(event) => onChange({ ...target, sectionId: event.target.value || undefined })}
+          >
+            <option value="" className="bg-slate-900">
+              Automatic
+            </option>
+            {blueprint.sections.map((section) => (
+              <option key={section.id} value={section.id} className="bg-slate-900">
+                {section.label} — {section.headline}
+              </option>
+            ))}
+          </select>
+        </CtaField>
+      )}
+      {target.type === "url" && (
+        <CtaField label="URL">
+          <input
+            className={INPUT_CLASS}
+            placeholder="https://app.example.com/signup"
+            value={target.url}
+            onChange={(event) => onChange({ ...target, url: event.target.value })}
+          />
+        </CtaField>
+      )}
+      {target.type === "email" && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <CtaField label="Address">
+            <input
+              type="email"
+              className={INPUT_CLASS}
+              placeholder="hello@example.com"
+              value={target.address}
+              onChange={(event) => onChange({ ...target, address: event.target.value })}
+            />
+          </CtaField>
+          <CtaField label="Subject (optional)">
+            <input
+              className={INPUT_CLASS}
+              value={target.subject ?? ""}
+              onChange={(event) => onChange({ ...target, subject: event.target.value })}
+            />
+          </CtaField>
+        </div>
+      )}
+      {target.type === "form" && (
+        <>
+          <CtaField label="Form">
+            <select
+              className={INPUT_CLASS}
+              value={target.form}
+              onChange={(event) => onChange({ ...target, form: event.target.value as LeadFormKind })}
+            >
+              {Object.entries(LEAD_FORMS).map(([id, form]) => (
+                <option key={id} value={id} className="bg-slate-900">
+                  {form.label}
+                </option>
+              ))}
+            </select>
+          </CtaField>
+          <CtaField label="Endpoint">
+            <input
+              className={INPUT_CLASS}
+              placeholder={`${LEADS_ROUTE} (built in, for testing)`}
+              value={target.endpoint ?? ""}
+              onChange={(event) => onChange({ ...target, endpoint: event.target.value })}
+            />
+          </CtaField>
+          <CtaField label="Success message">
+            <input
+              className={INPUT_CLASS}
+              placeholder={LEAD_FORMS[target.form].success}
+              value={target.successMessage ?? ""}
+              onChange={(event) => onChange({ ...target, successMessage: event.target.value })}
+            />
+          </CtaField>
+        </>
+      )}
+      {error && <p className="text-xs text-amber-300">{error}</p>}
+    </div>
+  );
+};
+
+const INPUT_CLASS =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:border-emerald-400 focus:outline-none";
+
+const CtaField = ({ label, children }: { label: string; children: ReactNode }) => (
+  <label className="grid gap-1 text-xs">
+    <span className="text-slate-400">{label}</span>
+    {children}
+  </label>
+);
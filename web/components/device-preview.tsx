@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { clsx } from "clsx";
+import {
+  DEVICES,
+  MAX_VIEWPORT_WIDTH,
+  MIN_VIEWPORT_WIDTH,
+  ZOOM_LEVELS,
+  clampViewportWidth,
+  fitZoom,
+  frameSize,
+  toggleDevice,
+  type ViewportSettings,
+} from "@/lib/devices";
+
+const FRAME_GAP = 24;
+
+const chipClass = (active: boolean) =>
+  clsx(
+    "rounded-full px-3 py-1.5 text-xs font-semibold transition",
+    active ? "bg-white text-slate-900" : "text-slate-300 hover:text-white",
+  );
+
+type DeviceToolbarProps = {
+  settings: ViewportSettings;
+  onChange: (settings: ViewportSettings) => void;
+};
+
+export const DeviceToolbar = ({ settings, onChange }: DeviceToolbarProps) => {
+  const update = (patch: Partial<ViewportSettings>) => onChange({ ...settings, ...patch });
+  const devicesMode = settings.mode === "devices";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <nav
+        className="flex items-center gap-1 rounded-full border border-white/10 bg-white/5 p-1.5"
+        aria-label="Preview mode"
+      >
+        <button
+          onClick={() => update({ mode: "canvas" })}
+          aria-pressed={!devicesMode}
+          className={chipClass(!devicesMode)}
+        >
+          Edit
+        </button>
+        {DEVICES.map((device) => {
+          const active = devicesMode && settings.deviceIds.includes(device.id);
+          return (
+            <button
+              key={device.id}
+              onClick={() =>
+                update({
+                  mode: "devices",
+                  // The first click from edit mode switches view; after that devices toggle for side-by-side.
+                  deviceIds: devicesMode ? toggleDevice(settings.deviceIds, device.id) : [device.id],
+                })
+              }
+              aria-pressed={active}
+              className={chipClass(active)}
+            >
+              {device.label}
+            </button>
+          );
+        })}
+      </nav>
+      {devicesMode && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+          {settings.deviceIds.includes("custom") && (
+            <label className="flex items-center gap-2 rounded-full border border-white/10 px-3 py-1.5">
+              Width
+              <input
+                type="number"
+                min={MIN_VIEWPORT_WIDTH}
+                max={MAX_VIEWPORT_WIDTH}
+                step={10}
+                value={settings.customWidth}
+                onChange={(event) => update({ customWidth: Number(event.target.value) })}
+                onBlur={() => update({ customWidth: clampViewportWidth(settings.customWidth) })}
+                className="w-16 bg-transparent text-right tabular-nums text-white focus:outline-none"
+              />
+              px
+            </label>
+          )}
+          <button
+            onClick={() => update({ rotated: !settings.rotated })}
+            aria-pressed={settings.rotated}
+            className={clsx(
+              "rounded-full border px-3 py-1.5 font-semibold transition",
+              settings.rotated
+                ? "border-emerald-400 bg-emerald-500/10 text-emerald-200"
+                : "border-white/10 hover:border-emerald-400 hover:text-white",
+            )}
+          >
+            Rotate
+          </button>
+          <label className="flex items-center gap-2 rounded-full border border-white/10 px-3 py-1.5">
+            Zoom
+            <select
+              value={String(settings.zoom)}
+              onChange={(event) => update({ zoom: event.target.value === "fit" ? "fit" : Number(event.target.value) })}
+              className="bg-transparent text-white focus:outline-none"
+            >
+              <option value="fit" className="bg-slate-900">
+                Fit
+              </option>
+              {ZOOM_LEVELS.map((level) => (
+                <option key={level} value={level} className="bg-slate-900">
+                  {level * 100}%
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+type DeviceFramesProps = {
+  html: string;
+  settings: ViewportSettings;
+};
+
+// Renders the exported document, not the editable canvas, so breakpoints and export-only markup show as deployed.
+export const DeviceFrames = ({ html, settings }: DeviceFramesProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setAvailable(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const frames = DEVICES.filter((device) => settings.deviceIds.includes(device.id)).map((device) => ({
+    device,
+    ...frameSize(device, settings),
+  }));
+  const scale =
+    settings.zoom === "fit"
+      ? fitZoom(
+          frames.map((frame) => frame.width),
+          available,
+          FRAME_GAP,
+        )
+      : settings.zoom;
+
+  return (
+    <div
+      ref={containerRef}
+      className="overflow-x-auto rounded-[40px] border border-white/10 bg-slate-950/60 p-6 shadow-[0_40px_120px_rgba(15,23,42,0.45)]"
+    >
+      <div className="flex w-max items-start" style={{ gap: FRAME_GAP }}>
+        {frames.map(({ device, width, height }) => (
+          <figure key={device.id} className="space-y-2" style={{ width: width * scale }}>
+            <figcaption className="flex flex-wrap justify-between gap-x-3 text-xs text-slate-400">
+              <span className="font-semibold text-slate-200">{device.label}</span>
+              <span className="tabular-nums">
+                {width}×{height} • {Math.round(scale * 100)}%
+              </span>
+            </figcaption>
+            <div
+              className="overflow-hidden rounded-2xl border border-white/15 bg-white shadow-2xl shadow-black/40"
+              style={{ width: width * scale, height: height * scale }}
+            >
+              {/* An empty sandbox keeps the export's styles and any scripts away from the app. */}
+              <iframe
+                title={`${device.label} preview, ${width} by ${height}`}
+                srcDoc={html}
+                sandbox=""
+                className="origin-top-left border-0"
+                style={{ width, height, transform: `scale(${scale})` }}
+              />
+            </div>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+"use client";
+
+import type { CSSProperties, KeyboardEvent } from "react";
+import { clsx } from "clsx";
+import type { StringFlag } from "@/lib/locales";
+
+const FLAG_STYLES: Record<StringFlag, { className: string; title: string }> = {
+  missing: {
+    className: "outline-dashed outline-2 outline-offset-4 outline-rose-400",
+    title: "Not translated yet — showing the English copy",
+  },
+  outdated: {
+    className: "outline-dashed outline-2 outline-offset-4 outline-amber-400",
+    title: "The English copy changed since this was translated",
+  },
+  "too-long": {
+    className: "outline outline-2 outline-offset-4 outline-amber-400",
+    title: "Longer than this slot comfortably fits",
+  },
+};
+
+type EditableTextProps = {
+  as?: "span" | "p" | "h1" | "h2" | "h3" | "dt" | "dd";
+  value: string;
+  path: string;
+  className?: string;
+  style?: CSSProperties;
+  multiline?: boolean;
+  edited?: boolean;
+  flag?: StringFlag;
+  onEdit?: (path: string, value: string) => void;
+};
+
+export const EditableText = ({
+  as: Tag = "span",
+  value,
+  path,
+  className,
+  style,
+  multiline = false,
+  edited = false,
+  flag,
+  onEdit,
+}: EditableTextProps) => {
+  const flagClassName = flag && FLAG_STYLES[flag].className;
+
+  if (!onEdit) {
+    return (
+      <Tag className={clsx(className, flagClassName)} style={style} title={flag && FLAG_STYLES[flag].title}>
+        {value}
+      </Tag>
+    );
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key === "Escape") {
+      event.currentTarget.textContent = value;
+      event.currentTarget.blur();
+    }
+    if (event.key === "Enter" && (!multiline || event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      event.currentTarget.blur();
+    }
+  };
+
+  return (
+    <Tag
+      // The browser owns the DOM while editing; remounting on a new value keeps React's text node in sync.
+      key={value}
+      contentEditable="plaintext-only"
+      suppressContentEditableWarning
+      spellCheck
+      data-path={path}
+      title={flag ? FLAG_STYLES[flag].title : edited ? "Edited — survives regeneration" : "Click to edit"}
+      className={clsx(
+        className,
+        "cursor-text rounded-md outline-none transition hover:outline-dashed hover:outline-1 hover:outline-offset-4 hover:outline-current/40 focus:outline-2 focus:outline-offset-4 focus:outline-emerald-400",
+        edited && "underline decoration-emerald-400/70 decoration-dotted underline-offset-4",
+        flagClassName,
+      )}
+      style={style}
+      onKeyDown={handleKeyDown}
+      onBlur={(event) => {
+        // `innerText`, unlike `textContent`, turns the <br>s some browsers insert for Enter into line breaks.
+        const text = event.currentTarget.innerText;
+        // Line breaks are copy in multi-line slots; elsewhere they're only what pasting left behind.
+        const next = (multiline ? text.replace(/\r\n?/g, "\n") : text.replace(/\s+/g, " ")).trim();
+        if (!next) {
+          event.currentTarget.textContent = value;
+          return;
+        }
+        if (next !== value) onEdit(path, next);
+      }}
+    >
+      {value}
+    </Tag>
+  );
+};
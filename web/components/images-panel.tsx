@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { clsx } from "clsx";
+import { ILLUSTRATION_KINDS, type IllustrationKind, type IllustrationTheme } from "@/lib/illustrations";
+import { ImageUploadError, optimizeImage } from "@/lib/image-upload";
+import type { PageBlueprint } from "@/lib/sections";
+import {
+  illustratePage,
+  imageSeed,
+  resolveImage,
+  setHeroImage,
+  setItemImage,
+  setSectionImages,
+  supportsItemImages,
+  type ImageSlot,
+  type UploadedImage,
+} from "@/lib/visuals";
+
+type ImagesPanelProps = {
+  blueprint: PageBlueprint;
+  // The page as shown, so thumbnails match the preview's theme.
+  theme: IllustrationTheme;
+  // Alt text changes come with a group so typing in one field undoes as one step.
+  onChange: (next: PageBlueprint, group?: string) => void;
+};
+
+const INPUT_CLASS =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:border-emerald-400 focus:outline-none";
+
+const BUTTON_CLASS =
+  "cursor-pointer rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white";
+
+export const ImagesPanel = ({ blueprint, theme, onChange }: ImagesPanelProps) => {
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sections = blueprint.sections.filter(supportsItemImages);
+
+  const upload = async (key: string, file: File, apply: (image: UploadedImage) => PageBlueprint) => {
+    setError(null);
+    setUploading(key);
+    try {
+      onChange(apply(await optimizeImage(file)));
+    } catch (uploadError) {
+      if (!(uploadError instanceof ImageUploadError)) console.error("Image upload failed", uploadError);
+      setError(uploadError instanceof ImageUploadError ? uploadError.message : "Couldn't add that image.");
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const hero = blueprint.heroImage;
+
+  return (
+    <div className="space-y-5 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Images</p>
+          <h2 className="mt-1 text-lg font-semibold text-white">Hero and section visuals</h2>
+          <p className="text-xs text-slate-400">
+            Upload your own or use illustrations drawn from the theme. Uploads are resized and embedded in the export.
+          </p>
+        </div>
+        <button
+          onClick={() => onChange(illustratePage(blueprint))}
+          className="rounded-full bg-emerald-400 px-4 py-2 text-xs font-semibold text-emerald-950 transition hover:-translate-y-0.5"
+        >
+          Illustrate every empty slot
+        </button>
+      </div>
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+
+      <div className="space-y-3 rounded-2xl border border-white/10 bg-slate-950/40 px-4 py-3">
+        <SlotHeader
+          title="Hero"
+          value={hero?.illustration}
+          noneLabel="Stats only"
+          onSelect={(illustration) =>
+            onChange(setHeroImage(blueprint, illustration && { alt: "", ...hero, illustration }))
+          }
+        />
+        {hero && (
+          <SlotEditor
+            slot={hero}
+            theme={theme}
+            seed={imageSeed.hero}
+            uploading={uploading === "hero"}
+            onUpload={(file) => upload("hero", file, (image) => setHeroImage(blueprint, { ...hero, upload: image }))}
+            onChange={(slot, group) => onChange(setHeroImage(blueprint, slot), group && `image.hero.${group}`)}
+          />
+        )}
+      </div>
+
+      {sections.map((section) => {
+        const items = section.items ?? [];
+        const current = items.find((item) => item.image)?.image?.illustration;
+        return (
+          <div key={section.id} className="space-y-3 rounded-2xl border border-white/10 bg-slate-950/40 px-4 py-3">
+            <SlotHeader
+              title={section.headline || section.label}
+              value={current}
+              noneLabel="No images"
+              onSelect={(illustration) => onChange(setSectionImages(blueprint, section.id, illustration))}
+            />
+            {items.map((item, index) => {
+              const slot = item.image;
+              if (!slot) return null;
+              const key = `${section.id}.${index}`;
+              // A logo's alt text is the company name, so uploads start from it.
+              const altFallback = section.kind === "logos" ? item.title : "";
+              return (
+                <SlotEditor
+                  key={index}
+                  label={item.title}
+                  slot={slot}
+                  theme={theme}
+                  seed={imageSeed.item(section.id, index)}
+                  altPlaceholder={altFallback || undefined}
+                  uploading={uploading === key}
+                  onUpload={(file) =>
+                    upload(key, file, (image) =>
+                      setItemImage(blueprint, section.id, index, {
+                        ...slot,
+                        alt: slot.alt || altFallback,
+                        upload: image,
+                      }),
+                    )
+                  }
+                  onChange={(next, group) =>
+                    onChange(setItemImage(blueprint, section.id, index, next), group && `image.${key}.${group}`)
+                  }
+                />
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+type SlotHeaderProps = {
+  title: string;
+  value?: IllustrationKind;
+  noneLabel: string;
+  onSelect: (illustration?: IllustrationKind) => void;
+};
+
+const SlotHeader = ({ title, value, noneLabel, onSelect }: SlotHeaderProps) => (
+  <div className="flex flex-wrap items-center justify-between gap-3">
+    <p className="min-w-0 flex-1 truncate text-sm font-semibold text-white">{title}</p>
+    <select
+      aria-label={`Images for ${title}`}
+      className={clsx(INPUT_CLASS, "w-auto")}
+      value={value ?? ""}
+      onChange={(event) => onSelect((event.target.value || undefined) as IllustrationKind | undefined)}
+    >
+      <option value="" className="bg-slate-900">
+        {noneLabel}
+      </option>
+      {ILLUSTRATION_KINDS.map((kind) => (
+        <option key={kind.id} value={kind.id} className="bg-slate-900">
+          {kind.label}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+type SlotEditorProps = {
+  label?: string;
+  slot: ImageSlot;
+  theme: IllustrationTheme;
+  seed: string;
+  altPlaceholder?: string;
+  uploading: boolean;
+  onUpload: (file: File) => void;
+  onChange: (slot: ImageSlot, group?: string) => void;
+};
+
+const SlotEditor = ({
+  label,
+  slot,
+  theme,
+  seed,
+  altPlaceholder = "Describe it, or leave empty if it's decorative",
+  uploading,
+  onUpload,
+  onChange,
+}: SlotEditorProps) => {
+  const image = resolveImage(slot, theme, seed);
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={image.src} alt="" className="h-12 w-16 shrink-0 rounded-lg bg-white/5 object-cover" />
+      <div className="grid min-w-[200px] flex-1 gap-1">
+        {label && <span className="truncate text-slate-400">{label}</span>}
+        <input
+          aria-label={label ? `Alt text for ${label}` : "Alt text"}
+          className={INPUT_CLASS}
+          placeholder={altPlaceholder}
+          value={slot.alt}
+          onChange={(event) => onChange({ ...slot, alt: event.target.value }, "alt")}
+        />
+      </div>
+      <div className="flex gap-2">
+        <label className={clsx(BUTTON_CLASS, uploading && "pointer-events-none opacity-60")}>
+          {uploading ? "Optimizing…" : slot.upload ? "Replace" : "Upload"}
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) onUpload(file);
+            }}
+          />
+        </label>
+        {slot.upload && (
+          <button className={BUTTON_CLASS} onClick={() => onChange({ ...slot, upload: undefined })}>
+            Use illustration
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
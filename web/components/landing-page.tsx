@@ -0,0 +1,525 @@
+import type { CSSProperties, FormEventHandler, HTMLAttributes, ReactNode } from "react";
+import { clsx } from "clsx";
+import { textPath } from "@/lib/blueprint-edits";
+import { pickHeroTextColor } from "@/lib/colors";
+import {
+  LEAD_FORMS,
+  LEAD_FORM_ID,
+  LEAD_TRAP_FIELD,
+  ctaHref,
+  leadEndpoint,
+  leadFormTarget,
+  type CtaSlot,
+  type LeadFormContext,
+  type LeadFormTarget,
+} from "@/lib/cta";
+import type { IllustrationTheme } from "@/lib/illustrations";
+import type { LandingSection, PageBlueprint } from "@/lib/sections";
+import { imageSeed, resolveImage, type ResolvedImage } from "@/lib/visuals";
+
+// The one render tree for a landing page: the editor draws it live and the HTML export serializes it with
+// `renderStaticMarkup`, so what's reviewed is what ships. It stays free of hooks and browser APIs for that reason;
+// the editor adds editing, section tools and a working form through the render props. Styles are in
+// `lib/landing-css.ts`.
+
+export type LandingText = {
+  as?: "span" | "p" | "h1" | "h2" | "h3" | "dt" | "dd";
+  path: string;
+  value: string;
+  className?: string;
+  style?: CSSProperties;
+  multiline?: boolean;
+};
+
+export type LandingCta = {
+  slot: CtaSlot;
+  href?: string;
+  className: string;
+  style?: CSSProperties;
+  children: ReactNode;
+};
+
+// Exported pages link to sections by id; the editor can show several pages at once, so it uses a data attribute.
+type AnchorAttributes = { id: string } | { "data-section-id": string };
+
+export type LeadFormFields = {
+  target: LeadFormTarget;
+  context: LeadFormContext;
+  buttonLabel: string;
+  gradient: string;
+  textColor: string;
+  anchor: AnchorAttributes;
+};
+
+type LandingPageProps = {
+  blueprint: PageBlueprint;
+  // Rendered as its own document rather than inside the editor.
+  standalone?: boolean;
+  // Where lead form submissions go and how they're labeled; see `leadEndpoint`.
+  lead?: { appUrl?: string; page?: string; variantId?: string };
+  renderText?: (text: LandingText) => ReactNode;
+  renderCta?: (cta: LandingCta) => ReactNode;
+  renderLeadForm?: (form: LeadFormFields) => ReactNode;
+  sectionProps?: (section: LandingSection, index: number) => HTMLAttributes<HTMLElement>;
+  renderSectionTools?: (section: LandingSection, index: number) => ReactNode;
+  // Appended after the last section.
+  children?: ReactNode;
+};
+
+const StaticText = ({ as: Tag = "span", value, className, style }: LandingText) => (
+  <Tag className={className} style={style}>
+    {value}
+  </Tag>
+);
+
+type LandingImageProps = {
+  image: ResolvedImage;
+  className: string;
+  style?: CSSProperties;
+  // The hero is usually on screen at load; everything else waits until it's scrolled to.
+  eager?: boolean;
+};
+
+const LandingImage = ({ image, className, style, eager = false }: LandingImageProps) => (
+  // eslint-disable-next-line @next/next/no-img-element
+  <img
+    src={image.src}
+    alt={image.alt}
+    width={image.width}
+    height={image.height}
+    loading={eager ? undefined : "lazy"}
+    decoding="async"
+    className={clsx(className, `lp-media--${image.kind}`)}
+    style={style}
+  />
+);
+
+const StaticCta = ({ slot, href, className, style, children }: LandingCta) => (
+  <a href={href} data-lp-cta={slot} className={className} style={style}>
+    {children}
+  </a>
+);
+
+export const LandingPage = ({
+  blueprint,
+  standalone = false,
+  lead = {},
+  renderText = StaticText,
+  renderCta = StaticCta,
+  renderLeadForm = LeadFormSection,
+  sectionProps,
+  renderSectionTools,
+  children,
+}: LandingPageProps) => {
+  const { hero, sections, palette, gradient, heroLayout, style } = blueprint;
+  const heroText = pickHeroTextColor(palette, gradient);
+  const headingFont = style ? { fontFamily: style.headingFont } : undefined;
+  const radius = style ? { borderRadius: style.radius } : undefined;
+  const anchor = (id: string): AnchorAttributes => (standalone ? { id } : { "data-section-id": id });
+  const primaryHref = ctaHref(blueprint, "primary");
+  const secondaryHref = ctaHref(blueprint, "secondary");
+  const leadForm = leadFormTarget(blueprint);
+  const heroImage = blueprint.heroImage && resolveImage(blueprint.heroImage, blueprint, imageSeed.hero);
+  const stats = (
+    <dl className="lp-stats">
+      {/* Label first for screen readers, value first on screen. */}
+      {hero.stats.map((stat, index) => (
+        <div key={index} className="lp-stat">
+          {renderText({
+            as: "dt",
+            path: textPath.stat(index, "label"),
+            value: stat.label,
+            className: "lp-stat-label",
+          })}
+          {renderText({
+            as: "dd",
+            path: textPath.stat(index, "value"),
+            value: stat.value,
+            className: "lp-stat-value",
+          })}
+        </div>
+      ))}
+    </dl>
+  );
+
+  return (
+    <div className="lp-page" style={style ? { fontFamily: style.bodyFont } : undefined}>
+      <div className={`lp-hero lp-hero--${heroLayout}`} style={{ background: gradient, color: heroText }}>
+        <div className="lp-hero-inner">
+          <div className="lp-hero-copy">
+            {style?.logo && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={style.logo} alt="" className="lp-logo" />
+            )}
+            {renderText({
+              as: "p",
+              path: textPath.hero("eyebrow"),
+              value: hero.eyebrow,
+              className: "lp-eyebrow",
+              style: { opacity: 0.8 },
+            })}
+            {renderText({
+              as: "h1",
+              path: textPath.hero("title"),
+              value: hero.title,
+              className: "lp-title",
+              style: headingFont,
+            })}
+            {renderText({
+              as: "p",
+              path: textPath.hero("subtitle"),
+              value: hero.subtitle,
+              className: "lp-subtitle",
+              style: { opacity: 0.92 },
+              multiline: true,
+            })}
+            <div className="lp-actions">
+              {renderCta({
+                slot: "primary",
+                href: primaryHref,
+                className: "lp-button lp-button--primary",
+                style: radius,
+                children: renderText({ path: textPath.hero("primaryCta"), value: hero.primaryCta }),
+              })}
+              {renderCta({
+                slot: "secondary",
+                href: secondaryHref,
+                className: "lp-button lp-button--outline",
+                style: { color: heroText, ...radius },
+                children: (
+                  <>
+                    {renderText({ path: textPath.hero("secondaryCta"), value: hero.secondaryCta })}{" "}
+                    <span aria-hidden>→</span>
+                  </>
+                ),
+              })}
+            </div>
+          </div>
+
+          {heroImage ? (
+            <div className="lp-hero-aside">
+              <LandingImage image={heroImage} className="lp-hero-image" style={radius} eager />
+              {hero.stats.length > 0 && stats}
+            </div>
+          ) : (
+            stats
+          )}
+        </div>
+      </div>
+
+      <div className="lp-body" style={{ backgroundColor: palette.surface, color: palette.text }}>
+        {sections.map((section, index) => {
+          const extra = sectionProps?.(section, index);
+          return (
+            <section
+              key={section.id}
+              {...extra}
+              {...anchor(section.id)}
+              data-lp-section={section.id}
+              className={clsx("lp-section", extra?.className)}
+              style={{
+                backgroundColor: heroLayout === "center" ? "rgba(255,255,255,0.85)" : "rgba(255,255,255,0.8)",
+                ...radius,
+              }}
+            >
+              {renderSectionTools?.(section, index)}
+              <div className="lp-section-head">
+                {renderText({
+                  as: "p",
+                  path: textPath.section(section.id, "label"),
+                  value: section.label,
+                  className: "lp-section-label",
+                })}
+                {renderText({
+                  as: "h2",
+                  path: textPath.section(section.id, "headline"),
+                  value: section.headline,
+                  className: "lp-section-title",
+                  style: headingFont,
+                })}
+                {renderText({
+                  as: "p",
+                  path: textPath.section(section.id, "body"),
+                  value: section.body,
+                  className: "lp-section-text",
+                  multiline: true,
+                })}
+              </div>
+              <SectionBody
+                section={section}
+                theme={blueprint}
+                primaryCta={{ label: hero.primaryCta, href: primaryHref }}
+                secondaryCta={{ label: hero.secondaryCta, href: secondaryHref }}
+                renderText={renderText}
+                renderCta={renderCta}
+              />
+            </section>
+          );
+        })}
+        {leadForm &&
+          renderLeadForm({
+            target: leadForm,
+            context: { endpoint: leadEndpoint(leadForm, lead.appUrl), page: lead.page, variantId: lead.variantId },
+            buttonLabel: hero.primaryCta,
+            gradient,
+            textColor: heroText,
+            anchor: anchor(LEAD_FORM_ID),
+          })}
+        {children}
+      </div>
+    </div>
+  );
+};
+
+type SectionCta = { label: string; href?: string };
+
+type SectionBodyProps = {
+  section: LandingSection;
+  theme: IllustrationTheme;
+  primaryCta: SectionCta;
+  secondaryCta: SectionCta;
+  renderText: (text: LandingText) => ReactNode;
+  renderCta: (cta: LandingCta) => ReactNode;
+};
+
+const SectionBody = ({ section, theme, primaryCta, secondaryCta, renderText, renderCta }: SectionBodyProps) => {
+  const items = section.items ?? [];
+  const itemPath = (index: number, field: "title" | "description" | "meta") => textPath.item(section.id, index, field);
+  const imageAt = (index: number) => {
+    const slot = items[index]?.image;
+    return slot && resolveImage(slot, theme, imageSeed.item(section.id, index));
+  };
+  const cardMedia = (index: number) => {
+    const image = imageAt(index);
+    return image && <LandingImage image={image} className="lp-card-media" />;
+  };
+
+  switch (section.kind) {
+    case "faq":
+      return (
+        <dl className="lp-faq">
+          {items.map((item, index) => (
+            <div key={index} className="lp-faq-item">
+              {renderText({ as: "dt", path: itemPath(index, "title"), value: item.title, className: "lp-card-title" })}
+              {renderText({
+                as: "dd",
+                path: itemPath(index, "description"),
+                value: item.description,
+                className: "lp-card-text",
+                multiline: true,
+              })}
+            </div>
+          ))}
+        </dl>
+      );
+    case "pricing":
+      return (
+        <div className="lp-grid lp-grid--3">
+          {items.map((item, index) => (
+            <div key={index} className={clsx("lp-plan", index === 1 && "lp-plan--featured")}>
+              {cardMedia(index)}
+              {renderText({ as: "h3", path: itemPath(index, "title"), value: item.title, className: "lp-card-title" })}
+              {renderText({
+                as: "p",
+                path: itemPath(index, "meta"),
+                value: item.meta ?? "",
+                className: "lp-plan-price",
+              })}
+              {renderText({
+                as: "p",
+                path: itemPath(index, "description"),
+                value: item.description,
+                className: "lp-card-text",
+              })}
+              <ul className="lp-plan-features">
+                {item.values?.map((value, valueIndex) => (
+                  <li key={valueIndex} className="lp-plan-feature">
+                    <span aria-hidden>✓</span>
+                    {renderText({ path: textPath.itemValue(section.id, index, valueIndex), value })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      );
+    case "testimonials":
+      return (
+        <div className="lp-grid lp-grid--3">
+          {items.map((item, index) => {
+            const avatar = imageAt(index);
+            return (
+              <figure key={index} className="lp-card">
+                <blockquote className="lp-quote">
+                  “{renderText({ path: itemPath(index, "description"), value: item.description, multiline: true })}”
+                </blockquote>
+                <figcaption className="lp-quote-author">
+                  {avatar && <LandingImage image={avatar} className="lp-avatar" />}
+                  {renderText({ path: itemPath(index, "title"), value: item.title, className: "lp-quote-name" })}
+                  {item.meta && (
+                    <>
+                      <span className="lp-quote-separator"> · </span>
+                      {renderText({ path: itemPath(index, "meta"), value: item.meta, className: "lp-quote-meta" })}
+                    </>
+                  )}
+                </figcaption>
+              </figure>
+            );
+          })}
+        </div>
+      );
+    case "logos":
+      return (
+        <div className="lp-logos">
+          {items.map((item, index) => {
+            const image = imageAt(index);
+            // An uploaded logo is the company's name, so it stands in for the text; illustrations are just a mark.
+            return (
+              <div key={index} className="lp-logo-tile">
+                {image?.kind === "upload" ? (
+                  <LandingImage image={{ ...image, alt: image.alt || item.title }} className="lp-logo-image" />
+                ) : (
+                  <>
+                    {image && <LandingImage image={{ ...image, alt: "" }} className="lp-logo-mark" />}
+                    {renderText({ path: itemPath(index, "title"), value: item.title, className: "lp-logo-name" })}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      );
+    case "comparison":
+      return (
+        <div className="lp-table-wrap">
+          <table className="lp-table">
+            <thead>
+              <tr>
+                <th>Feature</th>
+                {section.columns?.map((column, index) => (
+                  <th key={index}>{renderText({ path: textPath.column(section.id, index), value: column })}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, index) => (
+                <tr key={index}>
+                  <td>{renderText({ path: itemPath(index, "title"), value: item.title })}</td>
+                  {item.values?.map((value, valueIndex) => (
+                    <td key={valueIndex}>
+                      {renderText({ path: textPath.itemValue(section.id, index, valueIndex), value })}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    default:
+      return items.length ? (
+        <div className="lp-grid lp-grid--2">
+          {items.map((item, index) => (
+            <div key={index} className="lp-card">
+              {cardMedia(index)}
+              {renderText({ as: "h3", path: itemPath(index, "title"), value: item.title, className: "lp-card-title" })}
+              {renderText({
+                as: "p",
+                path: itemPath(index, "description"),
+                value: item.description,
+                className: "lp-card-text",
+                multiline: true,
+              })}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="lp-section-ctas">
+          {renderCta({
+            slot: "primary",
+            href: primaryCta.href,
+            className: "lp-button lp-button--dark",
+            children: primaryCta.label,
+          })}
+          {renderCta({
+            slot: "secondary",
+            href: secondaryCta.href,
+            className: "lp-text-link",
+            children: (
+              <>
+                {secondaryCta.label} <span aria-hidden>→</span>
+              </>
+            ),
+          })}
+        </div>
+      );
+  }
+};
+
+type LeadFormSectionProps = LeadFormFields & {
+  status?: ReactNode;
+  sending?: boolean;
+  onSubmit?: FormEventHandler<HTMLFormElement>;
+};
+
+// Exported pages submit through the script `withLeadFormScript` adds; the editor passes its own handler.
+export const LeadFormSection = ({
+  target,
+  context,
+  buttonLabel,
+  gradient,
+  textColor,
+  anchor,
+  status,
+  sending = false,
+  onSubmit,
+}: LeadFormSectionProps) => {
+  const copy = LEAD_FORMS[target.form];
+  const hidden = { form: target.form, page: context.page, variant: context.variantId };
+  return (
+    <section
+      {...anchor}
+      aria-labelledby={`${LEAD_FORM_ID}-title`}
+      className="lp-lead"
+      style={{ background: gradient, color: textColor }}
+    >
+      <h2 id={`${LEAD_FORM_ID}-title`} className="lp-lead-title">
+        {copy.heading}
+      </h2>
+      <p className="lp-lead-text">{copy.description}</p>
+      <form
+        data-lp-lead
+        action={context.endpoint}
+        method="post"
+        data-success={target.successMessage?.trim() || copy.success}
+        className="lp-lead-form"
+        onSubmit={onSubmit}
+      >
+        {Object.entries(hidden)
+          .filter(([, value]) => value)
+          .map(([name, value]) => (
+            <input key={name} type="hidden" name={name} value={value} />
+          ))}
+        <label className="lp-lead-trap" aria-hidden>
+          Leave this empty <input name={LEAD_TRAP_FIELD} tabIndex={-1} autoComplete="off" />
+        </label>
+        {copy.askName && (
+          <label className="lp-lead-field">
+            Name
+            <input name="name" autoComplete="name" required className="lp-lead-input" />
+          </label>
+        )}
+        <label className="lp-lead-field">
+          Email
+          <input type="email" name="email" autoComplete="email" required className="lp-lead-input" />
+        </label>
+        <button type="submit" disabled={sending} className="lp-lead-submit">
+          {sending ? "Sending…" : buttonLabel}
+        </button>
+        <p data-lp-status role="status" aria-live="polite" className="lp-lead-status">
+          {status}
+        </p>
+      </form>
+    </section>
+  );
+};
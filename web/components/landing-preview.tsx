@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { clsx } from "clsx";
+import type { BlueprintEdits } from "@/lib/blueprint-edits";
+import { LANDING_CSS } from "@/lib/landing-css";
+import type { StringFlag, TextDirection } from "@/lib/locales";
+import { SECTION_CATALOG, type LandingSection, type PageBlueprint, type SectionKind } from "@/lib/sections";
+import { EditableText } from "@/components/editable-text";
+import { LandingPage, type LandingCta } from "@/components/landing-page";
+import { LeadForm } from "@/components/lead-form";
+
+export type SectionActions = {
+  onRegenerate: (sectionId: string) => void;
+  onRemove: (sectionId: string) => void;
+  onMove: (from: number, to: number) => void;
+  onInsert: (kind: SectionKind, index: number) => void;
+};
+
+type LandingPreviewProps = {
+  blueprint: PageBlueprint;
+  edits?: BlueprintEdits;
+  onEdit?: (path: string, value: string) => void;
+  sectionActions?: SectionActions;
+  lang?: string;
+  dir?: TextDirection;
+  // Translation problems by text path, outlined in place so they're fixed where they show.
+  flags?: Record<string, StringFlag>;
+};
+
+export const LandingPreview = ({
+  blueprint,
+  edits = {},
+  onEdit,
+  sectionActions,
+  lang,
+  dir,
+  flags = {},
+}: LandingPreviewProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  // Where the dragged section would land. The move itself waits for the drop, so one drag is one undo step.
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div
+      lang={lang}
+      dir={dir}
+      data-landing-preview
+      className="overflow-hidden rounded-[40px] border border-white/10 bg-slate-950/60 shadow-[0_40px_120px_rgba(15,23,42,0.45)] backdrop-blur-xl"
+    >
+      {/* React hoists this into the head once, however many previews are on screen. */}
+      <style href="launchpilot-landing" precedence="default">
+        {LANDING_CSS}
+      </style>
+      <LandingPage
+        blueprint={blueprint}
+        lead={{ page: "Editor preview" }}
+        renderText={(text) => (
+          <EditableText {...text} edited={text.path in edits} flag={flags[text.path]} onEdit={onEdit} />
+        )}
+        renderCta={(cta) => <CtaLink {...cta} />}
+        renderLeadForm={(form) => <LeadForm {...form} />}
+        sectionProps={(_, index) => ({
+          className: clsx(
+            "group",
+            dragIndex === index && "opacity-50",
+            dropIndex === index &&
+              dragIndex !== index &&
+              "outline-dashed outline-2 outline-offset-4 outline-emerald-400",
+          ),
+          onDragOver: (event) => {
+            if (dragIndex === null) return;
+            event.preventDefault();
+            setDropIndex(index);
+          },
+          onDrop: (event) => {
+            event.preventDefault();
+            if (dragIndex !== null && dragIndex !== index) sectionActions?.onMove(dragIndex, index);
+            endDrag();
+          },
+        })}
+        renderSectionTools={
+          sectionActions &&
+          ((section, index) => (
+            <SectionToolbar
+              index={index}
+              count={blueprint.sections.length}
+              section={section}
+              actions={sectionActions}
+              onDragStart={() => setDragIndex(index)}
+              onDragEnd={endDrag}
+            />
+          ))
+        }
+      >
+        {sectionActions && (
+          <SectionCatalog onInsert={(kind) => sectionActions.onInsert(kind, blueprint.sections.length)} />
+        )}
+      </LandingPage>
+    </div>
+  );
+};
+
+type SectionToolbarProps = {
+  index: number;
+  count: number;
+  section: LandingSection;
+  actions: SectionActions;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+};
+
+const SectionToolbar = ({ index, count, section, actions, onDragStart, onDragEnd }: SectionToolbarProps) => (
+  <div className="absolute -top-4 end-6 flex items-center gap-1 rounded-full border border-slate-200 bg-white px-2 py-1 text-xs font-medium text-slate-600 opacity-0 shadow-lg shadow-slate-900/10 transition group-focus-within:opacity-100 group-hover:opacity-100">
+    <span
+      draggable
+      onDragStart={(event) => {
+        event.dataTransfer.effectAllowed = "move";
+        event.dataTransfer.setData("text/plain", section.id);
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      className="cursor-grab px-2 py-1 text-slate-400 active:cursor-grabbing"
+      title="Drag to reorder"
+    >
+      ⠿
+    </span>
+    <ToolbarButton label="Move up" disabled={index === 0} onClick={() => actions.onMove(index, index - 1)}>
+      ↑
+    </ToolbarButton>
+    <ToolbarButton label="Move down" disabled={index === count - 1} onClick={() => actions.onMove(index, index + 1)}>
+      ↓
+    </ToolbarButton>
+    <ToolbarButton
+      label="Regenerate this section with a different angle"
+      onClick={() => actions.onRegenerate(section.id)}
+    >
+      Regenerate
+    </ToolbarButton>
+    <ToolbarButton label="Remove section" onClick={() => actions.onRemove(section.id)} destructive>
+      Remove
+    </ToolbarButton>
+  </div>
+);
+
+type ToolbarButtonProps = {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  destructive?: boolean;
+  children: ReactNode;
+};
+
+const ToolbarButton = ({ label, onClick, disabled, destructive, children }: ToolbarButtonProps) => (
+  <button
+    title={label}
+    aria-label={label}
+    disabled={disabled}
+    onClick={onClick}
+    className={clsx(
+      "rounded-full px-2 py-1 transition disabled:opacity-30",
+      destructive ? "hover:bg-rose-50 hover:text-rose-600" : "hover:bg-slate-100 hover:text-slate-900",
+    )}
+  >
+    {children}
+  </button>
+);
+
+const SectionCatalog = ({ onInsert }: { onInsert: (kind: SectionKind) => void }) => (
+  <div className="mx-auto w-full max-w-5xl rounded-3xl border border-dashed border-slate-300 p-6">
+    <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Add a section</p>
+    <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {SECTION_CATALOG.map((entry) => (
+        <button
+          key={entry.kind}
+          onClick={() => onInsert(entry.kind)}
+          className="flex flex-col items-start rounded-2xl border border-slate-200 bg-white/80 px-4 py-3 text-left transition hover:-translate-y-0.5 hover:border-slate-400"
+        >
+          <span className="text-sm font-semibold text-slate-900">+ {entry.name}</span>
+          <span className="text-xs text-slate-500">{entry.description}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+// Inside the preview, in-page CTAs scroll rather than navigate and external ones open a new tab, so the editor
+// never navigates away. Clicks on the editable label are left to editing.
+const CtaLink = ({ slot, href, className, style, children }: LandingCta) => {
+  const anchor = href?.startsWith("#") ? href.slice(1) : undefined;
+  return (
+    <a
+      href={href}
+      data-lp-cta={slot}
+      target={href && !anchor && !href.startsWith("mailto:") ? "_blank" : undefined}
+      rel="noreferrer"
+      className={className}
+      style={style}
+      onClick={(event) => {
+        if ((event.target as HTMLElement).isContentEditable) {
+          event.preventDefault();
+          return;
+        }
+        if (!anchor) return;
+        event.preventDefault();
+        event.currentTarget
+          .closest("[data-landing-preview]")
+          ?.querySelector(`[data-section-id="${CSS.escape(anchor)}"]`)
+          ?.scrollIntoView({ behavior: "smooth", block: "start" });
+      }}
+    >
+      {children}
+    </a>
+  );
+};
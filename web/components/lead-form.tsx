@@ -0,0 +1,50 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { LEAD_FORMS } from "@/lib/cta";
+import { LeadFormSection, type LeadFormFields } from "@/components/landing-page";
+
+type SubmitState = { status: "idle" | "sending" | "sent" } | { status: "failed"; message: string };
+
+// The exported form with a submit handler. It really submits, so the endpoint can be tested from the editor.
+export const LeadForm = (fields: LeadFormFields) => {
+  const { target, context } = fields;
+  const copy = LEAD_FORMS[target.form];
+  const [state, setState] = useState<SubmitState>({ status: "idle" });
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    setState({ status: "sending" });
+    try {
+      const response = await fetch(context.endpoint, {
+        method: "POST",
+        body: new FormData(form),
+        headers: { Accept: "application/json" },
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(payload?.error ?? `The endpoint answered ${response.status}`);
+      }
+      form.reset();
+      setState({ status: "sent" });
+    } catch (error) {
+      console.error("Lead form submission failed", error);
+      setState({ status: "failed", message: error instanceof Error ? error.message : "Submission failed" });
+    }
+  };
+
+  return (
+    <LeadFormSection
+      {...fields}
+      sending={state.status === "sending"}
+      onSubmit={handleSubmit}
+      status={
+        <>
+          {state.status === "sent" && (target.successMessage?.trim() || copy.success)}
+          {state.status === "failed" && `Couldn't submit: ${state.message}`}
+        </>
+      }
+    />
+  );
+};
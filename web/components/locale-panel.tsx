@@ -0,0 +1,163 @@
+"use client";
+
+import { useRef } from "react";
+import { clsx } from "clsx";
+import { LOCALES, SOURCE_LOCALE, type LocaleSummary } from "@/lib/locales";
+
+type LocalePanelProps = {
+  selected: string[];
+  summaries: Record<string, LocaleSummary>;
+  translating: string | null;
+  error: string | null;
+  onToggle: (code: string) => void;
+  onTranslate: (code: string) => void;
+  onDownloadStrings: (code: string) => void;
+  onImport: (file: File) => void;
+  onDownloadAll: () => void;
+};
+
+export const LocalePanel = ({
+  selected,
+  summaries,
+  translating,
+  error,
+  onToggle,
+  onTranslate,
+  onDownloadStrings,
+  onImport,
+  onDownloadAll,
+}: LocalePanelProps) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const targets = LOCALES.filter((locale) => selected.includes(locale.code));
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Languages</h3>
+        <span className="text-xs text-slate-400">Source: {SOURCE_LOCALE.name}</span>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {LOCALES.filter((locale) => locale !== SOURCE_LOCALE).map((locale) => (
+          <button
+            key={locale.code}
+            onClick={() => onToggle(locale.code)}
+            aria-pressed={selected.includes(locale.code)}
+            title={locale.dir === "rtl" ? `${locale.name} (right-to-left)` : locale.name}
+            className={clsx(
+              "rounded-full border px-2.5 py-1 font-mono text-[11px] transition",
+              selected.includes(locale.code)
+                ? "border-emerald-400 bg-emerald-400/10 text-white"
+                : "border-white/10 text-slate-300 hover:border-white/25",
+            )}
+          >
+            {locale.code}
+          </button>
+        ))}
+      </div>
+
+      {targets.length > 0 && (
+        <div className="grid gap-2">
+          {targets.map((locale) => {
+            const summary = summaries[locale.code];
+            const pending = summary ? summary.missing + summary.outdated + summary["too-long"] : 0;
+            return (
+              <div key={locale.code} className="rounded-xl border border-white/10 px-3 py-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-white" lang={locale.code} dir={locale.dir}>
+                    {locale.name}
+                  </span>
+                  {summary && (
+                    <span className="tabular-nums text-slate-400">
+                      {summary.translated}/{summary.total}
+                    </span>
+                  )}
+                </div>
+                {summary && pending > 0 && (
+                  <p className="mt-1 text-slate-400">
+                    {[
+                      summary.missing && `${summary.missing} missing`,
+                      summary.outdated && `${summary.outdated} outdated`,
+                      summary["too-long"] && `${summary["too-long"]} too long`,
+                    ]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </p>
+                )}
+                <div className="mt-2 flex gap-2">
+                  <button
+                    onClick={() => onTranslate(locale.code)}
+                    disabled={translating !== null || pending === 0}
+                    className="rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-400 hover:text-white disabled:opacity-40"
+                  >
+                    {translating === locale.code ? "Translating…" : pending > 0 ? `Translate ${pending}` : "Up to date"}
+                  </button>
+                  <button
+                    onClick={() => onDownloadStrings(locale.code)}
+                    className="rounded-full border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-white/25 hover:text-white"
+                  >
+                    Strings JSON
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="rounded-xl border border-white/10 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:border-white/25 hover:text-white"
+        >
+          Import strings…
+        </button>
+        <button
+          onClick={onDownloadAll}
+          disabled={targets.length === 0}
+          className="rounded-xl border border-emerald-400/60 px-3 py-2 text-xs font-semibold text-emerald-100 transition hover:border-emerald-400 hover:text-white disabled:opacity-40"
+        >
+          Download all (zip)
+        </button>
+      </div>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) onImport(file);
+          event.target.value = "";
+        }}
+      />
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+};
+
+type LocaleSwitcherProps = {
+  locales: string[];
+  active: string;
+  onSelect: (code: string) => void;
+};
+
+export const LocaleSwitcher = ({ locales, active, onSelect }: LocaleSwitcherProps) => (
+  <nav
+    className="flex flex-wrap items-center gap-2 rounded-full border border-white/10 bg-white/5 p-1.5"
+    aria-label="Preview language"
+  >
+    {[SOURCE_LOCALE, ...LOCALES.filter((locale) => locales.includes(locale.code))].map((locale) => (
+      <button
+        key={locale.code}
+        onClick={() => onSelect(locale.code)}
+        aria-pressed={locale.code === active}
+        className={clsx(
+          "rounded-full px-3 py-1.5 font-mono text-xs font-semibold transition",
+          locale.code === active ? "bg-white text-slate-900" : "text-slate-300 hover:text-white",
+        )}
+      >
+        {locale.code}
+      </button>
+    ))}
+  </nav>
+);
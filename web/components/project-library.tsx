@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { clsx } from "clsx";
+import type { LandingBlueprint } from "@/lib/generator";
+import type { Project, ProjectVersion } from "@/lib/library";
+import type { ProjectLibrary as ProjectLibraryState } from "@/lib/use-project-library";
+
+type ProjectLibraryProps = {
+  library: ProjectLibraryState;
+  blueprint: LandingBlueprint;
+  onSave: () => void;
+  onNew: () => void;
+};
+
+export const ProjectLibrary = ({ library, blueprint, onSave, onNew }: ProjectLibraryProps) => {
+  const { projects, activeProject } = library;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Projects</h2>
+        <div className="flex gap-2">
+          {!activeProject && (
+            <button
+              className="rounded-full border border-emerald-400/60 px-3 py-1 text-xs font-medium text-emerald-200 hover:border-emerald-400 hover:text-white"
+              onClick={onSave}
+            >
+              Save project
+            </button>
+          )}
+          <button
+            className="rounded-full border border-white/10 px-3 py-1 text-xs font-medium text-slate-300 hover:border-white/25 hover:text-white"
+            onClick={onNew}
+          >
+            New
+          </button>
+        </div>
+      </div>
+
+      {projects.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-white/10 bg-white/5 px-4 py-3 text-xs text-slate-400">
+          {library.ready ? "No saved projects yet. Save this brief to start a library." : "Loading library…"}
+        </div>
+      ) : (
+        <ul className="flex max-h-72 flex-col gap-2 overflow-y-auto pr-1">
+          {projects.map((project) => (
+            <ProjectRow
+              key={project.id}
+              project={project}
+              active={project.id === activeProject?.id}
+              library={library}
+            />
+          ))}
+        </ul>
+      )}
+
+      {activeProject && activeProject.versions.length > 0 && (
+        <VersionList
+          versions={activeProject.versions}
+          currentGeneratedAt={blueprint.generatedAt}
+          onSelect={(version) => library.open(activeProject, version)}
+        />
+      )}
+    </div>
+  );
+};
+
+type ProjectRowProps = {
+  project: Project;
+  active: boolean;
+  library: ProjectLibraryState;
+};
+
+const ProjectRow = ({ project, active, library }: ProjectRowProps) => {
+  const [renaming, setRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(project.name);
+
+  const commitRename = () => {
+    library.rename(project, draftName);
+    setRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${project.name}" and its ${project.versions.length} saved versions?`)) {
+      void library.remove(project);
+    }
+  };
+
+  return (
+    <li
+      className={clsx(
+        "rounded-2xl border px-4 py-3 text-sm transition",
+        active ? "border-emerald-400 bg-emerald-400/10 text-white" : "border-white/10 bg-white/5 text-slate-200",
+      )}
+    >
+      {renaming ? (
+        <input
+          autoFocus
+          className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-1 text-sm text-white focus:border-emerald-400 focus:outline-none"
+          value={draftName}
+          onChange={(event) => setDraftName(event.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") commitRename();
+            if (event.key === "Escape") setRenaming(false);
+          }}
+        />
+      ) : (
+        <button className="w-full text-left" onClick={() => library.open(project)}>
+          <span className="block truncate font-semibold">{project.name}</span>
+          <span className="text-xs text-slate-400">
+            {project.versions.length} {project.versions.length === 1 ? "version" : "versions"} • updated{" "}
+            {new Date(project.updatedAt).toLocaleString()}
+          </span>
+        </button>
+      )}
+      <div className="mt-2 flex gap-3 text-xs text-slate-400">
+        <button
+          className="hover:text-white"
+          onClick={() => {
+            setDraftName(project.name);
+            setRenaming(true);
+          }}
+        >
+          Rename
+        </button>
+        <button className="hover:text-white" onClick={() => void library.duplicate(project)}>
+          Duplicate
+        </button>
+        <button className="hover:text-rose-300" onClick={handleDelete}>
+          Delete
+        </button>
+      </div>
+    </li>
+  );
+};
+
+type VersionListProps = {
+  versions: ProjectVersion[];
+  currentGeneratedAt: LandingBlueprint["generatedAt"];
+  onSelect: (version: ProjectVersion) => void;
+};
+
+const VersionList = ({ versions, currentGeneratedAt, onSelect }: VersionListProps) => (
+  <div className="space-y-2">
+    <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Versions</h3>
+    <div className="flex flex-wrap gap-2">
+      {versions.map((version, index) => (
+        <button
+          key={version.id}
+          onClick={() => onSelect(version)}
+          className={clsx(
+            "rounded-full border px-3 py-1 text-xs transition",
+            version.generatedAt === currentGeneratedAt
+              ? "border-cyan-400/70 bg-cyan-400/10 text-cyan-100"
+              : "border-white/10 bg-white/5 text-slate-300 hover:border-white/25",
+          )}
+        >
+          v{versions.length - index} • {new Date(version.generatedAt).toLocaleTimeString()}
+        </button>
+      ))}
+    </div>
+  </div>
+);
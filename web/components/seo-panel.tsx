@@ -0,0 +1,157 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { clsx } from "clsx";
+import { DESCRIPTION_LIMIT, SCHEMA_TYPES, TITLE_LIMIT, type SeoMeta, type SeoSettings } from "@/lib/seo";
+
+type SeoPanelProps = {
+  seo: SeoMeta;
+  settings: SeoSettings;
+  defaults: Pick<SeoMeta, "title" | "description">;
+  onChange: (settings: SeoSettings) => void;
+};
+
+const hostOf = (url?: string) => {
+  try {
+    return url ? new URL(url).host : "example.com";
+  } catch {
+    return "example.com";
+  }
+};
+
+export const SeoPanel = ({ seo, settings, defaults, onChange }: SeoPanelProps) => {
+  const update = <K extends keyof SeoSettings>(key: K, value: SeoSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+  const host = hostOf(seo.canonicalUrl);
+
+  return (
+    <div className="grid gap-6 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur lg:grid-cols-2">
+      <div className="grid content-start gap-4">
+        <SeoField label="Meta title" count={seo.title.length} limit={TITLE_LIMIT}>
+          <input
+            className={INPUT_CLASS}
+            placeholder={defaults.title}
+            value={settings.title ?? ""}
+            onChange={(event) => update("title", event.target.value)}
+          />
+        </SeoField>
+        <SeoField label="Meta description" count={seo.description.length} limit={DESCRIPTION_LIMIT}>
+          <textarea
+            className={clsx(INPUT_CLASS, "min-h-[84px]")}
+            placeholder={defaults.description}
+            value={settings.description ?? ""}
+            onChange={(event) => update("description", event.target.value)}
+          />
+        </SeoField>
+        <SeoField label="Canonical URL">
+          <input
+            className={INPUT_CLASS}
+            placeholder="https://example.com/"
+            value={settings.canonicalUrl ?? ""}
+            onChange={(event) => update("canonicalUrl", event.target.value)}
+          />
+        </SeoField>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <SeoField label="Social image URL">
+            <input
+              className={INPUT_CLASS}
+              placeholder="Generated from the hero"
+              value={settings.image ?? ""}
+              onChange={(event) => update("image", event.target.value)}
+            />
+          </SeoField>
+          <SeoField label="Twitter / X handle">
+            <input
+              className={INPUT_CLASS}
+              placeholder="@yourbrand"
+              value={settings.twitterHandle ?? ""}
+              onChange={(event) => update("twitterHandle", event.target.value)}
+            />
+          </SeoField>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <SeoField label="Structured data">
+            <select
+              className={INPUT_CLASS}
+              value={seo.schemaType}
+              onChange={(event) => update("schemaType", event.target.value as SeoSettings["schemaType"])}
+            >
+              {SCHEMA_TYPES.map((type) => (
+                <option key={type.id} value={type.id} className="bg-slate-900">
+                  {type.label}
+                </option>
+              ))}
+            </select>
+          </SeoField>
+          <label className="flex items-center gap-2 pb-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              className="accent-emerald-400"
+              checked={seo.faq}
+              onChange={(event) => update("faq", event.target.checked)}
+            />
+            FAQ rich results from the FAQ section
+          </label>
+        </div>
+      </div>
+
+      <div className="grid content-start gap-4">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Search result</p>
+        <div className="rounded-2xl bg-white p-4 font-sans">
+          <p className="truncate text-xs text-slate-600">
+            {host}
+            {seo.canonicalUrl && (
+              <span className="text-slate-400"> › {seo.canonicalUrl.replace(/^https?:\/\/[^/]+/, "") || "/"}</span>
+            )}
+          </p>
+          <p className="mt-1 truncate text-lg text-[#1a0dab]">{seo.title}</p>
+          <p className="mt-1 line-clamp-2 text-sm text-slate-600">{seo.description}</p>
+        </div>
+
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Social card</p>
+        <div className="overflow-hidden rounded-2xl border border-white/10 bg-slate-900">
+          {seo.image ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={seo.image} alt="" className="aspect-[1200/630] w-full object-cover" />
+          ) : (
+            <div className="flex aspect-[1200/630] items-center justify-center text-xs text-slate-500">No image</div>
+          )}
+          <div className="grid gap-1 px-4 py-3">
+            <p className="text-[11px] uppercase tracking-wide text-slate-400">{host}</p>
+            <p className="truncate text-sm font-semibold text-white">{seo.title}</p>
+            <p className="line-clamp-2 text-xs text-slate-400">{seo.description}</p>
+          </div>
+        </div>
+        {seo.image && !settings.image && (
+          <a href={seo.image} target="_blank" rel="noreferrer" className="text-xs text-emerald-300 hover:text-white">
+            Open the generated image to host it yourself →
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const INPUT_CLASS =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:border-emerald-400 focus:outline-none";
+
+type SeoFieldProps = {
+  label: string;
+  count?: number;
+  limit?: number;
+  children: ReactNode;
+};
+
+const SeoField = ({ label, count, limit, children }: SeoFieldProps) => (
+  <label className="grid gap-1 text-xs">
+    <span className="flex justify-between text-slate-400">
+      {label}
+      {limit !== undefined && count !== undefined && (
+        <span className={clsx("tabular-nums", count > limit ? "text-amber-300" : "text-slate-500")}>
+          {count}/{limit}
+        </span>
+      )}
+    </span>
+    {children}
+  </label>
+);
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import type { PageBlueprint } from "@/lib/sections";
+import { createShareLink, type ShareLink } from "@/lib/share-client";
+
+type SharePanelProps = {
+  productName: string;
+  blueprint: PageBlueprint;
+};
+
+const EXPIRY_OPTIONS: Array<{ days: number | null; label: string }> = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: null, label: "Never" },
+];
+
+export const SharePanel = ({ productName, blueprint }: SharePanelProps) => {
+  const [password, setPassword] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [link, setLink] = useState<(ShareLink & { href: string }) | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShare = async () => {
+    setSharing(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const created = await createShareLink(productName, blueprint, { password: password || undefined, expiresInDays });
+      setLink({ ...created, href: new URL(created.url, window.location.origin).toString() });
+    } catch (shareError) {
+      console.error("Sharing failed", shareError);
+      setError(shareError instanceof Error ? shareError.message : "Couldn't create the link.");
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.href);
+      setCopied(true);
+    } catch (copyError) {
+      console.error("Copy failed", copyError);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur lg:grid-cols-2">
+      <form
+        className="grid content-start gap-4"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void handleShare();
+        }}
+      >
+        <ShareField label="Password (optional)">
+          <input
+            type="password"
+            autoComplete="new-password"
+            className={INPUT_CLASS}
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+        </ShareField>
+        <ShareField label="Expires after">
+          <select
+            className={INPUT_CLASS}
+            value={expiresInDays ?? ""}
+            onChange={(event) => setExpiresInDays(event.target.value ? Number(event.target.value) : null)}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ""} className="bg-slate-900">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </ShareField>
+        <button
+          type="submit"
+          disabled={sharing}
+          className="justify-self-start rounded-full bg-emerald-400 px-5 py-2 text-sm font-semibold text-slate-900 transition hover:bg-emerald-300 disabled:opacity-60"
+        >
+          {sharing ? "Creating link…" : link ? "Create a new link" : "Create link"}
+        </button>
+        {error && <p className="text-xs text-rose-300">{error}</p>}
+      </form>
+
+      <div className="grid content-start gap-3">
+        {link ? (
+          <>
+            <ShareField label="Read-only link">
+              <div className="flex gap-2">
+                <input readOnly className={INPUT_CLASS} value={link.href} onFocus={(event) => event.target.select()} />
+                <button
+                  type="button"
+                  onClick={() => void handleCopy()}
+                  className="rounded-full border border-white/15 px-4 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white"
+                >
+                  {copied ? "Copied" : "Copy"}
+                </button>
+                <a
+                  href={link.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center rounded-full border border-white/15 px-4 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white"
+                >
+                  Open
+                </a>
+              </div>
+            </ShareField>
+            <p className="text-xs text-slate-400">
+              {link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleString()}.` : "Never expires."} Reviewers
+              can pin comments to the page. The link is a snapshot: create a new one after further edits.
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-slate-400">
+            Share a read-only copy of this page for review. Links are stored by this app in{" "}
+            <span className="font-mono">.data/shares</span>; anyone with the link (and password, if set) can view and
+            comment.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const INPUT_CLASS =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:border-emerald-400 focus:outline-none";
+
+const ShareField = ({ label, children }: { label: string; children: ReactNode }) => (
+  <label className="grid gap-1 text-xs">
+    <span className="text-slate-400">{label}</span>
+    {children}
+  </label>
+);
@@ -0,0 +1,324 @@
+"use client";
+
+import clsx from "clsx";
+import { useEffect, useRef, useState, type MouseEvent, type ReactNode } from "react";
+import { postShareComment, resolveShareComment } from "@/lib/share-client";
+import type { ShareComment } from "@/lib/share-store";
+
+type Box = { left: number; top: number; width: number; height: number };
+
+type FrameLayout = { width: number; height: number; sections: Record<string, Box> };
+
+type Draft = Pick<ShareComment, "sectionId" | "x" | "y"> & { left: number; top: number };
+
+type SharedPreviewProps = {
+  shareId: string;
+  html: string;
+  comments: ShareComment[];
+  sectionLabels: Record<string, string>;
+};
+
+const pinPosition = (comment: Pick<ShareComment, "sectionId" | "x" | "y">, layout: FrameLayout) => {
+  const box = (comment.sectionId && layout.sections[comment.sectionId]) || {
+    left: 0,
+    top: 0,
+    width: layout.width,
+    height: layout.height,
+  };
+  return { left: box.left + comment.x * box.width, top: box.top + comment.y * box.height };
+};
+
+// The page renders in a frame sized to its content, so pins live in an overlay that scrolls with the window.
+export const SharedPreview = ({ shareId, html, comments: initialComments, sectionLabels }: SharedPreviewProps) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [layout, setLayout] = useState<FrameLayout>({ width: 0, height: 800, sections: {} });
+  const [comments, setComments] = useState(initialComments);
+  const [commenting, setCommenting] = useState(false);
+  const [showResolved, setShowResolved] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [text, setText] = useState("");
+  const [author, setAuthor] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measure = () => {
+    const doc = frameRef.current?.contentDocument;
+    if (!doc?.body) return;
+    const sections: Record<string, Box> = {};
+    doc.querySelectorAll<HTMLElement>("[data-lp-section]").forEach((element) => {
+      const { left, top, width, height } = element.getBoundingClientRect();
+      sections[element.dataset.lpSection ?? ""] = { left, top, width, height };
+    });
+    setLayout({ width: doc.documentElement.scrollWidth, height: doc.documentElement.scrollHeight, sections });
+  };
+
+  const handleLoad = () => {
+    const doc = frameRef.current?.contentDocument;
+    observerRef.current?.disconnect();
+    if (!doc?.body) return;
+    measure();
+    observerRef.current = new ResizeObserver(measure);
+    observerRef.current.observe(doc.body);
+  };
+
+  const handlePlace = (event: MouseEvent<HTMLDivElement>) => {
+    const doc = frameRef.current?.contentDocument;
+    if (!doc) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const left = event.clientX - bounds.left;
+    const top = event.clientY - bounds.top;
+    const section = doc.elementFromPoint(left, top)?.closest<HTMLElement>("[data-lp-section]");
+    const box = section?.getBoundingClientRect();
+    setDraft(
+      section && box
+        ? {
+            sectionId: section.dataset.lpSection,
+            x: (left - box.left) / box.width,
+            y: (top - box.top) / box.height,
+            left,
+            top,
+          }
+        : { x: left / layout.width, y: top / layout.height, left, top },
+    );
+    setActiveId(null);
+    setError(null);
+  };
+
+  const handlePost = async () => {
+    if (!draft || !text.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const comment = await postShareComment(shareId, {
+        sectionId: draft.sectionId,
+        x: draft.x,
+        y: draft.y,
+        text,
+        author: author || undefined,
+      });
+      setComments((current) => [...current, comment]);
+      setDraft(null);
+      setText("");
+      setActiveId(comment.id);
+    } catch (postError) {
+      console.error(postError);
+      setError(postError instanceof Error ? postError.message : "Couldn't save the comment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolve = async (comment: ShareComment) => {
+    try {
+      setComments(await resolveShareComment(shareId, comment.id, !comment.resolved));
+      if (!comment.resolved && !showResolved) setActiveId(null);
+    } catch (resolveError) {
+      console.error(resolveError);
+      setError(resolveError instanceof Error ? resolveError.message : "Couldn't update the comment");
+    }
+  };
+
+  const visible = comments.filter((comment) => showResolved || !comment.resolved);
+  const openCount = comments.filter((comment) => !comment.resolved).length;
+  const active = visible.find((comment) => comment.id === activeId);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_320px]">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300">
+          <button
+            type="button"
+            onClick={() => {
+              setCommenting((value) => !value);
+              setDraft(null);
+            }}
+            className={clsx(
+              "rounded-full border px-4 py-2 font-semibold transition",
+              commenting
+                ? "border-emerald-400 bg-emerald-400 text-slate-900"
+                : "border-white/15 text-slate-200 hover:border-emerald-400 hover:text-white",
+            )}
+          >
+            {commenting ? "Done commenting" : "Add comments"}
+          </button>
+          <span className="text-slate-400">
+            {commenting
+              ? "Click anywhere on the page to pin a comment."
+              : "Forms and analytics are switched off in review."}
+          </span>
+        </div>
+
+        <div className="relative overflow-hidden rounded-[32px] border border-white/10 bg-white shadow-[0_40px_120px_rgba(15,23,42,0.45)]">
+          {/* Same-origin lets the overlay measure sections; scripts stay blocked so forms and tracking don't run. */}
+          <iframe
+            ref={frameRef}
+            title="Shared page preview"
+            srcDoc={html}
+            sandbox="allow-same-origin"
+            onLoad={handleLoad}
+            className="block w-full border-0"
+            style={{ height: layout.height }}
+          />
+          <div
+            className={clsx("absolute inset-0", commenting ? "cursor-crosshair" : "pointer-events-none")}
+            onClick={commenting ? handlePlace : undefined}
+          >
+            {visible.map((comment, index) => (
+              <button
+                key={comment.id}
+                type="button"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  setActiveId(comment.id === activeId ? null : comment.id);
+                  setDraft(null);
+                }}
+                aria-label={`Comment ${index + 1}`}
+                className={clsx(
+                  "pointer-events-auto absolute flex h-7 w-7 -translate-x-1/2 -translate-y-full items-center justify-center rounded-full rounded-bl-none border-2 border-white text-xs font-semibold shadow-lg shadow-black/40",
+                  comment.resolved ? "bg-slate-500 text-white" : "bg-emerald-400 text-slate-900",
+                  comment.id === activeId && "ring-4 ring-emerald-300/50",
+                )}
+                style={pinPosition(comment, layout)}
+              >
+                {index + 1}
+              </button>
+            ))}
+
+            {active && (
+              <PinCard position={pinPosition(active, layout)} onClose={() => setActiveId(null)}>
+                <p className="whitespace-pre-wrap text-sm text-white">{active.text}</p>
+                <p className="mt-2 text-xs text-slate-400">
+                  {active.author || "Anonymous"} ·{" "}
+                  <time dateTime={active.createdAt} suppressHydrationWarning>
+                    {new Date(active.createdAt).toLocaleString()}
+                  </time>
+                </p>
+                <button
+                  type="button"
+                  onClick={() => void handleResolve(active)}
+                  className="mt-3 rounded-full border border-white/15 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white"
+                >
+                  {active.resolved ? "Reopen" : "Resolve"}
+                </button>
+              </PinCard>
+            )}
+
+            {draft && (
+              <PinCard position={draft} onClose={() => setDraft(null)}>
+                <form
+                  className="grid gap-2"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    void handlePost();
+                  }}
+                >
+                  <textarea
+                    autoFocus
+                    rows={3}
+                    maxLength={1000}
+                    placeholder="What should change here?"
+                    className={INPUT_CLASS}
+                    value={text}
+                    onChange={(event) => setText(event.target.value)}
+                  />
+                  <input
+                    placeholder="Your name (optional)"
+                    maxLength={80}
+                    className={INPUT_CLASS}
+                    value={author}
+                    onChange={(event) => setAuthor(event.target.value)}
+                  />
+                  {error && <p className="text-xs text-rose-300">{error}</p>}
+                  <button
+                    type="submit"
+                    disabled={saving || !text.trim()}
+                    className="rounded-full bg-emerald-400 px-4 py-2 text-xs font-semibold text-slate-900 transition hover:bg-emerald-300 disabled:opacity-60"
+                  >
+                    {saving ? "Posting…" : "Post comment"}
+                  </button>
+                </form>
+              </PinCard>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <aside className="space-y-4 self-start rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur lg:sticky lg:top-6">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">{openCount} open</p>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              className="accent-emerald-400"
+              checked={showResolved}
+              onChange={(event) => setShowResolved(event.target.checked)}
+            />
+            Show resolved
+          </label>
+        </div>
+        {visible.length === 0 ? (
+          <p className="text-sm text-slate-400">No comments yet. Turn on commenting and click the page to add one.</p>
+        ) : (
+          <ol className="space-y-2">
+            {visible.map((comment, index) => (
+              <li key={comment.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setActiveId(comment.id);
+                    setDraft(null);
+                  }}
+                  className={clsx(
+                    "w-full rounded-2xl border px-4 py-3 text-left transition",
+                    comment.id === activeId
+                      ? "border-emerald-400/60 bg-emerald-400/10"
+                      : "border-white/10 hover:border-white/30",
+                  )}
+                >
+                  <span className="flex items-baseline justify-between gap-2 text-xs text-slate-400">
+                    <span className={clsx("font-semibold", comment.resolved ? "text-slate-500" : "text-emerald-300")}>
+                      #{index + 1} {comment.sectionId ? sectionLabels[comment.sectionId] : "Page"}
+                    </span>
+                    {comment.resolved && <span>Resolved</span>}
+                  </span>
+                  <span className="mt-1 line-clamp-3 block text-sm text-slate-200">{comment.text}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+const INPUT_CLASS =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:border-emerald-400 focus:outline-none";
+
+type PinCardProps = {
+  position: { left: number; top: number };
+  onClose: () => void;
+  children: ReactNode;
+};
+
+const PinCard = ({ position, onClose, children }: PinCardProps) => (
+  <div
+    className="pointer-events-auto absolute z-10 w-72 cursor-auto rounded-2xl border border-white/10 bg-slate-900/95 p-4 shadow-2xl shadow-black/50 backdrop-blur"
+    style={{ left: Math.max(8, position.left - 144), top: position.top + 8 }}
+    onClick={(event) => event.stopPropagation()}
+  >
+    <button
+      type="button"
+      onClick={onClose}
+      aria-label="Close"
+      className="absolute right-3 top-2 text-slate-400 transition hover:text-white"
+    >
+      ×
+    </button>
+    {children}
+  </div>
+);
@@ -0,0 +1,97 @@
+"use client";
+
+import { clsx } from "clsx";
+import { SITE_PAGES, type SiteBlueprint, type SitePageId } from "@/lib/site";
+
+type SitePagesPanelProps = {
+  selected: SitePageId[];
+  onToggle: (id: SitePageId) => void;
+  siteUrl: string;
+  siteUrlPlaceholder: string;
+  onSiteUrlChange: (value: string) => void;
+  onDownload: () => void;
+};
+
+export const SitePagesPanel = ({
+  selected,
+  onToggle,
+  siteUrl,
+  siteUrlPlaceholder,
+  onSiteUrlChange,
+  onDownload,
+}: SitePagesPanelProps) => (
+  <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+    <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Site pages</h3>
+    <div className="grid gap-2">
+      {SITE_PAGES.map((page) => {
+        const locked = page.id === "home";
+        const checked = locked || selected.includes(page.id);
+        return (
+          <label
+            key={page.id}
+            className={clsx(
+              "flex items-start gap-3 rounded-xl border px-3 py-2 text-xs transition",
+              checked ? "border-emerald-400/60 bg-emerald-400/10 text-white" : "border-white/10 text-slate-300",
+              locked ? "cursor-default" : "cursor-pointer hover:border-white/25",
+            )}
+          >
+            <input
+              type="checkbox"
+              className="mt-0.5 accent-emerald-400"
+              checked={checked}
+              disabled={locked}
+              onChange={() => onToggle(page.id)}
+            />
+            <span>
+              <span className="block font-semibold">{page.navLabel}</span>
+              <span className="text-slate-400">{page.description}</span>
+            </span>
+          </label>
+        );
+      })}
+    </div>
+    <label className="grid gap-1 text-xs">
+      <span className="text-slate-400">Site URL (for the sitemap and canonical links)</span>
+      <input
+        className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-white focus:border-emerald-400 focus:outline-none"
+        placeholder={siteUrlPlaceholder}
+        value={siteUrl}
+        onChange={(event) => onSiteUrlChange(event.target.value)}
+      />
+    </label>
+    <button
+      onClick={onDownload}
+      className="w-full rounded-xl border border-emerald-400/60 px-4 py-2 text-xs font-semibold text-emerald-100 transition hover:border-emerald-400 hover:text-white"
+    >
+      Download site (zip with sitemap)
+    </button>
+  </div>
+);
+
+type SiteTabsProps = {
+  site: SiteBlueprint;
+  activeId: SitePageId;
+  onSelect: (id: SitePageId) => void;
+};
+
+export const SiteTabs = ({ site, activeId, onSelect }: SiteTabsProps) => (
+  <nav
+    className="flex flex-wrap items-center gap-2 rounded-full border border-white/10 bg-white/5 p-1.5"
+    aria-label="Site pages"
+  >
+    {site.pages.map((page) => (
+      <button
+        key={page.id}
+        onClick={() => onSelect(page.id)}
+        aria-current={page.id === activeId ? "page" : undefined}
+        className={clsx(
+          "rounded-full px-4 py-1.5 text-xs font-semibold transition",
+          page.id === activeId ? "bg-white text-slate-900" : "text-slate-300 hover:text-white",
+        )}
+      >
+        {page.navLabel}
+        <span className="ml-1.5 font-mono text-[10px] font-normal opacity-60">{page.path}</span>
+      </button>
+    ))}
+  </nav>
+);
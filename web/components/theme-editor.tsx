@@ -0,0 +1,259 @@
+"use client";
+
+import { clsx } from "clsx";
+import { contrastRatio, minContrastOnGradient, parseColor, pickHeroTextColor, rateContrast, toHex } from "@/lib/colors";
+import { FONT_STACKS, MAX_GRADIENT_STOPS, toGradient, type CustomTheme, type ThemeStyle } from "@/lib/themes";
+
+type ThemeEditorProps = {
+  theme: CustomTheme;
+  saved: boolean;
+  notes?: string[];
+  onChange: (theme: CustomTheme) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onDelete: () => void;
+};
+
+const RATING_STYLES = {
+  pass: { label: "AA", className: "border-emerald-400/60 bg-emerald-400/10 text-emerald-200" },
+  "large-only": { label: "AA large only", className: "border-amber-400/60 bg-amber-400/10 text-amber-200" },
+  fail: { label: "Fails AA", className: "border-rose-500/60 bg-rose-500/10 text-rose-200" },
+  unknown: { label: "Can't check", className: "border-white/10 bg-white/5 text-slate-400" },
+};
+
+const fieldClass =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white focus:border-emerald-400 focus:outline-none";
+
+export const ThemeEditor = ({ theme, saved, notes = [], onChange, onSave, onCancel, onDelete }: ThemeEditorProps) => {
+  const { palette, style } = theme;
+  const gradient = toGradient(style);
+  const heroText = pickHeroTextColor(palette, gradient);
+
+  const updateStyle = (patch: Partial<ThemeStyle>) => onChange({ ...theme, style: { ...style, ...patch } });
+  const updateStop = (index: number, color: string) =>
+    updateStyle({ gradientStops: style.gradientStops.map((stop, position) => (position === index ? color : stop)) });
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-emerald-400/40 bg-slate-950/60 p-4 text-xs text-slate-200">
+      <div className="h-16 rounded-xl border border-white/10" style={{ background: gradient }}>
+        <p
+          className="flex h-full items-center justify-center text-base font-semibold"
+          style={{ color: heroText, fontFamily: style.headingFont }}
+        >
+          {theme.name || "Untitled theme"}
+        </p>
+      </div>
+
+      {notes.length > 0 && (
+        <p className="rounded-xl border border-sky-400/30 bg-sky-400/10 px-3 py-2 text-sky-100">
+          Imported from brand kit: {notes.join(", ")}. Review and save to keep it.
+        </p>
+      )}
+
+      <label className="grid gap-1">
+        <span className="font-semibold uppercase tracking-[0.2em] text-slate-400">Name</span>
+        <input
+          className={fieldClass}
+          value={theme.name}
+          onChange={(event) => onChange({ ...theme, name: event.target.value })}
+        />
+      </label>
+
+      <fieldset className="grid gap-2">
+        <legend className="mb-1 font-semibold uppercase tracking-[0.2em] text-slate-400">Palette</legend>
+        {Object.entries(palette).map(([key, color]) => (
+          <ColorField
+            key={key}
+            label={key}
+            value={color}
+            onChange={(value) => onChange({ ...theme, palette: { ...palette, [key]: value } })}
+          />
+        ))}
+      </fieldset>
+
+      <fieldset className="grid gap-2">
+        <legend className="mb-1 font-semibold uppercase tracking-[0.2em] text-slate-400">Hero gradient</legend>
+        {style.gradientStops.map((stop, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <ColorField label={`Stop ${index + 1}`} value={stop} onChange={(value) => updateStop(index, value)} />
+            <button
+              className="rounded-full border border-white/10 px-2 py-1 text-slate-400 hover:border-rose-400 hover:text-rose-200 disabled:opacity-40"
+              disabled={style.gradientStops.length <= 2}
+              onClick={() =>
+                updateStyle({ gradientStops: style.gradientStops.filter((_, position) => position !== index) })
+              }
+              aria-label={`Remove stop ${index + 1}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        {style.gradientStops.length < MAX_GRADIENT_STOPS && (
+          <button
+            className="justify-self-start rounded-full border border-white/10 px-3 py-1 text-slate-300 hover:border-white/25 hover:text-white"
+            onClick={() =>
+              updateStyle({ gradientStops: [...style.gradientStops, style.gradientStops.at(-1) ?? "#ffffff"] })
+            }
+          >
+            Add stop
+          </button>
+        )}
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-slate-400">Angle</span>
+          <input
+            type="range"
+            min={0}
+            max={360}
+            step={5}
+            className="flex-1 accent-emerald-400"
+            value={style.gradientAngle}
+            onChange={(event) => updateStyle({ gradientAngle: Number(event.target.value) })}
+          />
+          <span className="w-10 text-right tabular-nums">{style.gradientAngle}°</span>
+        </label>
+      </fieldset>
+
+      <fieldset className="grid gap-2">
+        <legend className="mb-1 font-semibold uppercase tracking-[0.2em] text-slate-400">Type & shape</legend>
+        <FontField
+          label="Headings"
+          value={style.headingFont}
+          onChange={(headingFont) => updateStyle({ headingFont })}
+        />
+        <FontField label="Body" value={style.bodyFont} onChange={(bodyFont) => updateStyle({ bodyFont })} />
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-slate-400">Radius</span>
+          <input
+            type="range"
+            min={0}
+            max={40}
+            className="flex-1 accent-emerald-400"
+            value={style.radius}
+            onChange={(event) => updateStyle({ radius: Number(event.target.value) })}
+          />
+          <span className="w-10 text-right tabular-nums">{style.radius}px</span>
+        </label>
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-slate-400">Logo</span>
+          {style.logo && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={style.logo}
+              alt=""
+              className="h-7 w-auto max-w-16 shrink-0 rounded bg-white/10 object-contain p-0.5"
+            />
+          )}
+          <input
+            className={fieldClass}
+            placeholder="https://… or data:image/…"
+            value={style.logo ?? ""}
+            onChange={(event) => updateStyle({ logo: event.target.value.trim() || undefined })}
+          />
+        </label>
+      </fieldset>
+
+      <div className="grid gap-2">
+        <span className="font-semibold uppercase tracking-[0.2em] text-slate-400">Contrast</span>
+        <ContrastRow
+          label="Hero text on gradient"
+          detail={`Picked ${heroText}, worst stop`}
+          ratio={minContrastOnGradient(heroText, gradient)}
+        />
+        <ContrastRow label="Body text on surface" ratio={contrastRatio(palette.text, palette.surface)} />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          className="rounded-full bg-emerald-400 px-4 py-1.5 font-semibold text-emerald-950 hover:-translate-y-0.5"
+          onClick={onSave}
+        >
+          Save theme
+        </button>
+        <button
+          className="rounded-full border border-white/10 px-4 py-1.5 font-medium text-slate-300 hover:border-white/25 hover:text-white"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+        {saved && (
+          <button
+            className="ml-auto rounded-full border border-rose-400/40 px-4 py-1.5 font-medium text-rose-200 hover:border-rose-400"
+            onClick={() => {
+              if (window.confirm(`Delete the "${theme.name}" theme?`)) onDelete();
+            }}
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+type ColorFieldProps = {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+};
+
+const ColorField = ({ label, value, onChange }: ColorFieldProps) => {
+  const rgb = parseColor(value);
+  return (
+    <label className="flex flex-1 items-center gap-3">
+      <span className="w-16 truncate capitalize text-slate-400">{label}</span>
+      <input
+        type="color"
+        className="h-7 w-9 shrink-0 cursor-pointer rounded border border-white/10 bg-transparent"
+        value={rgb ? toHex(rgb) : "#000000"}
+        onChange={(event) => onChange(event.target.value)}
+      />
+      <input className={fieldClass} value={value} onChange={(event) => onChange(event.target.value)} />
+    </label>
+  );
+};
+
+type FontFieldProps = {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+};
+
+const FontField = ({ label, value, onChange }: FontFieldProps) => (
+  <label className="flex items-center gap-3">
+    <span className="w-16 text-slate-400">{label}</span>
+    <select className={fieldClass} value={value} onChange={(event) => onChange(event.target.value)}>
+      {!FONT_STACKS.some((font) => font.stack === value) && (
+        <option value={value} className="bg-slate-900">
+          {value.split(",")[0].replace(/"/g, "")} (brand kit)
+        </option>
+      )}
+      {FONT_STACKS.map((font) => (
+        <option key={font.id} value={font.stack} className="bg-slate-900">
+          {font.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+type ContrastRowProps = {
+  label: string;
+  detail?: string;
+  ratio: number | null;
+};
+
+const ContrastRow = ({ label, detail, ratio }: ContrastRowProps) => {
+  const rating = RATING_STYLES[rateContrast(ratio)];
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+      <div>
+        <p className="font-medium text-slate-100">{label}</p>
+        {detail && <p className="text-slate-400">{detail}</p>}
+      </div>
+      <span className="flex items-center gap-2">
+        {ratio !== null && <span className="tabular-nums text-slate-300">{ratio.toFixed(2)}:1</span>}
+        <span className={clsx("rounded-full border px-2 py-0.5 font-semibold", rating.className)}>{rating.label}</span>
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+"use client";
+
+import { clsx } from "clsx";
+import type { Variant } from "@/lib/variants";
+import { LandingPreview } from "@/components/landing-preview";
+
+type VariantGridProps = {
+  variants: Variant[];
+  pending: number;
+  winnerId: string | null;
+  onPick: (variant: Variant) => void;
+  onDownloadHtml: (variant: Variant) => void;
+  onDownloadReact: (variant: Variant) => void;
+  onDownloadAll: () => void;
+  onClose: () => void;
+};
+
+export const VariantGrid = ({
+  variants,
+  pending,
+  winnerId,
+  onPick,
+  onDownloadHtml,
+  onDownloadReact,
+  onDownloadAll,
+  onClose,
+}: VariantGridProps) => (
+  <div className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl shadow-black/40 backdrop-blur">
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <div>
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-400">A/B comparison</p>
+        <h2 className="mt-1 text-lg font-semibold text-white">
+          {variants.length} {variants.length === 1 ? "variant" : "variants"}
+          {pending > 0 && <span className="text-sm font-normal text-slate-400"> • {pending} still generating…</span>}
+        </h2>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={onDownloadAll}
+          disabled={variants.length === 0}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white disabled:opacity-40"
+        >
+          Download all (zip)
+        </button>
+        <button
+          onClick={onClose}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:border-white/25 hover:text-white"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+
+    <div className="grid gap-4 xl:grid-cols-2">
+      {variants.map((variant) => (
+        <div
+          key={variant.id}
+          className={clsx(
+            "flex flex-col gap-3 rounded-3xl border p-3 transition",
+            winnerId === variant.id ? "border-emerald-400 bg-emerald-400/10" : "border-white/10 bg-slate-950/40",
+          )}
+        >
+          <div className="flex items-center justify-between gap-3 px-2 pt-1">
+            <div className="flex min-w-0 items-center gap-3">
+              <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-white/10 text-sm font-semibold text-white">
+                {variant.letter}
+              </span>
+              <div className="min-w-0">
+                <p className="truncate text-sm font-semibold text-white">{variant.label}</p>
+                <p className="truncate font-mono text-[11px] text-slate-400">{variant.id}</p>
+              </div>
+            </div>
+            <button
+              onClick={() => onPick(variant)}
+              className={clsx(
+                "shrink-0 rounded-full px-3 py-1.5 text-xs font-semibold transition",
+                winnerId === variant.id
+                  ? "bg-emerald-400 text-emerald-950"
+                  : "border border-emerald-400/60 text-emerald-200 hover:border-emerald-400 hover:text-white",
+              )}
+            >
+              {winnerId === variant.id ? "Winner" : "Pick winner"}
+            </button>
+          </div>
+          {/* Half-size, read-only previews keep every hero visible without scrolling each card. */}
+          <div className="pointer-events-none max-h-[480px] overflow-hidden rounded-[28px] [zoom:0.5]">
+            <LandingPreview blueprint={variant.blueprint} />
+          </div>
+          <div className="flex gap-2 px-2 pb-1">
+            <button
+              onClick={() => onDownloadHtml(variant)}
+              className="rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white"
+            >
+              HTML
+            </button>
+            <button
+              onClick={() => onDownloadReact(variant)}
+              className="rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-emerald-400 hover:text-white"
+            >
+              React
+            </button>
+          </div>
+        </div>
+      ))}
+      {Array.from({ length: pending }, (_, index) => (
+        <div
+          key={`pending-${index}`}
+          className="flex min-h-[240px] items-center justify-center rounded-3xl border border-dashed border-white/10 text-xs text-slate-400"
+        >
+          <span className="mr-2 h-2.5 w-2.5 animate-pulse rounded-full bg-cyan-300" />
+          Generating…
+        </div>
+      ))}
+    </div>
+  </div>
+);
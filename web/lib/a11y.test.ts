@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { composeBlueprint } from "@/lib/generator";
+import { applyA11yFixes, auditBlueprint, fixesFor, withA11yColors, withA11yRepairs } from "@/lib/a11y";
+import { INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+import type { PageBlueprint } from "@/lib/sections";
+import { setHeroImage } from "@/lib/visuals";
+
+const blueprint: PageBlueprint = composeBlueprint(toBlueprintInput(INITIAL_FORM));
+
+// Neither white nor near-black text reaches AA on both ends of this gradient, and the body text is too pale.
+const lowContrast: PageBlueprint = {
+  ...blueprint,
+  gradient: "linear-gradient(120deg, #ff0000, #0000ff)",
+  palette: { ...blueprint.palette, text: "#a3a3a3", surface: "#ffffff" },
+};
+
+const PAGE = `<!doctype html><html><head><title>Page</title></head><body>
+<h1>Title</h1><h1>Second title</h1><h4>Deep</h4>
+<img src="a.png"><img src="b.png" alt="Chart">
+<button class="lp-button" type="button">Start</button>
+<form><button type="submit">Join</button></form>
+<section class="lp-section"></section><section class="lp-section"></section>
+</body></html>`;
+
+describe("auditBlueprint", () => {
+  it("reports contrast failures with the fix that repairs them", () => {
+    const issues = auditBlueprint(lowContrast);
+
+    assert.deepEqual(
+      issues.map((issue) => issue.rule),
+      ["hero-contrast", "body-contrast"],
+    );
+    assert.deepEqual(fixesFor(issues), ["contrast"]);
+  });
+
+  it("counts uploads that have no alt text", () => {
+    const upload = { src: "data:image/png;base64,AAAA", width: 1, height: 1 };
+    const [issue] = auditBlueprint(setHeroImage(blueprint, { illustration: "scene", alt: " ", upload }));
+
+    assert.equal(issue.rule, "upload-alt");
+    assert.match(issue.message, /^1 uploaded image has no alt text/);
+  });
+});
+
+describe("withA11yColors", () => {
+  it("brings colors up to AA once the contrast fix is on, and leaves them alone otherwise", () => {
+    assert.equal(withA11yColors(lowContrast), lowContrast);
+
+    const fixed = withA11yColors(applyA11yFixes(lowContrast, ["contrast"]));
+    assert.deepEqual(auditBlueprint(fixed), []);
+    assert.equal(fixed.palette.surface, "#ffffff");
+  });
+});
+
+describe("withA11yRepairs", () => {
+  it("changes nothing without repairs", () => {
+    assert.equal(withA11yRepairs(PAGE), PAGE);
+    assert.equal(withA11yRepairs(PAGE, {}), PAGE);
+  });
+
+  it("sets the language only when the page has none", () => {
+    assert.match(withA11yRepairs(PAGE, { lang: true }), /<html lang="en">/);
+    const french = PAGE.replace("<html>", `<html lang="fr">`);
+    assert.equal(withA11yRepairs(french, { lang: true }), french);
+  });
+
+  it("keeps one h1 and closes each heading at its new level", () => {
+    const repaired = withA11yRepairs(PAGE, { headings: true });
+
+    assert.ok(repaired.includes("<h1>Title</h1><h2>Second title</h2><h3>Deep</h3>"));
+  });
+
+  it("describes images as decorative unless they have alt text", () => {
+    const repaired = withA11yRepairs(PAGE, { altText: true });
+
+    assert.ok(repaired.includes(`<img alt="" src="a.png"><img src="b.png" alt="Chart">`));
+  });
+
+  it("turns CTA buttons into links to the last section, leaving form buttons", () => {
+    const repaired = withA11yRepairs(PAGE, { ctaLinks: true });
+
+    assert.ok(repaired.includes(`<a href="#get-started" class="lp-button">Start</a>`));
+    assert.ok(repaired.includes(`<button type="submit">Join</button>`));
+    assert.ok(repaired.includes(`<section class="lp-section"></section><section class="lp-section" id="get-started">`));
+  });
+
+  it("wraps the page in a main landmark with a skip link", () => {
+    const repaired = withA11yRepairs(PAGE, { landmarks: true });
+
+    assert.match(repaired, /<body>\n<a class="lp-skip-link" href="#main">Skip to content<\/a>\n<main id="main">/);
+    assert.match(repaired, /<\/main>\n<\/body>/);
+    assert.equal(withA11yRepairs(repaired, { landmarks: true }), repaired);
+  });
+});
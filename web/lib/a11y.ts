@@ -0,0 +1,323 @@
+import type { IssueSeverity } from "@/lib/brief-lint";
+import {
+  AA_NORMAL,
+  DARK_TEXT,
+  LIGHT_TEXT,
+  contrastRatio,
+  mapGradientColors,
+  minContrastOnGradient,
+  parseColor,
+  pickHeroTextColor,
+  toHex,
+  type Rgb,
+} from "@/lib/colors";
+import { injectHead, setHtmlAttributes } from "@/lib/html-document";
+import type { PageBlueprint } from "@/lib/sections";
+
+export type A11yFix = "contrast" | "lang" | "landmarks" | "headings" | "ctaLinks" | "altText";
+
+// Fixes are switches on the blueprint rather than one-off edits, so they survive regeneration: colors are
+// corrected by `withA11yColors` and the rendered markup is repaired by `withA11yRepairs` on export.
+export type A11yFixes = Partial<Record<A11yFix, boolean>>;
+
+export type A11yIssue = {
+  rule: string;
+  severity: IssueSeverity;
+  // WCAG 2.1 success criterion, e.g. "1.4.3".
+  wcag: string;
+  message: string;
+  fix?: A11yFix;
+};
+
+export const FIX_LABELS: Record<A11yFix, string> = {
+  contrast: "Adjust colors",
+  lang: "Set language",
+  landmarks: "Add main landmark",
+  headings: "Renumber headings",
+  ctaLinks: "Make CTAs links",
+  altText: "Add alt text",
+};
+
+const formatRatio = (ratio: number) => `${ratio.toFixed(2)}:1`;
+
+export const auditBlueprint = (blueprint: PageBlueprint): A11yIssue[] => {
+  const issues: A11yIssue[] = [];
+  const { palette, gradient } = blueprint;
+
+  const heroText = pickHeroTextColor(palette, gradient);
+  const heroRatio = minContrastOnGradient(heroText, gradient);
+  if (heroRatio === null) {
+    issues.push({
+      rule: "hero-contrast",
+      severity: "info",
+      wcag: "1.4.3",
+      message:
+        "The hero gradient uses colors we can't measure (keywords or CSS variables). Check its contrast by hand.",
+    });
+  } else if (heroRatio < AA_NORMAL) {
+    issues.push({
+      rule: "hero-contrast",
+      severity: "error",
+      wcag: "1.4.3",
+      message: `Hero text reaches ${formatRatio(heroRatio)} at its weakest gradient stop; AA needs ${AA_NORMAL}:1.`,
+      fix: "contrast",
+    });
+  }
+
+  const bodyRatio = contrastRatio(palette.text, palette.surface);
+  if (bodyRatio !== null && bodyRatio < AA_NORMAL) {
+    issues.push({
+      rule: "body-contrast",
+      severity: "error",
+      wcag: "1.4.3",
+      message: `Body text on the page surface is ${formatRatio(bodyRatio)}; AA needs ${AA_NORMAL}:1.`,
+      fix: "contrast",
+    });
+  }
+
+  // Illustrations are decorative by default, but an upload is usually there to show something. Logos fall back to
+  // the company name.
+  const undescribed = [
+    blueprint.heroImage,
+    ...blueprint.sections
+      .flatMap((section) => (section.kind === "logos" ? [] : (section.items ?? [])))
+      .map((item) => item.image),
+  ].filter((slot) => slot?.upload && !slot.alt.trim()).length;
+  if (undescribed) {
+    issues.push({
+      rule: "upload-alt",
+      severity: "warning",
+      wcag: "1.1.1",
+      message: `${undescribed} uploaded ${undescribed === 1 ? "image has" : "images have"} no alt text. Describe ${undescribed === 1 ? "it" : "them"} in the Images panel unless purely decorative.`,
+    });
+  }
+
+  return issues;
+};
+
+const textOf = (element: Element) => (element.textContent ?? "").replace(/\s+/g, " ").trim();
+
+export const auditDocument = (doc: Document, blueprint: PageBlueprint): A11yIssue[] => {
+  const issues: A11yIssue[] = [];
+
+  if (!doc.documentElement.getAttribute("lang")) {
+    issues.push({
+      rule: "document-lang",
+      severity: "error",
+      wcag: "3.1.1",
+      message: "The page doesn't declare its language, so screen readers guess the pronunciation.",
+      fix: "lang",
+    });
+  }
+
+  if (!doc.querySelector("main, [role=main]")) {
+    issues.push({
+      rule: "landmarks",
+      severity: "error",
+      wcag: "2.4.1",
+      message: "There's no main landmark or skip link, so keyboard users tab through everything to reach the content.",
+      fix: "landmarks",
+    });
+  }
+
+  const headings = [...doc.querySelectorAll("h1, h2, h3, h4, h5, h6")];
+  const h1Count = headings.filter((heading) => heading.tagName === "H1").length;
+  if (h1Count !== 1) {
+    issues.push({
+      rule: "single-h1",
+      severity: "warning",
+      wcag: "2.4.6",
+      message: h1Count ? `The page has ${h1Count} h1 headings; use one for the hero.` : "The page has no h1 heading.",
+      fix: h1Count > 1 ? "headings" : undefined,
+    });
+  }
+  const skipped = headings.filter((heading, index) => {
+    const previous = headings[index - 1];
+    return previous && Number(heading.tagName[1]) > Number(previous.tagName[1]) + 1;
+  });
+  if (skipped.length) {
+    issues.push({
+      rule: "heading-order",
+      severity: "warning",
+      wcag: "1.3.1",
+      message: `${skipped.length} ${skipped.length === 1 ? "heading skips" : "headings skip"} a level (first: "${textOf(skipped[0])}").`,
+      fix: "headings",
+    });
+  }
+
+  const buttons = [...doc.querySelectorAll("button")].filter(
+    (button) => !button.closest("form") && !button.hasAttribute("onclick"),
+  );
+  if (buttons.length) {
+    issues.push({
+      rule: "button-links",
+      severity: "warning",
+      wcag: "4.1.2",
+      message: `${buttons.length} ${buttons.length === 1 ? "button does" : "buttons do"} nothing ("${textOf(buttons[0])}"). Calls to action that go somewhere should be links.`,
+      fix: "ctaLinks",
+    });
+  }
+
+  const links = [...doc.querySelectorAll("a")];
+  const unnamed = links.filter(
+    (link) => !textOf(link) && !link.getAttribute("aria-label") && !link.querySelector("img[alt]:not([alt=''])"),
+  );
+  if (unnamed.length) {
+    issues.push({
+      rule: "link-name",
+      severity: "error",
+      wcag: "2.4.4",
+      message: `${unnamed.length} ${unnamed.length === 1 ? "link has" : "links have"} no text or label.`,
+    });
+  }
+  const dead = links.filter((link) => ["", "#"].includes(link.getAttribute("href") ?? ""));
+  if (dead.length) {
+    issues.push({
+      rule: "link-target",
+      severity: "warning",
+      wcag: "2.4.4",
+      message: `${dead.length} ${dead.length === 1 ? "link points" : "links point"} nowhere ("${textOf(dead[0])}").`,
+    });
+  }
+
+  const missingAlt = doc.querySelectorAll("img:not([alt])").length;
+  if (missingAlt) {
+    issues.push({
+      rule: "image-alt",
+      severity: "error",
+      wcag: "1.1.1",
+      message: `${missingAlt} ${missingAlt === 1 ? "image has" : "images have"} no alt attribute.`,
+      fix: "altText",
+    });
+  }
+
+  const statValues = new Set(blueprint.hero.stats.map((stat) => stat.value.trim()));
+  const statElements = [...doc.body.querySelectorAll("*")].filter(
+    (element) => element.children.length === 0 && statValues.has(textOf(element)),
+  );
+  if (statElements.length && statElements.every((element) => !element.closest("dl"))) {
+    issues.push({
+      rule: "stat-semantics",
+      severity: "info",
+      wcag: "1.3.1",
+      message:
+        "Hero stats are only paired visually. Mark them up as a description list (dt/dd) when hand-editing the export.",
+    });
+  }
+
+  return issues;
+};
+
+// Document checks need a DOM parser, so on the server only the blueprint is audited.
+export const auditPage = (blueprint: PageBlueprint, html: string) => [
+  ...auditBlueprint(blueprint),
+  ...(typeof DOMParser === "undefined"
+    ? []
+    : auditDocument(new DOMParser().parseFromString(html, "text/html"), blueprint)),
+];
+
+const blend = (color: string, target: Rgb, amount: number) => {
+  const rgb = parseColor(color);
+  return rgb
+    ? toHex(rgb.map((channel, index) => Math.round(channel + (target[index] - channel) * amount)) as Rgb)
+    : color;
+};
+
+// Darkens (or lightens) only the stops that fail, by the least amount that reaches AA, so the hue survives.
+export const ensureGradientContrast = (gradient: string) => {
+  const text =
+    (minContrastOnGradient(LIGHT_TEXT, gradient) ?? 0) >= (minContrastOnGradient(DARK_TEXT, gradient) ?? 0)
+      ? LIGHT_TEXT
+      : DARK_TEXT;
+  const target: Rgb = text === LIGHT_TEXT ? [0, 0, 0] : [255, 255, 255];
+  return mapGradientColors(gradient, (stop) => {
+    if ((contrastRatio(text, stop) ?? 0) >= AA_NORMAL) return stop;
+    for (let step = 1; step <= 20; step += 1) {
+      const candidate = blend(stop, target, step / 20);
+      if ((contrastRatio(text, candidate) ?? 0) >= AA_NORMAL) return candidate;
+    }
+    return blend(stop, target, 1);
+  });
+};
+
+const readableOn = (surface: string) =>
+  (contrastRatio(DARK_TEXT, surface) ?? 0) >= (contrastRatio(LIGHT_TEXT, surface) ?? 0) ? DARK_TEXT : LIGHT_TEXT;
+
+export const withA11yColors = (blueprint: PageBlueprint): PageBlueprint => {
+  if (!blueprint.a11y?.contrast) return blueprint;
+  const { palette, gradient } = blueprint;
+  const heroRatio = minContrastOnGradient(pickHeroTextColor(palette, gradient), gradient);
+  const bodyRatio = contrastRatio(palette.text, palette.surface);
+  return {
+    ...blueprint,
+    gradient: heroRatio !== null && heroRatio < AA_NORMAL ? ensureGradientContrast(gradient) : gradient,
+    palette: bodyRatio !== null && bodyRatio < AA_NORMAL ? { ...palette, text: readableOn(palette.surface) } : palette,
+  };
+};
+
+export const applyA11yFixes = (blueprint: PageBlueprint, fixes: A11yFix[]): PageBlueprint => ({
+  ...blueprint,
+  a11y: { ...blueprint.a11y, ...Object.fromEntries(fixes.map((fix) => [fix, true])) },
+});
+
+export const fixesFor = (issues: A11yIssue[]) => [
+  ...new Set(issues.flatMap((issue) => (issue.fix ? [issue.fix] : []))),
+];
+
+const SKIP_LINK_CSS = `
+.lp-skip-link { position: absolute; left: 16px; top: -48px; padding: 8px 16px; background: #0f172a; color: #fff; border-radius: 8px; z-index: 100; }
+.lp-skip-link:focus { top: 16px; }
+`;
+
+// Keeps one h1 and never lets a heading jump more than one level below the one before it.
+const renumberHeadings = (html: string) => {
+  let previous = 0;
+  let seenH1 = false;
+  const levels: number[] = [];
+  return html.replace(/<(\/?)h([1-6])\b/gi, (_, closing: string, digit: string) => {
+    if (closing) return `</h${levels.pop() ?? digit}`;
+    let level = Number(digit);
+    if (level === 1 && seenH1) level = 2;
+    level = Math.max(1, Math.min(level, previous + 1));
+    if (level === 1) seenH1 = true;
+    previous = level;
+    levels.push(level);
+    return `<h${level}`;
+  });
+};
+
+// Without real destinations, calls to action jump to the last section, where the closing CTA lives.
+const linkCtas = (html: string) => {
+  const last = [...html.matchAll(/<section\b[^>]*>/gi)].at(-1);
+  const existingId = last?.[0].match(/\sid=["']([^"']+)["']/i)?.[1];
+  const target = existingId ?? (last ? "get-started" : "main");
+  // Spliced in at the match, since earlier sections can have the very same opening tag.
+  const withTarget =
+    last && !existingId
+      ? `${html.slice(0, last.index)}${last[0].replace(/>$/, ` id="${target}">`)}${html.slice(last.index + last[0].length)}`
+      : html;
+  // Submit buttons belong to forms, such as the lead form, and stay buttons.
+  return withTarget.replace(/<button\b([^>]*)>([\s\S]*?)<\/button>/gi, (button, attributes: string, inner: string) =>
+    /\stype=["']?submit/i.test(attributes)
+      ? button
+      : `<a href="#${target}"${attributes.replace(/\s(?:type|disabled)(?:=(?:"[^"]*"|'[^']*'|[^\s>]+))?/gi, "")}>${inner}</a>`,
+  );
+};
+
+export const withA11yRepairs = (html: string, repairs?: A11yFixes) => {
+  if (!repairs) return html;
+  let repaired = html;
+  if (repairs.lang && !/<html\b[^>]*\slang=/i.test(repaired)) repaired = setHtmlAttributes(repaired, { lang: "en" });
+  if (repairs.headings) repaired = renumberHeadings(repaired);
+  if (repairs.altText) repaired = repaired.replace(/<img\b(?![^>]*\salt=)/gi, '<img alt=""');
+  if (repairs.ctaLinks) repaired = linkCtas(repaired);
+  if (repairs.landmarks && !/<main[\s>]/i.test(repaired)) {
+    repaired = injectHead(repaired, `<style data-launchpilot-a11y>${SKIP_LINK_CSS}</style>`)
+      .replace(
+        /<body[^>]*>/i,
+        (tag) => `${tag}\n<a class="lp-skip-link" href="#main">Skip to content</a>\n<main id="main">`,
+      )
+      .replace(/<\/body>/i, "</main>\n</body>");
+  }
+  return repaired;
+};
@@ -0,0 +1,56 @@
+import type { LandingBlueprint, ThemeOption } from "@/lib/generator";
+import type { FormState } from "@/lib/brief";
+import type { PipelineEvent } from "@/lib/agent-pipeline";
+import { readEventStream } from "@/lib/sse";
+
+export const streamGeneration = async (
+  form: FormState,
+  theme: ThemeOption | undefined,
+  onEvent: (event: PipelineEvent) => void,
+  signal?: AbortSignal,
+) => {
+  const response = await fetch("/api/agent", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ form, theme }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Agent responded with ${response.status}`);
+  }
+  await readEventStream(response.body, (data) => onEvent(JSON.parse(data) as PipelineEvent));
+};
+
+// Runs one generation to completion and resolves with its page, for callers that don't render the timeline.
+export const generateBlueprint = async (form: FormState, theme: ThemeOption | undefined, signal?: AbortSignal) => {
+  let blueprint: LandingBlueprint | undefined;
+  let failure: string | undefined;
+  await streamGeneration(
+    form,
+    theme,
+    (event) => {
+      if (event.type === "result") blueprint = event.blueprint;
+      if (event.type === "error") failure = event.message;
+    },
+    signal,
+  );
+  if (!blueprint) throw new Error(failure ?? "The agent stopped before returning a page");
+  return blueprint;
+};
+
+export const translateStrings = async (locale: string, strings: Record<string, string>, signal?: AbortSignal) => {
+  const response = await fetch("/api/translate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ locale, strings }),
+    signal,
+  });
+  const payload = (await response.json().catch(() => null)) as {
+    strings?: Record<string, string>;
+    error?: string;
+  } | null;
+  if (!response.ok || !payload?.strings) {
+    throw new Error(payload?.error ?? `Translation responded with ${response.status}`);
+  }
+  return payload.strings;
+};
@@ -0,0 +1,132 @@
+import { composeBlueprint, type LandingBlueprint } from "@/lib/generator";
+import type { BlueprintInput } from "@/lib/brief";
+import { applyCopyPatch, templateProvider, type CopyProvider } from "@/lib/copy-provider";
+
+export type PipelineStageId = "analyze" | "structure" | "copy" | "polish";
+
+export type StageStatus = "pending" | "active" | "done" | "failed" | "skipped";
+
+export type PipelineStage = {
+  id: PipelineStageId;
+  title: string;
+  caption: string;
+};
+
+export type PipelineEvent =
+  | { type: "plan"; provider: string; stages: PipelineStage[] }
+  | {
+      type: "stage";
+      id: PipelineStageId;
+      status: Exclude<StageStatus, "pending">;
+      caption?: string;
+      durationMs?: number;
+    }
+  | { type: "token"; text: string }
+  | { type: "result"; blueprint: LandingBlueprint }
+  | { type: "error"; message: string };
+
+export const planStages = (input: BlueprintInput, provider: CopyProvider): PipelineStage[] => [
+  { id: "analyze", title: "Decode the brief", caption: "Understanding audience, promise, and differentiators" },
+  { id: "structure", title: "Map the narrative", caption: "Assembling hero, proof, workflow, and CTA" },
+  { id: "copy", title: "Write the copy", caption: `Drafting with ${provider.label}` },
+  {
+    id: "polish",
+    title: "Polish the layout",
+    caption: `Applying ${input.theme.name} theme with ${input.tone.name.toLowerCase()} tone`,
+  },
+];
+
+// Lets a stage finish with something other than "done" without aborting the run.
+class StageOutcome<T> {
+  constructor(
+    readonly value: T,
+    readonly status: "failed" | "skipped",
+    readonly caption: string,
+  ) {}
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+type RunOptions = {
+  provider: CopyProvider;
+  emit: (event: PipelineEvent) => void;
+  signal?: AbortSignal;
+};
+
+export const runPipeline = async (input: BlueprintInput, { provider, emit, signal }: RunOptions) => {
+  const stages = planStages(input, provider);
+  const pending = new Set(stages.map((stage) => stage.id));
+  emit({ type: "plan", provider: provider.id, stages });
+
+  const runStage = async <T>(
+    id: PipelineStageId,
+    work: () => T | Promise<T | StageOutcome<T>>,
+    describe: (value: T) => string,
+  ) => {
+    signal?.throwIfAborted();
+    pending.delete(id);
+    emit({ type: "stage", id, status: "active" });
+    const startedAt = performance.now();
+    const elapsed = () => Math.round(performance.now() - startedAt);
+    try {
+      const result = await work();
+      if (result instanceof StageOutcome) {
+        emit({ type: "stage", id, status: result.status, caption: result.caption, durationMs: elapsed() });
+        return result.value as T;
+      }
+      emit({ type: "stage", id, status: "done", caption: describe(result), durationMs: elapsed() });
+      return result;
+    } catch (error) {
+      const caption = signal?.aborted ? "Cancelled" : errorMessage(error);
+      emit({ type: "stage", id, status: "failed", caption, durationMs: elapsed() });
+      pending.forEach((rest) => emit({ type: "stage", id: rest, status: "skipped", caption: `Skipped: ${id} failed` }));
+      throw error;
+    }
+  };
+
+  await runStage(
+    "analyze",
+    () => (["productName", "oneLiner", "audience"] as const).filter((key) => !input[key].trim()),
+    (missing) =>
+      missing.length
+        ? `Working around a thin brief (missing ${missing.join(", ")})`
+        : `${input.features.length} features for ${input.audience}`,
+  );
+
+  const draft = await runStage(
+    "structure",
+    () => composeBlueprint(input),
+    (result) => `${result.sections.length} sections: ${result.sections.map((section) => section.label).join(", ")}`,
+  );
+
+  const blueprint = await runStage(
+    "copy",
+    async () => {
+      if (provider.id === templateProvider.id) {
+        return new StageOutcome(draft, "skipped", "No copy provider configured — kept template copy");
+      }
+      try {
+        const patch = await provider.generateCopy(
+          { input, draft },
+          { signal, onToken: (text) => emit({ type: "token", text }) },
+        );
+        return applyCopyPatch(draft, patch);
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error("Copy provider failed, using template copy", error);
+        return new StageOutcome(draft, "failed", `${errorMessage(error)} — kept template copy`);
+      }
+    },
+    () => `Written by ${provider.label}`,
+  );
+
+  await runStage(
+    "polish",
+    () => {
+      emit({ type: "result", blueprint });
+      return blueprint;
+    },
+    () => "Ready to export",
+  );
+  return blueprint;
+};
@@ -0,0 +1,220 @@
+import { CTA_SLOTS, isHttpUrl, leadFormTarget } from "@/lib/cta";
+import { escapeAttribute, injectBodyEnd, injectHead } from "@/lib/html-document";
+import type { PageBlueprint } from "@/lib/sections";
+
+export type AnalyticsProvider = "plausible" | "ga4" | "posthog" | "beacon";
+
+export type AnalyticsSettings = {
+  provider: AnalyticsProvider;
+  // Plausible domain, GA4 measurement ID, PostHog project key or the beacon endpoint URL.
+  siteId: string;
+  // Self-hosted Plausible or PostHog instance, or a reverse proxy in front of either.
+  host?: string;
+  trackSections?: boolean;
+};
+
+export const ANALYTICS_PROVIDERS: Array<{
+  id: AnalyticsProvider;
+  label: string;
+  idLabel: string;
+  placeholder: string;
+  defaultHost?: string;
+}> = [
+  {
+    id: "plausible",
+    label: "Plausible",
+    idLabel: "Site domain",
+    placeholder: "example.com",
+    defaultHost: "https://plausible.io",
+  },
+  { id: "ga4", label: "Google Analytics 4", idLabel: "Measurement ID", placeholder: "G-XXXXXXXXXX" },
+  {
+    id: "posthog",
+    label: "PostHog",
+    idLabel: "Project API key",
+    placeholder: "phc_…",
+    defaultHost: "https://us.i.posthog.com",
+  },
+  { id: "beacon", label: "Custom endpoint", idLabel: "Beacon URL", placeholder: "https://example.com/events" },
+];
+
+export const getAnalyticsProvider = (id: AnalyticsProvider) =>
+  ANALYTICS_PROVIDERS.find((provider) => provider.id === id) ?? ANALYTICS_PROVIDERS[0];
+
+export const validateAnalytics = ({ provider, siteId, host }: AnalyticsSettings): string | null => {
+  const id = siteId.trim();
+  if (!id) return `Add the ${getAnalyticsProvider(provider).idLabel.toLowerCase()}.`;
+  if (host?.trim() && !isHttpUrl(host.trim())) return "The host must be an http(s) URL.";
+  switch (provider) {
+    case "plausible":
+      return /^[a-z0-9.-]+\.[a-z]{2,}(?:,[a-z0-9.-]+\.[a-z]{2,})*$/i.test(id)
+        ? null
+        : "Use the domain as registered in Plausible, e.g. example.com.";
+    case "ga4":
+      return /^G-[A-Z0-9]+$/.test(id) ? null : "GA4 measurement IDs look like G-XXXXXXXXXX.";
+    case "posthog":
+      return id.startsWith("phc_") ? null : "PostHog project keys start with phc_.";
+    default:
+      return isHttpUrl(id) ? null : "Use a full URL like https://example.com/events.";
+  }
+};
+
+// GA4 caps event names at 40 characters of letters, digits and underscores; the others accept that subset too.
+const EVENT_NAME_LIMIT = 40;
+
+const slug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+export const eventName = (...parts: string[]) =>
+  parts.map(slug).filter(Boolean).join("_").slice(0, EVENT_NAME_LIMIT).replace(/_+$/, "");
+
+export type TrackedEvent = { name: string; trigger: string };
+
+// The events an export will send, named from section ids so they stay stable as copy and order change.
+export const listTrackedEvents = (blueprint: PageBlueprint, settings: AnalyticsSettings): TrackedEvent[] => {
+  const form = leadFormTarget(blueprint);
+  return [
+    ...CTA_SLOTS.map((slot) => ({
+      name: eventName("cta_click", slot),
+      trigger: `Click on “${slot === "primary" ? blueprint.hero.primaryCta : blueprint.hero.secondaryCta}”`,
+    })),
+    ...(settings.trackSections === false
+      ? []
+      : blueprint.sections.map((section) => ({
+          name: eventName("section_view", section.id),
+          trigger: `Half of “${section.label || section.headline}” scrolls into view`,
+        }))),
+    ...(form ? [{ name: eventName("form_submit", form.form), trigger: "Lead form submitted successfully" }] : []),
+  ];
+};
+
+const trimHost = (host: string | undefined, fallback = "") => (host?.trim() || fallback).replace(/\/+$/, "");
+
+const providerSnippet = ({ provider, siteId, host }: AnalyticsSettings) => {
+  const id = escapeAttribute(siteId.trim());
+  switch (provider) {
+    case "plausible":
+      return `<script defer data-domain="${id}" src="${escapeAttribute(trimHost(host, "https://plausible.io"))}/js/script.js"></script>`;
+    case "ga4":
+      return `<script async src="https://www.googletagmanager.com/gtag/js?id=${encodeURIComponent(siteId.trim())}"></script>`;
+    case "posthog": {
+      // PostHog Cloud serves its library from a separate assets host; proxies and self-hosted instances serve it directly.
+      const apiHost = trimHost(host, "https://us.i.posthog.com");
+      const assets = apiHost.replace(/^https:\/\/(us|eu)\.i\.posthog\.com$/, "https://$1-assets.i.posthog.com");
+      return `<script async src="${escapeAttribute(assets)}/static/array.js"></script>`;
+    }
+    default:
+      return "";
+  }
+};
+
+// Plain ES5 so it runs anywhere the page does. Events fired before a provider's library loads are queued.
+const TRACKING_SCRIPT = `
+(function () {
+  var config = __CONFIG__;
+  var variant = document.documentElement.getAttribute("data-variant");
+  var queue = [];
+  var ready = false;
+
+  function name() {
+    return Array.prototype.slice
+      .call(arguments)
+      .map(function (part) {
+        return String(part).toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+      })
+      .filter(Boolean)
+      .join("_")
+      .slice(0, 40)
+      .replace(/_+$/, "");
+  }
+
+  function send(event, props) {
+    if (variant) props.variant = variant;
+    if (config.provider === "plausible") {
+      window.plausible(event, { props: props });
+    } else if (config.provider === "ga4") {
+      window.gtag("event", event, props);
+    } else if (config.provider === "posthog") {
+      if (!ready) return queue.push([event, props]);
+      window.posthog.capture(event, props);
+    } else {
+      var body = JSON.stringify({ event: event, props: props, page: location.pathname, referrer: document.referrer, at: new Date().toISOString() });
+      if (!(navigator.sendBeacon && navigator.sendBeacon(config.siteId, body))) {
+        fetch(config.siteId, { method: "POST", body: body, keepalive: true, headers: { "Content-Type": "application/json" } });
+      }
+    }
+  }
+
+  if (config.provider === "plausible") {
+    window.plausible = window.plausible || function () { (window.plausible.q = window.plausible.q || []).push(arguments); };
+  } else if (config.provider === "ga4") {
+    window.dataLayer = window.dataLayer || [];
+    window.gtag = function () { window.dataLayer.push(arguments); };
+    window.gtag("js", new Date());
+    window.gtag("config", config.siteId, variant ? { variant: variant } : {});
+  } else if (config.provider === "posthog") {
+    window.addEventListener("load", function () {
+      if (!window.posthog) return;
+      window.posthog.init(config.siteId, { api_host: config.host });
+      if (variant) window.posthog.register({ variant: variant });
+      ready = true;
+      queue.splice(0).forEach(function (entry) { send(entry[0], entry[1]); });
+    });
+  } else {
+    send("pageview", {});
+  }
+
+  document.addEventListener("click", function (event) {
+    var link = event.target.closest && event.target.closest("[data-lp-cta]");
+    if (link) send(name("cta_click", link.getAttribute("data-lp-cta")), { href: link.getAttribute("href") || "" });
+  });
+
+  document.addEventListener("submit", function (event) {
+    var form = event.target;
+    if (!form.hasAttribute("data-lp-lead")) return;
+    var status = form.querySelector("[data-lp-status]");
+    var kind = (form.querySelector("input[name=form]") || {}).value || "lead";
+    // The lead form script only shows its success message after the endpoint accepted the submission.
+    if (!status || !window.MutationObserver) return send(name("form_submit", kind), {});
+    var observer = new MutationObserver(function () {
+      if (status.textContent === form.getAttribute("data-success")) send(name("form_submit", kind), {});
+      observer.disconnect();
+    });
+    observer.observe(status, { childList: true, characterData: true, subtree: true });
+  });
+
+  if (config.trackSections && window.IntersectionObserver) {
+    var seen = new IntersectionObserver(
+      function (entries) {
+        entries.forEach(function (entry) {
+          if (!entry.isIntersecting) return;
+          seen.unobserve(entry.target);
+          send(name("section_view", entry.target.getAttribute("data-lp-section")), {});
+        });
+      },
+      { threshold: 0.5 }
+    );
+    document.querySelectorAll("[data-lp-section]").forEach(function (section) { seen.observe(section); });
+  }
+})();
+`;
+
+export const withAnalytics = (html: string, settings?: AnalyticsSettings) => {
+  if (!settings || validateAnalytics(settings)) return html;
+  const config = {
+    provider: settings.provider,
+    siteId: settings.siteId.trim(),
+    host: trimHost(settings.host, getAnalyticsProvider(settings.provider).defaultHost),
+    trackSections: settings.trackSections !== false,
+  };
+  // `<` is escaped so settings can't close the script tag.
+  const script = TRACKING_SCRIPT.replace("__CONFIG__", () => JSON.stringify(config).replace(/</g, "\\u003c"));
+  const snippet = providerSnippet(settings);
+  return injectBodyEnd(
+    snippet ? injectHead(html, snippet) : html,
+    `<script data-launchpilot-analytics>${script}</script>`,
+  );
+};
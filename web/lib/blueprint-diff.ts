@@ -0,0 +1,112 @@
+import type { LandingSection, PageBlueprint, SectionItem } from "@/lib/sections";
+import { describeImage } from "@/lib/visuals";
+
+export type TextChange = { label: string; before: string; after: string };
+
+type SectionSummary = { id: string; label: string; headline: string };
+
+export type SectionDiff =
+  | (SectionSummary & { status: "added" | "removed" })
+  | (SectionSummary & {
+      status: "changed" | "unchanged";
+      moved: boolean;
+      text: TextChange[];
+      addedItems: string[];
+      removedItems: string[];
+    });
+
+export type BlueprintDiff = {
+  theme: TextChange[];
+  hero: TextChange[];
+  // In the newer blueprint's order; removed sections sit where they used to be.
+  sections: SectionDiff[];
+};
+
+const change = (label: string, before = "", after = ""): TextChange[] =>
+  before === after ? [] : [{ label, before, after }];
+
+const themeChanges = (before: PageBlueprint, after: PageBlueprint) => [
+  ...change("Hero layout", before.heroLayout, after.heroLayout),
+  ...change("Gradient", before.gradient, after.gradient),
+  ...change("Text color", before.palette.text, after.palette.text),
+  ...change("Surface color", before.palette.surface, after.palette.surface),
+  ...change("Heading font", before.style?.headingFont, after.style?.headingFont),
+  ...change("Body font", before.style?.bodyFont, after.style?.bodyFont),
+  ...change("Corner radius", before.style && `${before.style.radius}px`, after.style && `${after.style.radius}px`),
+  ...change("Logo", before.style?.logo && "Custom logo", after.style?.logo && "Custom logo"),
+];
+
+const statsText = (blueprint: PageBlueprint) =>
+  blueprint.hero.stats.map((stat) => `${stat.value} ${stat.label}`).join(" · ");
+
+const heroChanges = ({ hero: before }: PageBlueprint, { hero: after }: PageBlueprint) => [
+  ...change("Eyebrow", before.eyebrow, after.eyebrow),
+  ...change("Headline", before.title, after.title),
+  ...change("Subtitle", before.subtitle, after.subtitle),
+  ...change("Primary CTA", before.primaryCta, after.primaryCta),
+  ...change("Secondary CTA", before.secondaryCta, after.secondaryCta),
+];
+
+const heroImageChanges = (before: PageBlueprint, after: PageBlueprint) =>
+  change("Image", describeImage(before.heroImage), describeImage(after.heroImage));
+
+const itemText = (item: SectionItem) =>
+  [item.meta, item.description, ...(item.values ?? []), describeImage(item.image)].filter(Boolean).join(" · ");
+
+// Items are matched by title, so a renamed item reads as one removed and one added.
+const compareSections = (before: LandingSection, after: LandingSection) => {
+  const beforeItems = new Map((before.items ?? []).map((item) => [item.title, item]));
+  const afterTitles = new Set((after.items ?? []).map((item) => item.title));
+  return {
+    text: [
+      ...change("Label", before.label, after.label),
+      ...change("Headline", before.headline, after.headline),
+      ...change("Body", before.body, after.body),
+      ...change("Columns", before.columns?.join(" · "), after.columns?.join(" · ")),
+      ...(after.items ?? []).flatMap((item) => {
+        const previous = beforeItems.get(item.title);
+        return previous ? change(`“${item.title}”`, itemText(previous), itemText(item)) : [];
+      }),
+    ],
+    addedItems: [...afterTitles].filter((title) => !beforeItems.has(title)),
+    removedItems: [...beforeItems.keys()].filter((title) => !afterTitles.has(title)),
+  };
+};
+
+const summary = ({ id, label, headline }: LandingSection): SectionSummary => ({ id, label, headline });
+
+export const diffBlueprints = (before: PageBlueprint, after: PageBlueprint): BlueprintDiff => {
+  const previous = new Map(before.sections.map((section) => [section.id, section]));
+  const afterIds = new Set(after.sections.map((section) => section.id));
+  // Relative order among the sections both sides have; anything else shifting doesn't count as a move.
+  const keptBefore = before.sections.filter((section) => afterIds.has(section.id)).map((section) => section.id);
+  const keptAfter = after.sections.filter((section) => previous.has(section.id)).map((section) => section.id);
+
+  const sections = after.sections.map((section): SectionDiff => {
+    const old = previous.get(section.id);
+    if (!old) return { ...summary(section), status: "added" };
+    const compared = compareSections(old, section);
+    const moved = keptBefore.indexOf(section.id) !== keptAfter.indexOf(section.id);
+    const changed = moved || compared.text.length + compared.addedItems.length + compared.removedItems.length > 0;
+    return { ...summary(section), status: changed ? "changed" : "unchanged", moved, ...compared };
+  });
+
+  before.sections.forEach((section, index) => {
+    if (!afterIds.has(section.id)) {
+      sections.splice(Math.min(index, sections.length), 0, { ...summary(section), status: "removed" });
+    }
+  });
+
+  return {
+    theme: themeChanges(before, after),
+    hero: [
+      ...heroChanges(before, after),
+      ...heroImageChanges(before, after),
+      ...change("Stats", statsText(before), statsText(after)),
+    ],
+    sections,
+  };
+};
+
+export const countChanges = (diff: BlueprintDiff) =>
+  diff.theme.length + diff.hero.length + diff.sections.filter((section) => section.status !== "unchanged").length;
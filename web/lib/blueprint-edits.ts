@@ -0,0 +1,107 @@
+import type { PageBlueprint } from "@/lib/sections";
+
+// Manual copy edits keyed by text path, e.g. "hero.title" or "sections.features.items.2.description".
+// Sections are addressed by id so edits survive regeneration even when the generator changes their order.
+export type BlueprintEdits = Record<string, string>;
+
+type HeroTextField = "eyebrow" | "title" | "subtitle" | "primaryCta" | "secondaryCta";
+type SectionTextField = "label" | "headline" | "body";
+type ItemTextField = "title" | "description" | "meta";
+type StatTextField = "label" | "value";
+
+export const textPath = {
+  hero: (field: HeroTextField) => `hero.${field}`,
+  stat: (index: number, field: StatTextField) => `hero.stats.${index}.${field}`,
+  section: (sectionId: string, field: SectionTextField) => `sections.${sectionId}.${field}`,
+  item: (sectionId: string, index: number, field: ItemTextField) => `sections.${sectionId}.items.${index}.${field}`,
+  itemValue: (sectionId: string, index: number, valueIndex: number) =>
+    `sections.${sectionId}.items.${index}.values.${valueIndex}`,
+  column: (sectionId: string, index: number) => `sections.${sectionId}.columns.${index}`,
+};
+
+const setAt = <T>(list: T[], index: number, update: (entry: T) => T) =>
+  list.map((entry, entryIndex) => (entryIndex === index ? update(entry) : entry));
+
+export const setBlueprintText = (blueprint: PageBlueprint, path: string, value: string): PageBlueprint => {
+  const [root, ...rest] = path.split(".");
+
+  if (root === "hero") {
+    if (rest[0] === "stats") {
+      const index = Number(rest[1]);
+      const field = rest[2] as StatTextField;
+      if (!blueprint.hero.stats[index]) return blueprint;
+      return {
+        ...blueprint,
+        hero: { ...blueprint.hero, stats: setAt(blueprint.hero.stats, index, (stat) => ({ ...stat, [field]: value })) },
+      };
+    }
+    return { ...blueprint, hero: { ...blueprint.hero, [rest[0] as HeroTextField]: value } };
+  }
+
+  if (root === "sections") {
+    const [sectionId, field, index, itemField, valueIndex] = rest;
+    const sectionIndex = blueprint.sections.findIndex((section) => section.id === sectionId);
+    if (sectionIndex === -1) return blueprint;
+    return {
+      ...blueprint,
+      sections: setAt(blueprint.sections, sectionIndex, (section) => {
+        if (field === "columns") {
+          const columnIndex = Number(index);
+          return section.columns?.[columnIndex] === undefined
+            ? section
+            : { ...section, columns: setAt(section.columns, columnIndex, () => value) };
+        }
+        if (field !== "items") return { ...section, [field as SectionTextField]: value };
+        const itemIndex = Number(index);
+        if (!section.items?.[itemIndex]) return section;
+        return {
+          ...section,
+          items: setAt(section.items, itemIndex, (item) => {
+            if (itemField !== "values") return { ...item, [itemField as ItemTextField]: value };
+            const cell = Number(valueIndex);
+            return item.values?.[cell] === undefined ? item : { ...item, values: setAt(item.values, cell, () => value) };
+          }),
+        };
+      }),
+    };
+  }
+
+  return blueprint;
+};
+
+// Every editable string with its path, in reading order. The inverse of `setBlueprintText`.
+export const listTextPaths = (blueprint: PageBlueprint): Array<[path: string, value: string]> => {
+  const { hero, sections } = blueprint;
+  const entries: Array<[string, string]> = [
+    ...(["eyebrow", "title", "subtitle", "primaryCta", "secondaryCta"] as const).map(
+      (field): [string, string] => [textPath.hero(field), hero[field]],
+    ),
+    ...hero.stats.flatMap((stat, index): Array<[string, string]> => [
+      [textPath.stat(index, "value"), stat.value],
+      [textPath.stat(index, "label"), stat.label],
+    ]),
+  ];
+  sections.forEach((section) => {
+    (["label", "headline", "body"] as const).forEach((field) =>
+      entries.push([textPath.section(section.id, field), section[field]]),
+    );
+    section.columns?.forEach((column, index) => entries.push([textPath.column(section.id, index), column]));
+    section.items?.forEach((item, index) => {
+      entries.push([textPath.item(section.id, index, "title"), item.title]);
+      entries.push([textPath.item(section.id, index, "description"), item.description]);
+      if (item.meta) entries.push([textPath.item(section.id, index, "meta"), item.meta]);
+      item.values?.forEach((value, valueIndex) =>
+        entries.push([textPath.itemValue(section.id, index, valueIndex), value]),
+      );
+    });
+  });
+  return entries.filter(([, value]) => value.trim() !== "");
+};
+
+export const applyEdits = (blueprint: PageBlueprint, edits: BlueprintEdits) =>
+  Object.entries(edits).reduce((current, [path, value]) => setBlueprintText(current, path, value), blueprint);
+
+export const dropSectionEdits = (edits: BlueprintEdits, sectionId: string) =>
+  Object.fromEntries(Object.entries(edits).filter(([path]) => !path.startsWith(`sections.${sectionId}.`)));
+
+export const countEdits = (edits: BlueprintEdits) => Object.keys(edits).length;
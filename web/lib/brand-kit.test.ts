@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { THEMES } from "@/lib/generator";
+import { BrandKitError, brandKitToTheme, parseBrandKit } from "@/lib/brand-kit";
+
+const GRADIENT = "linear-gradient(120deg, #6366f1, #ec4899)";
+
+const DESIGN_TOKENS = JSON.stringify({
+  name: "Acme",
+  color: {
+    $type: "color",
+    blue: { 500: { $value: "#2563eb" } },
+    brand: { primary: { $value: "{color.blue.500}" }, accent: { $value: "#f59e0b" } },
+    background: { $value: "#fafafa" },
+  },
+  font: { heading: { $type: "fontFamily", $value: ["Playfair Display", "serif"] }, body: { value: "Inter" } },
+  asset: { logo: { $value: "https://acme.example/logo.svg" } },
+});
+
+const CSS = `
+  /* --color-ignored: #000000; */
+  :root {
+    --brand: #0ea5e9;
+    --color-primary: var(--brand);
+    --color-text: var(--missing, #111827);
+    --font-body: "IBM Plex Sans", system-ui;
+    --logo: url("/brand/logo.png");
+  }
+  @theme { --color-accent: #f43f5e; }
+`;
+
+const TAILWIND = `
+  const defaultTheme = require('tailwindcss/defaultTheme')
+  // Brand colors
+  module.exports = {
+    theme: {
+      extend: {
+        colors: { brand: { DEFAULT: '#7c3aed', 500: '#8b5cf6', }, 'brand-accent': '#22d3ee' },
+        fontFamily: { sans: ['Inter', ...defaultTheme.fontFamily.sans], },
+      },
+    },
+  }
+`;
+
+describe("parseBrandKit", () => {
+  it("reads design tokens, following aliases and inherited types", () => {
+    const kit = parseBrandKit(DESIGN_TOKENS);
+
+    assert.equal(kit.format, "design-tokens");
+    assert.equal(kit.name, "Acme");
+    assert.equal(kit.colors["color-brand-primary"], "#2563eb");
+    assert.equal(kit.colors["color-background"], "#fafafa");
+    assert.equal(kit.fonts["font-heading"], `"Playfair Display", serif`);
+    assert.equal(kit.fonts["font-body"], "Inter, sans-serif");
+    assert.equal(kit.logo, "https://acme.example/logo.svg");
+  });
+
+  it("reads CSS custom properties, resolving var() and skipping comments", () => {
+    const kit = parseBrandKit(CSS);
+
+    assert.equal(kit.format, "css");
+    assert.deepEqual(Object.keys(kit.colors).sort(), ["brand", "color-accent", "color-primary", "color-text"]);
+    assert.equal(kit.colors["color-primary"], "#0ea5e9");
+    assert.equal(kit.colors["color-text"], "#111827");
+    assert.equal(kit.fonts["font-body"], `"IBM Plex Sans", system-ui`);
+    assert.equal(kit.logo, "/brand/logo.png");
+  });
+
+  it("reads a Tailwind config without evaluating it", () => {
+    const kit = parseBrandKit(TAILWIND);
+
+    assert.equal(kit.format, "tailwind");
+    assert.deepEqual(kit.colors, {
+      "color-brand": "#7c3aed",
+      "color-brand-500": "#8b5cf6",
+      "color-brand-accent": "#22d3ee",
+    });
+    assert.equal(kit.fonts["font-sans"], "Inter, sans-serif");
+  });
+
+  it("explains what's wrong with files it can't use", () => {
+    ["  ", `{"font": {"body": {"$value": "Inter"}}}`, "module.exports = { theme: { colors: brand() } }"].forEach(
+      (source) => assert.throws(() => parseBrandKit(source), BrandKitError),
+    );
+  });
+});
+
+describe("brandKitToTheme", () => {
+  it("maps brand colors, fonts and the logo onto a custom theme", () => {
+    const { theme, mapped } = brandKitToTheme(parseBrandKit(DESIGN_TOKENS), THEMES[0], GRADIENT);
+
+    assert.equal(theme.name, "Acme");
+    assert.equal(theme.palette.surface, "#fafafa");
+    assert.deepEqual(theme.style.gradientStops, ["#2563eb", "#f59e0b"]);
+    assert.equal(theme.style.headingFont, `"Playfair Display", serif`);
+    assert.equal(theme.style.bodyFont, "Inter, sans-serif");
+    assert.equal(theme.style.logo, "https://acme.example/logo.svg");
+    assert.ok(mapped.includes("surface ← color-background"));
+  });
+
+  it("keeps the base theme's look for anything the kit doesn't cover", () => {
+    const base = brandKitToTheme(parseBrandKit("--brand: #0ea5e9;"), THEMES[0], GRADIENT).theme;
+
+    assert.equal(base.palette.text, THEMES[0].palette.text);
+    assert.deepEqual(base.style.gradientStops, ["#6366f1", "#ec4899"]);
+  });
+});
@@ -0,0 +1,258 @@
+import type { ThemeOption } from "@/lib/generator";
+import { parseColor } from "@/lib/colors";
+import { MAX_GRADIENT_STOPS, createCustomTheme, type CustomTheme } from "@/lib/themes";
+
+export type BrandKitFormat = "design-tokens" | "css" | "tailwind";
+
+// Every token flattened to a kebab-case path, e.g. `color-brand-primary`.
+export type BrandKit = {
+  format: BrandKitFormat;
+  name?: string;
+  colors: Record<string, string>;
+  fonts: Record<string, string>;
+  logo?: string;
+};
+
+export type BrandKitImport = {
+  theme: CustomTheme;
+  // Human-readable notes on which token landed where, shown next to the editor.
+  mapped: string[];
+};
+
+export class BrandKitError extends Error {}
+
+type TokenTree = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is TokenTree =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toKebab = (parts: string[]) =>
+  parts
+    .filter((part) => part && part !== "DEFAULT")
+    .map((part) => part.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase())
+    .join("-")
+    .replace(/[^a-z0-9-]+/g, "-");
+
+const GENERIC_FAMILIES = /^(serif|sans-serif|monospace|cursive|system-ui|ui-\w+)$/;
+
+const toFontStack = (value: unknown) => {
+  const families = (Array.isArray(value) ? value.map(String) : String(value).split(","))
+    .map((family) => family.trim().replace(/^['"]|['"]$/g, ""))
+    .filter(Boolean);
+  // Brand fonts are rarely installed on a visitor's machine, so always end on a generic family.
+  if (!families.some((family) => GENERIC_FAMILIES.test(family))) families.push("sans-serif");
+  return families
+    .map((family) => (/\s/.test(family) && !family.startsWith("var(") ? `"${family}"` : family))
+    .join(", ");
+};
+
+const LOGO_PATTERN = /logo|wordmark|brandmark/i;
+const FONT_PATTERN = /font|family|typeface/i;
+
+const toLogo = (value: string) => {
+  const url = value.match(/^url\((['"]?)(.*)\1\)$/)?.[2] ?? value.replace(/^['"]|['"]$/g, "");
+  return /^(https?:|data:image\/|\/)/.test(url) ? url : undefined;
+};
+
+const addToken = (kit: BrandKit, name: string, raw: unknown, type?: string) => {
+  if (typeof raw !== "string" && !Array.isArray(raw)) return;
+  const value = Array.isArray(raw) ? raw : raw.trim();
+  if (typeof value === "string" && LOGO_PATTERN.test(name)) {
+    kit.logo ??= toLogo(value);
+  } else if (type === "fontFamily" || (type === undefined && FONT_PATTERN.test(name))) {
+    kit.fonts[name] = toFontStack(value);
+  } else if (typeof value === "string" && parseColor(value)) {
+    kit.colors[name] = value;
+  }
+};
+
+// W3C Design Tokens (`$value`/`$type`), also accepting Style Dictionary's `value`/`type`.
+const parseDesignTokens = (json: TokenTree): BrandKit => {
+  const kit: BrandKit = { format: "design-tokens", colors: {}, fonts: {} };
+  const raw = new Map<string, { value: unknown; type?: string }>();
+
+  const walk = (node: TokenTree, path: string[], inheritedType?: string) => {
+    const type =
+      typeof node.$type === "string" ? node.$type : typeof node.type === "string" ? node.type : inheritedType;
+    if ("$value" in node || ("value" in node && !isObject(node.value))) {
+      raw.set(path.join("."), { value: node.$value ?? node.value, type });
+      return;
+    }
+    Object.entries(node).forEach(([key, child]) => {
+      if (!key.startsWith("$") && isObject(child)) walk(child, [...path, key], type);
+    });
+  };
+  walk(json, []);
+
+  // Aliases look like `{color.blue.500}`; follow them a few hops at most.
+  const resolve = (value: unknown, depth = 0): unknown => {
+    const alias = typeof value === "string" ? value.match(/^\{([^}]+)\}$/)?.[1] : undefined;
+    if (!alias || depth > 5) return value;
+    return resolve(raw.get(alias)?.value, depth + 1);
+  };
+
+  raw.forEach(({ value, type }, path) => addToken(kit, toKebab(path.split(".")), resolve(value), type));
+  if (typeof json.name === "string") kit.name = json.name;
+  return kit;
+};
+
+// CSS custom properties, including a Tailwind v4 `@theme { --color-brand: … }` block.
+const parseCss = (css: string): BrandKit => {
+  const kit: BrandKit = { format: "css", colors: {}, fonts: {} };
+  const properties = new Map<string, string>();
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  for (const [, name, value] of source.matchAll(/--([\w-]+)\s*:\s*((?:url\([^)]*\)|[^;}])+)/g)) {
+    if (!properties.has(name)) properties.set(name, value.trim());
+  }
+
+  const resolve = (value: string, depth = 0): string => {
+    const reference = value.match(/^var\(--([\w-]+)(?:\s*,\s*([^)]+))?\)$/);
+    if (!reference || depth > 5) return value;
+    return resolve(properties.get(reference[1]) ?? reference[2] ?? value, depth + 1);
+  };
+
+  properties.forEach((value, name) => addToken(kit, name, resolve(value)));
+  return kit;
+};
+
+// A `tailwind.config` fragment is JavaScript, not JSON. Rather than evaluating it, loosen it into JSON.
+const parseTailwind = (source: string): BrandKit => {
+  const code = source.replace(/\/\*[\s\S]*?\*\/|(^|[^:])\/\/.*$/gm, "$1");
+  const start = code.indexOf("{");
+  const end = code.lastIndexOf("}");
+  if (start < 0 || end < start) throw new BrandKitError("No object literal found in the Tailwind config.");
+  const json = code
+    .slice(start, end + 1)
+    // Spreads such as `...defaultTheme.fontFamily.sans` can't be resolved without the package; drop them.
+    .replace(/\.\.\.[\w$.]+/g, "")
+    .replace(/'((?:[^'\\]|\\.)*)'/g, (_, body: string) => JSON.stringify(body.replace(/\\'/g, "'")))
+    .replace(/([{,]\s*)([A-Za-z_$][\w$-]*|\d+)\s*:/g, '$1"$2":')
+    .replace(/,(\s*,)+/g, ",")
+    .replace(/([[{]\s*),/g, "$1")
+    .replace(/,\s*([}\]])/g, "$1");
+
+  let config: unknown;
+  try {
+    config = JSON.parse(json);
+  } catch {
+    throw new BrandKitError("Couldn't read the Tailwind config. Paste only the plain object, without functions.");
+  }
+  if (!isObject(config)) throw new BrandKitError("The Tailwind config isn't an object.");
+
+  const theme = isObject(config.theme) ? config.theme : config;
+  const scopes = [theme, isObject(theme.extend) ? theme.extend : {}];
+  const kit: BrandKit = { format: "tailwind", colors: {}, fonts: {} };
+
+  const walkColors = (node: unknown, path: string[]) => {
+    if (isObject(node)) Object.entries(node).forEach(([key, child]) => walkColors(child, [...path, key]));
+    else addToken(kit, toKebab(["color", ...path]), node, "color");
+  };
+  scopes.forEach((scope) => {
+    walkColors(scope.colors, []);
+    if (isObject(scope.fontFamily)) {
+      Object.entries(scope.fontFamily).forEach(([key, value]) =>
+        addToken(kit, toKebab(["font", key]), value, "fontFamily"),
+      );
+    }
+    if (isObject(scope.backgroundImage)) {
+      Object.entries(scope.backgroundImage).forEach(([key, value]) => {
+        if (LOGO_PATTERN.test(key)) addToken(kit, key, value);
+      });
+    }
+  });
+  return kit;
+};
+
+export const parseBrandKit = (source: string): BrandKit => {
+  const text = source.trim();
+  if (!text) throw new BrandKitError("The brand kit file is empty.");
+
+  let kit: BrandKit;
+  if (text.startsWith("{") && !/\b(module\.exports|export\s+default)\b/.test(text)) {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = null;
+    }
+    kit = isObject(json) ? parseDesignTokens(json) : parseTailwind(text);
+  } else if (/--[\w-]+\s*:/.test(text)) {
+    kit = parseCss(text);
+  } else {
+    kit = parseTailwind(text);
+  }
+
+  if (!Object.keys(kit.colors).length) {
+    throw new BrandKitError("No colors found. Expected color tokens, CSS custom properties or Tailwind `colors`.");
+  }
+  return kit;
+};
+
+// Palette keys come from the generator, so match them by name and fall back to common synonyms.
+const PALETTE_SYNONYMS: Record<string, string[]> = {
+  surface: ["surface", "background", "bg", "canvas", "page"],
+  text: ["text", "foreground", "fg", "body", "ink", "content"],
+  primary: ["primary", "brand", "main"],
+  accent: ["accent", "secondary", "highlight"],
+  muted: ["muted", "subtle", "neutral"],
+};
+
+const GRADIENT_NAMES = ["primary", "brand", "accent", "secondary", "tertiary", "highlight"];
+const HEADING_FONTS = ["heading", "display", "title", "serif"];
+const BODY_FONTS = ["body", "text", "sans", "base", "copy"];
+
+const findToken = (tokens: Record<string, string>, names: string[]) => {
+  const entries = Object.entries(tokens);
+  for (const name of names) {
+    const exact = entries.find(([key]) => key === name || key.endsWith(`-${name}`));
+    if (exact) return exact;
+  }
+  for (const name of names) {
+    // `color-brand-500` or `brand-primary-default`: prefer the shortest, least specific path.
+    const partial = entries.filter(([key]) => key.split("-").includes(name)).sort(([a], [b]) => a.length - b.length)[0];
+    if (partial) return partial;
+  }
+  return undefined;
+};
+
+export const brandKitToTheme = (kit: BrandKit, base: ThemeOption, gradient: string): BrandKitImport => {
+  const draft = createCustomTheme(base, gradient);
+  const mapped: string[] = [];
+  const palette = { ...draft.palette };
+
+  Object.keys(palette).forEach((key) => {
+    const match = findToken(kit.colors, PALETTE_SYNONYMS[key] ?? [key.toLowerCase()]);
+    if (!match) return;
+    (palette as Record<string, string>)[key] = match[1];
+    mapped.push(`${key} ← ${match[0]}`);
+  });
+
+  const brandColors = GRADIENT_NAMES.map((name) => findToken(kit.colors, [name])?.[1]);
+  const gradientStops = [...new Set(brandColors.filter((color): color is string => Boolean(color)))].slice(
+    0,
+    MAX_GRADIENT_STOPS,
+  );
+  if (gradientStops.length >= 2) mapped.push(`gradient ← ${gradientStops.length} brand colors`);
+
+  const heading = findToken(kit.fonts, HEADING_FONTS);
+  const body = findToken(kit.fonts, BODY_FONTS) ?? Object.entries(kit.fonts)[0];
+  if (heading) mapped.push(`heading font ← ${heading[0]}`);
+  if (body) mapped.push(`body font ← ${body[0]}`);
+  if (kit.logo) mapped.push("logo");
+
+  return {
+    theme: {
+      ...draft,
+      name: kit.name ?? `${base.name} brand kit`,
+      palette,
+      style: {
+        ...draft.style,
+        ...(gradientStops.length >= 2 ? { gradientStops } : {}),
+        headingFont: heading?.[1] ?? body?.[1] ?? draft.style.headingFont,
+        bodyFont: body?.[1] ?? draft.style.bodyFont,
+        logo: kit.logo,
+      },
+    },
+    mapped,
+  };
+};
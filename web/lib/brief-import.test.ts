@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { INITIAL_FORM } from "@/lib/brief";
+import { BriefImportError, applyBriefImport, detectBriefFormat, importBrief } from "@/lib/brief-import";
+
+const README = `# Shipyard
+
+Shipyard turns **pull requests** into [release notes](https://example.com) for platform teams and open-source maintainers.
+
+\`\`\`sh
+# not a heading
+npm install shipyard
+\`\`\`
+
+## Features
+
+- Groups changes by label
+- [x] Links every note to its PR.
+- Posts to Slack
+
+## Why choose Shipyard?
+
+Unlike changelog bots, it reads the diff, not just the title.
+
+## The problem
+
+Release notes get written at midnight, by whoever lost the coin toss.
+
+## Installation
+
+Run the installer.
+`;
+
+describe("importBrief", () => {
+  it("maps a README's headings onto the brief", () => {
+    const { format, values } = importBrief(README, "README.md");
+
+    assert.equal(format, "markdown");
+    assert.deepEqual(values.productName, { value: "Shipyard", confidence: "found", source: "top-level heading" });
+    assert.equal(
+      values.oneLiner?.value,
+      "Shipyard turns pull requests into release notes for platform teams and open-source maintainers.",
+    );
+    assert.equal(values.oneLiner?.confidence, "guessed");
+    assert.equal(values.featuresText?.value, "Groups changes by label\nLinks every note to its PR\nPosts to Slack");
+    assert.equal(values.differentiator?.source, "“Why choose Shipyard?” section");
+    assert.equal(values.problem?.value, "Release notes get written at midnight, by whoever lost the coin toss.");
+    assert.deepEqual(values.audience, {
+      value: "platform teams and open-source maintainers",
+      confidence: "guessed",
+      source: "“for …” phrase in the intro",
+    });
+    assert.deepEqual(values.cta, {
+      value: "Install Shipyard",
+      confidence: "guessed",
+      source: "“Installation” section",
+    });
+  });
+
+  it("prefers front matter, and trims long fields to whole sentences", () => {
+    const sentence = "Teams lose a day per release chasing what changed. ";
+    const { values } = importBrief(
+      `---\nname: "Shipyard Cloud"\ntagline: Release notes, written for you\n---\n# Shipyard\n\n## Problem\n\n${sentence.repeat(10)}`,
+    );
+
+    assert.equal(values.productName?.value, "Shipyard Cloud");
+    assert.equal(values.productName?.source, "front matter “name”");
+    assert.equal(values.oneLiner?.value, "Release notes, written for you");
+    assert.equal(values.problem?.value, sentence.repeat(7).trim());
+  });
+
+  it("guesses features from the first list when no heading names them", () => {
+    const { values } = importBrief("Intro text.\n\n* One\n* Two\n* Three\n", "notes.md");
+
+    assert.equal(values.productName?.value, "notes");
+    assert.deepEqual(values.featuresText, { value: "One\nTwo\nThree", confidence: "guessed", source: "opening list" });
+  });
+
+  it("explains files it can't use", () => {
+    assert.throws(() => importBrief("  \n"), BriefImportError);
+    assert.throws(() => importBrief("```\ncode only\n```", "README.md"), BriefImportError);
+    assert.throws(() => importBrief("<!doctype html><title>Page</title>"), /only be imported in the browser/);
+  });
+});
+
+describe("detectBriefFormat", () => {
+  it("goes by the file name first, then the content", () => {
+    assert.equal(detectBriefFormat("# Title", "page.html"), "html");
+    assert.equal(detectBriefFormat("<html></html>", "notes.md"), "markdown");
+    assert.equal(detectBriefFormat("  <!DOCTYPE html><html></html>"), "html");
+    assert.equal(detectBriefFormat("# Title"), "markdown");
+  });
+});
+
+describe("applyBriefImport", () => {
+  it("fills in only the fields that were picked", () => {
+    const brief = importBrief(README, "README.md");
+    const form = applyBriefImport(INITIAL_FORM, brief, ["productName", "problem", "solution"]);
+
+    assert.equal(form.productName, "Shipyard");
+    assert.equal(form.problem, brief.values.problem?.value);
+    assert.equal(form.solution, INITIAL_FORM.solution);
+    assert.equal(form.oneLiner, INITIAL_FORM.oneLiner);
+  });
+});
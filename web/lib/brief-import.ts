@@ -0,0 +1,327 @@
+import type { FormState } from "@/lib/brief";
+
+export type BriefSourceFormat = "markdown" | "html";
+
+export type ImportField = Exclude<keyof FormState, "toneId" | "themeId" | "heroLayout">;
+
+export const IMPORT_FIELDS: Array<{ key: ImportField; label: string }> = [
+  { key: "productName", label: "Product name" },
+  { key: "oneLiner", label: "One-liner" },
+  { key: "audience", label: "Audience" },
+  { key: "problem", label: "Problem" },
+  { key: "solution", label: "Solution" },
+  { key: "differentiator", label: "Differentiator" },
+  { key: "cta", label: "Call to action" },
+  { key: "featuresText", label: "Features" },
+];
+
+export type ImportedValue = {
+  value: string;
+  // Found values sit under a heading, meta tag or front matter key that names the field; guessed ones are inferred.
+  confidence: "found" | "guessed";
+  // Where in the source the value came from, e.g. `“## Problem” section`.
+  source: string;
+};
+
+export type BriefImport = {
+  format: BriefSourceFormat;
+  values: Partial<Record<ImportField, ImportedValue>>;
+};
+
+export class BriefImportError extends Error {}
+
+// Both parsers reduce their input to this outline; field extraction only ever looks at the outline.
+type SourceSection = {
+  heading: string;
+  paragraphs: string[];
+  items: string[];
+  // Deeper headings, used as feature names when a section has no list.
+  subheadings: string[];
+};
+
+type SourceOutline = {
+  name?: ImportedValue;
+  tagline?: ImportedValue;
+  // Everything before the first section heading.
+  intro: SourceSection;
+  sections: SourceSection[];
+  // Button-like link texts near the top of an HTML page.
+  buttons: string[];
+};
+
+// Matches the brief linter's limits, so an import doesn't start out with length warnings.
+const FIELD_LIMITS: Partial<Record<ImportField, number>> = {
+  productName: 40,
+  oneLiner: 140,
+  audience: 80,
+  problem: 400,
+  solution: 400,
+  differentiator: 300,
+  cta: 32,
+};
+
+const MAX_FEATURES = 8;
+
+// First match wins, so the more specific "why us" headings are checked before the generic "why".
+const HEADING_PATTERNS: Array<[Exclude<ImportField, "productName">, RegExp]> = [
+  ["cta", /\b(call to action|cta)\b/i],
+  [
+    "differentiator",
+    /differentiat|why (us|choose|pick|switch)|unique|competiti|advantage|compar|alternatives|\bvs\b|what makes/i,
+  ],
+  ["featuresText", /feature|capabilit|highlights|what you get|benefits|what it does/i],
+  ["audience", /audience|who (is )?(it|this)( is)? for|target (users|market|customers)|personas?|\busers\b|customers/i],
+  ["problem", /problem|pain|challenge|motivation|background|\bwhy\b/i],
+  ["solution", /solution|how it works|approach|proposal|overview/i],
+  ["oneLiner", /tagline|one[- ]?liner|summary|elevator pitch|tl;?dr|about|introduction/i],
+];
+
+const INSTALL_HEADING = /install|getting started|quick ?start|usage/i;
+
+// Phrases like "for growth teams and indie founders" usually name the audience in a one-liner.
+const AUDIENCE_PHRASE =
+  /\bfor ((?:[\w-]+ ){0,4}?(?:[\w-]+(?:ers|ists|teams|founders|people|companies|businesses|startups|agencies|students|devs))(?: and (?:[\w-]+ ){0,3}?[\w-]+(?:ers|ists|teams|founders|people|companies|businesses|startups|agencies|students|devs))?)\b/i;
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+
+// Keeps whole sentences up to the limit; a single overlong sentence is cut at a word boundary.
+const clip = (text: string, limit?: number) => {
+  if (!limit || text.length <= limit) return text;
+  const sentences = text.match(/[^.!?]+[.!?]+(?:\s|$)|[^.!?]+$/g) ?? [text];
+  let clipped = "";
+  for (const sentence of sentences) {
+    if ((clipped + sentence).trim().length > limit) break;
+    clipped += sentence;
+  }
+  if (clipped.trim()) return clipped.trim();
+  return `${text.slice(0, limit - 1).replace(/\s+\S*$/, "")}…`;
+};
+
+const fieldValue = (key: ImportField, text: string, confidence: ImportedValue["confidence"], source: string) => {
+  const value = clip(collapse(text), FIELD_LIMITS[key]);
+  return value ? { value, confidence, source } : undefined;
+};
+
+const featureValue = (items: string[], confidence: ImportedValue["confidence"], source: string) => {
+  const features = items
+    .map((item) => clip(collapse(item).replace(/[.;,]$/, ""), 120))
+    .filter(Boolean)
+    .slice(0, MAX_FEATURES);
+  return features.length ? { value: features.join("\n"), confidence, source } : undefined;
+};
+
+const stripMarkdown = (text: string) =>
+  collapse(
+    text
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]*)\]\[[^\]]*\]/g, "$1")
+      .replace(/<[^>]+>/g, "")
+      .replace(/\*\*(.+?)\*\*|__(.+?)__/g, "$1$2")
+      .replace(/(^|[\s(])[*_](\S.*?)[*_](?=[\s).,;:!?]|$)/g, "$1$2")
+      .replace(/`([^`]*)`/g, "$1")
+      .replace(/&nbsp;/g, " "),
+  );
+
+const parseFrontMatter = (source: string) => {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  const meta: Record<string, string> = {};
+  match?.[1].split(/\r?\n/).forEach((line) => {
+    const entry = line.match(/^([\w-]+)\s*:\s*(.+)$/);
+    if (entry) meta[entry[1].toLowerCase()] = entry[2].trim().replace(/^(['"])(.*)\1$/, "$2");
+  });
+  return { meta, body: match ? source.slice(match[0].length) : source };
+};
+
+const metaValue = (meta: Record<string, string>, keys: string[]) => {
+  const key = keys.find((candidate) => meta[candidate]?.trim());
+  return key ? { key, value: meta[key] } : undefined;
+};
+
+const createSection = (heading: string): SourceSection => ({ heading, paragraphs: [], items: [], subheadings: [] });
+
+const outlineMarkdown = (source: string, fileStem: string): SourceOutline => {
+  const { meta, body } = parseFrontMatter(source.replace(/^\uFEFF/, ""));
+  const outline: SourceOutline = { intro: createSection(""), sections: [], buttons: [] };
+  let title: string | undefined;
+  let section = outline.intro;
+  let paragraph: string[] = [];
+  let fenced = false;
+
+  const flush = () => {
+    const text = stripMarkdown(paragraph.join(" "));
+    paragraph = [];
+    if (text) section.paragraphs.push(text);
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      fenced = !fenced;
+      continue;
+    }
+    if (fenced) continue;
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const item = line.match(/^ ?(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (heading) {
+      flush();
+      const text = stripMarkdown(heading[2]);
+      if (heading[1].length === 1 && !title) title = text;
+      else if (heading[1].length <= 2) outline.sections.push((section = createSection(text)));
+      else section.subheadings.push(text);
+    } else if (item) {
+      flush();
+      const text = stripMarkdown(item[1].replace(/^\[[ x]\]\s*/i, ""));
+      if (text) section.items.push(text);
+    } else if (!line.trim() || /^\s*(\||<!--|---|\*\*\*)/.test(line)) {
+      flush();
+    } else if (!/^\s{2,}(?:[-*+]|\d+[.)])\s/.test(line)) {
+      paragraph.push(line.replace(/^\s*>\s?/, ""));
+    }
+  }
+  flush();
+
+  const metaName = metaValue(meta, ["name", "product", "title"]);
+  outline.name = metaName
+    ? fieldValue("productName", metaName.value, "found", `front matter “${metaName.key}”`)
+    : title
+      ? fieldValue("productName", title, "found", "top-level heading")
+      : fieldValue("productName", fileStem, "guessed", "file name");
+  const metaTagline = metaValue(meta, ["tagline", "description", "summary", "oneliner", "one-liner"]);
+  outline.tagline = metaTagline
+    ? fieldValue("oneLiner", metaTagline.value, "found", `front matter “${metaTagline.key}”`)
+    : outline.intro.paragraphs[0]
+      ? fieldValue("oneLiner", outline.intro.paragraphs[0], "guessed", "first paragraph")
+      : undefined;
+  return outline;
+};
+
+const TITLE_SEPARATOR = /\s+[|–—·•:-]\s+/;
+
+const BUTTON_CLASS = /\b(btn|button|cta)/i;
+
+const outlineHtml = (source: string, fileStem: string): SourceOutline => {
+  if (typeof DOMParser === "undefined") throw new BriefImportError("HTML pages can only be imported in the browser.");
+  const doc = new DOMParser().parseFromString(source, "text/html");
+  doc.querySelectorAll("script, style, noscript, template, svg, nav, footer").forEach((element) => element.remove());
+  const text = (element: Element | null) => collapse(element?.textContent ?? "");
+  const meta = (selector: string) => doc.querySelector<HTMLMetaElement>(`meta[${selector}]`)?.content.trim();
+
+  const outline: SourceOutline = { intro: createSection(""), sections: [], buttons: [] };
+  let section = outline.intro;
+  doc.body.querySelectorAll("h2, h3, h4, p, li").forEach((element) => {
+    const content = text(element);
+    if (!content || (element.tagName === "P" && element.closest("li"))) return;
+    if (element.tagName === "H2") {
+      outline.sections.push((section = createSection(content)));
+    } else if (element.tagName === "LI") {
+      section.items.push(content);
+    } else if (element.tagName === "P") {
+      section.paragraphs.push(content);
+    } else {
+      section.subheadings.push(content);
+    }
+  });
+
+  // Buttons before the first section heading are the hero's calls to action.
+  const firstSection = doc.body.querySelector("h2");
+  outline.buttons = [...doc.body.querySelectorAll("a, button")]
+    .filter(
+      (element) =>
+        (element.tagName === "BUTTON" || BUTTON_CLASS.test(element.getAttribute("class") ?? "")) &&
+        element.getAttribute("type") !== "submit" &&
+        (!firstSection || element.compareDocumentPosition(firstSection) & Node.DOCUMENT_POSITION_FOLLOWING),
+    )
+    .map(text)
+    .filter((label) => label.length >= 2 && label.length <= (FIELD_LIMITS.cta ?? 32));
+
+  const siteName = meta('property="og:site_name"') || meta('name="application-name"');
+  const title = collapse(doc.title).split(TITLE_SEPARATOR)[0];
+  outline.name = siteName
+    ? fieldValue("productName", siteName, "found", "site name meta tag")
+    : title
+      ? fieldValue("productName", title, "guessed", "page title")
+      : fieldValue("productName", fileStem, "guessed", "file name");
+  const description = meta('name="description"') || meta('property="og:description"');
+  const headline = text(doc.querySelector("h1"));
+  outline.tagline = description
+    ? fieldValue("oneLiner", description, "found", "description meta tag")
+    : headline
+      ? fieldValue("oneLiner", headline, "guessed", "main headline")
+      : undefined;
+  return outline;
+};
+
+const extractBrief = (outline: SourceOutline): BriefImport["values"] => {
+  const values: BriefImport["values"] = { productName: outline.name, oneLiner: outline.tagline };
+  const claimed = new Set<SourceSection>();
+
+  for (const [key, pattern] of HEADING_PATTERNS) {
+    if (values[key]) continue;
+    const section = outline.sections.find((entry) => !claimed.has(entry) && pattern.test(entry.heading));
+    if (!section) continue;
+    const source = `“${section.heading}” section`;
+    const value =
+      key === "featuresText"
+        ? featureValue(section.items.length ? section.items : section.subheadings, "found", source)
+        : fieldValue(key, section.paragraphs[0] ?? section.items.join("; "), "found", source);
+    if (value) {
+      values[key] = value;
+      claimed.add(section);
+    }
+  }
+
+  if (!values.featuresText) {
+    const list = [outline.intro, ...outline.sections].find(
+      (section) => !claimed.has(section) && section.items.length >= 3,
+    );
+    if (list) {
+      values.featuresText = featureValue(
+        list.items,
+        "guessed",
+        list.heading ? `list under “${list.heading}”` : "opening list",
+      );
+    }
+  }
+
+  if (!values.audience) {
+    const phrase = [values.oneLiner?.value, ...outline.intro.paragraphs]
+      .map((paragraph) => paragraph?.match(AUDIENCE_PHRASE)?.[1])
+      .find(Boolean);
+    if (phrase) values.audience = fieldValue("audience", phrase, "guessed", "“for …” phrase in the intro");
+  }
+
+  if (!values.cta) {
+    const install = outline.sections.find((section) => INSTALL_HEADING.test(section.heading));
+    values.cta = outline.buttons[0]
+      ? fieldValue("cta", outline.buttons[0], "guessed", "first button on the page")
+      : install && values.productName
+        ? fieldValue("cta", `Install ${values.productName.value}`, "guessed", `“${install.heading}” section`)
+        : undefined;
+  }
+
+  return values;
+};
+
+export const detectBriefFormat = (source: string, fileName = ""): BriefSourceFormat =>
+  /\.html?$/i.test(fileName) || (!/\.(md|markdown|txt)$/i.test(fileName) && /^\s*(<!doctype html|<html)/i.test(source))
+    ? "html"
+    : "markdown";
+
+export const importBrief = (source: string, fileName = ""): BriefImport => {
+  if (!source.trim()) throw new BriefImportError("That file is empty.");
+  const format = detectBriefFormat(source, fileName);
+  const fileStem = fileName.replace(/\.[^.]+$/, "").replace(/^readme$/i, "");
+  const outline = format === "html" ? outlineHtml(source, fileStem) : outlineMarkdown(source, fileStem);
+  const values = extractBrief(outline);
+  if (!Object.values(values).some(Boolean)) {
+    throw new BriefImportError("Couldn't find any brief fields. Headings like “Problem” or “Features” help.");
+  }
+  return { format, values };
+};
+
+export const applyBriefImport = (form: FormState, brief: BriefImport, fields: ImportField[]): FormState =>
+  fields.reduce((next, key) => {
+    const imported = brief.values[key];
+    return imported ? { ...next, [key]: imported.value } : next;
+  }, form);
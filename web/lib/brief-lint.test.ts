@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { INITIAL_FORM } from "@/lib/brief";
+import { countBySeverity, issuesFor, lintBrief } from "@/lib/brief-lint";
+
+// The starter brief's feature lines hold commas, which also separate features; these are one per line.
+const BRIEF = { ...INITIAL_FORM, featuresText: "Hero copy in your voice\nFeature blocks\nOne-click exports" };
+
+const rules = (form: Partial<typeof BRIEF>) =>
+  lintBrief({ ...BRIEF, ...form }).map((issue) => `${issue.field}:${issue.severity}:${issue.rule}`);
+
+describe("lintBrief", () => {
+  it("passes a complete brief", () => {
+    assert.deepEqual(lintBrief(BRIEF), []);
+  });
+
+  it("blocks on missing required fields and features", () => {
+    assert.deepEqual(rules({ productName: "  ", cta: "", featuresText: "\n, \n" }), [
+      "productName:error:required",
+      "cta:error:required",
+      "featuresText:error:required",
+    ]);
+  });
+
+  it("flags features that repeat one another, ignoring case and punctuation", () => {
+    const issues = lintBrief({ ...BRIEF, featuresText: "Fast exports\nTeam sharing\nfast exports!" });
+
+    assert.deepEqual(
+      issuesFor(issues, "featuresText").map((issue) => issue.message),
+      [`"fast exports!" repeats "Fast exports".`],
+    );
+  });
+
+  it("counts characters against each field's limit", () => {
+    const [issue] = lintBrief({ ...BRIEF, cta: "Start my free trial of LaunchPilot today" });
+
+    assert.equal(issue.rule, "too-long");
+    assert.match(issue.message, /\(40\/32\)$/);
+  });
+
+  it("calls out vague calls to action and whole-word jargon", () => {
+    assert.deepEqual(rules({ cta: "Learn more." }), ["cta:warning:vague-cta"]);
+    assert.deepEqual(rules({ problem: "Teams leverage spreadsheets." }), ["problem:info:jargon"]);
+    assert.deepEqual(rules({ problem: "Teams leveraged spreadsheets." }), []);
+  });
+
+  it("tallies issues by severity", () => {
+    const issues = lintBrief({ ...BRIEF, productName: "", cta: "Submit", solution: "A robust tool." });
+
+    assert.deepEqual(countBySeverity(issues), { error: 1, warning: 1, info: 1 });
+  });
+});
@@ -0,0 +1,135 @@
+import { parseFeatures, type FormState } from "@/lib/brief";
+
+export type IssueSeverity = "error" | "warning" | "info";
+
+export type BriefIssue = {
+  field: keyof FormState;
+  severity: IssueSeverity;
+  rule: string;
+  message: string;
+};
+
+type TextField = Exclude<keyof FormState, "toneId" | "themeId" | "heroLayout">;
+
+const REQUIRED: Array<[TextField, string]> = [
+  ["productName", "Product name"],
+  ["oneLiner", "One-liner"],
+  ["audience", "Audience"],
+  ["cta", "Call to action"],
+];
+
+const LENGTH_LIMITS: Array<[TextField, number, string]> = [
+  ["productName", 40, "Product names over 40 characters get truncated in navigation and tabs."],
+  ["oneLiner", 140, "The one-liner becomes the hero subtitle; keep it under 140 characters."],
+  ["audience", 80, "Narrow the audience to a phrase — it is woven into headlines."],
+  ["cta", 32, "Buttons read best under 32 characters."],
+  ["problem", 400, "Trim the problem statement to its sharpest two sentences."],
+  ["solution", 400, "Trim the solution to its sharpest two sentences."],
+  ["differentiator", 300, "A differentiator over 300 characters rarely lands in a single section."],
+];
+
+const VAGUE_CTAS = [
+  "submit",
+  "click here",
+  "learn more",
+  "get started",
+  "sign up",
+  "start",
+  "go",
+  "continue",
+  "more info",
+  "read more",
+  "try it",
+];
+
+const JARGON = [
+  "synergy",
+  "leverage",
+  "best-in-class",
+  "cutting-edge",
+  "revolutionary",
+  "paradigm",
+  "world-class",
+  "seamless",
+  "next-gen",
+  "disruptive",
+  "holistic",
+  "game-changer",
+  "game-changing",
+  "state-of-the-art",
+  "innovative",
+  "robust",
+  "empower",
+];
+
+const MAX_FEATURES = 8;
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const wordCount = (value: string) => value.trim().split(/\s+/).filter(Boolean).length;
+
+export const lintBrief = (form: FormState): BriefIssue[] => {
+  const issues: BriefIssue[] = [];
+  const push = (field: keyof FormState, severity: IssueSeverity, rule: string, message: string) =>
+    issues.push({ field, severity, rule, message });
+
+  REQUIRED.forEach(([field, label]) => {
+    if (!form[field].trim()) push(field, "error", "required", `${label} is required.`);
+  });
+
+  const features = parseFeatures(form.featuresText);
+  if (features.length === 0) {
+    push("featuresText", "error", "required", "Add at least one feature, one per line.");
+  } else if (features.length > MAX_FEATURES) {
+    push("featuresText", "info", "too-many", `Only the strongest ${MAX_FEATURES} features tend to get read.`);
+  }
+
+  const seen = new Map<string, string>();
+  features.forEach((feature) => {
+    const key = normalize(feature);
+    const original = seen.get(key);
+    if (original) {
+      push("featuresText", "warning", "duplicate", `"${feature}" repeats "${original}".`);
+    } else {
+      seen.set(key, feature);
+    }
+  });
+
+  LENGTH_LIMITS.forEach(([field, limit, message]) => {
+    const length = form[field].trim().length;
+    if (length > limit) push(field, "warning", "too-long", `${message} (${length}/${limit})`);
+  });
+
+  if (wordCount(form.oneLiner) > 25) {
+    push("oneLiner", "warning", "too-wordy", "Over 25 words — that's a paragraph, not a one-liner.");
+  }
+
+  const cta = normalize(form.cta);
+  if (cta && VAGUE_CTAS.includes(cta)) {
+    push("cta", "warning", "vague-cta", `"${form.cta.trim()}" doesn't say what happens next. Try "Start my free trial".`);
+  }
+
+  (["oneLiner", "problem", "solution", "differentiator", "featuresText"] as const).forEach((field) => {
+    const text = form[field].toLowerCase();
+    const found = JARGON.filter((word) => new RegExp(`\\b${word}\\b`).test(text));
+    if (found.length) {
+      push(field, "info", "jargon", `Jargon dilutes the message: ${found.join(", ")}.`);
+    }
+  });
+
+  return issues;
+};
+
+export const issuesFor = (issues: BriefIssue[], field: keyof FormState) =>
+  issues.filter((issue) => issue.field === field);
+
+export const countBySeverity = (issues: Array<{ severity: IssueSeverity }>) =>
+  issues.reduce(
+    (counts, issue) => ({ ...counts, [issue.severity]: counts[issue.severity] + 1 }),
+    { error: 0, warning: 0, info: 0 } as Record<IssueSeverity, number>,
+  );
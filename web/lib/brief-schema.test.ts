@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BriefSchemaError, parseBrief } from "@/lib/brief-schema";
+import type { CopyProvider } from "@/lib/copy-provider";
+import { generatePage } from "@/lib/generate-page";
+
+const BRIEF = {
+  productName: "LaunchPilot",
+  oneLiner: "An AI teammate that drafts high-impact landing pages in under 60 seconds.",
+  audience: "growth teams and indie founders",
+  cta: "Generate my launch page",
+  features: ["Fast, reliable sync", "Exports to HTML, React and Notion"],
+};
+
+describe("parseBrief", () => {
+  it("keeps features that contain commas whole", () => {
+    assert.deepEqual(parseBrief(BRIEF).features, BRIEF.features);
+  });
+
+  it("rejects briefs that don't match the schema", () => {
+    assert.throws(() => parseBrief({ ...BRIEF, features: "Fast, reliable sync" }), BriefSchemaError);
+  });
+});
+
+describe("generatePage", () => {
+  it("generates from the listed features, not the split text", async () => {
+    let features: string[] | undefined;
+    const provider: CopyProvider = {
+      id: "recording",
+      label: "Recording provider",
+      generateCopy: async ({ input }) => {
+        features = input.features;
+        return {};
+      },
+    };
+    await generatePage(parseBrief(BRIEF), { provider });
+    assert.deepEqual(features, BRIEF.features);
+  });
+});
@@ -0,0 +1,139 @@
+import { THEMES, TONES } from "@/lib/generator";
+import { HERO_LAYOUTS, INITIAL_FORM, type FormState } from "@/lib/brief";
+
+// The brief as a JSON file, for `POST /api/generate` and the CLI. Features are a list rather than the form's
+// newline-separated text, and tone and theme are referenced by id.
+export type BriefJson = {
+  productName: string;
+  oneLiner: string;
+  audience: string;
+  problem?: string;
+  solution?: string;
+  differentiator?: string;
+  cta: string;
+  features?: string[];
+  tone?: string;
+  theme?: string;
+  heroLayout?: FormState["heroLayout"];
+};
+
+type JsonSchema = {
+  type?: "object" | "string" | "array";
+  description?: string;
+  enum?: string[];
+  minLength?: number;
+  maxLength?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+const text = (description: string, maxLength: number): JsonSchema => ({
+  type: "string",
+  description,
+  minLength: 1,
+  maxLength,
+});
+
+// Length caps are generous on purpose: the brief linter warns about long copy, the schema only rejects nonsense.
+export const BRIEF_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "LaunchPilot brief",
+  description: "Everything the generator needs to compose a landing page.",
+  type: "object",
+  properties: {
+    $schema: { type: "string", description: "Editors use this to find the schema; it's ignored." },
+    productName: text("Shown in the navigation, title and footer.", 80),
+    oneLiner: text("The promise in one sentence; becomes the hero subtitle.", 280),
+    audience: text("Who the page speaks to, as a phrase: “growth teams and indie founders”.", 160),
+    problem: text("What's broken today for the audience.", 1000),
+    solution: text("How the product fixes it.", 1000),
+    differentiator: text("Why this product rather than the alternatives.", 1000),
+    cta: text("Label of the primary call to action.", 64),
+    features: {
+      type: "array",
+      description: "One entry per feature, in the order they should appear.",
+      maxItems: 20,
+      items: text("A feature or benefit.", 200),
+    },
+    tone: { type: "string", description: "Voice of the copy.", enum: TONES.map((tone) => tone.id) },
+    theme: { type: "string", description: "Built-in visual theme.", enum: THEMES.map((theme) => theme.id) },
+    heroLayout: {
+      type: "string",
+      description: "Arrangement of the hero section.",
+      enum: HERO_LAYOUTS.map((layout) => layout.id),
+    },
+  },
+  required: ["productName", "oneLiner", "audience", "cta"],
+  additionalProperties: false,
+} satisfies JsonSchema & Record<string, unknown>;
+
+// The form for everything else, plus the features exactly as listed: the form's `featuresText` also splits on
+// commas, which would turn "Fast, reliable sync" into two features.
+export type ParsedBrief = FormState & { features: string[] };
+
+export class BriefSchemaError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid brief: ${issues.join("; ")}`);
+  }
+}
+
+// Covers the keywords BRIEF_SCHEMA uses, so the schema stays the single source of truth for what's accepted.
+const validate = (schema: JsonSchema, value: unknown, path: string): string[] => {
+  const at = path || "brief";
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) return [`${at} must be an object`];
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      return [
+        ...(schema.required ?? [])
+          .filter((key) => record[key] === undefined)
+          .map((key) => `${path ? `${path}.` : ""}${key} is required`),
+        ...Object.entries(record).flatMap(([key, entry]) => {
+          const child = `${path ? `${path}.` : ""}${key}`;
+          if (properties[key]) return validate(properties[key], entry, child);
+          return schema.additionalProperties === false ? [`${child} isn't a brief field`] : [];
+        }),
+      ];
+    }
+    case "array":
+      if (!Array.isArray(value)) return [`${at} must be an array`];
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return [`${at} can have at most ${schema.maxItems} entries`];
+      }
+      return schema.items ? value.flatMap((entry, index) => validate(schema.items!, entry, `${at}[${index}]`)) : [];
+    case "string":
+      if (typeof value !== "string") return [`${at} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${at} must be one of ${schema.enum.join(", ")}`];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) return [`${at} can't be empty`];
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return [`${at} is longer than ${schema.maxLength} characters`];
+      }
+      return [];
+    default:
+      return [];
+  }
+};
+
+export const parseBrief = (value: unknown): ParsedBrief => {
+  const issues = validate(BRIEF_SCHEMA, value, "");
+  if (issues.length) throw new BriefSchemaError(issues);
+  const brief = value as BriefJson;
+  return {
+    productName: brief.productName,
+    oneLiner: brief.oneLiner,
+    audience: brief.audience,
+    problem: brief.problem ?? "",
+    solution: brief.solution ?? "",
+    differentiator: brief.differentiator ?? "",
+    cta: brief.cta,
+    featuresText: (brief.features ?? []).join("\n"),
+    features: (brief.features ?? []).map((feature) => feature.trim()),
+    toneId: brief.tone ?? INITIAL_FORM.toneId,
+    themeId: brief.theme ?? INITIAL_FORM.themeId,
+    heroLayout: brief.heroLayout ?? INITIAL_FORM.heroLayout,
+  };
+};
@@ -0,0 +1,89 @@
+import { THEMES, TONES, composeBlueprint, type ThemeOption, type ToneOption } from "@/lib/generator";
+
+export type HeroLayout = "split" | "center" | "left";
+
+export const HERO_LAYOUTS: Array<{ id: HeroLayout; label: string; description: string }> = [
+  {
+    id: "split",
+    label: "Split",
+    description: "Visual stats on the right, story on the left",
+  },
+  {
+    id: "center",
+    label: "Centered",
+    description: "Big headline centered, stacked call-to-actions",
+  },
+  {
+    id: "left",
+    label: "Left",
+    description: "All content aligned left for productivity brands",
+  },
+];
+
+export type BlueprintInput = Parameters<typeof composeBlueprint>[0];
+
+export type FormState = {
+  productName: string;
+  oneLiner: string;
+  audience: string;
+  problem: string;
+  solution: string;
+  differentiator: string;
+  cta: string;
+  featuresText: string;
+  toneId: string;
+  themeId: string;
+  heroLayout: HeroLayout;
+};
+
+export const INITIAL_FORM: FormState = {
+  productName: "LaunchPilot",
+  oneLiner: "An AI teammate that drafts high-impact landing pages in under 60 seconds.",
+  audience: "growth teams and indie founders",
+  problem: "Your launches stall while you wrangle copywriters, designers, and approvals.",
+  solution: "LaunchPilot assembles narrative, layout, and copy automatically based on a single product brief.",
+  differentiator:
+    "It reasons about your audience and positioning, producing on-brand pages that convert like your best marketer wrote them.",
+  cta: "Generate my launch page",
+  featuresText: [
+    "Audience-tuned hero copy that sounds like your brand",
+    "Feature blocks that explain the value, not just the features",
+    "Proof sections with metrics, quotes, and visuals",
+    "Exportable HTML, React, and Notion-friendly versions",
+  ].join("\n"),
+  toneId: TONES[0].id,
+  themeId: THEMES[1].id,
+  heroLayout: "split",
+};
+
+export const parseFeatures = (value: string) =>
+  value
+    .split(/\n|,/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+export const getTone = (id: string): ToneOption => TONES.find((tone) => tone.id === id) ?? TONES[0];
+// Custom themes live in the browser, so callers that know about them pass them in alongside the built-ins.
+export const getTheme = (id: string, themes: ThemeOption[] = THEMES): ThemeOption =>
+  themes.find((theme) => theme.id === id) ?? THEMES[0];
+
+export const toBlueprintInput = (form: FormState, themes?: ThemeOption[]): BlueprintInput => ({
+  productName: form.productName,
+  oneLiner: form.oneLiner,
+  audience: form.audience,
+  problem: form.problem,
+  solution: form.solution,
+  features: parseFeatures(form.featuresText),
+  differentiator: form.differentiator,
+  cta: form.cta,
+  tone: getTone(form.toneId),
+  theme: getTheme(form.themeId, themes),
+  heroLayout: form.heroLayout,
+});
+
+export const toFileStem = (productName: string) =>
+  productName
+    .trim()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-zA-Z0-9-_]/g, "")
+    .toLowerCase() || "untitled";
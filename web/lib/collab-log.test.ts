@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyOps,
+  createDoc,
+  readRegister,
+  readText,
+  setRegister,
+  setText,
+  type CrdtDoc,
+  type CrdtOp,
+} from "@/lib/crdt";
+import { compact, seenClocks } from "@/scripts/collab-log.mjs";
+
+// Each change made on `doc`, with the ops it sent appended to `ops`.
+const record = (ops: CrdtOp[]) => (result: { doc: CrdtDoc; ops: CrdtOp[] }) => {
+  ops.push(...result.ops);
+  return result.doc;
+};
+
+// Someone typing a value out one keystroke at a time.
+const type = (doc: CrdtDoc, key: string, value: string, ops: CrdtOp[]) =>
+  Array.from(value).reduce((current, _, index) => record(ops)(setText(current, key, value.slice(0, index + 1))), doc);
+
+const build = (ops: CrdtOp[]) => applyOps(createDoc("reader"), ops).doc;
+
+const assertSameDocument = (a: CrdtDoc, b: CrdtDoc) => {
+  assert.deepEqual(a.texts, b.texts);
+  assert.equal(readRegister(a, "theme"), readRegister(b, "theme"));
+};
+
+// A room's log: one person types a title and body, switches theme a few times and cuts the title short, while
+// someone else, who saw only the title, adds to it and picks a theme that loses out.
+const ops: CrdtOp[] = [];
+let a = type(createDoc("a"), "title", "Launch day", ops);
+let b = applyOps(createDoc("b"), ops).doc;
+a = type(a, "body", "Hello", ops);
+a = ["ocean", "sunset", "forest"].reduce((doc, theme) => record(ops)(setRegister(doc, "theme", theme)), a);
+record(ops)(setText(a, "title", "Launch"));
+b = record(ops)(setText(b, "title", "Big launch day"));
+b = record(ops)(setRegister(b, "theme", "night"));
+
+describe("compact", () => {
+  it("folds the log into fewer ops that build the same document", () => {
+    const compacted = compact(ops) as CrdtOp[];
+
+    assert.ok(compacted.length < ops.length / 2);
+    assertSameDocument(build(compacted), build(ops));
+    assert.equal(readText(build(compacted), "body"), "Hello");
+    assert.equal(readRegister(build(compacted), "theme"), "forest");
+    assert.deepEqual(seenClocks(compacted), seenClocks(ops));
+  });
+
+  it("still lands ops that point at deleted characters", () => {
+    // `b` hasn't seen the title cut short and types after a character that's gone.
+    const late = setText(b, "title", "Big launch day!").ops;
+
+    assertSameDocument(build([...compact(ops), ...late]), build([...ops, ...late]));
+    assert.ok(readText(build([...compact(ops), ...late]), "title").endsWith("!"));
+  });
+
+  it("keeps ops that can't apply yet as they are", () => {
+    const [first, ...waiting] = ops.filter((op) => op.key === "body");
+
+    assert.deepEqual(compact(waiting), waiting);
+    assert.equal(readText(build([...compact(waiting), first]), "body"), "Hello");
+  });
+});
@@ -0,0 +1,329 @@
+import type { FormState } from "@/lib/brief";
+import {
+  COLLAB_MAX_MESSAGE_BYTES,
+  collabKey,
+  collabServerUrl,
+  fromCharIndex,
+  peerColor,
+  profileOf,
+  readSnapshot,
+  toCharIndex,
+  writeSnapshot,
+  type CollabClientMessage,
+  type CollabPeer,
+  type CollabPresence,
+  type CollabServerMessage,
+} from "@/lib/collab";
+import {
+  acknowledge,
+  anchorIndex,
+  applyOps,
+  createDoc,
+  lastClock,
+  readText,
+  setRegister,
+  textAnchor,
+  type CrdtDoc,
+  type CrdtOp,
+} from "@/lib/crdt";
+import type { EditorSnapshot } from "@/lib/history";
+
+// "syncing" is the wait for the room's first content when someone else is still filling it.
+export type CollabStatus = "offline" | "connecting" | "syncing" | "live" | "reconnecting";
+
+export type CollabState = {
+  // The editor itself: the session is its source of truth, in a room or not.
+  editor: EditorSnapshot;
+  status: CollabStatus;
+  roomId: string | null;
+  name: string;
+  // This tab as the room sees it, and everyone else there.
+  self: CollabPeer | null;
+  peers: CollabPeer[];
+  doc: CrdtDoc | null;
+  error: string | null;
+};
+
+const RETRY_DELAYS = [500, 1000, 2000, 5000, 10_000];
+// Retries carry on after this, but the panel says the server is unreachable.
+const UNREACHABLE_AFTER = 3;
+// Room for the `{"type":"ops","ops":[…]}` around a batch.
+const OPS_BUDGET = COLLAB_MAX_MESSAGE_BYTES - 64;
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement;
+
+const isFieldElement = (element: unknown): element is FieldElement =>
+  element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement;
+
+export const createCollabSession = (initial: EditorSnapshot) => {
+  let state: CollabState = {
+    editor: initial,
+    status: "offline",
+    roomId: null,
+    name: "",
+    self: null,
+    peers: [],
+    doc: null,
+    error: null,
+  };
+  const listeners = new Set<() => void>();
+  let socket: WebSocket | null = null;
+  let retryTimer: number | undefined;
+  let failures = 0;
+  // The newest clock from each client the relay is known to hold: acknowledged, or received from it.
+  let confirmed: Record<string, number> = {};
+  // The focused field's selection, mapped through a remote change and put back once React has rendered it.
+  let pendingSelection: { element: FieldElement; start: number; end: number } | null = null;
+
+  const emit = (patch: Partial<CollabState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const send = (message: CollabClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  // Splits ops across as many messages as the relay's size limit needs. An op over the limit on its own (an
+  // oversized upload) stays in this tab.
+  const sendOps = (ops: CrdtOp[]) => {
+    const encoder = new TextEncoder();
+    let batch: CrdtOp[] = [];
+    let size = 0;
+    let tooLarge = false;
+    const flush = () => {
+      if (batch.length > 0) send({ type: "ops", ops: batch });
+      batch = [];
+      size = 0;
+    };
+    ops.forEach((op) => {
+      const bytes = encoder.encode(JSON.stringify(op)).length + 1;
+      if (bytes > OPS_BUDGET) {
+        tooLarge = true;
+        return;
+      }
+      if (size + bytes > OPS_BUDGET) flush();
+      batch.push(op);
+      size += bytes;
+    });
+    flush();
+    if (tooLarge) emit({ error: "That change is too large to share live. Try a smaller image." });
+  };
+
+  const isLive = () => state.status === "live" || state.status === "reconnecting";
+
+  // Names are kept in the document too, so edits stay attributed after their author leaves.
+  const writeProfile = (doc: CrdtDoc) => {
+    const { self } = state;
+    const profile = self && { name: self.name, color: self.color };
+    const stored = self && profileOf(doc, self.id);
+    if (!self || !profile || (stored?.name === profile.name && stored.color === profile.color)) {
+      return { doc, ops: [] as CrdtOp[] };
+    }
+    return setRegister(doc, collabKey.profile(self.id), profile);
+  };
+
+  const captureSelection = (before: CrdtDoc, after: CrdtDoc) => {
+    const element = document.activeElement;
+    const field = element?.closest("[data-collab-field]")?.getAttribute("data-collab-field");
+    if (!field || !isFieldElement(element) || element.selectionStart === null || element.selectionEnd === null) return;
+    const key = collabKey.field(field as keyof FormState);
+    const nextValue = readText(after, key);
+    const move = (index: number) => {
+      const anchor = textAnchor(before, key, toCharIndex(element.value, index));
+      return fromCharIndex(nextValue, anchorIndex(after, key, anchor) ?? 0);
+    };
+    pendingSelection = { element, start: move(element.selectionStart), end: move(element.selectionEnd) };
+  };
+
+  const restoreSelection = () => {
+    if (!pendingSelection) return;
+    const { element, start, end } = pendingSelection;
+    pendingSelection = null;
+    if (document.activeElement === element) element.setSelectionRange(start, end);
+  };
+
+  const confirm = (seen: Record<string, number>) => {
+    Object.entries(seen).forEach(([client, clock]) => (confirmed[client] = Math.max(confirmed[client] ?? 0, clock)));
+  };
+
+  const receive = (ops: CrdtOp[]) => {
+    if (!state.doc) return;
+    const before = state.doc;
+    confirm(Object.fromEntries(ops.map((op) => [op.id[1], lastClock(op)])));
+    const { doc: next, applied } = applyOps(before, ops);
+    const doc = acknowledge(next, confirmed);
+    if (applied.length === 0) {
+      emit({ doc });
+      return;
+    }
+    if (isLive()) captureSelection(before, doc);
+    emit({ doc, editor: readSnapshot(doc, state.editor), status: "live" });
+  };
+
+  const welcome = ({ ops, seen, peers, seed }: Extract<CollabServerMessage, { type: "welcome" }>) => {
+    if (!state.doc) return;
+    // The room arrives compacted, so the document is rebuilt from it rather than merged into. Whatever the relay
+    // hasn't seen goes on top and back to it: changes made while disconnected, or everything if it lost the room.
+    // Ops it confirmed before are no longer kept to resend, so if it has lost some, this tab writes back whatever
+    // its editor holds that the room doesn't, the way the first person in fills an empty room.
+    const lost = Object.entries(confirmed).some(([client, clock]) => (seen[client] ?? 0) < clock);
+    const unsent = state.doc.log.filter((op) => op.id[0] > (seen[op.id[1]] ?? 0)).sort((a, b) => a.id[0] - b.id[0]);
+    let { doc } = applyOps({ ...createDoc(state.doc.client), clock: state.doc.clock }, [...ops, ...unsent]);
+    let editor = state.editor;
+    confirmed = { ...seen };
+
+    if (doc.log.length === 0 && !seed && !lost) {
+      emit({ doc, peers, status: "syncing", error: null });
+      return;
+    }
+    if (doc.log.length === 0 || lost) {
+      const seeded = writeSnapshot(doc, null, editor);
+      doc = seeded.doc;
+      unsent.push(...seeded.ops);
+    } else {
+      if (isLive()) captureSelection(state.doc, doc);
+      editor = readSnapshot(doc, editor);
+    }
+    const profile = writeProfile(doc);
+    doc = profile.doc;
+    unsent.push(...profile.ops);
+
+    sendOps(unsent);
+    emit({ doc: acknowledge(doc, confirmed), editor, peers, status: "live", error: null });
+  };
+
+  const handle = (message: CollabServerMessage) => {
+    switch (message.type) {
+      case "welcome":
+        welcome(message);
+        break;
+      case "ops":
+        receive(message.ops);
+        break;
+      case "ack":
+        if (!state.doc) break;
+        confirm(message.seen);
+        emit({ doc: acknowledge(state.doc, confirmed) });
+        break;
+      case "peer":
+        if (message.peer.id === state.self?.id) break;
+        emit({ peers: [...state.peers.filter((peer) => peer.id !== message.peer.id), message.peer] });
+        break;
+      case "leave":
+        emit({ peers: state.peers.filter((peer) => peer.id !== message.id) });
+        break;
+    }
+  };
+
+  const connect = () => {
+    if (!state.roomId) return;
+    const ws = new WebSocket(collabServerUrl(state.roomId));
+    socket = ws;
+    ws.onopen = () => {
+      failures = 0;
+      if (state.self) send({ type: "hello", peer: state.self });
+    };
+    ws.onmessage = (event) => {
+      if (socket !== ws) return;
+      try {
+        handle(JSON.parse(event.data as string) as CollabServerMessage);
+      } catch (error) {
+        console.error("Collaboration message failed", error);
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      failures += 1;
+      emit({
+        status: isLive() ? "reconnecting" : "connecting",
+        peers: [],
+        error: failures >= UNREACHABLE_AFTER ? "Can't reach the collaboration server. Still trying…" : state.error,
+      });
+      retryTimer = window.setTimeout(connect, RETRY_DELAYS[Math.min(failures, RETRY_DELAYS.length) - 1]);
+    };
+  };
+
+  const leave = () => {
+    window.clearTimeout(retryTimer);
+    const current = socket;
+    socket = null;
+    current?.close();
+    pendingSelection = null;
+    if (state.roomId) emit({ roomId: null, status: "offline", self: null, peers: [], doc: null, error: null });
+  };
+
+  // Joining replaces this tab's editor with the room's, unless the room is empty and this tab fills it.
+  const join = (roomId: string) => {
+    if (state.roomId === roomId) return;
+    leave();
+    const id = crypto.randomUUID();
+    failures = 0;
+    confirmed = {};
+    emit({
+      roomId,
+      status: "connecting",
+      self: { id, name: state.name, color: peerColor(id), presence: {} },
+      peers: [],
+      doc: createDoc(id),
+      error: null,
+    });
+    connect();
+  };
+
+  const update = (recipe: (editor: EditorSnapshot) => EditorSnapshot) => {
+    const current = state.editor;
+    const editor = recipe(current);
+    if (editor.form === current.form && editor.blueprint === current.blueprint && editor.edits === current.edits) {
+      return;
+    }
+    // Until the room's content has arrived there's nothing to merge into; it replaces the editor when it does.
+    if (!state.doc || !isLive()) {
+      emit({ editor });
+      return;
+    }
+    const { doc, ops } = writeSnapshot(state.doc, current, editor);
+    sendOps(ops);
+    emit({ editor, doc });
+  };
+
+  const setPresence = (presence: CollabPresence) => {
+    const { self } = state;
+    if (!self || JSON.stringify(self.presence) === JSON.stringify(presence)) return;
+    const next = { ...self, presence };
+    emit({ self: next });
+    send({ type: "peer", peer: next });
+  };
+
+  const rename = (name: string) => {
+    if (!state.self) {
+      emit({ name });
+      return;
+    }
+    const self = { ...state.self, name };
+    emit({ name, self });
+    send({ type: "peer", peer: self });
+    if (state.doc && isLive()) {
+      const { doc, ops } = writeProfile(state.doc);
+      sendOps(ops);
+      emit({ doc });
+    }
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    update,
+    join,
+    leave,
+    rename,
+    setPresence,
+    restoreSelection,
+  };
+};
+
+export type CollabSession = ReturnType<typeof createCollabSession>;
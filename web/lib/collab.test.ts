@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { composeBlueprint } from "@/lib/generator";
+import { INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+import { collabKey, readSnapshot, writeSnapshot } from "@/lib/collab";
+import { applyOps, createDoc, readRegister, setRegister, type CrdtDoc, type CrdtOp } from "@/lib/crdt";
+import type { EditorSnapshot } from "@/lib/history";
+import type { PageBlueprint, SectionItem } from "@/lib/sections";
+import { illustratePage, setItemImage, supportsItemImages } from "@/lib/visuals";
+
+const snapshot = (blueprint: PageBlueprint): EditorSnapshot => ({ form: INITIAL_FORM, blueprint, edits: {} });
+
+const page = illustratePage(composeBlueprint(toBlueprintInput(INITIAL_FORM)));
+const start = snapshot(page);
+// What a tab holds before the room's content arrives.
+const blank = snapshot(composeBlueprint(toBlueprintInput({ ...INITIAL_FORM, productName: "Elsewhere" })));
+
+const seeded = writeSnapshot(createDoc("a"), null, start);
+
+const joined = (client: string, ...ops: CrdtOp[][]) => applyOps(createDoc(client), ops.flat()).doc;
+
+// Undefined fields and key order don't survive JSON either way, so pages are compared as they'd be sent.
+const asSent = (blueprint: PageBlueprint) => JSON.parse(JSON.stringify(blueprint)) as PageBlueprint;
+
+const withSection = (blueprint: PageBlueprint, index: number, patch: Partial<PageBlueprint["sections"][number]>) => ({
+  ...blueprint,
+  sections: blueprint.sections.map((section, at) => (at === index ? { ...section, ...patch } : section)),
+});
+
+const pageKeys = (ops: CrdtOp[]) => ops.map((op) => op.key).filter((key) => key.startsWith("page."));
+
+describe("writeSnapshot", () => {
+  it("writes only the field that changed", () => {
+    const [section] = page.sections;
+    const { ops } = writeSnapshot(seeded.doc, start, snapshot(withSection(page, 0, { headline: "Ship it" })));
+
+    assert.deepEqual(pageKeys(ops), [collabKey.page(`section.${section.id}.headline`)]);
+  });
+
+  it("keeps images in registers of their own", () => {
+    const section = page.sections.find(supportsItemImages)!;
+    const upload = { src: "data:image/png;base64,AAAA", width: 1, height: 1 };
+    const next = setItemImage(page, section.id, 1, { illustration: "icon", alt: "Chart", upload });
+    const { ops } = writeSnapshot(seeded.doc, start, snapshot(next));
+
+    assert.deepEqual(pageKeys(ops), [collabKey.page(`section.${section.id}.image.1`)]);
+    const items = readRegister(seeded.doc, collabKey.page(`section.${section.id}.items`)) as SectionItem[];
+    assert.ok(items.every((item) => !item.image));
+  });
+});
+
+describe("readSnapshot", () => {
+  it("reads back the page another tab wrote, keeping what didn't change", () => {
+    const received = readSnapshot(joined("b", seeded.ops), blank);
+    assert.deepEqual(asSent(received.blueprint), asSent(page));
+    assert.equal(readSnapshot(joined("b", seeded.ops), received), received);
+
+    const edited = writeSnapshot(seeded.doc, start, snapshot(withSection(page, 1, { body: "New body" })));
+    const next = readSnapshot(joined("b", seeded.ops, edited.ops), received).blueprint;
+    assert.equal(next.sections[1].body, "New body");
+    assert.equal(next.hero, received.blueprint.hero);
+    assert.equal(next.sections[0], received.blueprint.sections[0]);
+    assert.equal(next.sections[2], received.blueprint.sections[2]);
+  });
+
+  it("merges edits to different sections made at the same time", () => {
+    const a = writeSnapshot(seeded.doc, start, snapshot(withSection(page, 0, { headline: "From A" })));
+    const b = writeSnapshot(joined("b", seeded.ops), start, snapshot(withSection(page, 1, { headline: "From B" })));
+
+    [joined("a", seeded.ops, a.ops, b.ops), joined("c", seeded.ops, b.ops, a.ops)].forEach((doc) => {
+      const { sections } = readSnapshot(doc, blank).blueprint;
+      assert.deepEqual(
+        sections.slice(0, 2).map((section) => section.headline),
+        ["From A", "From B"],
+      );
+    });
+  });
+
+  it("reads rooms that hold whole sections, and rewrites them by field on the next change", () => {
+    const { sections, ...rest } = page;
+    const legacy = [...Object.entries(rest), ["sections", sections] as const].reduce<CrdtDoc>(
+      (doc, [key, value]) => setRegister(doc, collabKey.page(key), value).doc,
+      createDoc("old"),
+    );
+    const received = readSnapshot(legacy, blank);
+    assert.deepEqual(asSent(received.blueprint), asSent(page));
+
+    const edited = withSection(page, 0, { headline: "Ship it" });
+    const { ops } = writeSnapshot(joined("b", legacy.log), received, snapshot(edited));
+    assert.deepEqual(asSent(readSnapshot(joined("c", legacy.log, ops), blank).blueprint), asSent(edited));
+  });
+});
@@ -0,0 +1,272 @@
+import { INITIAL_FORM, type FormState } from "@/lib/brief";
+import type { BlueprintEdits } from "@/lib/blueprint-edits";
+import {
+  listKeys,
+  readRegister,
+  readText,
+  setRegister,
+  setText,
+  type CrdtDoc,
+  type CrdtOp,
+  type OpId,
+} from "@/lib/crdt";
+import type { EditorSnapshot } from "@/lib/history";
+import type { PageBlueprint } from "@/lib/sections";
+
+// How the editor maps onto the shared document. Free-text brief fields and manual copy edits are text, so
+// concurrent typing merges; the pickers and every field of the page (see `pageParts`) are last-writer-wins, so two
+// people can change different parts of the page at once. Translations, site pages and variants stay per person.
+
+export const TEXT_FIELDS = [
+  "productName",
+  "oneLiner",
+  "audience",
+  "problem",
+  "solution",
+  "differentiator",
+  "cta",
+  "featuresText",
+] as const satisfies Array<keyof FormState>;
+
+const isTextField = (field: keyof FormState) => (TEXT_FIELDS as readonly string[]).includes(field);
+
+export const collabKey = {
+  field: (field: keyof FormState) => `form.${field}`,
+  page: (key: string) => `page.${key}`,
+  edit: (path: string) => `edit.${path}`,
+  profile: (client: string) => `profile.${client}`,
+};
+
+const stripPrefix = (keys: string[], prefix: string) => keys.map((key) => key.slice(prefix.length));
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const FORM_FIELDS = Object.keys(INITIAL_FORM) as Array<keyof FormState>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// `section.<id>.<field>` or `section.<id>.image.<item index>`; section ids may hold dots, field names don't.
+const SECTION_PART = /^section\.(.+?)\.(?:image\.(\d+)|([^.]+))$/;
+
+// The page as registers, keyed by what follows `page.`. Plain values are one register (`gradient`), objects one per
+// field (`hero.title`, `seo.description`), and sections their order (`sections`, by id) plus one per field
+// (`section.<id>.headline`). Images have registers of their own (`heroImage.upload`, `section.<id>.image.0`), so
+// retitling a section doesn't resend its pictures.
+const pageParts = ({ sections, ...page }: PageBlueprint) => {
+  const parts: Record<string, unknown> = {};
+  Object.entries(page).forEach(([key, value]) => {
+    if (!isPlainObject(value)) parts[key] = value;
+    else Object.entries(value).forEach(([field, part]) => (parts[`${key}.${field}`] = part));
+  });
+  parts.sections = sections.map((section) => section.id);
+  sections.forEach(({ id, items, ...fields }) => {
+    Object.entries(fields).forEach(([field, value]) => (parts[`section.${id}.${field}`] = value));
+    if (!items) return;
+    parts[`section.${id}.items`] = items.map((item) => ({ ...item, image: undefined }));
+    items.forEach((item, index) => {
+      if (item.image) parts[`section.${id}.image.${index}`] = item.image;
+    });
+  });
+  return parts;
+};
+
+// Puts `pageParts` back together. Rooms saved before fields had registers of their own hold whole objects and
+// whole sections instead: keys are read in sorted order, so such an object comes before any field written over it,
+// and sections found in the order are used as they are.
+const readPage = (doc: CrdtDoc, keys: string[]) => {
+  const page: Record<string, unknown> = {};
+  const sections = new Map<string, Record<string, unknown>>();
+  const images = new Map<string, Record<string, unknown>>();
+  [...keys].sort().forEach((key) => {
+    const value = readRegister(doc, collabKey.page(key));
+    if (value === undefined) return;
+    const sectionPart = key.match(SECTION_PART);
+    if (sectionPart) {
+      const [, id, imageIndex, field] = sectionPart;
+      if (imageIndex === undefined) sections.set(id, { ...sections.get(id), [field]: value });
+      else images.set(id, { ...images.get(id), [imageIndex]: value });
+      return;
+    }
+    const [field, part] = key.split(/\.(.*)/);
+    page[field] = part === undefined ? value : { ...(isPlainObject(page[field]) ? page[field] : {}), [part]: value };
+  });
+
+  const order = Array.isArray(page.sections) ? (page.sections as unknown[]) : [];
+  page.sections = order.flatMap((entry) => {
+    if (typeof entry !== "string") return [entry];
+    const fields = sections.get(entry);
+    if (!fields) return [];
+    const items = fields.items as Array<Record<string, unknown>> | undefined;
+    const itemImages = images.get(entry) ?? {};
+    return [
+      {
+        id: entry,
+        ...fields,
+        ...(items
+          ? { items: items.map((item, index) => (itemImages[index] ? { ...item, image: itemImages[index] } : item)) }
+          : {}),
+      },
+    ];
+  });
+  return page as PageBlueprint;
+};
+
+const definedEntries = (value: object) => Object.entries(value).filter(([, entry]) => entry !== undefined);
+
+// `next`, with every part equal to the same part of `previous` swapped for it, so unchanged sections, images and
+// copy keep their identity and React skips them.
+const reuse = <T>(previous: unknown, next: T): T => {
+  if (previous === next || typeof previous !== "object" || typeof next !== "object" || !previous || !next) return next;
+  if (Array.isArray(previous) !== Array.isArray(next)) return next;
+  const before = previous as Record<string, unknown>;
+  const entries = definedEntries(next).map(([key, value]): [string, unknown] => [key, reuse(before[key], value)]);
+  if (entries.length === definedEntries(before).length && entries.every(([key, value]) => before[key] === value)) {
+    return previous as T;
+  }
+  return (Array.isArray(next) ? entries.map(([, value]) => value) : Object.fromEntries(entries)) as T;
+};
+
+// Writes whatever differs between `next` and the document. `previous` is what the document held last, used only
+// to skip parts that are the same object.
+export const writeSnapshot = (doc: CrdtDoc, previous: EditorSnapshot | null, next: EditorSnapshot) => {
+  let current = doc;
+  const ops: CrdtOp[] = [];
+  const write = (result: { doc: CrdtDoc; ops: CrdtOp[] }) => {
+    current = result.doc;
+    ops.push(...result.ops);
+  };
+
+  if (next.form !== previous?.form) {
+    FORM_FIELDS.forEach((field) => {
+      const key = collabKey.field(field);
+      const value = next.form[field];
+      if (previous && previous.form[field] === value) return;
+      if (isTextField(field)) {
+        if (readText(current, key) !== value) write(setText(current, key, value));
+      } else if (!sameValue(readRegister(current, key), value)) {
+        write(setRegister(current, key, value));
+      }
+    });
+  }
+
+  if (next.blueprint !== previous?.blueprint) {
+    const parts = pageParts(next.blueprint);
+    // A room still holding whole sections is rewritten in full, so its sections don't become ids with no fields.
+    const order = readRegister(current, collabKey.page("sections"));
+    const isLegacy = Array.isArray(order) && order.some((entry) => typeof entry !== "string");
+    const before = previous && !isLegacy ? pageParts(previous.blueprint) : null;
+    const keys = new Set([...Object.keys(parts), ...stripPrefix(listKeys(current, "page."), "page.")]);
+    keys.forEach((key) => {
+      if (before && before[key] === parts[key]) return;
+      if (!sameValue(readRegister(current, collabKey.page(key)), parts[key])) {
+        write(setRegister(current, collabKey.page(key), parts[key]));
+      }
+    });
+  }
+
+  if (next.edits !== previous?.edits) {
+    const paths = new Set([...Object.keys(next.edits), ...stripPrefix(listKeys(current, "edit."), "edit.")]);
+    paths.forEach((path) => {
+      const value = next.edits[path] ?? "";
+      if (previous && (previous.edits[path] ?? "") === value) return;
+      if (readText(current, collabKey.edit(path)) !== value) write(setText(current, collabKey.edit(path), value));
+    });
+  }
+
+  return { doc: current, ops };
+};
+
+const sameEntries = (a: Record<string, unknown>, b: Record<string, unknown>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+// Reads the editor back out, reusing `previous` for every part that didn't change so React skips it.
+export const readSnapshot = (doc: CrdtDoc, previous: EditorSnapshot): EditorSnapshot => {
+  const form = Object.fromEntries(
+    FORM_FIELDS.map((field) => {
+      const key = collabKey.field(field);
+      return [field, isTextField(field) ? readText(doc, key) : (readRegister(doc, key) ?? INITIAL_FORM[field])];
+    }),
+  ) as FormState;
+
+  const pageKeys = stripPrefix(listKeys(doc, "page."), "page.");
+  const blueprint = pageKeys.length ? reuse(previous.blueprint, readPage(doc, pageKeys)) : previous.blueprint;
+
+  const edits: BlueprintEdits = Object.fromEntries(
+    stripPrefix(listKeys(doc, "edit."), "edit.")
+      .map((path): [string, string] => [path, readText(doc, collabKey.edit(path))])
+      .filter(([, value]) => value !== ""),
+  );
+
+  const next = {
+    form: sameEntries(form, previous.form) ? previous.form : form,
+    blueprint,
+    edits: sameEntries(edits, previous.edits) ? previous.edits : edits,
+  };
+  return next.form === previous.form && next.blueprint === previous.blueprint && next.edits === previous.edits
+    ? previous
+    : next;
+};
+
+export type CollabProfile = { name: string; color: string };
+
+// Where someone is in the brief. The caret is a text anchor (see `textAnchor`), so it stays on the right character
+// while others type.
+export type CollabPresence = { field?: keyof FormState; caret?: OpId | null };
+
+export type CollabPeer = CollabProfile & { id: string; presence: CollabPresence };
+
+export type CollabClientMessage =
+  { type: "hello"; peer: CollabPeer } | { type: "peer"; peer: CollabPeer } | { type: "ops"; ops: CrdtOp[] };
+
+export type CollabServerMessage =
+  // `ops` is the room compacted, and `seen` the newest clock the relay has from each client. `seed` goes to the
+  // first person in an empty room, who fills it from their own editor.
+  | { type: "welcome"; ops: CrdtOp[]; seen: Record<string, number>; peers: CollabPeer[]; seed: boolean }
+  | { type: "ops"; ops: CrdtOp[] }
+  // Sent back once a client's ops are stored: the relay's newest clock for each client they came from.
+  | { type: "ack"; seen: Record<string, number> }
+  | { type: "peer"; peer: CollabPeer }
+  | { type: "leave"; id: string };
+
+// Text is shared by character while the DOM counts UTF-16 units; these convert between the two so emoji don't
+// split a caret.
+export const toCharIndex = (value: string, index: number) => Array.from(value.slice(0, index)).length;
+
+export const fromCharIndex = (value: string, index: number) => Array.from(value).slice(0, index).join("").length;
+
+export const displayName = (name: string) => name.trim() || "Guest";
+
+export const profileOf = (doc: CrdtDoc, client: string) =>
+  readRegister(doc, collabKey.profile(client)) as CollabProfile | undefined;
+
+const PEER_COLORS = ["#f472b6", "#38bdf8", "#facc15", "#a78bfa", "#fb923c", "#34d399", "#f87171", "#22d3ee"];
+
+export const peerColor = (id: string) => {
+  let hash = 0;
+  for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+// Room ids are random and unguessable; the link is the only way in.
+export const isRoomId = (id: string) => /^[A-Za-z0-9_-]{6,32}$/.test(id);
+
+export const createRoomId = () =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(9))))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+
+export const COLLAB_PORT = 4020;
+
+// The relay drops anyone who sends more than this in one message (see scripts/collab-server.mjs).
+export const COLLAB_MAX_MESSAGE_BYTES = 8 * 1024 * 1024;
+
+// The relay runs next to the app (see scripts/collab-server.mjs); set the URL when it lives elsewhere.
+export const collabServerUrl = (roomId: string) => {
+  const base =
+    process.env.NEXT_PUBLIC_LAUNCHPILOT_COLLAB_URL ??
+    `${window.location.protocol === "https:" ? "wss:" : "ws:"}//${window.location.hostname}:${COLLAB_PORT}`;
+  return `${base.replace(/\/$/, "")}/rooms/${roomId}`;
+};
@@ -0,0 +1,80 @@
+import type { LandingBlueprint } from "@/lib/generator";
+
+export type Rgb = [number, number, number];
+
+export const DARK_TEXT = "#0f172a";
+export const LIGHT_TEXT = "#f8fafc";
+
+// WCAG 2.1 thresholds: 4.5 for body copy, 3 for large text (24px, or 18.66px bold).
+export const AA_NORMAL = 4.5;
+export const AA_LARGE = 3;
+
+const COLOR_PATTERN = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b|rgba?\([^)]*\)/gi;
+
+export const parseColor = (value: string): Rgb | null => {
+  const color = value.trim().toLowerCase();
+  if (color.startsWith("#")) {
+    const hex = color.slice(1);
+    const full = hex.length <= 4 ? [...hex.slice(0, 3)].map((char) => char + char).join("") : hex.slice(0, 6);
+    if (!/^[0-9a-f]{6}$/.test(full)) return null;
+    return [0, 2, 4].map((offset) => parseInt(full.slice(offset, offset + 2), 16)) as Rgb;
+  }
+  const channels = color
+    .match(/^rgba?\(([^)]*)\)$/)?.[1]
+    .split(/[\s,/]+/)
+    .filter(Boolean);
+  if (!channels || channels.length < 3) return null;
+  return channels.slice(0, 3).map((channel) => Math.round(parseFloat(channel))) as Rgb;
+};
+
+export const toHex = ([red, green, blue]: Rgb) =>
+  `#${[red, green, blue].map((channel) => Math.max(0, Math.min(255, channel)).toString(16).padStart(2, "0")).join("")}`;
+
+// Every literal color in a CSS gradient, in order. Keywords and CSS variables are ignored.
+export const extractColors = (value: string) =>
+  (value.match(COLOR_PATTERN) ?? []).filter((color) => parseColor(color) !== null);
+
+// Rewrites every literal color in a gradient, leaving angles, positions and keywords alone.
+export const mapGradientColors = (gradient: string, map: (color: string) => string) =>
+  gradient.replace(COLOR_PATTERN, (color) => (parseColor(color) ? map(color) : color));
+
+const luminance = ([red, green, blue]: Rgb) => {
+  const [r, g, b] = [red, green, blue].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (foreground: string, background: string) => {
+  const a = parseColor(foreground);
+  const b = parseColor(background);
+  if (!a || !b) return null;
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// The worst ratio across every stop, since text can sit over any part of the gradient.
+export const minContrastOnGradient = (foreground: string, gradient: string) => {
+  const ratios = extractColors(gradient)
+    .map((stop) => contrastRatio(foreground, stop))
+    .filter((ratio): ratio is number => ratio !== null);
+  return ratios.length ? Math.min(...ratios) : null;
+};
+
+export const rateContrast = (ratio: number | null) => {
+  if (ratio === null) return "unknown";
+  if (ratio >= AA_NORMAL) return "pass";
+  return ratio >= AA_LARGE ? "large-only" : "fail";
+};
+
+export const pickHeroTextColor = (palette: LandingBlueprint["palette"], gradient: string) => {
+  const candidates = [...new Set([palette.text, DARK_TEXT, LIGHT_TEXT])];
+  const scored = candidates
+    .map((color) => ({ color, ratio: minContrastOnGradient(color, gradient) }))
+    .filter((entry): entry is { color: string; ratio: number } => entry.ratio !== null);
+  if (!scored.length) return LIGHT_TEXT;
+  // Prefer the brand text color whenever it already meets AA.
+  const brand = scored.find((entry) => entry.color === palette.text && entry.ratio >= AA_NORMAL);
+  return brand?.color ?? scored.reduce((best, entry) => (entry.ratio > best.ratio ? entry : best)).color;
+};
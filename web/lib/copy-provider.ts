@@ -0,0 +1,224 @@
+import type { LandingBlueprint } from "@/lib/generator";
+import type { BlueprintInput } from "@/lib/brief";
+import { readEventStream } from "@/lib/sse";
+
+type Hero = LandingBlueprint["hero"];
+
+export type CopyPatch = {
+  hero?: Partial<Pick<Hero, "eyebrow" | "title" | "subtitle" | "primaryCta" | "secondaryCta">>;
+  sections?: Array<{
+    id: string;
+    label?: string;
+    headline?: string;
+    body?: string;
+    items?: Array<{ title?: string; description?: string }>;
+  }>;
+};
+
+export type CopyRequest = {
+  input: BlueprintInput;
+  draft: LandingBlueprint;
+};
+
+export type CopyOptions = {
+  signal?: AbortSignal;
+  onToken?: (text: string) => void;
+};
+
+export type TranslateRequest = {
+  locale: string;
+  localeName: string;
+  // Source strings keyed by text path; the reply uses the same keys.
+  strings: Record<string, string>;
+};
+
+export type CopyProvider = {
+  id: string;
+  label: string;
+  generateCopy: (request: CopyRequest, options?: CopyOptions) => Promise<CopyPatch>;
+  // Optional: providers without it leave translation to an imported strings file.
+  translate?: (request: TranslateRequest, options?: CopyOptions) => Promise<Record<string, string>>;
+};
+
+// The offline fallback: the template generator already wrote the draft, so there is nothing to change.
+export const templateProvider: CopyProvider = {
+  id: "template",
+  label: "Template generator",
+  generateCopy: async () => ({}),
+};
+
+export type OpenAiProviderConfig = {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+};
+
+const SYSTEM_PROMPT = [
+  "You are a senior conversion copywriter writing landing pages.",
+  "You receive a product brief and a draft page as JSON.",
+  "Rewrite the copy so it is specific, benefit-led and matches the requested tone.",
+  'Reply with JSON only, shaped like {"hero": {...}, "sections": [{"id": "...", ...}]}.',
+  "Keep every section id, keep the number and order of items, and only include string fields you rewrote.",
+].join(" ");
+
+const TRANSLATE_PROMPT = [
+  "You are a professional marketing translator localizing a landing page.",
+  "You receive a target locale and a JSON object of English strings keyed by id.",
+  "Translate each value idiomatically for that market, keeping the meaning, tone and brand names.",
+  "Keep each translation about as short as the original: it has to fit the same layout slot.",
+  "Reply with JSON only: the same keys, each mapped to its translated string.",
+].join(" ");
+
+const toDraftCopy = (draft: LandingBlueprint) => ({
+  hero: {
+    eyebrow: draft.hero.eyebrow,
+    title: draft.hero.title,
+    subtitle: draft.hero.subtitle,
+    primaryCta: draft.hero.primaryCta,
+    secondaryCta: draft.hero.secondaryCta,
+  },
+  sections: draft.sections.map((section) => ({
+    id: section.id,
+    label: section.label,
+    headline: section.headline,
+    body: section.body,
+    items: section.items?.map((item) => ({ title: item.title, description: item.description })),
+  })),
+});
+
+export const parseCopyPatch = (content: string): CopyPatch => {
+  const json = content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1);
+  if (!json) throw new Error("Copy provider returned no JSON object");
+  const parsed = JSON.parse(json) as CopyPatch;
+  if (typeof parsed !== "object" || parsed === null) throw new Error("Copy provider returned malformed JSON");
+  return parsed;
+};
+
+type ChatMessage = { role: "system" | "user"; content: string };
+
+const streamChat = async (
+  { baseUrl, apiKey, model }: OpenAiProviderConfig,
+  messages: ChatMessage[],
+  temperature: number,
+  { signal, onToken }: CopyOptions = {},
+) => {
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+    method: "POST",
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({ model, stream: true, temperature, messages }),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Copy provider responded with ${response.status} ${response.statusText}`);
+  }
+
+  let content = "";
+  await readEventStream(response.body, (data) => {
+    if (data === "[DONE]") return;
+    const delta = (JSON.parse(data) as { choices?: Array<{ delta?: { content?: string } }> }).choices?.[0]?.delta
+      ?.content;
+    if (delta) {
+      content += delta;
+      onToken?.(delta);
+    }
+  });
+  return content;
+};
+
+export const createOpenAiProvider = (config: OpenAiProviderConfig): CopyProvider => ({
+  id: "openai-compatible",
+  label: config.model,
+  generateCopy: async ({ input, draft }, options) => {
+    const content = await streamChat(
+      config,
+      [
+        { role: "system", content: SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: JSON.stringify({
+            brief: {
+              productName: input.productName,
+              oneLiner: input.oneLiner,
+              audience: input.audience,
+              problem: input.problem,
+              solution: input.solution,
+              differentiator: input.differentiator,
+              features: input.features,
+              cta: input.cta,
+              tone: input.tone.name,
+            },
+            draft: toDraftCopy(draft),
+          }),
+        },
+      ],
+      0.7,
+      options,
+    );
+    return parseCopyPatch(content);
+  },
+  translate: async ({ locale, localeName, strings }, options) => {
+    const content = await streamChat(
+      config,
+      [
+        { role: "system", content: TRANSLATE_PROMPT },
+        { role: "user", content: JSON.stringify({ locale, language: localeName, strings }) },
+      ],
+      0.2,
+      options,
+    );
+    const parsed = parseCopyPatch(content) as Record<string, unknown>;
+    // Keys the model invented are dropped; keys it skipped stay untranslated and get flagged.
+    return Object.fromEntries(
+      Object.keys(strings).flatMap((key) => (typeof parsed[key] === "string" ? [[key, parsed[key] as string]] : [])),
+    );
+  },
+});
+
+export const resolveCopyProvider = (env: Record<string, string | undefined> = process.env): CopyProvider => {
+  const baseUrl = env.LAUNCHPILOT_LLM_BASE_URL;
+  if (!baseUrl) return templateProvider;
+  return createOpenAiProvider({
+    baseUrl,
+    apiKey: env.LAUNCHPILOT_LLM_API_KEY,
+    model: env.LAUNCHPILOT_LLM_MODEL ?? "gpt-4o-mini",
+  });
+};
+
+const pickText = (value: unknown, fallback: string) =>
+  typeof value === "string" && value.trim() ? value.trim() : fallback;
+
+// Only strings are taken from the model: ids, order, stats and palette always come from the template draft.
+export const applyCopyPatch = (draft: LandingBlueprint, patch: CopyPatch): LandingBlueprint => {
+  const hero = patch.hero ?? {};
+  const sections = new Map((patch.sections ?? []).map((section) => [section.id, section]));
+  return {
+    ...draft,
+    hero: {
+      ...draft.hero,
+      eyebrow: pickText(hero.eyebrow, draft.hero.eyebrow),
+      title: pickText(hero.title, draft.hero.title),
+      subtitle: pickText(hero.subtitle, draft.hero.subtitle),
+      primaryCta: pickText(hero.primaryCta, draft.hero.primaryCta),
+      secondaryCta: pickText(hero.secondaryCta, draft.hero.secondaryCta),
+    },
+    sections: draft.sections.map((section) => {
+      const rewrite = sections.get(section.id);
+      if (!rewrite) return section;
+      return {
+        ...section,
+        label: pickText(rewrite.label, section.label),
+        headline: pickText(rewrite.headline, section.headline),
+        body: pickText(rewrite.body, section.body),
+        items: section.items?.map((item, index) => ({
+          ...item,
+          title: pickText(rewrite.items?.[index]?.title, item.title),
+          description: pickText(rewrite.items?.[index]?.description, item.description),
+        })),
+      };
+    }),
+  };
+};
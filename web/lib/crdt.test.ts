@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  acknowledge,
+  applyOps,
+  createDoc,
+  opKey,
+  readRegister,
+  readText,
+  setRegister,
+  setText,
+  type CrdtDoc,
+  type CrdtOp,
+} from "@/lib/crdt";
+
+// Runs edits against one peer's document, collecting the ops they send.
+const edit = (doc: CrdtDoc, ...changes: Array<(doc: CrdtDoc) => { doc: CrdtDoc; ops: CrdtOp[] }>) =>
+  changes.reduce(
+    (current, change) => {
+      const result = change(current.doc);
+      return { doc: result.doc, ops: [...current.ops, ...result.ops] };
+    },
+    { doc, ops: [] as CrdtOp[] },
+  );
+
+const receive = (doc: CrdtDoc, ops: CrdtOp[]) => applyOps(doc, ops).doc;
+
+// A few different arrival orders, so ops often come before the ones they build on.
+const orders = (ops: CrdtOp[]) => [
+  ops,
+  [...ops].reverse(),
+  ops.filter((_, index) => index % 2 === 1).concat(ops.filter((_, index) => index % 2 === 0)),
+  [...ops.slice(3), ...ops.slice(0, 3)].reverse(),
+];
+
+describe("crdt", () => {
+  it("reads the same document on every peer, whatever order the ops arrive in", () => {
+    const base = edit(createDoc("a"), (doc) => setText(doc, "title", "Launch day"));
+    const peer = (client: string) => receive(createDoc(client), base.ops);
+    const a = edit(
+      peer("a"),
+      (doc) => setText(doc, "title", "Launch day soon"),
+      (doc) => setRegister(doc, "theme", "ocean"),
+    );
+    const b = edit(
+      peer("b"),
+      (doc) => setText(doc, "title", "Big launch day"),
+      (doc) => setRegister(doc, "theme", "sunset"),
+    );
+    const c = edit(
+      peer("c"),
+      (doc) => setText(doc, "title", "Launch"),
+      (doc) => setText(doc, "body", "Hello"),
+    );
+    const ops = [...a.ops, ...b.ops, ...c.ops];
+
+    const docs = orders(ops).map((order) => receive(peer("d"), order));
+    docs.forEach((doc) => {
+      assert.equal(doc.pending.length, 0);
+      assert.equal(readText(doc, "title"), readText(docs[0], "title"));
+      assert.equal(readText(doc, "body"), "Hello");
+      assert.equal(readRegister(doc, "theme"), readRegister(docs[0], "theme"));
+    });
+    assert.equal(readText(receive(a.doc, [...b.ops, ...c.ops]), "title"), readText(docs[0], "title"));
+    assert.equal(readText(receive(c.doc, [...b.ops, ...a.ops]), "title"), readText(docs[0], "title"));
+  });
+
+  it("orders concurrent inserts at one spot by id and keeps each one's run together", () => {
+    const base = edit(createDoc("a"), (doc) => setText(doc, "title", "ac"));
+    const a = edit(receive(createDoc("a"), base.ops), (doc) => setText(doc, "title", "a12c"));
+    const b = edit(receive(createDoc("b"), base.ops), (doc) => setText(doc, "title", "a34c"));
+
+    // Same clock, so the later client id goes first.
+    assert.equal(readText(receive(a.doc, b.ops), "title"), "a3412c");
+    assert.equal(readText(receive(b.doc, a.ops), "title"), "a3412c");
+  });
+
+  it("forgets acknowledged ops without changing the document or applying them twice", () => {
+    const { doc, ops } = edit(
+      createDoc("a"),
+      (current) => setText(current, "title", "Hello"),
+      (current) => setRegister(current, "theme", "ocean"),
+      (current) => setText(current, "title", "Hello there"),
+    );
+    const [first] = ops;
+    const trimmed = acknowledge(doc, { a: ops[1].id[0] });
+
+    assert.deepEqual(trimmed.log, ops.slice(2));
+    assert.deepEqual(Object.keys(trimmed.applied), [opKey(ops[2].id)]);
+    assert.equal(readText(trimmed, "title"), "Hello there");
+    assert.equal(readRegister(trimmed, "theme"), "ocean");
+    assert.equal(readText(receive(trimmed, [first]), "title"), "Hello there");
+    assert.equal(acknowledge(trimmed, { b: 10 }), trimmed);
+  });
+});
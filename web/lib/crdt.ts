@@ -0,0 +1,209 @@
+// A small CRDT for live editing. Structured values are last-writer-wins registers; text is an RGA sequence, so two
+// people typing in the same string interleave their characters instead of overwriting each other. Ops carry Lamport
+// ids, which makes them safe to apply twice and in any order: every peer that has seen the same ops reads the same
+// document.
+
+export type OpId = [clock: number, client: string];
+
+export type CrdtOp =
+  | { type: "set"; key: string; id: OpId; at: number; value?: unknown }
+  // `text` takes one id per character, counting up from `id`, each placed after the one before.
+  | { type: "insert"; key: string; id: OpId; at: number; after: OpId | null; text: string }
+  | { type: "delete"; key: string; id: OpId; at: number; targets: OpId[] };
+
+type Char = { id: OpId; value: string; deleted: boolean };
+
+type Register = { id: OpId; value?: unknown };
+
+// Who changed a key last, by the author's clock.
+export type Authorship = { client: string; at: number };
+
+export type CrdtDoc = {
+  client: string;
+  clock: number;
+  registers: Record<string, Register>;
+  // Deleted characters stay as tombstones so concurrent inserts next to them still find their place.
+  texts: Record<string, Char[]>;
+  authors: Record<string, Authorship>;
+  // What was applied and the relay hasn't confirmed yet, in order, so a peer coming back online can send what the
+  // server missed. `acknowledge` drops the rest, so both stay the size of what's in flight.
+  log: CrdtOp[];
+  applied: Record<string, true>;
+  // Ops that arrived before an op they build on.
+  pending: CrdtOp[];
+};
+
+export const createDoc = (client: string): CrdtDoc => ({
+  client,
+  clock: 0,
+  registers: {},
+  texts: {},
+  authors: {},
+  log: [],
+  applied: {},
+  pending: [],
+});
+
+export const opKey = ([clock, client]: OpId) => `${clock}@${client}`;
+
+const compareIds = (a: OpId, b: OpId) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+const sameId = (a: OpId, b: OpId) => a[0] === b[0] && a[1] === b[1];
+
+export const lastClock = (op: CrdtOp) => (op.type === "insert" ? op.id[0] + Array.from(op.text).length - 1 : op.id[0]);
+
+// Applies one op to a draft whose maps and touched arrays are already copies. Returns false, without changing
+// anything, when the op refers to characters this peer hasn't seen yet.
+const integrate = (draft: CrdtDoc, op: CrdtOp, copied: Set<string>) => {
+  if (op.type === "set") {
+    const current = draft.registers[op.key];
+    if (!current || compareIds(op.id, current.id) > 0) draft.registers[op.key] = { id: op.id, value: op.value };
+    return true;
+  }
+
+  const source = draft.texts[op.key] ?? [];
+  const find = (id: OpId) => source.findIndex((char) => sameId(char.id, id));
+  const positions = op.type === "delete" ? op.targets.map(find) : [op.after ? find(op.after) : -1];
+  if (positions.includes(-1) && !(op.type === "insert" && !op.after)) return false;
+
+  // Confirmed ops leave `applied`, so an insert that comes round again is recognised by its first character.
+  if (op.type === "insert" && find(op.id) !== -1) return true;
+
+  const chars = copied.has(op.key) ? source : [...source];
+  copied.add(op.key);
+  draft.texts[op.key] = chars;
+
+  if (op.type === "delete") {
+    for (const position of positions) chars[position] = { ...chars[position], deleted: true };
+    return true;
+  }
+
+  // RGA: skip past anything inserted at the same spot by a later op, so every peer settles on the same order.
+  let previous = positions[0];
+  Array.from(op.text).forEach((value, offset) => {
+    const id: OpId = [op.id[0] + offset, op.id[1]];
+    let position = previous + 1;
+    while (position < chars.length && compareIds(chars[position].id, id) > 0) position++;
+    chars.splice(position, 0, { id, value, deleted: false });
+    previous = position;
+  });
+  return true;
+};
+
+export const applyOps = (doc: CrdtDoc, ops: CrdtOp[]) => {
+  const draft: CrdtDoc = {
+    ...doc,
+    registers: { ...doc.registers },
+    texts: { ...doc.texts },
+    authors: { ...doc.authors },
+    log: [...doc.log],
+    applied: { ...doc.applied },
+  };
+  const copied = new Set<string>();
+  const applied: CrdtOp[] = [];
+  let queue = [...doc.pending, ...ops];
+  let progressed = true;
+
+  while (progressed) {
+    progressed = false;
+    const waiting: CrdtOp[] = [];
+    queue.forEach((op) => {
+      const key = opKey(op.id);
+      if (draft.applied[key]) return;
+      if (!integrate(draft, op, copied)) {
+        waiting.push(op);
+        return;
+      }
+      draft.applied[key] = true;
+      draft.log.push(op);
+      draft.clock = Math.max(draft.clock, lastClock(op));
+      const author = draft.authors[op.key];
+      if (!author || author.at <= op.at) draft.authors[op.key] = { client: op.id[1], at: op.at };
+      applied.push(op);
+      progressed = true;
+    });
+    queue = waiting;
+  }
+
+  return { doc: { ...draft, pending: queue }, applied };
+};
+
+// Forgets the bookkeeping for ops the relay has confirmed, given its newest clock from each client. They stay in
+// the document; only the record kept for resending them goes.
+export const acknowledge = (doc: CrdtDoc, seen: Record<string, number>): CrdtDoc => {
+  const confirmed = (op: CrdtOp) => lastClock(op) <= (seen[op.id[1]] ?? 0);
+  if (!doc.log.some(confirmed)) return doc;
+  const applied = { ...doc.applied };
+  const log = doc.log.filter((op) => {
+    if (!confirmed(op)) return true;
+    delete applied[opKey(op.id)];
+    return false;
+  });
+  return { ...doc, log, applied };
+};
+
+const applyLocal = (doc: CrdtDoc, ops: CrdtOp[]) => ({ doc: applyOps(doc, ops).doc, ops });
+
+const visibleChars = (doc: CrdtDoc, key: string) => (doc.texts[key] ?? []).filter((char) => !char.deleted);
+
+export const readText = (doc: CrdtDoc, key: string) =>
+  visibleChars(doc, key)
+    .map((char) => char.value)
+    .join("");
+
+export const readRegister = (doc: CrdtDoc, key: string) => doc.registers[key]?.value;
+
+export const listKeys = (doc: CrdtDoc, prefix: string) =>
+  [...Object.keys(doc.registers), ...Object.keys(doc.texts)].filter((key) => key.startsWith(prefix));
+
+export const setRegister = (doc: CrdtDoc, key: string, value: unknown) =>
+  applyLocal(doc, [{ type: "set", key, id: [doc.clock + 1, doc.client], at: Date.now(), value }]);
+
+// Turns "the field now reads `next`" into the smallest delete and insert, so a teammate's typing elsewhere in the
+// same string survives.
+export const setText = (doc: CrdtDoc, key: string, next: string) => {
+  const chars = visibleChars(doc, key);
+  const after = Array.from(next);
+  let start = 0;
+  while (start < chars.length && start < after.length && chars[start].value === after[start]) start++;
+  let end = 0;
+  while (
+    end < chars.length - start &&
+    end < after.length - start &&
+    chars[chars.length - 1 - end].value === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const removed = chars.slice(start, chars.length - end);
+  const inserted = after.slice(start, after.length - end).join("");
+  const at = Date.now();
+  let clock = doc.clock;
+  const ops: CrdtOp[] = [];
+  if (removed.length > 0) {
+    ops.push({ type: "delete", key, id: [++clock, doc.client], at, targets: removed.map((char) => char.id) });
+  }
+  if (inserted) {
+    ops.push({
+      type: "insert",
+      key,
+      id: [++clock, doc.client],
+      at,
+      after: chars[start - 1]?.id ?? null,
+      text: inserted,
+    });
+  }
+  return applyLocal(doc, ops);
+};
+
+// Carets are shared as the character they follow (null for the start), which stays correct while others type.
+export const textAnchor = (doc: CrdtDoc, key: string, index: number): OpId | null =>
+  index > 0 ? (visibleChars(doc, key)[index - 1]?.id ?? null) : null;
+
+export const anchorIndex = (doc: CrdtDoc, key: string, anchor: OpId | null) => {
+  if (!anchor) return 0;
+  const chars = doc.texts[key] ?? [];
+  const position = chars.findIndex((char) => sameId(char.id, anchor));
+  if (position === -1) return null;
+  return chars.slice(0, position + 1).filter((char) => !char.deleted).length;
+};
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { composeBlueprint } from "@/lib/generator";
+import { INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+import { ctaHref, leadEndpoint, needsLeadsRoute, type CtaTarget } from "@/lib/cta";
+
+const withPrimary = (target: CtaTarget) => ({
+  ...composeBlueprint(toBlueprintInput(INITIAL_FORM)),
+  ctas: { primary: target },
+});
+
+const hrefFor = (target: CtaTarget) => ctaHref(withPrimary(target), "primary");
+
+describe("ctaHref", () => {
+  it("links to web, mail, phone and on-page destinations", () => {
+    ["https://example.com/signup", "http://example.com", "mailto:hi@example.com", "tel:+15550100", "/pricing", "#faq"]
+      .map((url) => [url, hrefFor({ type: "url", url })])
+      .forEach(([url, href]) => assert.equal(href, url));
+  });
+
+  it("drops script, data and unparseable URLs", () => {
+    ["javascript:alert(1)", " JavaScript:alert(1)", "java\tscript:alert(1)", "data:text/html,<b>hi</b>", "signup"]
+      .map((url) => hrefFor({ type: "url", url }))
+      .forEach((href) => assert.equal(href, undefined));
+  });
+});
+
+describe("leadEndpoint", () => {
+  it("falls back to the built-in route for endpoints that aren't http(s) or a path", () => {
+    assert.equal(leadEndpoint({ type: "form", form: "email", endpoint: "/subscribe" }), "/subscribe");
+    assert.equal(
+      leadEndpoint({ type: "form", form: "email", endpoint: "javascript:alert(1)" }, "https://app.example.com/"),
+      "https://app.example.com/api/leads",
+    );
+  });
+});
+
+describe("needsLeadsRoute", () => {
+  it("is true only for a lead form without its own endpoint", () => {
+    assert.equal(needsLeadsRoute(withPrimary({ type: "form", form: "waitlist" })), true);
+    assert.equal(
+      needsLeadsRoute(withPrimary({ type: "form", form: "waitlist", endpoint: "https://hooks.example.com" })),
+      false,
+    );
+    assert.equal(needsLeadsRoute(withPrimary({ type: "url", url: "https://example.com" })), false);
+  });
+});
@@ -0,0 +1,192 @@
+import { injectBodyEnd } from "@/lib/html-document";
+import type { PageBlueprint } from "@/lib/sections";
+
+export type CtaSlot = "primary" | "secondary";
+
+export type LeadFormKind = "email" | "waitlist";
+
+export type CtaTarget =
+  // Without a section id, the primary CTA goes to the closing section and the secondary to the first.
+  | { type: "section"; sectionId?: string }
+  | { type: "url"; url: string }
+  | { type: "email"; address: string; subject?: string }
+  // Embeds a lead form at the end of the page; posts to the built-in leads route unless an endpoint is set.
+  | { type: "form"; form: LeadFormKind; endpoint?: string; successMessage?: string };
+
+export type CtaType = CtaTarget["type"];
+
+export type CtaTargets = Partial<Record<CtaSlot, CtaTarget>>;
+
+export type LeadFormTarget = Extract<CtaTarget, { type: "form" }>;
+
+export const CTA_SLOTS: CtaSlot[] = ["primary", "secondary"];
+
+export const CTA_TYPES: Array<{ id: CtaType; label: string }> = [
+  { id: "section", label: "Section on this page" },
+  { id: "url", label: "URL" },
+  { id: "email", label: "Email (mailto)" },
+  { id: "form", label: "Lead form" },
+];
+
+export const LEAD_FORMS: Record<
+  LeadFormKind,
+  { label: string; heading: string; description: string; success: string; askName: boolean }
+> = {
+  email: {
+    label: "Email capture",
+    heading: "Stay in the loop",
+    description: "Leave your email and we'll send you the news that matters. No spam.",
+    success: "Thanks! Check your inbox.",
+    askName: false,
+  },
+  waitlist: {
+    label: "Waitlist",
+    heading: "Join the waitlist",
+    description: "Be first in line when we open the doors.",
+    success: "You're on the list — we'll be in touch.",
+    askName: true,
+  },
+};
+
+// The form's anchor, shared by the preview and the export so CTAs pointing at it work in both.
+export const LEAD_FORM_ID = "lead-form";
+
+export const LEADS_ROUTE = "/api/leads";
+
+// Honeypot field: hidden from people, filled in by bots, and dropped by the leads route.
+export const LEAD_TRAP_FIELD = "website";
+
+export const getCta = (blueprint: PageBlueprint, slot: CtaSlot): CtaTarget =>
+  blueprint.ctas?.[slot] ?? { type: "section" };
+
+export const createCtaTarget = (type: CtaType): CtaTarget => {
+  switch (type) {
+    case "url":
+      return { type, url: "" };
+    case "email":
+      return { type, address: "" };
+    case "form":
+      return { type, form: "waitlist" };
+    default:
+      return { type: "section" };
+  }
+};
+
+const sectionTarget = (blueprint: PageBlueprint, slot: CtaSlot, sectionId?: string) => {
+  const { sections } = blueprint;
+  if (sectionId && sections.some((section) => section.id === sectionId)) return sectionId;
+  return (slot === "primary" ? sections.at(-1) : sections[0])?.id;
+};
+
+export const ctaHref = (blueprint: PageBlueprint, slot: CtaSlot): string | undefined => {
+  const target = getCta(blueprint, slot);
+  switch (target.type) {
+    case "url": {
+      const url = target.url.trim();
+      return url && isSafeHref(url) ? url : undefined;
+    }
+    case "email": {
+      const address = target.address.trim();
+      if (!address) return undefined;
+      const subject = target.subject?.trim();
+      return `mailto:${address}${subject ? `?subject=${encodeURIComponent(subject)}` : ""}`;
+    }
+    case "form":
+      return `#${LEAD_FORM_ID}`;
+    default: {
+      const id = sectionTarget(blueprint, slot, target.sectionId);
+      return id ? `#${id}` : undefined;
+    }
+  }
+};
+
+// One form per page: if both CTAs are forms, the primary's settings win.
+export const leadFormTarget = (blueprint: PageBlueprint) =>
+  CTA_SLOTS.map((slot) => getCta(blueprint, slot)).find((target): target is LeadFormTarget => target.type === "form");
+
+export const leadEndpoint = (target: LeadFormTarget, appUrl = "") => {
+  const endpoint = target.endpoint?.trim();
+  return endpoint && (isHttpUrl(endpoint) || endpoint.startsWith("/"))
+    ? endpoint
+    : `${appUrl.replace(/\/+$/, "")}${LEADS_ROUTE}`;
+};
+
+// Whether the page's form would post to the leads route of whichever host serves it, which for a page exported
+// without an app URL is a static host with no such route.
+export const needsLeadsRoute = (blueprint: PageBlueprint) => {
+  const target = leadFormTarget(blueprint);
+  return target !== undefined && leadEndpoint(target) === LEADS_ROUTE;
+};
+
+export const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:", "tel:"];
+
+// What a CTA may link to. Anything else, such as `javascript:` or `data:`, is dropped from the page rather than
+// published.
+export const isSafeHref = (value: string) => {
+  if (/^[/#]/.test(value)) return true;
+  try {
+    return LINK_PROTOCOLS.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const isEmailAddress = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+
+// Returns what's wrong with a target, or null when it's ready to publish.
+export const validateCta = (target: CtaTarget): string | null => {
+  switch (target.type) {
+    case "url": {
+      const url = target.url.trim();
+      if (!url) return "Add the URL this button should open.";
+      return isSafeHref(url) ? null : "Use a full URL like https://example.com/signup.";
+    }
+    case "email":
+      return isEmailAddress(target.address) ? null : "Add a valid email address.";
+    case "form": {
+      const endpoint = target.endpoint?.trim();
+      return !endpoint || isHttpUrl(endpoint) || endpoint.startsWith("/")
+        ? null
+        : "The endpoint must be an http(s) URL or a path on your site.";
+    }
+    default:
+      return null;
+  }
+};
+
+const LEAD_FORM_SCRIPT = `
+document.querySelectorAll("form[data-lp-lead]").forEach(function (form) {
+  form.addEventListener("submit", function (event) {
+    event.preventDefault();
+    var status = form.querySelector("[data-lp-status]");
+    fetch(form.action, { method: "POST", body: new FormData(form), headers: { Accept: "application/json" } })
+      .then(function (response) {
+        if (!response.ok) throw new Error(String(response.status));
+        form.reset();
+        status.textContent = form.getAttribute("data-success");
+      })
+      .catch(function () {
+        status.textContent = "Something went wrong. Please try again.";
+      });
+  });
+});
+`;
+
+export type LeadFormContext = {
+  endpoint: string;
+  // Sent with every submission so leads from several pages or A/B arms can be told apart.
+  page?: string;
+  variantId?: string;
+};
+
+// The render tree draws CTAs as links and the form itself; exported pages only need the script that submits it.
+export const withLeadFormScript = (html: string, blueprint: PageBlueprint) =>
+  leadFormTarget(blueprint) ? injectBodyEnd(html, `<script data-launchpilot-cta>${LEAD_FORM_SCRIPT}</script>`) : html;
@@ -0,0 +1,60 @@
+export type DeviceId = "mobile" | "tablet" | "laptop" | "custom";
+
+export type Device = {
+  id: DeviceId;
+  label: string;
+  // CSS viewport in the device's natural orientation.
+  width: number;
+  height: number;
+};
+
+export const DEVICES: Device[] = [
+  { id: "mobile", label: "Mobile", width: 390, height: 844 },
+  { id: "tablet", label: "Tablet", width: 820, height: 1180 },
+  { id: "laptop", label: "Laptop", width: 1440, height: 900 },
+  { id: "custom", label: "Custom", width: 1024, height: 768 },
+];
+
+export const MIN_VIEWPORT_WIDTH = 280;
+export const MAX_VIEWPORT_WIDTH = 2560;
+
+export const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1] as const;
+
+// "canvas" is the editable in-app preview; "devices" renders the exported HTML in sandboxed frames.
+export type ViewportSettings = {
+  mode: "canvas" | "devices";
+  deviceIds: DeviceId[];
+  customWidth: number;
+  zoom: "fit" | number;
+  // Swaps every frame's orientation: phones and tablets go landscape, laptops portrait.
+  rotated: boolean;
+};
+
+export const DEFAULT_VIEWPORT: ViewportSettings = {
+  mode: "canvas",
+  deviceIds: ["mobile"],
+  customWidth: 1024,
+  zoom: "fit",
+  rotated: false,
+};
+
+export const clampViewportWidth = (width: number) =>
+  Math.round(Math.min(MAX_VIEWPORT_WIDTH, Math.max(MIN_VIEWPORT_WIDTH, width || MIN_VIEWPORT_WIDTH)));
+
+export const frameSize = (device: Device, { customWidth, rotated }: ViewportSettings) => {
+  const width = device.id === "custom" ? clampViewportWidth(customWidth) : device.width;
+  return rotated ? { width: device.height, height: width } : { width, height: device.height };
+};
+
+// Toggling keeps at least one device selected and the toolbar's order, so side-by-side frames don't shuffle.
+export const toggleDevice = (deviceIds: DeviceId[], id: DeviceId) => {
+  const next = deviceIds.includes(id) ? deviceIds.filter((entry) => entry !== id) : [...deviceIds, id];
+  return next.length ? DEVICES.map((device) => device.id).filter((entry) => next.includes(entry)) : deviceIds;
+};
+
+// Scale that fits every frame side by side into `available` pixels; gaps between frames don't scale. Never enlarges.
+export const fitZoom = (widths: number[], available: number, gap: number) => {
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  const room = available - gap * Math.max(0, widths.length - 1);
+  return total > 0 && room > 0 ? Math.min(1, room / total) : 1;
+};
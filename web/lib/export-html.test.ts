@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { THEMES, composeBlueprint } from "@/lib/generator";
+import { LandingPreview } from "@/components/landing-preview";
+import { HERO_LAYOUTS, INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+import { buildPageHtml } from "@/lib/export-html";
+import { SECTION_CATALOG, createSection, insertSection, type PageBlueprint } from "@/lib/sections";
+import { applyThemeStyle, createCustomTheme } from "@/lib/themes";
+import { illustratePage } from "@/lib/visuals";
+
+const blueprint: PageBlueprint = composeBlueprint(toBlueprintInput(INITIAL_FORM));
+
+// Every branch the page can take: catalog sections, illustrations, a custom theme, a lead form and a link CTA.
+const fullPage = (heroLayout: PageBlueprint["heroLayout"]): PageBlueprint => {
+  const input = toBlueprintInput({ ...INITIAL_FORM, heroLayout });
+  const page = SECTION_CATALOG.reduce(
+    (current, entry, index) => insertSection(current, createSection(entry.kind, input, index), current.sections.length),
+    composeBlueprint(input) as PageBlueprint,
+  );
+  return {
+    ...illustratePage(applyThemeStyle(page, createCustomTheme(THEMES[0], "linear-gradient(120deg, #6366f1, #ec4899)"))),
+    ctas: { primary: { type: "form", form: "waitlist" }, secondary: { type: "url", url: "https://example.com/demo" } },
+  };
+};
+
+const TOKEN = /<(\/?)([a-z0-9]+)([^>]*?)(\/?)>|([^<]+)/g;
+const ATTRIBUTE = /([\w-]+)(?:="([^"]*)")?/g;
+const VOID_TAGS = new Set(["img", "input", "br", "hr", "meta", "link"]);
+// What the editor adds so text is editable in place and links open beside the app rather than replacing it.
+const EDITOR_ATTRIBUTES = new Set(["contenteditable", "spellcheck", "data-path", "title", "rel", "target"]);
+
+// The `.lp-page` tree as a visitor gets it, one tag or text per line. Editor chrome (toolbars, the section catalog,
+// the editor's own classes) is dropped, and the preview's `data-section-id` anchors count as the export's ids.
+const visitorView = (html: string) => {
+  const lines: string[] = [];
+  let depth = 0;
+  let skipped = 0;
+  for (const [, closing, tag, attributes = "", selfClosing, text] of html
+    .slice(html.indexOf(`<div class="lp-page"`))
+    .matchAll(TOKEN)) {
+    const isVoid = selfClosing === "/" || VOID_TAGS.has(tag);
+    if (skipped) {
+      if (text === undefined && !isVoid) skipped += closing ? -1 : 1;
+    } else if (text !== undefined) {
+      lines.push(text);
+    } else if (closing) {
+      lines.push(`</${tag}>`);
+      if (--depth === 0) break;
+    } else {
+      const parsed = new Map(
+        [...attributes.matchAll(ATTRIBUTE)].map(([, name, value = ""]) => [name.toLowerCase(), value]),
+      );
+      const classes =
+        parsed
+          .get("class")
+          ?.split(" ")
+          .filter((name) => name.startsWith("lp-")) ?? [];
+      const isChrome = Boolean(parsed.get("class")) && !classes.length && !parsed.has("data-path");
+      if (isChrome || (tag === "input" && parsed.get("name") === "page")) {
+        if (!isVoid) skipped = 1;
+        continue;
+      }
+      if (parsed.has("data-section-id")) parsed.set("id", parsed.get("data-section-id")!);
+      parsed.set("class", classes.join(" "));
+      const kept = [...parsed]
+        .filter(([name, value]) => !EDITOR_ATTRIBUTES.has(name) && name !== "data-section-id" && value !== "")
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, value]) => ` ${name}="${value}"`);
+      lines.push(`<${tag}${kept.join("")}>`);
+      if (!isVoid) depth++;
+    }
+  }
+  return lines.join("\n");
+};
+
+const noop = () => undefined;
+
+describe("buildPageHtml", () => {
+  it("keeps the line breaks in a multi-line description", () => {
+    const [first, ...rest] = blueprint.sections;
+    const html = buildPageHtml({ ...blueprint, sections: [{ ...first, body: "Line one\nLine two" }, ...rest] });
+
+    assert.ok(html.includes(`<p class="lp-section-text">Line one\nLine two</p>`));
+    assert.match(html, /\.lp-section-text \{[^}]*white-space: pre-line;/);
+  });
+
+  HERO_LAYOUTS.forEach((layout) =>
+    it(`exports the page the editor previews for the ${layout.id} layout`, () => {
+      const page = fullPage(layout.id);
+      const exported = visitorView(buildPageHtml(page));
+
+      assert.equal(visitorView(renderToStaticMarkup(createElement(LandingPreview, { blueprint: page }))), exported);
+      const editing = createElement(LandingPreview, {
+        blueprint: page,
+        onEdit: noop,
+        sectionActions: { onRegenerate: noop, onRemove: noop, onMove: noop, onInsert: noop },
+      });
+      assert.equal(visitorView(renderToStaticMarkup(editing)), exported);
+    }),
+  );
+});
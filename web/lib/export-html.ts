@@ -0,0 +1,56 @@
+import { createElement } from "react";
+import { LandingPage } from "@/components/landing-page";
+import { withA11yRepairs } from "@/lib/a11y";
+import { withAnalytics } from "@/lib/analytics";
+import { withLeadFormScript } from "@/lib/cta";
+import { escapeHtml, withLocale, withVariantId, type LocaleAlternate } from "@/lib/html-document";
+import { criticalLandingCss } from "@/lib/landing-css";
+import type { LocaleOption } from "@/lib/locales";
+import type { PageBlueprint } from "@/lib/sections";
+import { withSeo, type SeoMeta } from "@/lib/seo";
+import { renderStaticMarkup } from "@/lib/static-markup";
+
+export type HtmlExportOptions = {
+  variantId?: string;
+  locale?: LocaleOption;
+  // Every language version of this page, itself included, plus `x-default`.
+  alternates?: LocaleAlternate[];
+  // Resolved with `resolveSeo`, which needs the product name and page URL the blueprint doesn't carry.
+  seo?: SeoMeta;
+  // Origin of this app; lead forms post to its built-in route unless they set their own endpoint.
+  appUrl?: string;
+};
+
+// The same tree the editor previews, with just the CSS it uses inlined so the file stands alone.
+const renderDocument = (blueprint: PageBlueprint, lead: { appUrl?: string; page?: string; variantId?: string }) => {
+  const body = renderStaticMarkup(createElement(LandingPage, { blueprint, standalone: true, lead }));
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(blueprint.hero.title)}</title>
+<style data-launchpilot-critical>
+body { margin: 0; }
+${criticalLandingCss(body)}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+export const buildPageHtml = (
+  blueprint: PageBlueprint,
+  { variantId, locale, alternates, seo, appUrl }: HtmlExportOptions = {},
+) => {
+  let html = renderDocument(blueprint, { appUrl, page: seo?.siteName, variantId });
+  html = withLeadFormScript(html, blueprint);
+  html = withAnalytics(html, blueprint.analytics);
+  html = withA11yRepairs(html, blueprint.a11y);
+  html = withSeo(html, blueprint, seo);
+  html = withVariantId(html, variantId);
+  return withLocale(html, locale?.code, locale?.dir, alternates);
+};
@@ -0,0 +1,89 @@
+import { CTA_SLOTS, ctaHref, getCta } from "@/lib/cta";
+import { escapeAttribute } from "@/lib/html-document";
+import type { LandingSection, PageBlueprint } from "@/lib/sections";
+
+// Backslash-escapes what Markdown would otherwise read as formatting, links, tables or inline HTML.
+const escapeMarkdown = (value: string) => value.replace(/([\\`*_[\]<>|#])/g, "\\$1").replace(/\s*\n\s*/g, " ");
+
+const table = (header: string[], rows: string[][]) =>
+  [header, header.map(() => "---"), ...rows].map((cells) => `| ${cells.map(escapeMarkdown).join(" | ")} |`).join("\n");
+
+// Lead forms only exist in the HTML export, so their CTAs are written as plain emphasis.
+export const exportCtaLinks = (page: PageBlueprint) =>
+  CTA_SLOTS.map((slot) => ({
+    slot,
+    label: slot === "primary" ? page.hero.primaryCta : page.hero.secondaryCta,
+    href: getCta(page, slot).type === "form" ? undefined : ctaHref(page, slot),
+  })).filter((cta) => cta.label.trim());
+
+const sectionItems = (section: LandingSection) => {
+  const items = section.items ?? [];
+  if (!items.length) return [];
+  switch (section.kind) {
+    case "pricing":
+      return items.map((item) =>
+        [
+          `### ${escapeMarkdown([item.title, item.meta].filter(Boolean).join(" — "))}`,
+          escapeMarkdown(item.description),
+          (item.values ?? []).map((value) => `- ${escapeMarkdown(value)}`).join("\n"),
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+      );
+    case "testimonials":
+      return items.map(
+        (item) =>
+          `> ${escapeMarkdown(item.description)}\n>\n> — **${escapeMarkdown(item.title)}**${item.meta ? `, ${escapeMarkdown(item.meta)}` : ""}`,
+      );
+    case "logos":
+      return [items.map((item) => `**${escapeMarkdown(item.title)}**`).join(" · ")];
+    case "comparison":
+      return [
+        table(
+          ["", ...(section.columns ?? [])],
+          items.map((item) => [item.title, ...(section.columns ?? []).map((_, index) => item.values?.[index] ?? "—")]),
+        ),
+      ];
+    default:
+      return [
+        items
+          .map((item) =>
+            item.description
+              ? `- **${escapeMarkdown(item.title)}** — ${escapeMarkdown(item.description)}`
+              : `- ${escapeMarkdown(item.title)}`,
+          )
+          .join("\n"),
+      ];
+  }
+};
+
+// GitHub-flavored Markdown for READMEs and docs sites. Sections keep an explicit anchor so CTAs that point at a
+// section still land on it; renderers that strip inline HTML just lose the jump.
+export const buildExportMarkdown = (page: PageBlueprint) => {
+  const { hero, sections } = page;
+  const ctas = exportCtaLinks(page).map(({ label, href, slot }) => {
+    const text = slot === "primary" ? `**${escapeMarkdown(label)}**` : escapeMarkdown(label);
+    return href ? `[${text}](${href.replace(/[()\s]/g, encodeURIComponent)})` : text;
+  });
+
+  const blocks = [
+    hero.eyebrow.trim() && `_${escapeMarkdown(hero.eyebrow)}_`,
+    `# ${escapeMarkdown(hero.title)}`,
+    escapeMarkdown(hero.subtitle),
+    ctas.join(" · "),
+    hero.stats.length > 0 &&
+      table(
+        hero.stats.map((stat) => stat.value),
+        [hero.stats.map((stat) => stat.label)],
+      ),
+    ...sections.flatMap((section) => [
+      "---",
+      `<a id="${escapeAttribute(section.id)}"></a>`,
+      section.label.trim() && `_${escapeMarkdown(section.label)}_`,
+      `## ${escapeMarkdown(section.headline)}`,
+      section.body.trim() && escapeMarkdown(section.body),
+      ...sectionItems(section),
+    ]),
+  ];
+  return `${blocks.filter(Boolean).join("\n\n")}\n`;
+};
@@ -0,0 +1,132 @@
+import { isHttpUrl } from "@/lib/cta";
+import { exportCtaLinks } from "@/lib/export-markdown";
+import type { LandingSection, PageBlueprint } from "@/lib/sections";
+
+// The subset of Notion's block API the export uses. The output can be sent as `children` to
+// `PATCH /v1/blocks/{page_id}/children`; the API takes at most 100 blocks per request.
+export type NotionRichText = {
+  type: "text";
+  text: { content: string; link: { url: string } | null };
+  annotations?: { bold?: boolean; italic?: boolean; color?: "default" | "gray" };
+};
+
+type TextBlockType = "paragraph" | "heading_1" | "heading_2" | "heading_3" | "bulleted_list_item" | "quote";
+
+type TextBlock = {
+  [T in TextBlockType]: { object: "block"; type: T } & { [K in T]: { rich_text: NotionRichText[] } };
+}[TextBlockType];
+
+type TableRowBlock = { object: "block"; type: "table_row"; table_row: { cells: NotionRichText[][] } };
+
+export type NotionBlock =
+  | TextBlock
+  | { object: "block"; type: "divider"; divider: Record<string, never> }
+  | {
+      object: "block";
+      type: "table";
+      table: { table_width: number; has_column_header: boolean; has_row_header: boolean; children: TableRowBlock[] };
+    };
+
+// Notion rejects text objects over 2000 characters.
+const TEXT_LIMIT = 2000;
+
+const text = (content: string, annotations?: NotionRichText["annotations"], url?: string): NotionRichText[] =>
+  (content.match(new RegExp(`[\\s\\S]{1,${TEXT_LIMIT}}`, "g")) ?? []).map((chunk) => ({
+    type: "text",
+    text: { content: chunk, link: url ? { url } : null },
+    ...(annotations ? { annotations } : {}),
+  }));
+
+const block = (type: TextBlockType, richText: NotionRichText[]) =>
+  ({ object: "block", type, [type]: { rich_text: richText } }) as TextBlock;
+
+const divider = (): NotionBlock => ({ object: "block", type: "divider", divider: {} });
+
+const table = (header: string[], rows: string[][], hasRowHeader = false): NotionBlock => ({
+  object: "block",
+  type: "table",
+  table: {
+    table_width: header.length,
+    has_column_header: true,
+    has_row_header: hasRowHeader,
+    children: [header, ...rows].map((cells) => ({
+      object: "block",
+      type: "table_row",
+      table_row: { cells: header.map((_, index) => text(cells[index] ?? "")) },
+    })),
+  },
+});
+
+// Notion only links absolute URLs, so in-page anchors become plain text.
+const linkable = (href?: string) => (href && (isHttpUrl(href) || href.startsWith("mailto:")) ? href : undefined);
+
+const sectionBlocks = (section: LandingSection): NotionBlock[] => {
+  const items = section.items ?? [];
+  switch (section.kind) {
+    case "pricing":
+      return items.flatMap((item) => [
+        block("heading_3", text([item.title, item.meta].filter(Boolean).join(" — "))),
+        ...(item.description ? [block("paragraph", text(item.description))] : []),
+        ...(item.values ?? []).map((value) => block("bulleted_list_item", text(value))),
+      ]);
+    case "testimonials":
+      return items.map((item) =>
+        block("quote", [
+          ...text(`${item.description}\n`),
+          ...text(`— ${[item.title, item.meta].filter(Boolean).join(", ")}`, { italic: true, color: "gray" }),
+        ]),
+      );
+    case "logos":
+      return items.length
+        ? [block("paragraph", text(items.map((item) => item.title).join(" · "), { bold: true }))]
+        : [];
+    case "comparison":
+      return items.length
+        ? [
+            table(
+              ["", ...(section.columns ?? [])],
+              items.map((item) => [item.title, ...(item.values ?? [])]),
+              true,
+            ),
+          ]
+        : [];
+    default:
+      return items.map((item) =>
+        block("bulleted_list_item", [
+          ...text(item.title, { bold: true }),
+          ...(item.description ? text(` — ${item.description}`) : []),
+        ]),
+      );
+  }
+};
+
+// Hero stats become a one-row table and CTAs a line of links, the closest Notion has to buttons.
+export const buildExportNotion = (page: PageBlueprint): NotionBlock[] => {
+  const { hero, sections } = page;
+  const ctas = exportCtaLinks(page).flatMap(({ label, href, slot }, index) => [
+    ...(index > 0 ? text(" · ") : []),
+    ...text(label, { bold: slot === "primary" }, linkable(href)),
+  ]);
+
+  return [
+    ...(hero.eyebrow.trim() ? [block("paragraph", text(hero.eyebrow, { color: "gray" }))] : []),
+    block("heading_1", text(hero.title)),
+    block("paragraph", text(hero.subtitle)),
+    ...(ctas.length ? [block("paragraph", ctas)] : []),
+    ...(hero.stats.length
+      ? [
+          table(
+            hero.stats.map((stat) => stat.value),
+            [hero.stats.map((stat) => stat.label)],
+          ),
+        ]
+      : []),
+    ...sections.flatMap((section) => [
+      divider(),
+      ...(section.label.trim() ? [block("paragraph", text(section.label, { color: "gray" }))] : []),
+      block("heading_2", text(section.headline)),
+      ...(section.body.trim() ? [block("paragraph", text(section.body))] : []),
+      ...sectionBlocks(section),
+    ]),
+  ];
+};
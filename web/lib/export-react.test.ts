@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { pathToFileURL } from "node:url";
+import { createElement, type ComponentType } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { THEMES, composeBlueprint } from "@/lib/generator";
+import { HERO_LAYOUTS, INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+import { pickHeroTextColor } from "@/lib/colors";
+import { buildExportReact } from "@/lib/export-react";
+import { buildPageHtml } from "@/lib/export-html";
+import { SECTION_CATALOG, createSection, insertSection, type PageBlueprint } from "@/lib/sections";
+import { applyThemeStyle, createCustomTheme } from "@/lib/themes";
+import { illustratePage } from "@/lib/visuals";
+
+// Each exported component is written out and imported like any other .tsx file, from a folder that links to this
+// project's node_modules so `react` resolves. The pragma stands in for tsconfig.tsx.json, which covers only this project.
+let directory: string;
+
+before(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "react-export-"));
+  await symlink(path.join(process.cwd(), "node_modules"), path.join(directory, "node_modules"), "dir");
+});
+
+after(() => rm(directory, { recursive: true, force: true }));
+
+const renderExport = async (page: PageBlueprint) => {
+  const { componentName, files } = buildExportReact(page);
+  const file = path.join(directory, `${componentName}-${page.heroLayout}.tsx`);
+  const source = files.find((entry) => entry.path.endsWith(".tsx"))!.contents;
+  await writeFile(file, `/** @jsxRuntime automatic */\n${source}`);
+  const { default: Component } = (await import(pathToFileURL(file).href)) as { default: ComponentType };
+  return renderToStaticMarkup(createElement(Component));
+};
+
+const fullPage = (heroLayout: PageBlueprint["heroLayout"]): PageBlueprint => {
+  const input = toBlueprintInput({ ...INITIAL_FORM, heroLayout });
+  const page = SECTION_CATALOG.reduce(
+    (current, entry, index) => insertSection(current, createSection(entry.kind, input, index), current.sections.length),
+    composeBlueprint(input) as PageBlueprint,
+  );
+  return {
+    ...illustratePage(applyThemeStyle(page, createCustomTheme(THEMES[0], "linear-gradient(120deg, #6366f1, #ec4899)"))),
+    ctas: { secondary: { type: "url", url: "https://example.com/demo" } },
+  };
+};
+
+const decode = (html: string) =>
+  html
+    .replace(/&quot;/g, `"`)
+    .replace(/&#x27;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+const textOf = (html: string) => decode(html.replace(/<[^>]+>/g, "\n"));
+
+const attributes = (html: string, name: string, tag = "[a-z0-9]+") =>
+  [...html.matchAll(new RegExp(`<${tag} [^>]*?${name}="([^"]*)"`, "g"))].map(([, value]) => decode(value));
+
+// The first string that doesn't follow the ones before it in `text`.
+const outOfOrder = (text: string, copy: string[]) => {
+  let from = 0;
+  return copy.find((entry) => {
+    const index = text.indexOf(entry, from);
+    if (index === -1) return true;
+    from = index + entry.length;
+    return false;
+  });
+};
+
+// The React export has its own Tailwind markup, so it's held to what a visitor can tell apart: the copy and its
+// order, section anchors, links, images, colors, fonts and corners. Catalog items are flattened into cards there,
+// so only their section's heading copy is compared.
+describe("buildExportReact", () => {
+  HERO_LAYOUTS.forEach((layout) =>
+    it(`shows what the HTML export shows for the ${layout.id} layout`, async () => {
+      const page = fullPage(layout.id);
+      const html = buildPageHtml(page);
+      const exported = html.slice(html.indexOf("<body"));
+      const component = await renderExport(page);
+      const { hero, sections, palette, gradient, style } = page;
+      const copy = [
+        hero.eyebrow,
+        hero.title,
+        hero.subtitle,
+        hero.primaryCta,
+        hero.secondaryCta,
+        ...sections.flatMap((section) => [
+          section.label,
+          section.headline,
+          section.body,
+          ...(section.kind ? [] : (section.items ?? []).flatMap((item) => [item.title, item.description])),
+        ]),
+      ];
+      const looks = [
+        `background:${gradient};color:${pickHeroTextColor(palette, gradient)}`,
+        `background-color:${palette.surface};color:${palette.text}`,
+        `font-family:${style!.bodyFont}`,
+        `font-family:${style!.headingFont}`,
+        `border-radius:${style!.radius}px`,
+      ];
+      const sectionIds = (markup: string) => attributes(markup, "id").filter((id) => !id.startsWith("lead-form"));
+
+      [exported, component].forEach((markup) => {
+        assert.equal(outOfOrder(textOf(markup), copy), undefined);
+        looks.forEach((look) => assert.ok(decode(markup).includes(look), look));
+      });
+      assert.deepEqual(sectionIds(component), sectionIds(exported));
+      assert.deepEqual(attributes(component, "alt").sort(), attributes(exported, "alt").sort());
+      assert.deepEqual(new Set(attributes(component, "href", "a")), new Set(attributes(exported, "href", "a")));
+    }),
+  );
+});
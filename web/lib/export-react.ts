@@ -0,0 +1,360 @@
+import { pickHeroTextColor } from "@/lib/colors";
+import { CTA_SLOTS, ctaHref, getCta } from "@/lib/cta";
+import { toExportBlueprint, type PageBlueprint } from "@/lib/sections";
+import { decodeDataUrl, imageSeed, resolveImage, type ImageSlot } from "@/lib/visuals";
+import type { ZipEntry } from "@/lib/zip";
+
+export type ReactExport = {
+  componentName: string;
+  files: Array<ZipEntry<string | Uint8Array>>;
+};
+
+const toComponentName = (title: string) => {
+  const words = title
+    .replace(/[^a-zA-Z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1));
+  const name = `${words.slice(0, 3).join("")}Landing`;
+  return /^[A-Z]/.test(name) ? name : `Generated${name}`;
+};
+
+export type ReactExportOptions = {
+  name?: string;
+  variantId?: string;
+};
+
+export const buildExportReact = (page: PageBlueprint, { name, variantId }: ReactExportOptions = {}): ReactExport => {
+  const { style } = page;
+  const blueprint = toExportBlueprint(page);
+  const { hero, sections, palette, gradient, heroLayout } = blueprint;
+  const componentName = toComponentName(name || hero.title);
+  const heroText = pickHeroTextColor(palette, gradient);
+  const classes = new Set<string>();
+
+  // Every class is resolved here so the emitted file only contains literal strings Tailwind can scan.
+  const cx = (...values: Array<string | false>) => {
+    const value = values.filter(Boolean).join(" ");
+    value.split(" ").forEach((entry) => classes.add(entry));
+    return JSON.stringify(value);
+  };
+
+  // Lead forms only exist in the HTML export; here those CTAs stay buttons for `onPrimaryCta`/`onSecondaryCta`.
+  const links = Object.fromEntries(
+    CTA_SLOTS.filter((slot) => getCta(page, slot).type !== "form").flatMap((slot) => {
+      const href = ctaHref(page, slot);
+      return href ? [[slot, href]] : [];
+    }),
+  );
+
+  // Images ship as files for the app's `public/` folder rather than as data URLs inside the component.
+  const assets: Array<ZipEntry<Uint8Array>> = [];
+  const exportImage = (slot: ImageSlot | undefined, name: string, seed: string) => {
+    if (!slot) return {};
+    const image = resolveImage(slot, page, seed);
+    const decoded = decodeDataUrl(image.src);
+    if (!decoded) return {};
+    const file = `${name}.${decoded.extension}`;
+    assets.push({ path: `${componentName}/public/${componentName}/${file}`, contents: decoded.bytes });
+    const { alt, width, height } = image;
+    return { image: { src: `/${componentName}/${file}`, alt, width, height, icon: image.kind === "icon" } };
+  };
+
+  const content = {
+    hero: { ...hero, ...exportImage(page.heroImage, "hero", imageSeed.hero) },
+    links,
+    // Catalog items are flattened one for one, so images line up with the original items by index.
+    sections: sections.map((section, sectionIndex) => ({
+      ...section,
+      items: section.items?.map((item, index) => ({
+        ...item,
+        ...exportImage(
+          page.sections[sectionIndex].items?.[index]?.image,
+          `${section.id}-${index + 1}`,
+          imageSeed.item(section.id, index),
+        ),
+      })),
+    })),
+    palette: { surface: palette.surface, text: palette.text, heroText },
+    gradient,
+    ...(style
+      ? { theme: { headingFont: style.headingFont, bodyFont: style.bodyFont, radius: style.radius, logo: style.logo } }
+      : {}),
+  };
+
+  const component = `import type { CSSProperties, ReactNode } from "react";
+
+export type LandingStat = { label: string; value: string };
+export type LandingImage = { src: string; alt: string; width: number; height: number; icon: boolean };
+export type LandingSectionItem = { title: string; description: string; image?: LandingImage };
+export type LandingSection = {
+  id: string;
+  label: string;
+  headline: string;
+  body: string;
+  items?: LandingSectionItem[];
+};
+export type LandingContent = {
+  hero: {
+    eyebrow: string;
+    title: string;
+    subtitle: string;
+    primaryCta: string;
+    secondaryCta: string;
+    stats: LandingStat[];
+    image?: LandingImage;
+  };
+  links: { primary?: string; secondary?: string };
+  sections: LandingSection[];
+  palette: { surface: string; text: string; heroText: string };
+  gradient: string;
+  theme?: { headingFont: string; bodyFont: string; radius: number; logo?: string };
+};
+
+export type ${componentName}Props = {
+  content?: LandingContent;
+  onPrimaryCta?: () => void;
+  onSecondaryCta?: () => void;
+};
+
+export const landingContent: LandingContent = ${JSON.stringify(content, null, 2)};
+${variantId ? `\n// A/B test arm; also rendered as \`data-variant\` so analytics can segment on it.\nexport const variantId = ${JSON.stringify(variantId)};\n` : ""}
+
+type CtaProps = {
+  href?: string;
+  onClick?: () => void;
+  className: string;
+  style?: CSSProperties;
+  children: ReactNode;
+};
+
+// Renders a link when the CTA has a destination, otherwise a button for the click handler.
+const Cta = ({ href, onClick, className, style, children }: CtaProps) =>
+  href ? (
+    <a href={href} onClick={onClick} className={className} style={style}>
+      {children}
+    </a>
+  ) : (
+    <button type="button" onClick={onClick} className={className} style={style}>
+      {children}
+    </button>
+  );
+
+export default function ${componentName}({
+  content = landingContent,
+  onPrimaryCta,
+  onSecondaryCta,
+}: ${componentName}Props) {
+  const { hero, links, sections, palette, theme } = content;
+  const headingFont = { fontFamily: theme?.headingFont };
+  const radius = { borderRadius: theme?.radius };
+
+  return (
+    <main className=${cx("overflow-hidden")} style={{ fontFamily: theme?.bodyFont }}${variantId ? " data-variant={variantId}" : ""}>
+      <section
+        className=${cx("relative px-8 py-16 sm:px-12 sm:py-20", heroLayout === "center" && "text-center")}
+        style={{ background: content.gradient, color: palette.heroText }}
+      >
+        <div
+          className=${cx(
+            "mx-auto flex max-w-5xl flex-col gap-12",
+            heroLayout === "split" && "lg:flex-row lg:items-center lg:justify-between",
+            heroLayout === "left" && "items-start text-left",
+            heroLayout === "center" && "items-center",
+          )}
+        >
+          <div className=${cx("max-w-xl", heroLayout === "center" && "mx-auto")}>
+            {theme?.logo && (
+              <img
+                src={theme.logo}
+                alt=""
+                className=${cx("mb-8 h-10 w-auto max-w-[180px] object-contain", heroLayout === "center" && "mx-auto")}
+              />
+            )}
+            <p
+              className=${cx(
+                "text-xs font-semibold uppercase tracking-[0.3em]",
+                heroLayout === "center" && "mx-auto max-w-fit",
+              )}
+              style={{ opacity: 0.8 }}
+            >
+              {hero.eyebrow}
+            </p>
+            <h1
+              className=${cx(
+                "mt-6 font-semibold leading-tight",
+                heroLayout === "center" ? "text-4xl sm:text-5xl" : "text-[38px] sm:text-[46px]",
+              )}
+              style={headingFont}
+            >
+              {hero.title}
+            </h1>
+            <p className=${cx("mt-4 text-base sm:text-lg")} style={{ opacity: 0.92 }}>
+              {hero.subtitle}
+            </p>
+            <div className=${cx("mt-8 flex flex-wrap items-center gap-4", heroLayout === "center" && "justify-center")}>
+              <Cta
+                href={links.primary}
+                onClick={onPrimaryCta}
+                className=${cx(
+                  "rounded-full bg-white px-6 py-3 text-sm font-semibold text-slate-900 shadow-lg shadow-black/20 transition hover:-translate-y-0.5 hover:shadow-xl",
+                )}
+                style={radius}
+              >
+                {hero.primaryCta}
+              </Cta>
+              <Cta
+                href={links.secondary}
+                onClick={onSecondaryCta}
+                className=${cx(
+                  "rounded-full border border-white/60 bg-transparent px-6 py-3 text-sm font-semibold transition hover:-translate-y-0.5",
+                )}
+                style={{ ...radius, color: palette.heroText }}
+              >
+                {hero.secondaryCta} →
+              </Cta>
+            </div>
+          </div>
+
+          <div className=${cx("flex flex-col gap-6", heroLayout === "center" && "items-center")}>
+            {hero.image && (
+              <img
+                src={hero.image.src}
+                alt={hero.image.alt}
+                width={hero.image.width}
+                height={hero.image.height}
+                className=${cx("h-auto w-full max-w-md rounded-3xl shadow-[0_20px_60px_rgba(15,23,42,0.22)]")}
+                style={radius}
+              />
+            )}
+            <div
+              className=${cx(
+                "grid gap-4 rounded-3xl border border-white/40 bg-white/15 p-6 text-left shadow-[0_20px_60px_rgba(15,23,42,0.22)] backdrop-blur-xl",
+                heroLayout === "split" ? "max-w-xs" : "lg:max-w-xs",
+              )}
+            >
+              {hero.stats.map((stat) => (
+                <div key={stat.label}>
+                  <p className=${cx("text-3xl font-semibold")}>{stat.value}</p>
+                  <p className=${cx("text-sm")} style={{ opacity: 0.85 }}>
+                    {stat.label}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <div
+        className=${cx("space-y-16 px-8 py-16 sm:px-12")}
+        style={{ backgroundColor: palette.surface, color: palette.text }}
+      >
+        {sections.map((section) => (
+          <section
+            key={section.id}
+            id={section.id}
+            className=${cx(
+              "mx-auto flex w-full max-w-5xl flex-col gap-8 rounded-3xl border border-black/5 bg-white/70 p-8 shadow-[0_20px_60px_rgba(15,23,42,0.12)]",
+            )}
+            style={{
+              ...radius,
+              backgroundColor: ${JSON.stringify(
+                heroLayout === "center" ? "rgba(255,255,255,0.85)" : "rgba(255,255,255,0.8)",
+              )},
+            }}
+          >
+            <div className=${cx("space-y-2")}>
+              <p className=${cx("text-xs font-semibold uppercase tracking-[0.3em] text-slate-400")}>{section.label}</p>
+              <h2 className=${cx("text-2xl font-semibold text-slate-900")} style={headingFont}>
+                {section.headline}
+              </h2>
+              <p className=${cx("text-sm text-slate-600")}>{section.body}</p>
+            </div>
+            {section.items?.length ? (
+              <div className=${cx("grid gap-4 md:grid-cols-2")}>
+                {section.items.map((item) => (
+                  <div
+                    key={item.title + item.description}
+                    className=${cx("rounded-2xl border border-slate-100 bg-white px-5 py-4 shadow-sm shadow-slate-900/5")}
+                  >
+                    {item.image && (
+                      <img
+                        src={item.image.src}
+                        alt={item.image.alt}
+                        width={item.image.width}
+                        height={item.image.height}
+                        loading="lazy"
+                        className={
+                          item.image.icon
+                            ? ${cx("mb-3 h-12 w-12")}
+                            : ${cx("mb-3 aspect-video h-auto w-full rounded-xl object-cover")}
+                        }
+                      />
+                    )}
+                    <h3 className=${cx("text-base font-semibold text-slate-900")}>{item.title}</h3>
+                    <p className=${cx("mt-1 text-sm text-slate-600")}>{item.description}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className=${cx("flex flex-wrap items-center gap-3")}>
+                <Cta
+                  href={links.primary}
+                  onClick={onPrimaryCta}
+                  className=${cx("rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white shadow")}
+                >
+                  {hero.primaryCta}
+                </Cta>
+              </div>
+            )}
+          </section>
+        ))}
+      </div>
+    </main>
+  );
+}
+`;
+
+  const sortedClasses = [...classes].filter(Boolean).sort();
+  const stylesheet = `/* Tailwind v4: keeps ${componentName} styled even when the component lives outside your @source paths. */
+@source inline("${sortedClasses.join(" ")}");
+`;
+
+  const readme = `# ${componentName}
+
+Generated by LaunchPilot on ${new Date(blueprint.generatedAt).toLocaleString()}.
+
+## Files
+
+- \`${componentName}.tsx\` — typed React component with its copy in \`landingContent\`.
+- \`${componentName}.css\` — the Tailwind classes the component uses, for projects that don't scan this folder.
+${assets.length ? `- \`public/${componentName}/\` — the page's images, referenced from \`landingContent\` by URL.\n` : ""}
+## Usage in a Next.js app
+
+1. Copy both files into \`components/\`${assets.length ? ` and \`public/${componentName}/\` into your app's \`public/\`` : ""}.
+2. Import the stylesheet once next to your Tailwind entry: \`@import "../components/${componentName}.css";\`
+3. Render it from a page:
+
+\`\`\`tsx
+import ${componentName} from "@/components/${componentName}";
+
+export default function Page() {
+  return <${componentName} />;
+}
+\`\`\`
+
+Pass a \`content\` prop to override copy, or \`onPrimaryCta\`/\`onSecondaryCta\` to wire the buttons. CTAs with a
+destination in \`landingContent.links\` render as links and still call the handler, e.g. for click tracking.
+${variantId ? `\nThis is A/B variant \`${variantId}\`. It is exported as \`variantId\` and set as \`data-variant\` on \`<main>\`.\n` : ""}`;
+
+  return {
+    componentName,
+    files: [
+      { path: `${componentName}/${componentName}.tsx`, contents: component },
+      { path: `${componentName}/${componentName}.css`, contents: stylesheet },
+      { path: `${componentName}/README.md`, contents: readme },
+      ...assets,
+    ],
+  };
+};
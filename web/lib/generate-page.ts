@@ -0,0 +1,43 @@
+import { toBlueprintInput, type FormState } from "@/lib/brief";
+import { lintBrief } from "@/lib/brief-lint";
+import { runPipeline, type PipelineEvent } from "@/lib/agent-pipeline";
+import { resolveCopyProvider, type CopyProvider } from "@/lib/copy-provider";
+import { buildPageHtml } from "@/lib/export-html";
+import { resolveSeo } from "@/lib/seo";
+import type { PageBlueprint } from "@/lib/sections";
+
+export type GenerateOptions = {
+  provider?: CopyProvider;
+  // Where the page will be published; becomes the canonical URL.
+  pageUrl?: string;
+  // Origin of a running LaunchPilot app, for the social image and the built-in leads route.
+  appUrl?: string;
+  signal?: AbortSignal;
+};
+
+export type GeneratedPage = {
+  blueprint: PageBlueprint;
+  html: string;
+  provider: string;
+  // Brief lint errors and warnings, plus pipeline stages that fell back (e.g. the copy provider failing).
+  warnings: string[];
+};
+
+// The same pipeline the editor streams, run to completion for the HTTP API and the CLI. A brief from `parseBrief`
+// carries its features as a list, which wins over splitting `featuresText`.
+export const generatePage = async (
+  brief: FormState & { features?: string[] },
+  { provider = resolveCopyProvider(), pageUrl, appUrl, signal }: GenerateOptions = {},
+): Promise<GeneratedPage> => {
+  const warnings = lintBrief(brief)
+    .filter((issue) => issue.severity !== "info")
+    .map((issue) => `${issue.field}: ${issue.message}`);
+  const onEvent = (event: PipelineEvent) => {
+    if (event.type === "stage" && event.status === "failed" && event.caption) warnings.push(event.caption);
+  };
+
+  const input = { ...toBlueprintInput(brief), ...(brief.features ? { features: brief.features } : {}) };
+  const blueprint: PageBlueprint = await runPipeline(input, { provider, emit: onEvent, signal });
+  const seo = resolveSeo(blueprint, { productName: brief.productName, pageUrl, appUrl });
+  return { blueprint, html: buildPageHtml(blueprint, { seo, appUrl }), provider: provider.id, warnings };
+};
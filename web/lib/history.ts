@@ -0,0 +1,60 @@
+import type { BlueprintEdits } from "@/lib/blueprint-edits";
+import type { FormState } from "@/lib/brief";
+import type { PageBlueprint } from "@/lib/sections";
+
+// What undo brings back: the brief and the page as the editor held them. Translations and settings outside the
+// blueprint (site pages, variants) aren't part of it.
+export type EditorSnapshot = {
+  form: FormState;
+  blueprint: PageBlueprint;
+  edits: BlueprintEdits;
+};
+
+export type HistoryEntry = {
+  snapshot: EditorSnapshot;
+  // What the step did, e.g. "Generate page"; shown when picking a version to compare against.
+  label: string;
+  at: number;
+};
+
+export type History = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  // Changes recorded under the same group back to back (typing in one field) undo as one step.
+  group?: string;
+};
+
+export const MAX_HISTORY = 100;
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+// Takes the state from before the change, which is what undo returns to.
+export const recordHistory = (history: History, snapshot: EditorSnapshot, label: string, group?: string): History => {
+  if (group && history.group === group) return history;
+  return {
+    past: [...history.past, { snapshot, label, at: Date.now() }].slice(-MAX_HISTORY),
+    future: [],
+    group,
+  };
+};
+
+export const undoHistory = (history: History, current: EditorSnapshot) => {
+  const entry = history.past.at(-1);
+  if (!entry) return null;
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [{ ...entry, snapshot: current }, ...history.future],
+    },
+  };
+};
+
+export const redoHistory = (history: History, current: EditorSnapshot) => {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return {
+    snapshot: entry.snapshot,
+    history: { past: [...history.past, { ...entry, snapshot: current }], future },
+  };
+};
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { injectBodyEnd, injectBodyStart, injectHead, setDocumentTitle, setHtmlAttributes } from "@/lib/html-document";
+
+const PAGE = `<!doctype html><html lang="en"><head><title>Page</title></head><body><main></main></body></html>`;
+
+// `$&`, `$'`, `` $` `` and `$$` are replacement patterns when a string is passed to `String.prototype.replace`.
+const TRICKY = "Save $$ with $& and $' today, $`";
+
+describe("html-document", () => {
+  it("inserts head markup verbatim", () => {
+    const markup = `<meta name="description" content="${TRICKY}" />`;
+    assert.equal(
+      injectHead(PAGE, markup),
+      `<!doctype html><html lang="en"><head><title>Page</title>${markup}\n</head><body><main></main></body></html>`,
+    );
+  });
+
+  it("inserts body markup verbatim", () => {
+    const markup = `<p>${TRICKY}</p>`;
+    assert.equal(injectBodyStart(PAGE, markup).match(/<body>\n([\s\S]*?)<main>/)?.[1], markup);
+    assert.equal(injectBodyEnd(PAGE, markup).match(/<\/main>([\s\S]*?)\n<\/body>/)?.[1], markup);
+  });
+
+  it("sets the title verbatim", () => {
+    assert.ok(setDocumentTitle(PAGE, TRICKY).includes("<title>Save $$ with $&amp; and $' today, $`</title>"));
+  });
+
+  it("sets html attributes verbatim, new and replaced", () => {
+    const html = setHtmlAttributes(PAGE, { lang: "$'", "data-variant": "$$" });
+    assert.ok(html.startsWith(`<!doctype html><html lang="$'" data-variant="$$"><head>`));
+  });
+});
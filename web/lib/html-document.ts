@@ -0,0 +1,61 @@
+// `buildPageHtml` renders a complete document; these helpers decorate it without re-rendering. Replacements are
+// always functions: a string would have `$&` or `$'` in page copy read as a replacement pattern.
+
+export const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export const injectHead = (html: string, markup: string) =>
+  /<\/head>/i.test(html) ? html.replace(/<\/head>/i, () => `${markup}\n</head>`) : `${markup}\n${html}`;
+
+export const injectBodyStart = (html: string, markup: string) =>
+  /<body[^>]*>/i.test(html) ? html.replace(/<body[^>]*>/i, (tag) => `${tag}\n${markup}`) : `${markup}\n${html}`;
+
+export const injectBodyEnd = (html: string, markup: string) =>
+  /<\/body>/i.test(html) ? html.replace(/<\/body>/i, () => `${markup}\n</body>`) : `${html}\n${markup}`;
+
+export const setDocumentTitle = (html: string, title: string) =>
+  /<title>[\s\S]*?<\/title>/i.test(html)
+    ? html.replace(/<title>[\s\S]*?<\/title>/i, () => `<title>${escapeAttribute(title)}</title>`)
+    : injectHead(html, `<title>${escapeAttribute(title)}</title>`);
+
+// Merges attributes into the `<html>` tag, replacing any that are already set.
+export const setHtmlAttributes = (html: string, attributes: Record<string, string>) => {
+  const match = html.match(/<html\b[^>]*>/i);
+  if (!match) return html;
+  const tag = Object.entries(attributes).reduce((current, [name, value]) => {
+    const attribute = `${name}="${escapeAttribute(value)}"`;
+    const existing = new RegExp(`\\s${name}=(?:"[^"]*"|'[^']*'|[^\\s>]+)`, "i");
+    return existing.test(current)
+      ? current.replace(existing, () => ` ${attribute}`)
+      : current.replace(/>$/, () => ` ${attribute}>`);
+  }, match[0]);
+  return html.replace(match[0], () => tag);
+};
+
+export const withVariantId = (html: string, variantId?: string) =>
+  variantId
+    ? injectHead(
+        setHtmlAttributes(html, { "data-variant": variantId }),
+        `<meta name="launchpilot:variant" content="${escapeAttribute(variantId)}" />`,
+      )
+    : html;
+
+export type LocaleAlternate = { hreflang: string; href: string };
+
+export const withLocale = (html: string, lang?: string, dir?: string, alternates: LocaleAlternate[] = []) => {
+  if (!lang) return html;
+  const tagged = setHtmlAttributes(html, { lang, ...(dir ? { dir } : {}) });
+  if (alternates.length === 0) return tagged;
+  return injectHead(
+    tagged,
+    alternates
+      .map(
+        ({ hreflang, href }) =>
+          `<link rel="alternate" hreflang="${escapeAttribute(hreflang)}" href="${escapeAttribute(href)}" />`,
+      )
+      .join("\n"),
+  );
+};
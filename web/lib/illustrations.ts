@@ -0,0 +1,228 @@
+import { extractColors, parseColor, toHex } from "@/lib/colors";
+
+// Offline artwork for image slots, drawn as SVG from the page's own gradient and palette so it always matches the
+// theme. Everything is seeded by the slot, so a picture only changes when the theme does.
+
+export type IllustrationKind = "scene" | "icon" | "pattern";
+
+export type IllustrationTheme = { palette: { text: string; surface: string }; gradient: string };
+
+export type Illustration = { svg: string; width: number; height: number };
+
+export const ILLUSTRATION_KINDS: Array<{ id: IllustrationKind; label: string }> = [
+  { id: "scene", label: "Illustration" },
+  { id: "icon", label: "Icon" },
+  { id: "pattern", label: "Pattern" },
+];
+
+const seededRandom = (seed: string) => {
+  let state = 2166136261;
+  for (const char of seed) state = Math.imul(state ^ char.charCodeAt(0), 16777619);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), state | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = ReturnType<typeof seededRandom>;
+
+const between = (random: Random, min: number, max: number) => Math.round(min + random() * (max - min));
+
+const pickFrom = <T>(random: Random, options: T[]) => options[Math.floor(random() * options.length)];
+
+const hex = (color: string) => {
+  const rgb = parseColor(color);
+  return rgb ? toHex(rgb) : "#64748b";
+};
+
+const element = (tag: string, attributes: Record<string, string | number>, children = "") => {
+  const text = Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${value}"`)
+    .join("");
+  return children ? `<${tag}${text}>${children}</${tag}>` : `<${tag}${text}/>`;
+};
+
+const linearGradient = (id: string, stops: string[]) =>
+  element(
+    "linearGradient",
+    { id, x1: 0, y1: 0, x2: 1, y2: 1 },
+    stops
+      .map((color, index) =>
+        element("stop", {
+          offset: `${Math.round((index / Math.max(stops.length - 1, 1)) * 100)}%`,
+          "stop-color": color,
+        }),
+      )
+      .join(""),
+  );
+
+const svgDocument = (width: number, height: number, body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">${body}</svg>`;
+
+type Palette = { stops: string[]; ink: string };
+
+// Keyword or variable gradients can't be read, so the palette stands in for them.
+const themePalette = ({ palette, gradient }: IllustrationTheme): Palette => {
+  const stops = extractColors(gradient).map(hex);
+  return { stops: stops.length >= 2 ? stops : [hex(palette.text), hex(palette.surface)], ink: hex(palette.text) };
+};
+
+// A product window floating over soft shapes, for the hero and wide card slots.
+const drawScene = ({ stops, ink }: Palette, random: Random): Illustration => {
+  const [width, height] = [480, 360];
+  const blobs = Array.from({ length: 3 }, () =>
+    element("circle", {
+      cx: between(random, 40, 440),
+      cy: between(random, 40, 320),
+      r: between(random, 60, 140),
+      fill: "#fff",
+      opacity: (0.1 + random() * 0.12).toFixed(2),
+    }),
+  ).join("");
+  const dots = [0, 1, 2]
+    .map((index) => element("circle", { cx: 98 + index * 18, cy: 90, r: 5, fill: stops[index % stops.length] }))
+    .join("");
+  const lines = [0, 1, 2]
+    .map((index) =>
+      element("rect", {
+        x: 98,
+        y: 150 + index * 20,
+        width: between(random, 90, 140),
+        height: 8,
+        rx: 4,
+        fill: ink,
+        opacity: 0.22,
+      }),
+    )
+    .join("");
+  const bars = Array.from({ length: 5 }, (_, index) => {
+    const barHeight = between(random, 40, 120);
+    return element("rect", {
+      x: 262 + index * 26,
+      y: 270 - barHeight,
+      width: 16,
+      height: barHeight,
+      rx: 4,
+      fill: stops[index % stops.length],
+    });
+  }).join("");
+  const body = [
+    element("defs", {}, linearGradient("bg", stops)),
+    element("rect", { width, height, rx: 28, fill: "url(#bg)" }),
+    blobs,
+    element("rect", { x: 72, y: 64, width: 336, height: 232, rx: 18, fill: "#fff", opacity: 0.94 }),
+    dots,
+    element("rect", { x: 98, y: 118, width: between(random, 110, 150), height: 14, rx: 7, fill: ink, opacity: 0.75 }),
+    lines,
+    element("rect", { x: 98, y: 236, width: 96, height: 26, rx: 13, fill: stops[0] }),
+    bars,
+  ].join("");
+  return { svg: svgDocument(width, height, body), width, height };
+};
+
+const GLYPHS = [
+  // Spark
+  element("path", { d: "M48 20 L55 41 L76 48 L55 55 L48 76 L41 55 L20 48 L41 41 Z", fill: "#fff" }),
+  // Target
+  element("circle", { cx: 48, cy: 48, r: 22, fill: "none", stroke: "#fff", "stroke-width": 6 }) +
+    element("circle", { cx: 48, cy: 48, r: 8, fill: "#fff" }),
+  // Rising bars
+  [26, 43, 60]
+    .map((x, index) =>
+      element("rect", { x, y: 50 - index * 14, width: 10, height: 20 + index * 14, rx: 3, fill: "#fff" }),
+    )
+    .join(""),
+  // Tiles
+  [
+    [27, 27],
+    [51, 27],
+    [27, 51],
+    [51, 51],
+  ]
+    .map(([x, y], index) =>
+      element("rect", { x, y, width: 18, height: 18, rx: 5, fill: "#fff", opacity: index === 3 ? 0.55 : 1 }),
+    )
+    .join(""),
+  // Wave
+  element("path", {
+    d: "M20 56 Q34 32 48 56 T76 56",
+    fill: "none",
+    stroke: "#fff",
+    "stroke-width": 6,
+    "stroke-linecap": "round",
+  }) + element("circle", { cx: 48, cy: 30, r: 6, fill: "#fff" }),
+  // Check
+  element("circle", { cx: 48, cy: 48, r: 24, fill: "none", stroke: "#fff", "stroke-width": 6 }) +
+    element("path", {
+      d: "M37 49 L45 57 L60 40",
+      fill: "none",
+      stroke: "#fff",
+      "stroke-width": 6,
+      "stroke-linecap": "round",
+      "stroke-linejoin": "round",
+    }),
+  // Bolt
+  element("path", { d: "M53 18 L30 54 H46 L42 78 L66 41 H50 Z", fill: "#fff" }),
+];
+
+// A glyph on a gradient tile, for feature cards, avatars and logo marks.
+const drawIcon = ({ stops }: Palette, random: Random): Illustration => {
+  const [width, height] = [96, 96];
+  const offset = Math.floor(random() * stops.length);
+  const rotated = [...stops.slice(offset), ...stops.slice(0, offset)];
+  const body = [
+    element("defs", {}, linearGradient("bg", rotated)),
+    element("rect", { width, height, rx: 24, fill: "url(#bg)" }),
+    pickFrom(random, GLYPHS),
+  ].join("");
+  return { svg: svgDocument(width, height, body), width, height };
+};
+
+// Abstract texture over the gradient: dots, rings or waves.
+const drawPattern = ({ stops }: Palette, random: Random): Illustration => {
+  const [width, height] = [480, 270];
+  const style = pickFrom(random, ["dots", "rings", "waves"] as const);
+  let texture = "";
+  if (style === "dots") {
+    for (let y = 15; y < height; y += 30) {
+      for (let x = 15; x < width; x += 30) {
+        texture += element("circle", { cx: x, cy: y, r: between(random, 2, 7), fill: "#fff", opacity: 0.45 });
+      }
+    }
+  } else if (style === "rings") {
+    const [cx, cy] = [between(random, 0, width), between(random, 0, height)];
+    for (let r = 24; r < 560; r += 28) {
+      texture += element("circle", { cx, cy, r, fill: "none", stroke: "#fff", "stroke-width": 8, opacity: 0.3 });
+    }
+  } else {
+    for (let y = 20; y < height + 40; y += 34) {
+      const amplitude = between(random, 8, 22);
+      texture += element("path", {
+        d: `M-20 ${y} Q60 ${y - amplitude} 140 ${y} T300 ${y} T460 ${y} T620 ${y}`,
+        fill: "none",
+        stroke: "#fff",
+        "stroke-width": 6,
+        opacity: 0.35,
+      });
+    }
+  }
+  const body = [
+    element("defs", {}, linearGradient("bg", stops)),
+    element("rect", { width, height, fill: "url(#bg)" }),
+    texture,
+  ].join("");
+  return { svg: svgDocument(width, height, body), width, height };
+};
+
+const DRAW: Record<IllustrationKind, (palette: Palette, random: Random) => Illustration> = {
+  scene: drawScene,
+  icon: drawIcon,
+  pattern: drawPattern,
+};
+
+export const drawIllustration = (kind: IllustrationKind, theme: IllustrationTheme, seed: string) =>
+  DRAW[kind](themePalette(theme), seededRandom(`${kind}:${seed}`));
+
+export const svgDataUrl = (svg: string) => `data:image/svg+xml,${encodeURIComponent(svg)}`;
@@ -0,0 +1,56 @@
+import type { UploadedImage } from "@/lib/visuals";
+
+export class ImageUploadError extends Error {}
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+// Twice the widest slot on a 1x screen, so uploads stay sharp on retina displays.
+const MAX_DIMENSION = 1600;
+const QUALITY = 0.82;
+
+const readDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new ImageUploadError("That image couldn't be read."));
+    image.src = src;
+  });
+
+// Downscales to `MAX_DIMENSION` and re-encodes as WebP (JPEG or PNG where the browser can't), keeping the original
+// whenever that turns out smaller. SVGs are vector already and embedded untouched.
+export const optimizeImage = async (file: File): Promise<UploadedImage> => {
+  if (!file.type.startsWith("image/")) throw new ImageUploadError(`${file.name} isn't an image.`);
+  if (file.size > MAX_UPLOAD_BYTES) throw new ImageUploadError("Images can be up to 10 MB.");
+
+  const original = await readDataUrl(file);
+  const image = await loadImage(original);
+  // SVGs without a width or height report 0; give them the hero slot's proportions.
+  const [naturalWidth, naturalHeight] = [image.naturalWidth || 480, image.naturalHeight || 360];
+  if (file.type === "image/svg+xml") return { src: original, width: naturalWidth, height: naturalHeight };
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(naturalWidth, naturalHeight));
+  const width = Math.round(naturalWidth * scale);
+  const height = Math.round(naturalHeight * scale);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new ImageUploadError("This browser can't resize images.");
+  context.drawImage(image, 0, 0, width, height);
+
+  // Browsers that can't encode WebP hand back a PNG instead, which is only worth it for images with transparency.
+  let src = canvas.toDataURL("image/webp", QUALITY);
+  if (!src.startsWith("data:image/webp")) {
+    src = file.type === "image/png" ? canvas.toDataURL("image/png") : canvas.toDataURL("image/jpeg", QUALITY);
+  }
+  return scale === 1 && original.length <= src.length
+    ? { src: original, width: naturalWidth, height: naturalHeight }
+    : { src, width, height };
+};
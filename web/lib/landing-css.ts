@@ -0,0 +1,225 @@
+// Styles for the landing page render tree in `components/landing-page.tsx`. They're plain CSS rather than Tailwind
+// so the preview and the exported file share them; anything that comes from the blueprint (gradient, palette, fonts,
+// radius) is set inline by the tree. Kept as rules, not a string, so the export can inline just what it uses.
+
+type CssRule = { selector: string; declarations: string; media?: string };
+
+const SM = "(min-width: 640px)";
+const MD = "(min-width: 768px)";
+const LG = "(min-width: 1024px)";
+
+const rule = (selector: string, declarations: string, media?: string): CssRule => ({ selector, declarations, media });
+
+const CARD_SHADOW = "0 1px 3px rgba(15, 23, 42, 0.05)";
+const SECTION_SHADOW = "0 20px 60px rgba(15, 23, 42, 0.12)";
+
+const RULES: CssRule[] = [
+  // Resets sit in `:where()` so every class below wins over them.
+  rule(".lp-page", 'font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif; line-height: 1.5;'),
+  rule(".lp-page :where(*, *::before, *::after)", "box-sizing: border-box;"),
+  rule(".lp-page :where(h1, h2, h3, p, dl, dd, figure, blockquote, ul)", "margin: 0; padding: 0;"),
+  rule(".lp-page :where(h1, h2, h3)", "font-size: inherit; font-weight: inherit;"),
+  rule(".lp-page :where(a)", "color: inherit; text-decoration: inherit;"),
+  rule(".lp-page :where(button, input)", "font: inherit;"),
+  rule(".lp-page :where(ul)", "list-style: none;"),
+  rule(".lp-page :where(img)", "display: block; max-width: 100%;"),
+
+  rule(".lp-hero", "position: relative; padding: 64px 32px;"),
+  rule(".lp-hero", "padding: 80px 48px;", SM),
+  rule(".lp-hero--center", "text-align: center;"),
+  rule(".lp-hero-inner", "display: flex; flex-direction: column; gap: 48px; max-width: 1024px; margin: 0 auto;"),
+  rule(
+    ".lp-hero--split .lp-hero-inner",
+    "flex-direction: row; align-items: center; justify-content: space-between;",
+    LG,
+  ),
+  rule(".lp-hero--left .lp-hero-inner", "align-items: flex-start; text-align: start;"),
+  rule(".lp-hero--center .lp-hero-inner", "align-items: center;"),
+  rule(".lp-hero-copy", "max-width: 576px;"),
+  rule(".lp-hero--center .lp-hero-copy", "margin: 0 auto;"),
+  rule(".lp-logo", "height: 40px; width: auto; max-width: 180px; margin-bottom: 32px; object-fit: contain;"),
+  rule(".lp-hero--center .lp-logo", "margin-left: auto; margin-right: auto;"),
+  rule(
+    ".lp-eyebrow",
+    "display: block; font-size: 12px; line-height: 16px; font-weight: 600; letter-spacing: 0.3em; text-transform: uppercase;",
+  ),
+  rule(".lp-hero--center .lp-eyebrow", "max-width: fit-content; margin: 0 auto;"),
+  rule(".lp-title", "display: block; margin-top: 24px; font-size: 38px; line-height: 1.25; font-weight: 600;"),
+  rule(".lp-title", "font-size: 46px;", SM),
+  rule(".lp-hero--center .lp-title", "font-size: 36px;"),
+  rule(".lp-hero--center .lp-title", "font-size: 48px;", SM),
+  // Multi-line slots keep the line breaks typed into them.
+  rule(".lp-subtitle", "display: block; margin-top: 16px; font-size: 16px; line-height: 24px; white-space: pre-line;"),
+  rule(".lp-subtitle", "font-size: 18px; line-height: 28px;", SM),
+  rule(".lp-actions", "display: flex; flex-wrap: wrap; align-items: center; gap: 16px; margin-top: 32px;"),
+  rule(".lp-hero--center .lp-actions", "justify-content: center;"),
+  rule(
+    ".lp-button",
+    "border-radius: 9999px; padding: 12px 24px; font-size: 14px; line-height: 20px; font-weight: 600; transition: transform 150ms, box-shadow 150ms;",
+  ),
+  rule(".lp-button:hover", "transform: translateY(-2px);"),
+  rule(".lp-button--primary", "background: #fff; color: #0f172a; box-shadow: 0 10px 15px rgba(0, 0, 0, 0.2);"),
+  rule(".lp-button--primary:hover", "box-shadow: 0 20px 25px rgba(0, 0, 0, 0.2);"),
+  rule(".lp-button--outline", "border: 1px solid rgba(255, 255, 255, 0.6); background: transparent;"),
+  rule(
+    ".lp-stats",
+    "display: grid; gap: 16px; padding: 24px; border: 1px solid rgba(255, 255, 255, 0.4); border-radius: 24px; background: rgba(255, 255, 255, 0.15); text-align: start; box-shadow: 0 20px 60px rgba(15, 23, 42, 0.22); backdrop-filter: blur(24px);",
+  ),
+  rule(".lp-stats", "max-width: 320px;", LG),
+  rule(".lp-hero--split .lp-stats", "max-width: 320px;"),
+  rule(".lp-stat", "display: flex; flex-direction: column-reverse;"),
+  rule(".lp-stat-label", "display: block; font-size: 14px; line-height: 20px; opacity: 0.85;"),
+  rule(".lp-stat-value", "display: block; font-size: 30px; line-height: 36px; font-weight: 600;"),
+  // With an image the stats sit under it in a row rather than filling the right-hand block.
+  rule(".lp-hero-aside", "display: grid; gap: 24px; width: 100%; max-width: 440px;"),
+  rule(".lp-hero--split .lp-hero-aside", "flex-shrink: 0;", LG),
+  rule(
+    ".lp-hero-image",
+    "width: 100%; height: auto; border-radius: 24px; box-shadow: 0 20px 60px rgba(15, 23, 42, 0.22);",
+  ),
+  rule(".lp-hero-aside .lp-stats", "max-width: none; grid-template-columns: repeat(auto-fit, minmax(96px, 1fr));"),
+
+  rule(".lp-body", "display: flex; flex-direction: column; gap: 64px; padding: 64px 32px;"),
+  rule(".lp-body", "padding-left: 48px; padding-right: 48px;", SM),
+  rule(
+    ".lp-section",
+    `position: relative; display: flex; flex-direction: column; gap: 32px; width: 100%; max-width: 1024px; margin: 0 auto; padding: 32px; border: 1px solid rgba(0, 0, 0, 0.05); border-radius: 24px; box-shadow: ${SECTION_SHADOW}; transition: opacity 150ms;`,
+  ),
+  rule(".lp-section-head > * + *", "margin-top: 8px;"),
+  rule(
+    ".lp-section-label",
+    "display: block; font-size: 12px; line-height: 16px; font-weight: 600; letter-spacing: 0.3em; text-transform: uppercase; color: #94a3b8;",
+  ),
+  rule(".lp-section-title", "display: block; font-size: 24px; line-height: 32px; font-weight: 600; color: #0f172a;"),
+  rule(
+    ".lp-section-text",
+    "display: block; font-size: 14px; line-height: 20px; color: #475569; white-space: pre-line;",
+  ),
+
+  rule(".lp-grid", "display: grid; gap: 16px;"),
+  rule(".lp-grid--2", "grid-template-columns: repeat(2, minmax(0, 1fr));", MD),
+  rule(".lp-grid--3", "grid-template-columns: repeat(3, minmax(0, 1fr));", MD),
+  rule(
+    ".lp-card",
+    `padding: 16px 20px; border: 1px solid #f1f5f9; border-radius: 16px; background: #fff; box-shadow: ${CARD_SHADOW};`,
+  ),
+  rule(".lp-card-title", "display: block; font-size: 16px; line-height: 24px; font-weight: 600; color: #0f172a;"),
+  rule(
+    ".lp-card-text",
+    "display: block; margin-top: 4px; font-size: 14px; line-height: 20px; color: #475569; white-space: pre-line;",
+  ),
+  rule(
+    ".lp-card-media",
+    "width: 100%; height: auto; aspect-ratio: 16 / 9; margin-bottom: 12px; border-radius: 12px; object-fit: cover;",
+  ),
+  rule(".lp-card-media.lp-media--icon", "width: 48px; height: 48px; aspect-ratio: auto;"),
+  rule(".lp-plan .lp-card-media", "margin-bottom: 0;"),
+
+  rule(".lp-faq", "border: 1px solid #f1f5f9; border-radius: 16px; background: #fff;"),
+  rule(".lp-faq > * + *", "border-top: 1px solid #e2e8f0;"),
+  rule(".lp-faq-item", "padding: 16px 20px;"),
+
+  rule(
+    ".lp-plan",
+    `display: flex; flex-direction: column; gap: 12px; padding: 24px 20px; border: 1px solid #f1f5f9; border-radius: 16px; background: #fff; box-shadow: ${CARD_SHADOW};`,
+  ),
+  rule(".lp-plan--featured", `border-color: #0f172a; box-shadow: 0 0 0 1px #0f172a, ${CARD_SHADOW};`),
+  rule(".lp-plan .lp-card-text", "margin-top: 0;"),
+  rule(".lp-plan-price", "display: block; font-size: 30px; line-height: 36px; font-weight: 600; color: #0f172a;"),
+  rule(".lp-plan-features", "font-size: 14px; line-height: 20px; color: #334155;"),
+  rule(".lp-plan-features > * + *", "margin-top: 4px;"),
+  rule(".lp-plan-feature", "display: flex; gap: 8px;"),
+
+  rule(".lp-quote", "font-size: 14px; line-height: 20px; color: #334155; white-space: pre-line;"),
+  rule(".lp-quote-author", "margin-top: 12px; font-size: 14px; line-height: 20px;"),
+  rule(".lp-quote-name", "font-weight: 600; color: #0f172a;"),
+  rule(
+    ".lp-avatar",
+    "display: inline-block; width: 32px; height: 32px; margin-inline-end: 8px; border-radius: 9999px; object-fit: cover; vertical-align: middle;",
+  ),
+  rule(".lp-quote-separator", "color: #94a3b8;"),
+  rule(".lp-quote-meta", "color: #64748b;"),
+
+  rule(".lp-logos", "display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 16px;"),
+  rule(".lp-logos", "grid-template-columns: repeat(3, minmax(0, 1fr));", SM),
+  rule(
+    ".lp-logo-tile",
+    "display: flex; height: 64px; align-items: center; justify-content: center; gap: 10px; padding: 0 16px; border: 1px solid #f1f5f9; border-radius: 16px; background: #fff;",
+  ),
+  rule(".lp-logo-mark", "width: 28px; height: 28px; border-radius: 8px; object-fit: cover;"),
+  rule(".lp-logo-image", "max-width: 100%; max-height: 36px; width: auto; height: auto; object-fit: contain;"),
+  rule(
+    ".lp-logo-name",
+    "font-size: 18px; line-height: 28px; font-weight: 600; letter-spacing: -0.025em; color: #94a3b8;",
+  ),
+
+  rule(".lp-table-wrap", "overflow-x: auto; border: 1px solid #f1f5f9; border-radius: 16px; background: #fff;"),
+  rule(".lp-table", "width: 100%; border-collapse: collapse; font-size: 14px; line-height: 20px; text-align: start;"),
+  rule(".lp-table thead", "background: #f8fafc; color: #0f172a;"),
+  rule(".lp-table th", "padding: 12px 20px; font-weight: 600; text-align: start;"),
+  rule(".lp-table tbody", "color: #475569;"),
+  rule(".lp-table tbody > * + *", "border-top: 1px solid #f1f5f9;"),
+  rule(".lp-table td", "padding: 12px 20px;"),
+
+  rule(".lp-section-ctas", "display: flex; flex-wrap: wrap; align-items: center; gap: 12px;"),
+  rule(
+    ".lp-button--dark",
+    "padding: 8px 20px; background: #0f172a; color: #fff; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);",
+  ),
+  rule(".lp-button--dark:hover", "transform: none;"),
+  rule(".lp-text-link", "font-size: 14px; line-height: 20px; font-weight: 600; color: #475569;"),
+  rule(".lp-text-link:hover", "color: #0f172a;"),
+
+  rule(
+    ".lp-lead",
+    `width: 100%; max-width: 672px; margin: 0 auto; padding: 40px 32px; border-radius: 24px; text-align: center; box-shadow: ${SECTION_SHADOW};`,
+  ),
+  rule(".lp-lead-title", "font-size: 24px; line-height: 32px; font-weight: 600;"),
+  rule(".lp-lead-text", "margin-top: 8px; font-size: 14px; line-height: 20px; opacity: 0.9;"),
+  rule(
+    ".lp-lead-form",
+    "display: flex; flex-wrap: wrap; justify-content: center; gap: 12px; margin-top: 24px; text-align: start;",
+  ),
+  rule(".lp-lead-field", "display: grid; flex: 1 1 200px; gap: 4px; font-size: 14px; line-height: 20px;"),
+  rule(
+    ".lp-lead-input",
+    "padding: 12px 16px; border: 1px solid rgba(255, 255, 255, 0.6); border-radius: 9999px; background: #fff; color: #0f172a;",
+  ),
+  rule(
+    ".lp-lead-submit",
+    "align-self: flex-end; padding: 12px 24px; border: 0; border-radius: 9999px; background: #fff; color: #0f172a; font-size: 14px; line-height: 20px; font-weight: 600; cursor: pointer;",
+  ),
+  rule(".lp-lead-submit:disabled", "opacity: 0.6;"),
+  rule(
+    ".lp-lead-status",
+    "flex-basis: 100%; min-height: 1.5em; font-size: 14px; line-height: 20px; text-align: center;",
+  ),
+  rule(".lp-lead-trap", "position: absolute; left: -9999px;"),
+];
+
+const printRules = (rules: CssRule[]) => {
+  const blocks: string[] = [];
+  rules.forEach(({ selector, declarations, media }, index) => {
+    const line = `${selector} { ${declarations} }`;
+    if (!media) blocks.push(line);
+    // Consecutive rules for the same breakpoint share one block.
+    else if (rules[index - 1]?.media === media)
+      blocks[blocks.length - 1] = blocks.at(-1)!.replace(/\n}$/, `\n  ${line}\n}`);
+    else blocks.push(`@media ${media} {\n  ${line}\n}`);
+  });
+  return blocks.join("\n");
+};
+
+// Everything, for the preview, which can't know which kinds of section the next edit will add.
+export const LANDING_CSS = printRules(RULES);
+
+const usedClasses = (markup: string) =>
+  new Set([...markup.matchAll(/\sclass="([^"]*)"/g)].flatMap((match) => match[1].split(/\s+/)));
+
+// The rules whose classes all appear in `markup`, so an export ships only the CSS its sections need.
+export const criticalLandingCss = (markup: string) => {
+  const used = usedClasses(markup);
+  return printRules(
+    RULES.filter(({ selector }) => [...selector.matchAll(/\.([\w-]+)/g)].every(([, name]) => used.has(name))),
+  );
+};
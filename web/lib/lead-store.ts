@@ -0,0 +1,61 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { LEAD_FORMS, LEAD_TRAP_FIELD, isEmailAddress, type LeadFormKind } from "@/lib/cta";
+
+// A local, append-only store so exported forms can be tested end to end before pointing them at a real backend.
+const LEADS_FILE = path.join(process.cwd(), ".data", "leads.jsonl");
+
+export type Lead = {
+  id: string;
+  receivedAt: string;
+  form: LeadFormKind;
+  email: string;
+  name?: string;
+  page?: string;
+  variant?: string;
+  referrer?: string;
+};
+
+export class LeadValidationError extends Error {}
+
+const field = (fields: Record<string, unknown>, key: string, limit = 200) => {
+  const value = fields[key];
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, limit) : undefined;
+};
+
+// Returns null for honeypot submissions, which are accepted and silently dropped.
+export const parseLead = (fields: Record<string, unknown>, referrer?: string): Lead | null => {
+  if (field(fields, LEAD_TRAP_FIELD)) return null;
+  const email = field(fields, "email", 320);
+  if (!email || !isEmailAddress(email)) throw new LeadValidationError("A valid email address is required.");
+  const form = field(fields, "form");
+  return {
+    id: crypto.randomUUID(),
+    receivedAt: new Date().toISOString(),
+    form: form && Object.hasOwn(LEAD_FORMS, form) ? (form as LeadFormKind) : "email",
+    email,
+    name: field(fields, "name"),
+    page: field(fields, "page"),
+    variant: field(fields, "variant"),
+    referrer: referrer?.slice(0, 500) || undefined,
+  };
+};
+
+export const saveLead = async (lead: Lead) => {
+  await mkdir(path.dirname(LEADS_FILE), { recursive: true });
+  await appendFile(LEADS_FILE, `${JSON.stringify(lead)}\n`, "utf8");
+};
+
+// Newest first.
+export const listLeads = async (limit = 100): Promise<Lead[]> => {
+  const contents = await readFile(LEADS_FILE, "utf8").catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") return "";
+    throw error;
+  });
+  return contents
+    .split("\n")
+    .filter(Boolean)
+    .slice(-limit)
+    .reverse()
+    .map((line) => JSON.parse(line) as Lead);
+};
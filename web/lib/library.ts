@@ -0,0 +1,129 @@
+import type { LandingBlueprint } from "@/lib/generator";
+import type { BlueprintEdits } from "@/lib/blueprint-edits";
+import type { FormState } from "@/lib/brief";
+import type { Translations } from "@/lib/locales";
+import type { PageBlueprint } from "@/lib/sections";
+
+export type ProjectVersion = {
+  id: string;
+  generatedAt: LandingBlueprint["generatedAt"];
+  blueprint: PageBlueprint;
+  edits?: BlueprintEdits;
+  translations?: Translations;
+};
+
+// Everything layered on top of a generated blueprint that travels with it between versions.
+export type VersionContent = Pick<ProjectVersion, "edits" | "translations">;
+
+export type Project = {
+  id: string;
+  name: string;
+  brief: FormState;
+  versions: ProjectVersion[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+const DB_NAME = "launchpilot";
+const DB_VERSION = 1;
+const STORE = "projects";
+export const MAX_VERSIONS = 25;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const listProjects = async () => {
+  const projects = await withStore<Project[]>("readonly", (store) => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string) =>
+  withStore<Project | undefined>("readonly", (store) => store.get(id));
+
+export const saveProject = async (project: Project) => {
+  await withStore("readwrite", (store) => store.put(project));
+  return project;
+};
+
+export const deleteProject = async (id: string) => {
+  await withStore("readwrite", (store) => store.delete(id));
+};
+
+const createId = () => crypto.randomUUID();
+
+export const createProject = (
+  name: string,
+  brief: FormState,
+  blueprint?: PageBlueprint,
+  content: VersionContent = {},
+): Project => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name,
+    brief,
+    versions: blueprint ? [{ id: createId(), generatedAt: blueprint.generatedAt, blueprint, ...content }] : [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const duplicateProject = (project: Project): Project => {
+  const now = Date.now();
+  return {
+    ...project,
+    id: createId(),
+    name: `${project.name} copy`,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const addVersion = (project: Project, blueprint: PageBlueprint, content: VersionContent = {}): Project => ({
+  ...project,
+  versions: [{ id: createId(), generatedAt: blueprint.generatedAt, blueprint, ...content }, ...project.versions].slice(
+    0,
+    MAX_VERSIONS,
+  ),
+  updatedAt: Date.now(),
+});
+
+export type VersionPatch = Partial<Pick<ProjectVersion, "blueprint" | "edits" | "translations">>;
+
+export const updateVersion = (
+  project: Project,
+  generatedAt: LandingBlueprint["generatedAt"],
+  patch: VersionPatch,
+): Project => ({
+  ...project,
+  versions: project.versions.map((version) =>
+    version.generatedAt === generatedAt ? { ...version, ...patch } : version,
+  ),
+  updatedAt: Date.now(),
+});
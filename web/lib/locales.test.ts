@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { composeBlueprint } from "@/lib/generator";
+import { INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+import {
+  TranslationImportError,
+  buildLocalizedFiles,
+  buildStringsFile,
+  flagStrings,
+  listTextSlots,
+  localizeBlueprint,
+  mergeTranslations,
+  parseStringsFile,
+  summarizeFlags,
+  type TextSlot,
+} from "@/lib/locales";
+import type { PageBlueprint } from "@/lib/sections";
+
+const blueprint: PageBlueprint = composeBlueprint(toBlueprintInput(INITIAL_FORM));
+const slots = listTextSlots(blueprint);
+const slot = (path: string) => slots.find((entry) => entry.path === path)!;
+
+const translated = (entry: TextSlot, text: string) => ({ text, source: entry.source });
+
+describe("listTextSlots", () => {
+  it("lists the page's words with a length budget for each", () => {
+    assert.equal(slot("hero.title").source, blueprint.hero.title);
+    assert.equal(slot("hero.title").budget, 80);
+    assert.equal(slot("hero.primaryCta").budget, 28);
+    assert.ok(slots.every((entry) => /\p{L}/u.test(entry.source)));
+  });
+});
+
+describe("flagStrings", () => {
+  it("flags missing, overlong and outdated translations", () => {
+    const title = slot("hero.title");
+    const cta = slot("hero.primaryCta");
+    const subtitle = slot("hero.subtitle");
+    const flags = flagStrings([title, cta, subtitle], {
+      "hero.title": translated(title, "Titel"),
+      "hero.primaryCta": translated(cta, "x".repeat(Math.max(28, Math.ceil(cta.source.length * 1.3)) + 1)),
+      "hero.subtitle": { text: "Untertitel", source: "An older subtitle" },
+    });
+
+    assert.deepEqual(flags, { "hero.primaryCta": "too-long", "hero.subtitle": "outdated" });
+    assert.deepEqual(flagStrings([title], { "hero.title": translated(title, "  ") }), { "hero.title": "missing" });
+    assert.deepEqual(summarizeFlags(slots, flagStrings(slots, {})), {
+      total: slots.length,
+      translated: 0,
+      missing: slots.length,
+      outdated: 0,
+      "too-long": 0,
+    });
+  });
+});
+
+describe("strings files", () => {
+  it("round-trips the translator file and takes flat maps too", () => {
+    const title = slot("hero.title");
+    const file = buildStringsFile(slots, "de", { "hero.title": translated(title, "Titel") });
+    const { locale, texts } = parseStringsFile(file);
+
+    assert.equal(locale, "de");
+    assert.equal(texts["hero.title"], "Titel");
+    assert.equal(texts["hero.subtitle"], "");
+    assert.deepEqual(parseStringsFile(`{"hero.title": "Titre"}`), {
+      locale: undefined,
+      texts: { "hero.title": "Titre" },
+    });
+    assert.throws(() => parseStringsFile("de: Titel"), TranslationImportError);
+  });
+
+  it("merges only known, non-empty strings, recording what they translate", () => {
+    const merged = mergeTranslations({}, "fr", slots, {
+      "hero.title": " Titre ",
+      "hero.subtitle": "",
+      "nowhere.title": "Perdu",
+    });
+
+    assert.deepEqual(merged, { fr: { "hero.title": { text: "Titre", source: blueprint.hero.title } } });
+  });
+});
+
+describe("buildLocalizedFiles", () => {
+  const translations = { ar: { "hero.title": translated(slot("hero.title"), "عنوان") } };
+
+  it("puts each locale in its own folder with lang, dir and the translated copy", () => {
+    const files = buildLocalizedFiles("Launch Pilot", blueprint, translations, ["ar", "xx"], "");
+    const [source, arabic] = files;
+
+    assert.deepEqual(
+      files.map((file) => file.path),
+      ["launch-pilot-i18n/index.html", "launch-pilot-i18n/ar/index.html"],
+    );
+    assert.match(source.contents, /<html[^>]* lang="en"/);
+    assert.match(arabic.contents, /<html[^>]* lang="ar"[^>]* dir="rtl"/);
+    assert.ok(arabic.contents.includes("عنوان"));
+    assert.ok(arabic.contents.includes(`hreflang="x-default" href="../index.html"`));
+    assert.equal(localizeBlueprint(blueprint, translations.ar).hero.title, "عنوان");
+  });
+
+  it("links alternates absolutely once the site URL is known", () => {
+    const [, arabic] = buildLocalizedFiles("Launch Pilot", blueprint, translations, ["ar"], "https://example.com/");
+
+    assert.ok(arabic.contents.includes(`hreflang="ar" href="https://example.com/ar/"`));
+    assert.ok(arabic.contents.includes(`hreflang="en" href="https://example.com/"`));
+  });
+});
@@ -0,0 +1,225 @@
+import { applyEdits, listTextPaths } from "@/lib/blueprint-edits";
+import { toFileStem } from "@/lib/brief";
+import { buildPageHtml } from "@/lib/export-html";
+import type { LocaleAlternate } from "@/lib/html-document";
+import { resolveSeo } from "@/lib/seo";
+import type { PageBlueprint } from "@/lib/sections";
+import type { ZipEntry } from "@/lib/zip";
+
+export type TextDirection = "ltr" | "rtl";
+
+export type LocaleOption = {
+  code: string;
+  name: string;
+  dir: TextDirection;
+};
+
+export const SOURCE_LOCALE: LocaleOption = { code: "en", name: "English", dir: "ltr" };
+
+export const LOCALES: LocaleOption[] = [
+  SOURCE_LOCALE,
+  { code: "de", name: "Deutsch", dir: "ltr" },
+  { code: "fr", name: "Français", dir: "ltr" },
+  { code: "es", name: "Español", dir: "ltr" },
+  { code: "pt-BR", name: "Português (Brasil)", dir: "ltr" },
+  { code: "it", name: "Italiano", dir: "ltr" },
+  { code: "nl", name: "Nederlands", dir: "ltr" },
+  { code: "pl", name: "Polski", dir: "ltr" },
+  { code: "tr", name: "Türkçe", dir: "ltr" },
+  { code: "ja", name: "日本語", dir: "ltr" },
+  { code: "ko", name: "한국어", dir: "ltr" },
+  { code: "zh-CN", name: "简体中文", dir: "ltr" },
+  { code: "hi", name: "हिन्दी", dir: "ltr" },
+  { code: "ar", name: "العربية", dir: "rtl" },
+  { code: "he", name: "עברית", dir: "rtl" },
+  { code: "fa", name: "فارسی", dir: "rtl" },
+];
+
+export const getLocale = (code: string) => LOCALES.find((locale) => locale.code === code) ?? SOURCE_LOCALE;
+
+// `source` is the English text the translation was made from, so regenerated copy shows up as outdated.
+export type Translation = { text: string; source: string };
+export type LocaleStrings = Record<string, Translation>;
+export type Translations = Record<string, LocaleStrings>;
+
+export type StringFlag = "missing" | "outdated" | "too-long";
+
+export type TextSlot = {
+  path: string;
+  source: string;
+  budget: number;
+};
+
+// Characters each slot holds before it wraps badly or gets clipped in the layout.
+const SLOT_BUDGETS: Array<[RegExp, number]> = [
+  [/^hero\.eyebrow$/, 40],
+  [/^hero\.title$/, 80],
+  [/^hero\.subtitle$/, 220],
+  [/^hero\.(primary|secondary)Cta$/, 28],
+  [/^hero\.stats\.\d+\.value$/, 12],
+  [/^hero\.stats\.\d+\.label$/, 40],
+  [/\.label$/, 32],
+  [/\.headline$/, 100],
+  [/\.body$/, 360],
+  [/\.items\.\d+\.title$/, 80],
+  [/\.items\.\d+\.description$/, 260],
+  [/\.items\.\d+\.meta$/, 24],
+  [/\.values\.\d+$/, 40],
+  [/\.columns\.\d+$/, 24],
+];
+
+// Translations typically run ~30% longer than English; anything beyond that and the slot budget is flagged.
+const EXPANSION = 1.3;
+
+export const listTextSlots = (blueprint: PageBlueprint): TextSlot[] =>
+  listTextPaths(blueprint)
+    // Checkmarks, dashes and numbers read the same in every language.
+    .filter(([, value]) => /\p{L}/u.test(value))
+    .map(([path, source]) => ({
+      path,
+      source,
+      budget: SLOT_BUDGETS.find(([pattern]) => pattern.test(path))?.[1] ?? 200,
+    }));
+
+export const flagSlot = (slot: TextSlot, translation?: Translation): StringFlag | undefined => {
+  if (!translation?.text.trim()) return "missing";
+  if (translation.text.length > Math.max(slot.budget, Math.ceil(slot.source.length * EXPANSION))) return "too-long";
+  if (translation.source !== slot.source) return "outdated";
+  return undefined;
+};
+
+export const flagStrings = (slots: TextSlot[], strings: LocaleStrings = {}) =>
+  Object.fromEntries(
+    slots.flatMap((slot) => {
+      const flag = flagSlot(slot, strings[slot.path]);
+      return flag ? [[slot.path, flag]] : [];
+    }),
+  ) as Record<string, StringFlag>;
+
+export type LocaleSummary = Record<StringFlag, number> & { total: number; translated: number };
+
+export const summarizeFlags = (slots: TextSlot[], flags: Record<string, StringFlag>): LocaleSummary => {
+  const counts = { total: slots.length, translated: slots.length, missing: 0, outdated: 0, "too-long": 0 };
+  Object.values(flags).forEach((flag) => {
+    counts[flag] += 1;
+    if (flag === "missing") counts.translated -= 1;
+  });
+  return counts;
+};
+
+// Outdated translations still apply: last week's German beats falling back to English mid-page.
+export const localizeBlueprint = (blueprint: PageBlueprint, strings: LocaleStrings = {}) =>
+  applyEdits(
+    blueprint,
+    Object.fromEntries(Object.entries(strings).map(([path, translation]) => [path, translation.text])),
+  );
+
+export const setTranslation = (
+  translations: Translations,
+  locale: string,
+  path: string,
+  translation: Translation,
+): Translations => ({
+  ...translations,
+  [locale]: { ...translations[locale], [path]: translation },
+});
+
+export const mergeTranslations = (
+  translations: Translations,
+  locale: string,
+  slots: TextSlot[],
+  texts: Record<string, string>,
+): Translations => {
+  const sources = new Map(slots.map((slot) => [slot.path, slot.source]));
+  const incoming = Object.entries(texts).flatMap(([path, text]): Array<[string, Translation]> => {
+    const source = sources.get(path);
+    return source !== undefined && typeof text === "string" && text.trim()
+      ? [[path, { text: text.trim(), source }]]
+      : [];
+  });
+  return { ...translations, [locale]: { ...translations[locale], ...Object.fromEntries(incoming) } };
+};
+
+// The exchange format for translators: `{ "locale": "de", "strings": { "<path>": { "source": "…", "text": "…" } } }`.
+export const buildStringsFile = (slots: TextSlot[], locale: string, strings: LocaleStrings = {}) =>
+  JSON.stringify(
+    {
+      locale,
+      strings: Object.fromEntries(
+        slots.map((slot) => [slot.path, { source: slot.source, text: strings[slot.path]?.text ?? "" }]),
+      ),
+    },
+    null,
+    2,
+  );
+
+export class TranslationImportError extends Error {}
+
+// Accepts the file from `buildStringsFile` or a flat `{ "<path>": "text" }` map.
+export const parseStringsFile = (source: string): { locale?: string; texts: Record<string, string> } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch {
+    throw new TranslationImportError("Translations must be a JSON file.");
+  }
+  if (typeof parsed !== "object" || parsed === null) throw new TranslationImportError("Expected a JSON object.");
+  const file = parsed as { locale?: unknown; strings?: unknown };
+  const strings = typeof file.strings === "object" && file.strings !== null ? file.strings : parsed;
+  const texts = Object.fromEntries(
+    Object.entries(strings as Record<string, unknown>).flatMap(([path, value]): Array<[string, string]> => {
+      if (typeof value === "string") return [[path, value]];
+      const text = (value as { text?: unknown } | null)?.text;
+      return typeof text === "string" ? [[path, text]] : [];
+    }),
+  );
+  return { locale: typeof file.locale === "string" ? file.locale : undefined, texts };
+};
+
+const localePath = (locale: LocaleOption) => (locale.code === SOURCE_LOCALE.code ? "" : `${locale.code}/`);
+
+// The source locale lives at the root and each translation in its own folder, e.g. `de/index.html`.
+// Alternates are absolute when a site URL is known, as search engines expect, and relative otherwise.
+export const buildLocalizedFiles = (
+  name: string,
+  blueprint: PageBlueprint,
+  translations: Translations,
+  localeCodes: string[],
+  siteUrl: string,
+  appUrl?: string,
+): ZipEntry[] => {
+  const root = `${toFileStem(name)}-i18n`;
+  const baseUrl = siteUrl.trim().replace(/\/+$/, "");
+  const locales = [
+    SOURCE_LOCALE,
+    ...LOCALES.filter((locale) => locale !== SOURCE_LOCALE && localeCodes.includes(locale.code)),
+  ];
+
+  return locales.map((locale): ZipEntry => {
+    const depth = locale.code === SOURCE_LOCALE.code ? "" : "../";
+    const href = (target: LocaleOption) =>
+      baseUrl ? `${baseUrl}/${localePath(target)}` : `${depth}${localePath(target)}index.html`;
+    const alternates: LocaleAlternate[] = [
+      ...locales.map((target) => ({ hreflang: target.code, href: href(target) })),
+      { hreflang: "x-default", href: href(SOURCE_LOCALE) },
+    ];
+    // Hand-written SEO copy is in the source language, so translated pages derive theirs from the translated hero.
+    const page =
+      locale.code === SOURCE_LOCALE.code
+        ? blueprint
+        : {
+            ...localizeBlueprint(blueprint, translations[locale.code]),
+            seo: { ...blueprint.seo, title: undefined, description: undefined },
+          };
+    const seo = resolveSeo(page, {
+      productName: name,
+      pageUrl: baseUrl ? href(locale) : undefined,
+      appUrl,
+      locale: locale.code,
+    });
+    return {
+      path: `${root}/${localePath(locale)}index.html`,
+      contents: buildPageHtml(page, { locale, alternates, seo, appUrl }),
+    };
+  });
+};
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { THEMES, composeBlueprint } from "@/lib/generator";
+import { INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+import { SECTION_CATALOG, createSection, insertSection, isPageBlueprint, type PageBlueprint } from "@/lib/sections";
+import { applyThemeStyle, createCustomTheme } from "@/lib/themes";
+import { illustratePage } from "@/lib/visuals";
+
+const input = toBlueprintInput(INITIAL_FORM);
+const generated: PageBlueprint = composeBlueprint(input);
+
+// Everything the editor can add: catalog sections, illustrations, a custom theme, CTAs, SEO, a11y and analytics.
+const fullPage = (): PageBlueprint => {
+  const page = SECTION_CATALOG.reduce(
+    (current, entry, index) => insertSection(current, createSection(entry.kind, input, index), current.sections.length),
+    generated,
+  );
+  return {
+    ...illustratePage(applyThemeStyle(page, createCustomTheme(THEMES[0], "linear-gradient(120deg, #000, #fff)"))),
+    ctas: { primary: { type: "form", form: "waitlist" }, secondary: { type: "url", url: "https://example.com" } },
+    seo: { title: "Launch", schemaType: "Product", faq: false },
+    a11y: { contrast: true },
+    analytics: { provider: "plausible", siteId: "example.com" },
+  };
+};
+
+describe("isPageBlueprint", () => {
+  it("accepts generated and fully edited pages, as they arrive over JSON", () => {
+    [generated, fullPage()].forEach((page) => assert.equal(isPageBlueprint(JSON.parse(JSON.stringify(page))), true));
+  });
+
+  it("rejects pages the renderers would crash on", () => {
+    const [first, ...rest] = generated.sections;
+    [
+      null,
+      [],
+      { hero: {}, sections: [] },
+      { ...generated, hero: { ...generated.hero, stats: undefined } },
+      { ...generated, sections: [{ ...first, id: undefined }, ...rest] },
+      { ...generated, sections: [{ ...first, body: 42 }, ...rest] },
+      { ...generated, sections: [{ ...first, kind: "carousel" }, ...rest] },
+      { ...generated, sections: [{ ...first, items: [{ title: "No description" }] }, ...rest] },
+      { ...generated, sections: [null] },
+      { ...generated, palette: undefined },
+      { ...generated, heroLayout: "diagonal" },
+      { ...generated, heroImage: { illustration: "scene" } },
+      { ...generated, ctas: { primary: { type: "url" } } },
+      { ...generated, seo: { title: 42 } },
+      { ...generated, style: { gradientStops: [] } },
+    ].forEach((page) => assert.equal(isPageBlueprint(page), false));
+  });
+});
@@ -0,0 +1,402 @@
+import { TONES, composeBlueprint, type LandingBlueprint } from "@/lib/generator";
+import { HERO_LAYOUTS, type BlueprintInput } from "@/lib/brief";
+import type { A11yFixes } from "@/lib/a11y";
+import { ANALYTICS_PROVIDERS, type AnalyticsSettings } from "@/lib/analytics";
+import { CTA_SLOTS, CTA_TYPES, LEAD_FORMS, type CtaTargets } from "@/lib/cta";
+import { ILLUSTRATION_KINDS } from "@/lib/illustrations";
+import { SCHEMA_TYPES, type SeoSettings } from "@/lib/seo";
+import { isThemeStyle, type ThemeStyle } from "@/lib/themes";
+import type { ImageSlot } from "@/lib/visuals";
+
+type GeneratedSection = LandingBlueprint["sections"][number];
+
+export type SectionKind = "faq" | "pricing" | "testimonials" | "logos" | "comparison";
+
+export type SectionItem = {
+  title: string;
+  description: string;
+  // Secondary line: plan price, testimonial role.
+  meta?: string;
+  // Plan features or comparison cells, one per column.
+  values?: string[];
+  // Card art, testimonial avatar or logo; see `supportsItemImages`.
+  image?: ImageSlot;
+};
+
+// Generated sections have no `kind`; catalog sections keep the generator's item shape so every exporter can
+// fall back to plain title/description cards.
+export type LandingSection = Omit<GeneratedSection, "items"> & {
+  items?: SectionItem[];
+  kind?: SectionKind;
+  columns?: string[];
+  angle?: number;
+};
+
+export type PageBlueprint = Omit<LandingBlueprint, "sections"> & {
+  sections: LandingSection[];
+  removedSectionIds?: string[];
+  // Shown beside the hero copy, above the stats.
+  heroImage?: ImageSlot;
+  style?: ThemeStyle;
+  seo?: SeoSettings;
+  a11y?: A11yFixes;
+  ctas?: CtaTargets;
+  analytics?: AnalyticsSettings;
+};
+
+type CatalogEntry = {
+  kind: SectionKind;
+  name: string;
+  description: string;
+  create: (input: BlueprintInput, angle: number) => Omit<LandingSection, "id" | "kind" | "angle">;
+};
+
+const pick = <T>(options: T[], angle: number) => options[angle % options.length];
+
+export const SECTION_CATALOG: CatalogEntry[] = [
+  {
+    kind: "faq",
+    name: "FAQ",
+    description: "Answer objections before they reach sales",
+    create: (input, angle) =>
+      pick(
+        [
+          {
+            label: "FAQ",
+            headline: `Questions ${input.audience} ask before switching`,
+            body: `Everything you need to know about ${input.productName}.`,
+            items: [
+              { title: `What does ${input.productName} do?`, description: input.oneLiner },
+              { title: `Who is ${input.productName} for?`, description: `It's built for ${input.audience}.` },
+              { title: "How is it different from what I use today?", description: input.differentiator },
+              {
+                title: "How long does setup take?",
+                description: "Most teams are up and running the same day — no migration project required.",
+              },
+            ],
+          },
+          {
+            label: "Good to know",
+            headline: "The fine print, answered plainly",
+            body: `Still deciding? Here's how ${input.productName} works day to day.`,
+            items: [
+              { title: "What problem does it solve?", description: input.problem },
+              { title: "How does it work?", description: input.solution },
+              { title: "Can I try it first?", description: `Yes — ${input.cta.toLowerCase()} and explore for free.` },
+              { title: "Is my data safe?", description: "Your data stays yours: encrypted in transit and at rest." },
+            ],
+          },
+        ],
+        angle,
+      ),
+  },
+  {
+    kind: "pricing",
+    name: "Pricing table",
+    description: "Three plans with highlighted features",
+    create: (input, angle) => {
+      const features = input.features.length ? input.features : [input.oneLiner];
+      return {
+        label: "Pricing",
+        headline: pick(["Simple pricing that scales with you", `Pick the ${input.productName} plan that fits`], angle),
+        body: pick(
+          ["Start free, upgrade when the results show up.", `Every plan includes the core ${input.productName} workflow.`],
+          angle,
+        ),
+        items: [
+          { title: "Starter", meta: "$0", description: "For trying things out", values: features.slice(0, 2) },
+          {
+            title: "Pro",
+            meta: pick(["$29/mo", "$39/mo"], angle),
+            description: "For growing teams",
+            values: features.slice(0, 3),
+          },
+          { title: "Scale", meta: "Custom", description: "For organizations with advanced needs", values: features },
+        ],
+      };
+    },
+  },
+  {
+    kind: "testimonials",
+    name: "Testimonials",
+    description: "Customer quotes with names and roles",
+    create: (input, angle) => ({
+      label: "Testimonials",
+      headline: pick([`Loved by ${input.audience}`, "Don't take our word for it"], angle),
+      body: "Replace these placeholders with quotes from your customers.",
+      items: [
+        {
+          title: "Alex Rivera",
+          meta: "Head of Growth",
+          description: `We used to lose weeks to this. ${input.solution}`,
+        },
+        {
+          title: "Priya Shah",
+          meta: "Founder",
+          description: `${input.productName} is the first tool that actually understands our positioning.`,
+        },
+        {
+          title: "Jordan Lee",
+          meta: "Marketing Lead",
+          description: pick([input.differentiator, `"${input.problem}" — that was us, until now.`], angle),
+        },
+      ],
+    }),
+  },
+  {
+    kind: "logos",
+    name: "Logo wall",
+    description: "Social proof from recognizable teams",
+    create: (input, angle) => ({
+      label: "Trusted by",
+      headline: pick(["Teams shipping faster with us", `${input.audience} already rely on ${input.productName}`], angle),
+      body: "Swap in the logos of your best-known customers.",
+      items: ["Northwind", "Globex", "Initech", "Umbrella", "Hooli", "Vandelay"].map((name) => ({
+        title: name,
+        description: "",
+      })),
+    }),
+  },
+  {
+    kind: "comparison",
+    name: "Comparison table",
+    description: "Feature-by-feature against the alternative",
+    create: (input, angle) => {
+      const alternative = pick(["Doing it by hand", "Legacy tools"], angle);
+      return {
+        label: "Compare",
+        headline: `${input.productName} vs. ${alternative.toLowerCase()}`,
+        body: input.differentiator,
+        columns: [input.productName, alternative],
+        items: (input.features.length ? input.features : [input.oneLiner]).map((feature) => ({
+          title: feature,
+          description: "",
+          values: ["✓", "—"],
+        })),
+      };
+    },
+  },
+];
+
+export const getCatalogEntry = (kind: SectionKind) => SECTION_CATALOG.find((entry) => entry.kind === kind);
+
+const createSectionId = (kind: SectionKind) => `${kind}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSection = (kind: SectionKind, input: BlueprintInput, angle = 0): LandingSection => {
+  const entry = getCatalogEntry(kind);
+  if (!entry) throw new Error(`Unknown section kind: ${kind}`);
+  return { id: createSectionId(kind), kind, angle, ...entry.create(input, angle) };
+};
+
+// Images belong to the item's position rather than its copy, so new copy keeps the art.
+const keepItemImages = (previous: LandingSection, next: LandingSection): LandingSection =>
+  previous.items?.some((item) => item.image)
+    ? { ...next, items: next.items?.map((item, index) => ({ ...item, image: previous.items?.[index]?.image })) }
+    : next;
+
+// Generated sections get a new angle by re-running the generator with the next tone in the list.
+export const regenerateSection = (section: LandingSection, input: BlueprintInput): LandingSection => {
+  const angle = (section.angle ?? 0) + 1;
+  if (section.kind) {
+    const entry = getCatalogEntry(section.kind);
+    return entry ? keepItemImages(section, { ...section, ...entry.create(input, angle), angle }) : section;
+  }
+  const toneIndex = TONES.findIndex((tone) => tone.id === input.tone.id);
+  const tone = TONES[(toneIndex + angle) % TONES.length];
+  const fresh = composeBlueprint({ ...input, tone }).sections.find((entry) => entry.id === section.id);
+  return fresh ? keepItemImages(section, { ...fresh, angle }) : { ...section, angle };
+};
+
+export const insertSection = (
+  blueprint: PageBlueprint,
+  section: LandingSection,
+  index = blueprint.sections.length,
+): PageBlueprint => ({
+  ...blueprint,
+  sections: [...blueprint.sections.slice(0, index), section, ...blueprint.sections.slice(index)],
+});
+
+export const removeSection = (blueprint: PageBlueprint, sectionId: string): PageBlueprint => {
+  const section = blueprint.sections.find((entry) => entry.id === sectionId);
+  return {
+    ...blueprint,
+    sections: blueprint.sections.filter((entry) => entry.id !== sectionId),
+    removedSectionIds:
+      section && !section.kind ? [...(blueprint.removedSectionIds ?? []), sectionId] : blueprint.removedSectionIds,
+  };
+};
+
+export const moveSection = (blueprint: PageBlueprint, from: number, to: number): PageBlueprint => {
+  if (from === to || to < 0 || to >= blueprint.sections.length) return blueprint;
+  const sections = [...blueprint.sections];
+  const [moved] = sections.splice(from, 1);
+  sections.splice(to, 0, moved);
+  return { ...blueprint, sections };
+};
+
+export const replaceSection = (blueprint: PageBlueprint, section: LandingSection): PageBlueprint => ({
+  ...blueprint,
+  sections: blueprint.sections.map((entry) => (entry.id === section.id ? section : entry)),
+});
+
+// Brings a section back as it was in an older blueprint: in place if it still exists, otherwise at its old position.
+export const restoreSection = (blueprint: PageBlueprint, source: PageBlueprint, sectionId: string): PageBlueprint => {
+  const index = source.sections.findIndex((entry) => entry.id === sectionId);
+  if (index === -1) return blueprint;
+  const section = source.sections[index];
+  if (blueprint.sections.some((entry) => entry.id === sectionId)) return replaceSection(blueprint, section);
+  return {
+    ...insertSection(blueprint, section, Math.min(index, blueprint.sections.length)),
+    removedSectionIds: blueprint.removedSectionIds?.filter((id) => id !== sectionId),
+  };
+};
+
+// A full regeneration refreshes generated sections in place but keeps the user's arrangement: catalog sections,
+// custom order, removed sections and images all survive. Sections the generator adds later are appended.
+export const mergeRegenerated = (previous: PageBlueprint, next: PageBlueprint): PageBlueprint => {
+  const removed = new Set(previous.removedSectionIds ?? []);
+  const fresh = new Map(next.sections.map((section) => [section.id, section]));
+  const sections = previous.sections.flatMap((section): LandingSection[] => {
+    if (section.kind) return [section];
+    const regenerated = fresh.get(section.id);
+    return regenerated ? [keepItemImages(section, regenerated)] : [];
+  });
+  const known = new Set(sections.map((section) => section.id));
+  next.sections.forEach((section) => {
+    if (!known.has(section.id) && !removed.has(section.id)) sections.push(section);
+  });
+  return {
+    ...next,
+    sections,
+    removedSectionIds: previous.removedSectionIds,
+    heroImage: previous.heroImage,
+    seo: previous.seo,
+    a11y: previous.a11y,
+    ctas: previous.ctas,
+    analytics: previous.analytics,
+  };
+};
+
+const flattenItem = (section: LandingSection, item: SectionItem) => {
+  switch (section.kind) {
+    case "pricing":
+      return {
+        title: [item.title, item.meta].filter(Boolean).join(" — "),
+        description: [item.description, ...(item.values ?? [])].filter(Boolean).join(" · "),
+      };
+    case "testimonials":
+      return { title: [item.title, item.meta].filter(Boolean).join(", "), description: `“${item.description}”` };
+    case "comparison":
+      return {
+        title: item.title,
+        description: (section.columns ?? [])
+          .map((column, index) => `${column}: ${item.values?.[index] ?? "—"}`)
+          .join(" · "),
+      };
+    default:
+      return { title: item.title, description: item.description };
+  }
+};
+
+// The React export only knows the generator's section shape, so catalog kinds are flattened into equivalent cards.
+export const toExportBlueprint = (blueprint: PageBlueprint): LandingBlueprint => ({
+  ...blueprint,
+  sections: blueprint.sections.map(
+    (section): GeneratedSection => ({ ...section, items: section.items?.map((item) => flattenItem(section, item)) }),
+  ),
+});
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(isString);
+
+const hasStrings = (value: Fields, keys: string[]) => keys.every((key) => isString(value[key]));
+
+const optional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isImageSlot = (value: unknown) =>
+  isFields(value) &&
+  ILLUSTRATION_KINDS.some((kind) => kind.id === value.illustration) &&
+  isString(value.alt) &&
+  optional(
+    value.upload,
+    (upload) =>
+      isFields(upload) && isString(upload.src) && Number.isFinite(upload.width) && Number.isFinite(upload.height),
+  );
+
+const isSectionItem = (value: unknown) =>
+  isFields(value) &&
+  hasStrings(value, ["title", "description"]) &&
+  optional(value.meta, isString) &&
+  optional(value.values, isStringList) &&
+  optional(value.image, isImageSlot);
+
+const isSection = (value: unknown) =>
+  isFields(value) &&
+  hasStrings(value, ["id", "label", "headline", "body"]) &&
+  optional(value.kind, (kind) => SECTION_CATALOG.some((entry) => entry.kind === kind)) &&
+  optional(value.items, (items) => Array.isArray(items) && items.every(isSectionItem)) &&
+  optional(value.columns, isStringList) &&
+  optional(value.angle, Number.isFinite);
+
+const isCtaTarget = (value: unknown) => {
+  if (!isFields(value) || !CTA_TYPES.some((type) => type.id === value.type)) return false;
+  switch (value.type) {
+    case "url":
+      return isString(value.url);
+    case "email":
+      return isString(value.address) && optional(value.subject, isString);
+    case "form":
+      return (
+        Object.hasOwn(LEAD_FORMS, String(value.form)) &&
+        optional(value.endpoint, isString) &&
+        optional(value.successMessage, isString)
+      );
+    default:
+      return optional(value.sectionId, isString);
+  }
+};
+
+const isSeoSettings = (value: unknown) =>
+  isFields(value) &&
+  ["title", "description", "canonicalUrl", "image", "twitterHandle"].every((key) => optional(value[key], isString)) &&
+  optional(value.schemaType, (type) => SCHEMA_TYPES.some((entry) => entry.id === type)) &&
+  optional(value.faq, (faq) => typeof faq === "boolean");
+
+// Whether a blueprint that came from outside (a share upload, a project file) has every field the renderers read,
+// with the right types, so a malformed page is turned away instead of crashing the pages that display it.
+export const isPageBlueprint = (value: unknown): value is PageBlueprint => {
+  if (!isFields(value) || !isFields(value.hero) || !isFields(value.palette)) return false;
+  const { hero, palette } = value;
+  return (
+    hasStrings(hero, ["eyebrow", "title", "subtitle", "primaryCta", "secondaryCta"]) &&
+    Array.isArray(hero.stats) &&
+    hero.stats.every((stat) => isFields(stat) && hasStrings(stat, ["label", "value"])) &&
+    Array.isArray(value.sections) &&
+    value.sections.every(isSection) &&
+    hasStrings(palette, ["text", "surface"]) &&
+    Object.values(palette).every(isString) &&
+    isString(value.gradient) &&
+    HERO_LAYOUTS.some((layout) => layout.id === value.heroLayout) &&
+    isString(value.generatedAt) &&
+    optional(value.removedSectionIds, isStringList) &&
+    optional(value.heroImage, isImageSlot) &&
+    optional(value.style, isThemeStyle) &&
+    optional(value.seo, isSeoSettings) &&
+    optional(value.a11y, (a11y) => isFields(a11y) && Object.values(a11y).every((fix) => typeof fix === "boolean")) &&
+    optional(value.ctas, (ctas) => isFields(ctas) && CTA_SLOTS.every((slot) => optional(ctas[slot], isCtaTarget))) &&
+    optional(
+      value.analytics,
+      (analytics) =>
+        isFields(analytics) &&
+        ANALYTICS_PROVIDERS.some((provider) => provider.id === analytics.provider) &&
+        isString(analytics.siteId) &&
+        optional(analytics.host, isString),
+    )
+  );
+};
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { composeBlueprint } from "@/lib/generator";
+import { INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+import type { PageBlueprint } from "@/lib/sections";
+import { resolveSeo, withSeo } from "@/lib/seo";
+
+const PAGE = `<!doctype html><html lang="en"><head><title>Page</title></head><body><main>Body</main></body></html>`;
+
+const blueprintWith = (seo: PageBlueprint["seo"]): PageBlueprint => ({
+  ...composeBlueprint(toBlueprintInput(INITIAL_FORM)),
+  seo,
+});
+
+describe("withSeo", () => {
+  it("keeps `$` patterns in titles and descriptions literal", () => {
+    const blueprint = blueprintWith({ title: "Save $$ with $& today", description: "Everything after $' stays put" });
+    const html = withSeo(PAGE, blueprint, resolveSeo(blueprint, { productName: "LaunchPilot" }));
+
+    assert.equal(html.match(/<head>/g)?.length, 1);
+    assert.equal(html.match(/<main>/g)?.length, 1);
+    assert.ok(html.includes(`<meta property="og:title" content="Save $$ with $&amp; today" />`));
+    assert.ok(html.includes(`<meta name="description" content="Everything after $' stays put" />`));
+  });
+
+  it("gives the generated card its size and leaves a custom image's unstated", () => {
+    const generated = blueprintWith({});
+    const generatedHtml = withSeo(
+      PAGE,
+      generated,
+      resolveSeo(generated, { productName: "LaunchPilot", appUrl: "https://app.example.com" }),
+    );
+    assert.ok(generatedHtml.includes(`<meta property="og:image:width" content="1200" />`));
+    assert.ok(generatedHtml.includes(`<meta property="og:image:height" content="630" />`));
+
+    const custom = blueprintWith({ image: "https://cdn.example.com/share.png" });
+    const customHtml = withSeo(
+      PAGE,
+      custom,
+      resolveSeo(custom, { productName: "LaunchPilot", appUrl: "https://app.example.com" }),
+    );
+    assert.ok(customHtml.includes(`<meta property="og:image" content="https://cdn.example.com/share.png" />`));
+    assert.ok(!customHtml.includes("og:image:width"));
+    assert.ok(!customHtml.includes("og:image:height"));
+  });
+});
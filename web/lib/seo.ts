@@ -0,0 +1,181 @@
+import { extractColors, pickHeroTextColor } from "@/lib/colors";
+import { escapeAttribute, injectHead, setDocumentTitle } from "@/lib/html-document";
+import type { PageBlueprint } from "@/lib/sections";
+
+export type SchemaType = "SoftwareApplication" | "Product";
+
+export const SCHEMA_TYPES: Array<{ id: SchemaType; label: string }> = [
+  { id: "SoftwareApplication", label: "Software application" },
+  { id: "Product", label: "Product" },
+];
+
+// What the user has overridden in the SEO panel; everything else is derived from the page on export.
+export type SeoSettings = {
+  title?: string;
+  description?: string;
+  canonicalUrl?: string;
+  image?: string;
+  twitterHandle?: string;
+  schemaType?: SchemaType;
+  faq?: boolean;
+};
+
+export type SeoMeta = {
+  title: string;
+  description: string;
+  siteName: string;
+  canonicalUrl?: string;
+  image?: string;
+  // Known only for the generated Open Graph card; a custom image can be any size.
+  imageSize?: { width: number; height: number };
+  twitterHandle?: string;
+  schemaType: SchemaType;
+  faq: boolean;
+  locale?: string;
+};
+
+export type SeoContext = {
+  productName: string;
+  // Where the page will live; wins over the saved canonical URL so site and locale pages point at themselves.
+  pageUrl?: string;
+  // Origin of this app, used to link the generated Open Graph image.
+  appUrl?: string;
+  locale?: string;
+};
+
+// Search engines truncate past these lengths.
+export const TITLE_LIMIT = 60;
+export const DESCRIPTION_LIMIT = 155;
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const clip = (text: string, limit: number) => {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= limit) return clean;
+  const cut = clean.slice(0, limit - 1);
+  const wordEnd = cut.lastIndexOf(" ");
+  // Break on a word unless that would throw away most of the text.
+  return `${(wordEnd > limit * 0.6 ? cut.slice(0, wordEnd) : cut).replace(/[\s,.;:–—-]+$/, "")}…`;
+};
+
+export const defaultSeoTitle = (blueprint: PageBlueprint, productName: string) => {
+  const { title } = blueprint.hero;
+  return clip(
+    !productName || title.toLowerCase().includes(productName.toLowerCase()) ? title : `${productName} — ${title}`,
+    TITLE_LIMIT,
+  );
+};
+
+export const defaultSeoDescription = (blueprint: PageBlueprint) =>
+  clip(blueprint.hero.subtitle || blueprint.sections[0]?.body || "", DESCRIPTION_LIMIT);
+
+export const buildOgImageUrl = (appUrl: string, blueprint: PageBlueprint, productName: string) => {
+  const [from, to] = extractColors(blueprint.gradient);
+  const params = new URLSearchParams({
+    title: blueprint.hero.title,
+    eyebrow: blueprint.hero.eyebrow,
+    name: productName,
+    text: pickHeroTextColor(blueprint.palette, blueprint.gradient),
+    ...(from ? { from, to: to ?? from } : {}),
+  });
+  return `${appUrl.replace(/\/+$/, "")}/api/og?${params}`;
+};
+
+export const resolveSeo = (blueprint: PageBlueprint, { productName, pageUrl, appUrl, locale }: SeoContext): SeoMeta => {
+  const settings = blueprint.seo ?? {};
+  const customImage = settings.image?.trim();
+  const image = customImage || (appUrl ? buildOgImageUrl(appUrl, blueprint, productName) : undefined);
+  return {
+    title: settings.title?.trim() || defaultSeoTitle(blueprint, productName),
+    description: settings.description?.trim() || defaultSeoDescription(blueprint),
+    siteName: productName,
+    canonicalUrl: pageUrl || settings.canonicalUrl?.trim() || undefined,
+    image,
+    imageSize: image && !customImage ? OG_IMAGE_SIZE : undefined,
+    twitterHandle: settings.twitterHandle?.trim().replace(/^@?/, "@") || undefined,
+    schemaType: settings.schemaType ?? "SoftwareApplication",
+    faq: settings.faq ?? true,
+    locale,
+  };
+};
+
+const CURRENCIES: Record<string, string> = { $: "USD", "€": "EUR", "£": "GBP", "¥": "JPY" };
+
+// Plan prices are free text ("$29/mo", "Custom"); only ones that read as a price become offers.
+const toOffer = (name: string, meta?: string) => {
+  const match = meta?.match(/^\s*([$€£¥])\s?(\d+(?:[.,]\d{1,2})?)/);
+  if (!match) return [];
+  return [{ "@type": "Offer", name, price: match[2].replace(",", "."), priceCurrency: CURRENCIES[match[1]] }];
+};
+
+export const buildJsonLd = (blueprint: PageBlueprint, seo: SeoMeta) => {
+  const offers = blueprint.sections
+    .filter((section) => section.kind === "pricing")
+    .flatMap((section) => section.items?.flatMap((item) => toOffer(item.title, item.meta)) ?? []);
+  const faq = blueprint.sections.find((section) => section.kind === "faq");
+
+  const main = {
+    "@context": "https://schema.org",
+    "@type": seo.schemaType,
+    name: seo.siteName,
+    description: seo.description,
+    ...(seo.canonicalUrl ? { url: seo.canonicalUrl } : {}),
+    ...(seo.image ? { image: seo.image } : {}),
+    ...(seo.schemaType === "SoftwareApplication"
+      ? { applicationCategory: "BusinessApplication", operatingSystem: "Web" }
+      : {}),
+    ...(offers.length ? { offers } : {}),
+  };
+
+  return [
+    main,
+    ...(seo.faq && faq?.items?.length
+      ? [
+          {
+            "@context": "https://schema.org",
+            "@type": "FAQPage",
+            mainEntity: faq.items.map((item) => ({
+              "@type": "Question",
+              name: item.title,
+              acceptedAnswer: { "@type": "Answer", text: item.description },
+            })),
+          },
+        ]
+      : []),
+  ];
+};
+
+const meta = (attribute: "name" | "property", key: string, value?: string) =>
+  value ? `<meta ${attribute}="${key}" content="${escapeAttribute(value)}" />` : "";
+
+export const seoHeadMarkup = (blueprint: PageBlueprint, seo: SeoMeta) =>
+  [
+    meta("name", "description", seo.description),
+    seo.canonicalUrl ? `<link rel="canonical" href="${escapeAttribute(seo.canonicalUrl)}" />` : "",
+    meta("property", "og:type", "website"),
+    meta("property", "og:title", seo.title),
+    meta("property", "og:description", seo.description),
+    meta("property", "og:site_name", seo.siteName),
+    meta("property", "og:url", seo.canonicalUrl),
+    meta("property", "og:locale", seo.locale?.replace("-", "_")),
+    meta("property", "og:image", seo.image),
+    meta("property", "og:image:width", seo.imageSize && String(seo.imageSize.width)),
+    meta("property", "og:image:height", seo.imageSize && String(seo.imageSize.height)),
+    meta("name", "twitter:card", seo.image ? "summary_large_image" : "summary"),
+    meta("name", "twitter:title", seo.title),
+    meta("name", "twitter:description", seo.description),
+    meta("name", "twitter:image", seo.image),
+    meta("name", "twitter:site", seo.twitterHandle),
+    // `<` is escaped so copy can't close the script tag.
+    ...buildJsonLd(blueprint, seo).map(
+      (entry) => `<script type="application/ld+json">${JSON.stringify(entry).replace(/</g, "\\u003c")}</script>`,
+    ),
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+export const withSeo = (html: string, blueprint: PageBlueprint, seo?: SeoMeta) => {
+  if (!seo) return html;
+  const cleaned = html.replace(/<meta\s+name=["']description["'][^>]*>\s*/i, "");
+  return injectHead(setDocumentTitle(cleaned, seo.title), seoHeadMarkup(blueprint, seo));
+};
@@ -0,0 +1,41 @@
+import type { PageBlueprint } from "@/lib/sections";
+import type { ShareComment } from "@/lib/share-store";
+
+export type ShareLink = { id: string; url: string; expiresAt: string | null };
+
+export type ShareOptions = { password?: string; expiresInDays?: number | null };
+
+const readJson = async <T>(response: Response, fallback: string) => {
+  const payload = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!response.ok || !payload) throw new Error(payload?.error ?? `${fallback} responded with ${response.status}`);
+  return payload;
+};
+
+export const createShareLink = async (productName: string, blueprint: PageBlueprint, options: ShareOptions) => {
+  const response = await fetch("/api/share", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ productName, blueprint, ...options }),
+  });
+  return readJson<ShareLink>(response, "Sharing");
+};
+
+export type CommentDraft = Pick<ShareComment, "sectionId" | "x" | "y" | "text" | "author">;
+
+export const postShareComment = async (shareId: string, draft: CommentDraft) => {
+  const response = await fetch(`/api/share/${shareId}/comments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(draft),
+  });
+  return (await readJson<{ comment: ShareComment }>(response, "Commenting")).comment;
+};
+
+export const resolveShareComment = async (shareId: string, commentId: string, resolved: boolean) => {
+  const response = await fetch(`/api/share/${shareId}/comments`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ commentId, resolved }),
+  });
+  return (await readJson<{ comments: ShareComment[] }>(response, "Commenting")).comments;
+};
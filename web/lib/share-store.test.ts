@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import { after, before, describe, it } from "node:test";
+import { composeBlueprint } from "@/lib/generator";
+import { INITIAL_FORM, toBlueprintInput } from "@/lib/brief";
+
+type ShareStore = typeof import("@/lib/share-store");
+
+// The store writes under the working directory, so each run gets its own.
+let store: ShareStore;
+let directory: string;
+const startDirectory = process.cwd();
+
+before(async () => {
+  directory = await mkdtemp(`${os.tmpdir()}/shares-`);
+  process.chdir(directory);
+  store = await import("@/lib/share-store");
+});
+
+after(async () => {
+  process.chdir(startDirectory);
+  await rm(directory, { recursive: true, force: true });
+});
+
+const createShare = (password?: string) =>
+  store.createShare({
+    productName: "LaunchPilot",
+    blueprint: composeBlueprint(toBlueprintInput(INITIAL_FORM)),
+    password,
+  });
+
+const comment = { x: 0.5, y: 0.5, text: "Looks good" };
+
+describe("share store", () => {
+  it("locks a link behind its password until the unlock token is shown", async () => {
+    const share = await createShare("hunter2");
+
+    assert.equal(await store.verifyPassword(share, "hunter2"), true);
+    assert.equal(await store.verifyPassword(share, "hunter3"), false);
+    await assert.rejects(store.openShare(share.id), store.ShareLockedError);
+    assert.equal((await store.openShare(share.id, store.unlockToken(share))).id, share.id);
+    await assert.rejects(store.openShare("../../etc/passwd"), store.ShareNotFoundError);
+  });
+
+  it("keeps every comment written at the same moment", async () => {
+    const share = await createShare();
+    await Promise.all(
+      Array.from({ length: 5 }, (_, index) => store.addComment(share.id, { ...comment, text: `${index}` })),
+    );
+
+    assert.equal((await store.getShare(share.id)).comments.length, 5);
+  });
+
+  it("stops taking comments once a link holds the maximum", async () => {
+    const share = await createShare();
+    for (let index = 0; index < store.MAX_COMMENTS_PER_SHARE; index++) await store.addComment(share.id, comment);
+
+    await assert.rejects(store.addComment(share.id, comment), store.ShareCommentsFullError);
+    assert.equal((await store.getShare(share.id)).comments.length, store.MAX_COMMENTS_PER_SHARE);
+  });
+
+  it("counts unlock attempts per client and per link", () => {
+    const now = Date.now();
+    const attempts = (client: string, count: number) =>
+      Array.from({ length: count }, () => store.takeUnlockAttempt("limits", client, now));
+
+    assert.ok(attempts("a", 10).every(Boolean));
+    assert.equal(store.takeUnlockAttempt("limits", "a", now), false);
+    assert.ok(attempts("b", 10).every(Boolean));
+    assert.equal(store.takeUnlockAttempt("limits", "c", now + 15 * 60_000), true);
+  });
+});
+
+describe("unlockClient", () => {
+  const headers = new Headers({ "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.2" });
+
+  it("ignores forwarded addresses unless proxies are configured", () => {
+    assert.equal(store.unlockClient(headers, 0), "unknown");
+    assert.equal(store.unlockClient(headers, NaN), "unknown");
+  });
+
+  it("takes the address the outermost trusted proxy saw, not what the client claims", () => {
+    assert.equal(store.unlockClient(headers, 1), "10.0.0.2");
+    assert.equal(store.unlockClient(headers, 2), "203.0.113.7");
+    assert.equal(store.unlockClient(new Headers(), 1), "unknown");
+    assert.equal(store.unlockClient(new Headers({ "x-forwarded-for": "10.0.0.2" }), 2), "unknown");
+  });
+});
@@ -0,0 +1,217 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { PageBlueprint } from "@/lib/sections";
+
+// One JSON file per link, next to the local leads store. Good enough for review drafts on a single server.
+const SHARES_DIR = path.join(process.cwd(), ".data", "shares");
+
+export type ShareComment = {
+  id: string;
+  // Pins are anchored to a section so they stay on the right content at any viewport width; `x` and `y` are
+  // fractions of that section's box, or of the whole page when the click landed outside every section.
+  sectionId?: string;
+  x: number;
+  y: number;
+  text: string;
+  author?: string;
+  createdAt: string;
+  resolved?: boolean;
+};
+
+export type SharedPage = {
+  id: string;
+  createdAt: string;
+  expiresAt?: string;
+  // `salt:hash`, scrypt.
+  passwordHash?: string;
+  productName: string;
+  blueprint: PageBlueprint;
+  comments: ShareComment[];
+};
+
+export class ShareNotFoundError extends Error {}
+
+export class ShareExpiredError extends Error {}
+
+export class ShareLockedError extends Error {}
+
+export class ShareCommentsFullError extends Error {}
+
+export const SHARE_COOKIE_PREFIX = "lp-share-";
+
+export const MAX_EXPIRY_DAYS = 365;
+
+const COMMENT_LIMIT = 1000;
+
+// Every comment is kept in the link's file and sent with each GET, so one link can't collect them without end.
+export const MAX_COMMENTS_PER_SHARE = 500;
+
+// Ids are random and unguessable; anything else is rejected before it reaches the file system.
+const isShareId = (id: string) => /^[A-Za-z0-9_-]{8,32}$/.test(id);
+
+const shareFile = (id: string) => path.join(SHARES_DIR, `${id}.json`);
+
+// scrypt is slow on purpose; the async form keeps it off the event loop.
+const deriveKey = (password: string, salt: string) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, 32, (error, key) => (error ? reject(error) : resolve(key))),
+  );
+
+const hashPassword = async (password: string, salt = randomBytes(16).toString("hex")) =>
+  `${salt}:${(await deriveKey(password, salt)).toString("hex")}`;
+
+export const verifyPassword = async (share: SharedPage, password: string) => {
+  if (!share.passwordHash) return true;
+  const [salt] = share.passwordHash.split(":");
+  const expected = Buffer.from(share.passwordHash);
+  const actual = Buffer.from(await hashPassword(password, salt));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const UNLOCK_WINDOW_MS = 15 * 60_000;
+const UNLOCK_ATTEMPTS_PER_CLIENT = 10;
+// Across every client, so guessing from many addresses is slowed down too.
+const UNLOCK_ATTEMPTS_PER_SHARE = 50;
+
+const unlockAttempts = new Map<string, { count: number; resetAt: number }>();
+
+// Password attempts are counted per link and per client for `UNLOCK_WINDOW_MS`. Returns false once either limit is
+// reached, before the password is checked; the attempt is counted up front so parallel guesses can't slip past.
+export const takeUnlockAttempt = (shareId: string, client: string, now = Date.now()) => {
+  // Windows that have run out are dropped, so only links and clients trying right now are kept.
+  unlockAttempts.forEach((entry, key) => {
+    if (entry.resetAt <= now) unlockAttempts.delete(key);
+  });
+  const keys = [shareId, `${shareId}:${client}`];
+  const [perShare, perClient] = keys.map((key) => unlockAttempts.get(key)?.count ?? 0);
+  if (perShare >= UNLOCK_ATTEMPTS_PER_SHARE || perClient >= UNLOCK_ATTEMPTS_PER_CLIENT) return false;
+  keys.forEach((key) => {
+    const entry = unlockAttempts.get(key);
+    unlockAttempts.set(
+      key,
+      entry ? { ...entry, count: entry.count + 1 } : { count: 1, resetAt: now + UNLOCK_WINDOW_MS },
+    );
+  });
+  return true;
+};
+
+// Only a proxy can vouch for an address: each one appends the address it saw to `X-Forwarded-For`, so with
+// `proxyHops` proxies in front of the app the client is that many entries from the end, and anything before it is
+// whatever the client chose to send. Without a proxy there's no address to trust, and every attempt counts
+// against one shared allowance.
+export const unlockClient = (headers: Headers, proxyHops: number) => {
+  if (!(proxyHops >= 1)) return "unknown";
+  const forwarded = (headers.get("x-forwarded-for") ?? "").split(",").map((entry) => entry.trim());
+  return (forwarded.length >= proxyHops && forwarded.at(-proxyHops)) || "unknown";
+};
+
+// The unlock cookie proves the password was entered without storing it; changing the password invalidates it.
+export const unlockToken = (share: SharedPage) =>
+  createHmac("sha256", share.passwordHash ?? "")
+    .update(share.id)
+    .digest("base64url");
+
+export const isUnlocked = (share: SharedPage, token?: string) => {
+  if (!share.passwordHash) return true;
+  if (!token) return false;
+  const expected = Buffer.from(unlockToken(share));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+export const isExpired = (share: SharedPage, now = Date.now()) =>
+  Boolean(share.expiresAt && Date.parse(share.expiresAt) <= now);
+
+// Loads a link for a reviewer; missing, expired and password-locked links throw.
+export const openShare = async (id: string, token?: string) => {
+  const share = await getShare(id);
+  if (isExpired(share)) throw new ShareExpiredError(id);
+  if (!isUnlocked(share, token)) throw new ShareLockedError(id);
+  return share;
+};
+
+export type CreateShareInput = {
+  productName: string;
+  blueprint: PageBlueprint;
+  password?: string;
+  expiresInDays?: number | null;
+};
+
+export const createShare = async ({ productName, blueprint, password, expiresInDays }: CreateShareInput) => {
+  const now = new Date();
+  const share: SharedPage = {
+    id: randomBytes(6).toString("base64url"),
+    createdAt: now.toISOString(),
+    expiresAt: expiresInDays
+      ? new Date(now.getTime() + Math.min(expiresInDays, MAX_EXPIRY_DAYS) * 86_400_000).toISOString()
+      : undefined,
+    passwordHash: password ? await hashPassword(password) : undefined,
+    productName,
+    blueprint,
+    comments: [],
+  };
+  await mkdir(SHARES_DIR, { recursive: true });
+  await writeFile(shareFile(share.id), JSON.stringify(share), "utf8");
+  return share;
+};
+
+export const getShare = async (id: string): Promise<SharedPage> => {
+  if (!isShareId(id)) throw new ShareNotFoundError(id);
+  const contents = await readFile(shareFile(id), "utf8").catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") throw new ShareNotFoundError(id);
+    throw error;
+  });
+  return JSON.parse(contents) as SharedPage;
+};
+
+// Written to a temporary file and renamed over the old one, so a reader never sees half a file.
+const saveShare = async (share: SharedPage) => {
+  const temporary = `${shareFile(share.id)}.${randomBytes(4).toString("hex")}.tmp`;
+  await writeFile(temporary, JSON.stringify(share), "utf8");
+  await rename(temporary, shareFile(share.id));
+};
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+// Read-modify-write of one link runs after the previous one finishes, so two reviewers commenting at the same
+// moment both keep their comment. One process owns the files, like the rest of this store.
+const queueWrite = <T>(shareId: string, write: () => Promise<T>) => {
+  const result = (writeQueues.get(shareId) ?? Promise.resolve()).then(write);
+  const settled = result.catch(() => undefined);
+  writeQueues.set(shareId, settled);
+  void settled.then(() => {
+    if (writeQueues.get(shareId) === settled) writeQueues.delete(shareId);
+  });
+  return result;
+};
+
+const clampFraction = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+
+export const addComment = (shareId: string, input: Pick<ShareComment, "sectionId" | "x" | "y" | "text" | "author">) =>
+  queueWrite(shareId, async () => {
+    const share = await getShare(shareId);
+    if (share.comments.length >= MAX_COMMENTS_PER_SHARE) throw new ShareCommentsFullError(shareId);
+    const comment: ShareComment = {
+      id: randomBytes(6).toString("base64url"),
+      sectionId: share.blueprint.sections.some((section) => section.id === input.sectionId)
+        ? input.sectionId
+        : undefined,
+      x: clampFraction(input.x),
+      y: clampFraction(input.y),
+      text: input.text.trim().slice(0, COMMENT_LIMIT),
+      author: input.author?.trim().slice(0, 80) || undefined,
+      createdAt: new Date().toISOString(),
+    };
+    await saveShare({ ...share, comments: [...share.comments, comment] });
+    return comment;
+  });
+
+export const setCommentResolved = (shareId: string, commentId: string, resolved: boolean) =>
+  queueWrite(shareId, async () => {
+    const share = await getShare(shareId);
+    const comments = share.comments.map((comment) => (comment.id === commentId ? { ...comment, resolved } : comment));
+    await saveShare({ ...share, comments });
+    return comments;
+  });
@@ -0,0 +1,210 @@
+import { toFileStem, type BlueprintInput } from "@/lib/brief";
+import { buildPageHtml } from "@/lib/export-html";
+import { escapeHtml, injectBodyEnd, injectBodyStart, injectHead } from "@/lib/html-document";
+import { resolveSeo } from "@/lib/seo";
+import { createSection, type LandingSection, type PageBlueprint, type SectionKind } from "@/lib/sections";
+import type { ZipEntry } from "@/lib/zip";
+
+export type SitePageId = "home" | "features" | "pricing" | "about" | "changelog";
+
+export type SitePage = {
+  id: SitePageId;
+  navLabel: string;
+  path: string;
+  blueprint: PageBlueprint;
+};
+
+export type SiteBlueprint = {
+  name: string;
+  pages: SitePage[];
+};
+
+type PageTemplate = {
+  id: SitePageId;
+  navLabel: string;
+  path: string;
+  description: string;
+  compose: (input: BlueprintInput, home: PageBlueprint) => Pick<PageBlueprint, "hero" | "sections">;
+};
+
+// Catalog sections get ids scoped to their page so anchors stay stable between renders.
+const catalogSection = (page: SitePageId, kind: SectionKind, input: BlueprintInput): LandingSection => ({
+  ...createSection(kind, input),
+  id: `${page}-${kind}`,
+});
+
+const subpageHero = (home: PageBlueprint, eyebrow: string, title: string, subtitle: string) => ({
+  ...home.hero,
+  eyebrow,
+  title,
+  subtitle,
+});
+
+export const SITE_PAGES: PageTemplate[] = [
+  {
+    id: "home",
+    navLabel: "Home",
+    path: "index.html",
+    description: "The landing page you're editing",
+    compose: (_, home) => ({ hero: home.hero, sections: home.sections }),
+  },
+  {
+    id: "features",
+    navLabel: "Features",
+    path: "features.html",
+    description: "One card per feature from the brief",
+    compose: (input, home) => ({
+      hero: subpageHero(home, "Features", `Everything ${input.productName} does for you`, input.solution),
+      sections: [
+        {
+          id: "features-all",
+          label: "What's inside",
+          headline: `Built for ${input.audience}`,
+          body: input.differentiator,
+          items: input.features.map((feature) => ({
+            title: feature,
+            description: `${input.productName} handles this for you, so your team can stay on the work that matters.`,
+          })),
+        },
+        catalogSection("features", "comparison", input),
+      ],
+    }),
+  },
+  {
+    id: "pricing",
+    navLabel: "Pricing",
+    path: "pricing.html",
+    description: "Plans plus the FAQ that unblocks buying",
+    compose: (input, home) => ({
+      hero: subpageHero(
+        home,
+        "Pricing",
+        `Simple pricing for ${input.audience}`,
+        `Start free, upgrade when ${input.productName} is pulling its weight.`,
+      ),
+      sections: [catalogSection("pricing", "pricing", input), catalogSection("pricing", "faq", input)],
+    }),
+  },
+  {
+    id: "about",
+    navLabel: "About",
+    path: "about.html",
+    description: "The problem, the mission and social proof",
+    compose: (input, home) => ({
+      hero: subpageHero(home, "About", `Why we built ${input.productName}`, input.problem),
+      sections: [
+        {
+          id: "about-mission",
+          label: "Our mission",
+          headline: input.oneLiner,
+          body: input.solution,
+          items: [
+            { title: "The problem", description: input.problem },
+            { title: "What makes us different", description: input.differentiator },
+          ],
+        },
+        catalogSection("about", "testimonials", input),
+        catalogSection("about", "logos", input),
+      ],
+    }),
+  },
+  {
+    id: "changelog",
+    navLabel: "Changelog",
+    path: "changelog.html",
+    description: "Release notes seeded from your feature list",
+    compose: (input, home) => ({
+      hero: subpageHero(
+        home,
+        "Changelog",
+        `What's new in ${input.productName}`,
+        "Every improvement we ship, newest first.",
+      ),
+      sections: input.features.map((feature, index) => ({
+        id: `changelog-${index + 1}`,
+        label: `v1.${input.features.length - index - 1}`,
+        headline: feature,
+        body: `Shipped for ${input.audience}.`,
+      })),
+    }),
+  },
+];
+
+export const DEFAULT_SITE_PAGES: SitePageId[] = ["home", "features", "pricing"];
+
+// The home page is the blueprint being edited; the rest are composed around it so theme and hero style match.
+export const composeSite = (
+  name: string,
+  input: BlueprintInput,
+  home: PageBlueprint,
+  pageIds: SitePageId[],
+): SiteBlueprint => ({
+  name,
+  pages: SITE_PAGES.filter((template) => template.id === "home" || pageIds.includes(template.id)).map((template) => ({
+    id: template.id,
+    navLabel: template.navLabel,
+    path: template.path,
+    blueprint: {
+      ...home,
+      ...template.compose(input, home),
+      removedSectionIds: undefined,
+      // The home page's title, description and canonical URL would be wrong on every other page.
+      seo:
+        template.id === "home"
+          ? home.seo
+          : { ...home.seo, title: undefined, description: undefined, canonicalUrl: undefined },
+    },
+  })),
+});
+
+const NAV_CSS = `
+.lp-site-nav, .lp-site-footer { font: 500 14px/1.4 system-ui, sans-serif; padding: 16px 32px; display: flex; flex-wrap: wrap; gap: 8px 24px; align-items: center; }
+.lp-site-nav { justify-content: space-between; border-bottom: 1px solid rgba(15, 23, 42, 0.08); background: #fff; }
+.lp-site-nav a, .lp-site-footer a { color: inherit; text-decoration: none; opacity: 0.75; }
+.lp-site-nav a:hover, .lp-site-footer a:hover, .lp-site-nav a[aria-current="page"] { opacity: 1; }
+.lp-site-nav .lp-site-name, .lp-site-footer .lp-site-next { font-weight: 700; opacity: 1; }
+.lp-site-links { display: flex; flex-wrap: wrap; gap: 8px 20px; }
+.lp-site-footer { justify-content: space-between; border-top: 1px solid rgba(15, 23, 42, 0.08); color: #475569; }
+`;
+
+const renderLinks = (site: SiteBlueprint, current: SitePage) =>
+  site.pages
+    .map(
+      (page) =>
+        `<a href="${page.path}"${page.id === current.id ? ' aria-current="page"' : ""}>${escapeHtml(page.navLabel)}</a>`,
+    )
+    .join("");
+
+const pageUrl = (baseUrl: string, page: SitePage) =>
+  baseUrl ? `${baseUrl}/${page.id === "home" ? "" : page.path}` : undefined;
+
+export const buildSiteFiles = (site: SiteBlueprint, siteUrl: string, appUrl?: string): ZipEntry[] => {
+  const root = `${toFileStem(site.name)}-site`;
+  const baseUrl = siteUrl.trim().replace(/\/+$/, "");
+  const year = new Date().getFullYear();
+
+  const pages = site.pages.map((page, index): ZipEntry => {
+    const next = site.pages[(index + 1) % site.pages.length];
+    const nav = `<nav class="lp-site-nav" aria-label="Site"><a class="lp-site-name" href="index.html">${escapeHtml(site.name)}</a><div class="lp-site-links">${renderLinks(site, page)}</div></nav>`;
+    const footer = `<footer class="lp-site-footer"><span>© ${year} ${escapeHtml(site.name)}</span><a class="lp-site-next" href="${next.path}">Next: ${escapeHtml(next.navLabel)} →</a><div class="lp-site-links">${renderLinks(site, page)}</div></footer>`;
+    const seo = resolveSeo(page.blueprint, { productName: site.name, pageUrl: pageUrl(baseUrl, page), appUrl });
+    let html = buildPageHtml(page.blueprint, { seo, appUrl });
+    html = injectHead(html, `<style data-launchpilot-site>${NAV_CSS}</style>`);
+    html = injectBodyEnd(injectBodyStart(html, nav), footer);
+    return { path: `${root}/${page.path}`, contents: html };
+  });
+
+  const lastModified = new Date().toISOString().slice(0, 10);
+  const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${site.pages
+  .map(
+    (page) =>
+      `  <url>\n    <loc>${escapeHtml(pageUrl(baseUrl, page) ?? "")}</loc>\n    <lastmod>${lastModified}</lastmod>\n  </url>`,
+  )
+  .join("\n")}
+</urlset>
+`;
+
+  return [...pages, { path: `${root}/sitemap.xml`, contents: sitemap }];
+};
@@ -0,0 +1,28 @@
+export const encodeEvent = (data: unknown) => `data: ${JSON.stringify(data)}\n\n`;
+
+// Reads a `text/event-stream` body, calling `onData` with each `data:` payload. Works for both our own route
+// handlers and OpenAI-compatible streams, which end with a literal `[DONE]` payload.
+export const readEventStream = async (body: ReadableStream<Uint8Array>, onData: (data: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (chunk: string) => {
+    const data = chunk
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (data) onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split(/\r?\n\r?\n/);
+    buffer = chunks.pop() ?? "";
+    chunks.forEach(flush);
+  }
+  flush(buffer + decoder.decode());
+};
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ReactElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { THEMES, TONES, composeBlueprint, type ThemeOption } from "@/lib/generator";
+import { LandingPage } from "@/components/landing-page";
+import { HERO_LAYOUTS, INITIAL_FORM, toBlueprintInput, type FormState } from "@/lib/brief";
+import { SECTION_CATALOG, createSection, insertSection, type PageBlueprint } from "@/lib/sections";
+import { renderStaticMarkup } from "@/lib/static-markup";
+import { applyThemeStyle, createCustomTheme } from "@/lib/themes";
+import { illustratePage, setHeroImage } from "@/lib/visuals";
+
+// `renderStaticMarkup` stands in for `renderToStaticMarkup` where the latter can't run, so React is the snapshot:
+// every page must serialize to exactly what React would have written.
+const assertMatchesReact = (element: ReactElement) =>
+  assert.equal(renderStaticMarkup(element), renderToStaticMarkup(element));
+
+// Every branch the export can take: catalog sections, illustrations, a lead form and a link CTA.
+const fullPage = (form: FormState, theme?: ThemeOption): PageBlueprint => {
+  const input = toBlueprintInput(form, theme ? [theme] : undefined);
+  const generated: PageBlueprint = composeBlueprint(input);
+  const page = SECTION_CATALOG.reduce(
+    (current, entry, index) => insertSection(current, createSection(entry.kind, input, index), current.sections.length),
+    generated,
+  );
+  return illustratePage({
+    ...(theme ? applyThemeStyle(page, theme) : page),
+    ctas: { primary: { type: "form", form: "waitlist" }, secondary: { type: "url", url: "https://example.com/demo" } },
+  });
+};
+
+const exported = (blueprint: PageBlueprint) => (
+  <LandingPage blueprint={blueprint} standalone lead={{ appUrl: "https://app.example.com", page: "home" }} />
+);
+
+describe("renderStaticMarkup", () => {
+  THEMES.forEach((theme) =>
+    TONES.forEach((tone) =>
+      HERO_LAYOUTS.forEach((layout) =>
+        it(`matches React for ${theme.id} × ${tone.id} × ${layout.id}`, () =>
+          assertMatchesReact(
+            exported(fullPage({ ...INITIAL_FORM, themeId: theme.id, toneId: tone.id, heroLayout: layout.id })),
+          )),
+      ),
+    ),
+  );
+
+  it("matches React for a custom theme's fonts, radius and gradient", () => {
+    const theme = createCustomTheme(THEMES[0], "linear-gradient(120deg, #6366f1, #ec4899)");
+    assertMatchesReact(exported(fullPage({ ...INITIAL_FORM, themeId: theme.id }, theme)));
+  });
+
+  it("escapes text like React", () => {
+    const copy = `<script>alert("hi")</script> & 'quoted' > "double"`;
+    const page = fullPage({ ...INITIAL_FORM, productName: copy, oneLiner: copy, featuresText: copy });
+    const element = exported({ ...page, hero: { ...page.hero, title: copy, eyebrow: copy } });
+    assertMatchesReact(element);
+    assert.ok(!renderStaticMarkup(element).includes("<script>"));
+  });
+
+  it("escapes attributes like React", () => {
+    const alt = `"Team" <photo> & 'friends'`;
+    const page = setHeroImage(fullPage(INITIAL_FORM), { illustration: "scene", alt });
+    const element = exported({
+      ...page,
+      ctas: { secondary: { type: "url", url: `https://example.com/?q="a"&b='c'<d>` } },
+    });
+    assertMatchesReact(element);
+    assert.ok(renderStaticMarkup(element).includes(`alt="&quot;Team&quot; &lt;photo&gt; &amp; &#x27;friends&#x27;"`));
+  });
+
+  it("serializes style like React", () => {
+    const theme = createCustomTheme(THEMES[0], "linear-gradient(90deg, #000, #fff)");
+    const styled = {
+      ...theme,
+      style: { ...theme.style, headingFont: `"Gill Sans", 'Trebuchet MS', sans-serif`, bodyFont: "a<b>&c", radius: 0 },
+    };
+    assertMatchesReact(exported(fullPage({ ...INITIAL_FORM, themeId: styled.id }, styled)));
+    assertMatchesReact(
+      <div
+        style={{ opacity: 0.5, zIndex: 2, marginTop: 8, padding: 0, lineHeight: 1.4, "--lp-accent": "#fff" } as object}
+      >
+        <span style={{}}>Empty style</span>
+      </div>,
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { Fragment, isValidElement, type CSSProperties, type ReactElement, type ReactNode } from "react";
+
+// `react-dom/server` throws under the react-server condition that route handlers and server components run with,
+// so exports serialize the render tree here instead. Only plain function components are supported: no hooks,
+// context or suspense, which the landing page tree doesn't use. The output matches `renderToStaticMarkup` for the
+// landing page tree; static-markup.test.tsx holds it to that.
+
+const ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#x27;" };
+
+// React escapes text and attribute values alike.
+const escapeMarkup = (value: string) => value.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+
+const VOID_ELEMENTS = new Set(["area", "br", "col", "hr", "img", "input", "link", "meta", "source", "wbr"]);
+
+// React keeps prop names as written apart from these.
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  className: "class",
+  htmlFor: "for",
+  tabIndex: "tabindex",
+  httpEquiv: "http-equiv",
+  acceptCharset: "accept-charset",
+  crossOrigin: "crossorigin",
+  autoFocus: "autofocus",
+  multiple: "multiple",
+  muted: "muted",
+};
+
+// Written as `name=""` when set and dropped otherwise.
+const BOOLEAN_ATTRIBUTES = new Set([
+  "allowFullScreen",
+  "async",
+  "autoFocus",
+  "autoPlay",
+  "controls",
+  "default",
+  "defer",
+  "disabled",
+  "formNoValidate",
+  "hidden",
+  "inert",
+  "loop",
+  "multiple",
+  "muted",
+  "noModule",
+  "noValidate",
+  "open",
+  "playsInline",
+  "readOnly",
+  "required",
+  "reversed",
+  "itemScope",
+]);
+
+// React writes these after every other prop, in this order.
+const TRAILING_PROPS: Record<string, string[]> = {
+  form: ["action", "encType", "method", "target"],
+  input: ["name", "formAction", "formEncType", "formMethod", "formTarget", "checked", "value"],
+  button: ["name", "formAction", "formEncType", "formMethod", "formTarget"],
+};
+
+// The unitless properties the tree can set; React's full list is longer.
+const UNITLESS = new Set(["flex", "flexGrow", "flexShrink", "fontWeight", "lineHeight", "opacity", "order", "zIndex"]);
+
+const styleText = (style: CSSProperties) =>
+  Object.entries(style)
+    .filter(([, value]) => value !== undefined && value !== null && typeof value !== "boolean" && value !== "")
+    .map(([property, value]) => {
+      const name = property.startsWith("--")
+        ? property
+        : property.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`).replace(/^ms-/, "-ms-");
+      const text =
+        typeof value === "number" && value !== 0 && !UNITLESS.has(property) ? `${value}px` : String(value).trim();
+      return `${escapeMarkup(name)}:${escapeMarkup(text)}`;
+    })
+    .join(";");
+
+const attributeText = (name: string, value: unknown) => {
+  if (value === undefined || value === null || typeof value === "function" || typeof value === "symbol") return "";
+  const attribute = ATTRIBUTE_NAMES[name] ?? name;
+  if (BOOLEAN_ATTRIBUTES.has(name)) return value ? ` ${attribute}=""` : "";
+  if (name === "style") {
+    const text = styleText(value as CSSProperties);
+    return text ? ` style="${text}"` : "";
+  }
+  // Only `aria-*` and `data-*` keep booleans, as "true" and "false".
+  if (typeof value === "boolean" && !/^(?:data|aria)-/i.test(name)) return "";
+  return ` ${attribute}="${escapeMarkup(String(value))}"`;
+};
+
+const SKIPPED_PROPS = new Set([
+  "children",
+  "key",
+  "ref",
+  "dangerouslySetInnerHTML",
+  "defaultValue",
+  "defaultChecked",
+  "suppressContentEditableWarning",
+  "suppressHydrationWarning",
+]);
+
+export const renderStaticMarkup = (node: ReactNode): string => {
+  if (node === null || node === undefined || typeof node === "boolean") return "";
+  if (typeof node === "string" || typeof node === "number" || typeof node === "bigint")
+    return escapeMarkup(String(node));
+  if (typeof node === "object" && Symbol.iterator in node) return [...node].map(renderStaticMarkup).join("");
+  if (!isValidElement(node)) throw new Error("Only elements, text and arrays can be rendered to static markup");
+
+  const { type, props } = node as ReactElement<Record<string, unknown> & { children?: ReactNode }>;
+  if (type === Fragment) return renderStaticMarkup(props.children);
+  if (typeof type === "function") return renderStaticMarkup((type as (props: object) => ReactNode)(props));
+  if (typeof type !== "string") throw new Error("Static markup only supports function components");
+
+  const trailing = TRAILING_PROPS[type] ?? [];
+  const attributes = [
+    ...Object.entries(props).filter(([name]) => !trailing.includes(name)),
+    ...trailing.map((name) => [name, props[name]] as const),
+  ]
+    .filter(([name]) => !SKIPPED_PROPS.has(name) && !/^on./i.test(name))
+    .map(([name, value]) => attributeText(name, value))
+    .join("");
+  if (VOID_ELEMENTS.has(type)) return `<${type}${attributes}/>`;
+  const inner = props.dangerouslySetInnerHTML as { __html?: string } | undefined;
+  return `<${type}${attributes}>${inner?.__html ?? renderStaticMarkup(props.children)}</${type}>`;
+};
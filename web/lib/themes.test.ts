@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { THEMES } from "@/lib/generator";
+import { createCustomTheme, parseTheme } from "@/lib/themes";
+
+const custom = createCustomTheme(THEMES[0], "linear-gradient(120deg, #6366f1, #ec4899)");
+
+describe("parseTheme", () => {
+  it("swaps a built-in theme for this side's copy", () => {
+    assert.equal(parseTheme({ ...THEMES[0], palette: { text: "red;}" } }, THEMES), THEMES[0]);
+  });
+
+  it("accepts a well-formed custom theme", () => {
+    assert.equal(parseTheme(custom, THEMES), custom);
+  });
+
+  it("rejects custom themes with missing or non-color colors", () => {
+    [
+      { ...custom, palette: { surface: custom.palette.surface } },
+      { ...custom, palette: { ...custom.palette, text: 42 } },
+      { ...custom, palette: { ...custom.palette, text: "#fff; background: url(x)" } },
+      { ...custom, style: { ...custom.style, gradientStops: ["#fff", "javascript:alert(1)"] } },
+    ].forEach((theme) => assert.equal(parseTheme(theme, THEMES), null));
+  });
+
+  it("rejects styles that could break out of their declaration", () => {
+    [
+      { ...custom, style: { ...custom.style, headingFont: "serif; color: red" } },
+      { ...custom, style: { ...custom.style, radius: "24px" } },
+      { ...custom, style: { ...custom.style, logo: "javascript:alert(1)" } },
+      { ...custom, style: undefined },
+      "aurora",
+      null,
+    ].forEach((theme) => assert.equal(parseTheme(theme, THEMES), null));
+  });
+});
@@ -0,0 +1,106 @@
+import type { ThemeOption } from "@/lib/generator";
+import { extractColors, parseColor } from "@/lib/colors";
+import type { PageBlueprint } from "@/lib/sections";
+
+export type ThemeStyle = {
+  gradientStops: string[];
+  gradientAngle: number;
+  headingFont: string;
+  bodyFont: string;
+  radius: number;
+  logo?: string;
+};
+
+export type CustomTheme = ThemeOption & {
+  custom: true;
+  style: ThemeStyle;
+};
+
+// Web-safe stacks only: exported pages can't rely on the fonts this app loads.
+export const FONT_STACKS = [
+  { id: "system", label: "System sans", stack: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif' },
+  { id: "humanist", label: "Humanist", stack: '"Gill Sans", Seravek, "Trebuchet MS", sans-serif' },
+  { id: "serif", label: "Serif", stack: 'ui-serif, Georgia, Cambria, "Times New Roman", serif' },
+  { id: "rounded", label: "Rounded", stack: 'ui-rounded, "SF Pro Rounded", Nunito, system-ui, sans-serif' },
+  { id: "mono", label: "Monospace", stack: 'ui-monospace, "SF Mono", Menlo, Consolas, monospace' },
+];
+
+export const MAX_GRADIENT_STOPS = 4;
+
+export const isCustomTheme = (theme: ThemeOption): theme is CustomTheme =>
+  (theme as Partial<CustomTheme>).custom === true;
+
+export const toGradient = ({ gradientStops, gradientAngle }: Pick<ThemeStyle, "gradientStops" | "gradientAngle">) =>
+  `linear-gradient(${gradientAngle}deg, ${gradientStops.join(", ")})`;
+
+// Starts from an existing theme and the gradient it produced, so the editor opens on something familiar.
+export const createCustomTheme = (base: ThemeOption, gradient: string): CustomTheme => {
+  const stops = extractColors(gradient).slice(0, MAX_GRADIENT_STOPS);
+  return {
+    ...base,
+    id: `custom-${crypto.randomUUID()}`,
+    name: isCustomTheme(base) ? `${base.name} copy` : `My ${base.name}`,
+    custom: true,
+    style: {
+      gradientStops: stops.length >= 2 ? stops : [base.palette.surface, base.palette.text],
+      gradientAngle: Number(gradient.match(/(-?\d+(?:\.\d+)?)deg/)?.[1] ?? 135),
+      headingFont: FONT_STACKS[0].stack,
+      bodyFont: FONT_STACKS[0].stack,
+      radius: 24,
+    },
+  };
+};
+
+// Built-in themes leave the generator's gradient alone; custom ones replace it and carry fonts and radius along.
+export const applyThemeStyle = (blueprint: PageBlueprint, theme: ThemeOption): PageBlueprint => {
+  if (!isCustomTheme(theme)) return { ...blueprint, style: undefined };
+  return {
+    ...blueprint,
+    palette: { ...blueprint.palette, ...theme.palette },
+    gradient: toGradient(theme.style),
+    style: theme.style,
+  };
+};
+
+const isColor = (value: unknown) => typeof value === "string" && parseColor(value) !== null;
+
+// Family names, quotes, commas and `var()`; nothing that could end the declaration it's written into.
+const FONT_STACK_PATTERN = /^[\w\s"',.()-]+$/;
+
+export const isThemeStyle = (value: unknown): value is ThemeStyle => {
+  if (typeof value !== "object" || value === null) return false;
+  const { gradientStops, gradientAngle, headingFont, bodyFont, radius, logo } = value as Record<string, unknown>;
+  return (
+    Array.isArray(gradientStops) &&
+    gradientStops.length >= 2 &&
+    gradientStops.length <= MAX_GRADIENT_STOPS &&
+    gradientStops.every(isColor) &&
+    Number.isFinite(gradientAngle) &&
+    [headingFont, bodyFont].every((font) => typeof font === "string" && FONT_STACK_PATTERN.test(font)) &&
+    Number.isFinite(radius) &&
+    (logo === undefined || (typeof logo === "string" && /^(https?:|data:image\/|\/)/.test(logo)))
+  );
+};
+
+// A theme that came from the browser. Built-in themes are swapped for this side's own copy; custom ones must carry
+// real colors and a well-formed style, since both end up in the page's CSS. Anything else is null.
+export const parseTheme = (value: unknown, builtIn: ThemeOption[]): ThemeOption | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const theme = value as Partial<CustomTheme>;
+  const known = builtIn.find((option) => option.id === theme.id);
+  if (known) return known;
+  const palette: unknown = theme.palette;
+  const validPalette =
+    typeof palette === "object" &&
+    palette !== null &&
+    isColor((palette as Record<string, unknown>).text) &&
+    isColor((palette as Record<string, unknown>).surface) &&
+    Object.values(palette).every((color) => color === undefined || isColor(color));
+  return theme.custom === true &&
+    typeof theme.id === "string" &&
+    typeof theme.name === "string" &&
+    validPalette &&
+    isThemeStyle(theme.style)
+    ? (theme as CustomTheme)
+    : null;
+};
@@ -0,0 +1,165 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useState, useSyncExternalStore } from "react";
+import type { SetStateAction, SyntheticEvent } from "react";
+import type { FormState } from "@/lib/brief";
+import {
+  TEXT_FIELDS,
+  collabKey,
+  createRoomId,
+  displayName,
+  fromCharIndex,
+  isRoomId,
+  profileOf,
+  toCharIndex,
+  type CollabPeer,
+} from "@/lib/collab";
+import { createCollabSession, type CollabSession } from "@/lib/collab-session";
+import { anchorIndex, textAnchor, type OpId } from "@/lib/crdt";
+import type { EditorSnapshot } from "@/lib/history";
+
+const NAME_KEY = "launchpilot:collab-name";
+const ROOM_PARAM = "room";
+
+// A teammate in a field; `caret` is a UTF-16 offset into its value, ready for the DOM.
+export type PeerCaret = CollabPeer & { caret?: number };
+
+export type FieldAuthor = { name: string; color: string; at: number; self: boolean };
+
+export type FieldCollaboration = {
+  field: keyof FormState;
+  peers: PeerCaret[];
+  author?: FieldAuthor;
+  // Focus and selection changes inside the field, reported as this tab's presence.
+  onActivity: (event: SyntheticEvent) => void;
+  onLeave: () => void;
+};
+
+const setRoomParam = (roomId: string | null) => {
+  const url = new URL(window.location.href);
+  if (roomId) {
+    url.searchParams.set(ROOM_PARAM, roomId);
+  } else {
+    url.searchParams.delete(ROOM_PARAM);
+  }
+  window.history.replaceState(window.history.state, "", url);
+};
+
+const isTextField = (field: keyof FormState) => (TEXT_FIELDS as readonly string[]).includes(field);
+
+// `useState`-style setters over one part of the editor, so callers don't change when collaboration is on.
+const partSetter =
+  <K extends keyof EditorSnapshot>(session: CollabSession, part: K) =>
+  (action: SetStateAction<EditorSnapshot[K]>) =>
+    session.update((editor) => {
+      const value =
+        typeof action === "function"
+          ? (action as (current: EditorSnapshot[K]) => EditorSnapshot[K])(editor[part])
+          : action;
+      return value === editor[part] ? editor : { ...editor, [part]: value };
+    });
+
+// Holds the brief, the page and its copy edits, shared live with everyone who opens the same `?room=` link.
+export const useCollaboration = (initial: () => EditorSnapshot) => {
+  const [session] = useState(() => createCollabSession(initial()));
+  const state = useSyncExternalStore(session.subscribe, session.getState, session.getState);
+
+  useEffect(() => {
+    session.rename(window.localStorage.getItem(NAME_KEY) ?? "");
+    const roomId = new URLSearchParams(window.location.search).get(ROOM_PARAM);
+    if (roomId && isRoomId(roomId)) session.join(roomId);
+    return () => session.leave();
+  }, [session]);
+
+  // Remote text landing in the focused field would otherwise throw the caret to the end.
+  useLayoutEffect(() => session.restoreSelection(), [session, state.editor]);
+
+  const setters = useMemo(
+    () => ({
+      setForm: partSetter(session, "form"),
+      setBlueprint: partSetter(session, "blueprint"),
+      setEdits: partSetter(session, "edits"),
+    }),
+    [session],
+  );
+
+  const start = useCallback(() => {
+    const roomId = createRoomId();
+    setRoomParam(roomId);
+    session.join(roomId);
+  }, [session]);
+
+  const leave = useCallback(() => {
+    setRoomParam(null);
+    session.leave();
+  }, [session]);
+
+  // The editor as it is now, for async work that finishes after the render it started from.
+  const getEditor = useCallback(() => session.getState().editor, [session]);
+
+  const rename = useCallback(
+    (name: string) => {
+      window.localStorage.setItem(NAME_KEY, name);
+      session.rename(name);
+    },
+    [session],
+  );
+
+  const trackField = (field: keyof FormState, target: EventTarget) => {
+    const { doc } = session.getState();
+    let caret: OpId | null | undefined;
+    if (
+      doc &&
+      isTextField(field) &&
+      (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) &&
+      target.selectionEnd !== null
+    ) {
+      caret = textAnchor(doc, collabKey.field(field), toCharIndex(target.value, target.selectionEnd));
+    }
+    session.setPresence({ field, caret });
+  };
+
+  // Presence and last-edit attribution for one brief field; undefined outside a room.
+  const field = (name: keyof FormState): FieldCollaboration | undefined => {
+    const { doc, self, peers, editor } = state;
+    if (!doc || !self) return undefined;
+    const key = collabKey.field(name);
+    const value = editor.form[name];
+    const authorship = doc.authors[key];
+    const mine = authorship?.client === self.id;
+    // People who have left are still named from the profile they wrote into the document.
+    const profile =
+      authorship &&
+      (mine ? self : (peers.find((peer) => peer.id === authorship.client) ?? profileOf(doc, authorship.client)));
+    const author = authorship && {
+      name: mine ? "you" : displayName(profile?.name ?? ""),
+      color: profile?.color ?? "#94a3b8",
+      at: authorship.at,
+      self: mine,
+    };
+    return {
+      field: name,
+      peers: peers
+        .filter((peer) => peer.presence.field === name)
+        .map((peer) => {
+          const index = peer.presence.caret === undefined ? null : anchorIndex(doc, key, peer.presence.caret);
+          return { ...peer, caret: index === null ? undefined : fromCharIndex(value, index) };
+        }),
+      author,
+      onActivity: (event) => trackField(name, event.target),
+      onLeave: () => session.setPresence({}),
+    };
+  };
+
+  return {
+    ...state,
+    ...setters,
+    getEditor,
+    start,
+    leave,
+    rename,
+    field,
+  };
+};
+
+export type Collaboration = ReturnType<typeof useCollaboration>;
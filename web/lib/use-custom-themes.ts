@@ -0,0 +1,64 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { isCustomTheme, type CustomTheme } from "@/lib/themes";
+
+const STORAGE_KEY = "launchpilot:custom-themes";
+const EMPTY: CustomTheme[] = [];
+
+const listeners = new Set<() => void>();
+let cache: CustomTheme[] | null = null;
+
+const read = (): CustomTheme[] => {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return EMPTY;
+    return parsed.filter(
+      (entry): entry is CustomTheme => typeof entry === "object" && entry !== null && isCustomTheme(entry),
+    );
+  } catch (error) {
+    console.error("Failed to read custom themes", error);
+    return EMPTY;
+  }
+};
+
+const write = (themes: CustomTheme[]) => {
+  cache = themes;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+  } catch (error) {
+    console.error("Failed to save custom themes", error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  // Other tabs editing the same themes.
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cache = null;
+    listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+const getSnapshot = () => (cache ??= read());
+
+export const useCustomThemes = () => {
+  const themes = useSyncExternalStore(subscribe, getSnapshot, () => EMPTY);
+
+  const saveTheme = (theme: CustomTheme) => {
+    const current = getSnapshot();
+    const exists = current.some((entry) => entry.id === theme.id);
+    write(exists ? current.map((entry) => (entry.id === theme.id ? theme : entry)) : [...current, theme]);
+  };
+
+  const deleteTheme = (id: string) => write(getSnapshot().filter((theme) => theme.id !== id));
+
+  return { themes, saveTheme, deleteTheme };
+};
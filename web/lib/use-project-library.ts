@@ -0,0 +1,180 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LandingBlueprint } from "@/lib/generator";
+import type { FormState } from "@/lib/brief";
+import type { PageBlueprint } from "@/lib/sections";
+import {
+  addVersion,
+  createProject,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  saveProject,
+  updateVersion,
+  type Project,
+  type ProjectVersion,
+  type VersionContent,
+  type VersionPatch,
+} from "@/lib/library";
+
+const ACTIVE_PROJECT_KEY = "launchpilot:active-project";
+const AUTOSAVE_DELAY = 500;
+
+type UseProjectLibraryOptions = {
+  onOpen: (project: Project, version?: ProjectVersion) => void;
+};
+
+export const useProjectLibrary = ({ onOpen }: UseProjectLibraryOptions) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const onOpenRef = useRef(onOpen);
+  const projectsRef = useRef<Project[]>([]);
+  const activeIdRef = useRef<string | null>(null);
+  const autosaveRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    onOpenRef.current = onOpen;
+  }, [onOpen]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listProjects()
+      .then((stored) => {
+        if (cancelled) return;
+        projectsRef.current = stored;
+        setProjects(stored);
+        const restored = stored.find((project) => project.id === window.localStorage.getItem(ACTIVE_PROJECT_KEY));
+        if (restored) {
+          activeIdRef.current = restored.id;
+          setActiveId(restored.id);
+          onOpenRef.current(restored, restored.versions[0]);
+        }
+      })
+      .catch((error) => console.error("Project library unavailable", error))
+      .finally(() => !cancelled && setReady(true));
+    return () => {
+      cancelled = true;
+      if (autosaveRef.current) window.clearTimeout(autosaveRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+    if (activeId) {
+      window.localStorage.setItem(ACTIVE_PROJECT_KEY, activeId);
+    } else {
+      window.localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    }
+  }, [activeId, ready]);
+
+  const activeProject = projects.find((project) => project.id === activeId) ?? null;
+
+  const persist = useCallback(async (project: Project) => {
+    projectsRef.current = [project, ...projectsRef.current.filter((entry) => entry.id !== project.id)].sort(
+      (a, b) => b.updatedAt - a.updatedAt,
+    );
+    setProjects(projectsRef.current);
+    try {
+      await saveProject(project);
+    } catch (error) {
+      console.error("Saving project failed", error);
+    }
+    return project;
+  }, []);
+
+  const activate = (id: string | null) => {
+    activeIdRef.current = id;
+    setActiveId(id);
+  };
+
+  const create = async (name: string, brief: FormState, blueprint?: PageBlueprint, content?: VersionContent) => {
+    const project = await persist(createProject(name, brief, blueprint, content));
+    activate(project.id);
+    return project;
+  };
+
+  const open = (project: Project, version: ProjectVersion | undefined = project.versions[0]) => {
+    activate(project.id);
+    onOpenRef.current(project, version);
+  };
+
+  const close = () => activate(null);
+
+  const rename = (project: Project, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === project.name) return;
+    void persist({ ...project, name: trimmed, updatedAt: Date.now() });
+  };
+
+  const duplicate = async (project: Project) => {
+    const copy = await persist(duplicateProject(project));
+    open(copy);
+  };
+
+  const remove = async (project: Project) => {
+    projectsRef.current = projectsRef.current.filter((entry) => entry.id !== project.id);
+    setProjects(projectsRef.current);
+    if (project.id === activeIdRef.current) activate(null);
+    try {
+      await deleteProject(project.id);
+    } catch (error) {
+      console.error("Deleting project failed", error);
+    }
+  };
+
+  // Timers and generation callbacks outlive the render that scheduled them, so always read the latest project.
+  const getActive = useCallback(
+    () => projectsRef.current.find((project) => project.id === activeIdRef.current),
+    [],
+  );
+
+  const saveBrief = useCallback(
+    (brief: FormState) => {
+      if (autosaveRef.current) window.clearTimeout(autosaveRef.current);
+      if (getActive()?.brief === brief) return;
+      autosaveRef.current = window.setTimeout(() => {
+        const project = getActive();
+        if (project) void persist({ ...project, brief, updatedAt: Date.now() });
+      }, AUTOSAVE_DELAY);
+    },
+    [getActive, persist],
+  );
+
+  const recordVersion = useCallback(
+    (blueprint: PageBlueprint, content?: VersionContent) => {
+      const project = getActive();
+      if (!project || project.versions.some((version) => version.generatedAt === blueprint.generatedAt)) return;
+      void persist(addVersion(project, blueprint, content));
+    },
+    [getActive, persist],
+  );
+
+  // Edits and section changes belong to the version they were made on rather than creating a new one.
+  const saveVersion = useCallback(
+    (generatedAt: LandingBlueprint["generatedAt"], patch: VersionPatch) => {
+      const project = getActive();
+      if (!project?.versions.some((entry) => entry.generatedAt === generatedAt)) return;
+      void persist(updateVersion(project, generatedAt, patch));
+    },
+    [getActive, persist],
+  );
+
+  return {
+    projects,
+    activeProject,
+    ready,
+    create,
+    open,
+    close,
+    rename,
+    duplicate,
+    remove,
+    saveBrief,
+    recordVersion,
+    saveVersion,
+  };
+};
+
+export type ProjectLibrary = ReturnType<typeof useProjectLibrary>;
@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  EMPTY_HISTORY,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+  type EditorSnapshot,
+  type History,
+} from "@/lib/history";
+
+type UseUndoHistoryOptions = {
+  current: EditorSnapshot;
+  onRestore: (snapshot: EditorSnapshot) => void;
+  // Nothing is recorded or restored while set, and what was recorded before is dropped.
+  disabled?: boolean;
+};
+
+// Text fields keep the browser's own undo; the shortcuts only apply outside them.
+const isTextTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export const useUndoHistory = ({ current, onRestore, disabled = false }: UseUndoHistoryOptions) => {
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const historyRef = useRef<History>(EMPTY_HISTORY);
+  const currentRef = useRef(current);
+  const onRestoreRef = useRef(onRestore);
+  const disabledRef = useRef(disabled);
+  const [wasDisabled, setWasDisabled] = useState(disabled);
+
+  if (disabled !== wasDisabled) {
+    setWasDisabled(disabled);
+    if (disabled) setHistory(EMPTY_HISTORY);
+  }
+
+  useEffect(() => {
+    currentRef.current = current;
+    onRestoreRef.current = onRestore;
+  }, [current, onRestore]);
+
+  const update = useCallback((next: History) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  useEffect(() => {
+    disabledRef.current = disabled;
+    if (disabled) historyRef.current = EMPTY_HISTORY;
+  }, [disabled]);
+
+  // Call before applying a change: the snapshot taken is the state undo returns to.
+  const record = useCallback(
+    (label: string, group?: string) => {
+      if (!disabledRef.current) update(recordHistory(historyRef.current, currentRef.current, label, group));
+    },
+    [update],
+  );
+
+  const undo = useCallback(() => {
+    const result = undoHistory(historyRef.current, currentRef.current);
+    if (!result) return;
+    update(result.history);
+    onRestoreRef.current(result.snapshot);
+  }, [update]);
+
+  const redo = useCallback(() => {
+    const result = redoHistory(historyRef.current, currentRef.current);
+    if (!result) return;
+    update(result.history);
+    onRestoreRef.current(result.snapshot);
+  }, [update]);
+
+  const clear = useCallback(() => update(EMPTY_HISTORY), [update]);
+
+  useEffect(() => {
+    if (disabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey || isTextTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [disabled, undo, redo]);
+
+  return {
+    entries: history.past,
+    undoLabel: history.past.at(-1)?.label,
+    redoLabel: history.future[0]?.label,
+    record,
+    undo,
+    redo,
+    clear,
+  };
+};
@@ -0,0 +1,77 @@
+import { TONES } from "@/lib/generator";
+import { HERO_LAYOUTS, toFileStem, type FormState } from "@/lib/brief";
+import type { PageBlueprint } from "@/lib/sections";
+
+export type VariantAxis = "tone" | "layout" | "angle";
+
+export type VariantSpec = {
+  letter: string;
+  label: string;
+  form: FormState;
+};
+
+export type Variant = VariantSpec & {
+  // Embedded in every export so analytics can attribute conversions to the arm that produced them.
+  id: string;
+  blueprint: PageBlueprint;
+};
+
+export const VARIANT_AXES: Array<{ id: VariantAxis; label: string; description: string }> = [
+  { id: "tone", label: "Tone", description: "Same brief, a different voice per variant" },
+  { id: "layout", label: "Hero layout", description: "Same copy, a different hero arrangement" },
+  { id: "angle", label: "Copy angle", description: "Lead with the promise, the pain, or the edge" },
+];
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+// An angle decides which part of the brief the hero leads with; the generator writes the rest around it.
+export const COPY_ANGLES: Array<{ id: string; label: string; apply: (form: FormState) => FormState }> = [
+  { id: "promise", label: "Promise-led", apply: (form) => form },
+  { id: "pain", label: "Pain-led", apply: (form) => ({ ...form, oneLiner: form.problem.trim() || form.oneLiner }) },
+  {
+    id: "edge",
+    label: "Differentiator-led",
+    apply: (form) => ({ ...form, oneLiner: form.differentiator.trim() || form.oneLiner }),
+  },
+  {
+    id: "outcome",
+    label: "Outcome-led",
+    apply: (form) => ({ ...form, oneLiner: form.solution.trim() || form.oneLiner }),
+  },
+];
+
+const LETTERS = "ABCDEFGH";
+
+// Variant A is always the brief as written; the rest rotate through the axis starting after the current choice.
+const rotate = <T extends { id: string }>(options: T[], currentId: string) => {
+  const start = Math.max(
+    0,
+    options.findIndex((option) => option.id === currentId),
+  );
+  return options.map((_, index) => options[(start + index) % options.length]);
+};
+
+export const planVariants = (form: FormState, axis: VariantAxis, count: number): VariantSpec[] => {
+  const options =
+    axis === "tone"
+      ? rotate(TONES, form.toneId).map((tone) => ({
+          label: tone.name,
+          form: { ...form, toneId: tone.id },
+        }))
+      : axis === "layout"
+        ? rotate(HERO_LAYOUTS, form.heroLayout).map((layout) => ({
+            label: `${layout.label} hero`,
+            form: { ...form, heroLayout: layout.id },
+          }))
+        : COPY_ANGLES.map((angle) => ({ label: angle.label, form: angle.apply(form) }));
+
+  return options.slice(0, Math.min(count, MAX_VARIANTS, options.length)).map((option, index) => ({
+    ...option,
+    letter: LETTERS[index],
+  }));
+};
+
+// Variants from one run share the batch timestamp, so IDs sort together and differ only by letter.
+export const toVariantId = (productName: string, batchStartedAt: number, letter: string) =>
+  `${toFileStem(productName)}-${batchStartedAt.toString(36)}-${letter.toLowerCase()}`;
@@ -0,0 +1,94 @@
+import {
+  ILLUSTRATION_KINDS,
+  drawIllustration,
+  svgDataUrl,
+  type IllustrationKind,
+  type IllustrationTheme,
+} from "@/lib/illustrations";
+import type { LandingSection, PageBlueprint } from "@/lib/sections";
+
+// Uploads are downscaled and re-encoded in the browser (see `optimizeImage`) and kept as data URLs, so the HTML
+// export embeds them and a page never depends on where the editor ran.
+export type UploadedImage = { src: string; width: number; height: number };
+
+// A slot always has art: the upload when there is one, otherwise an illustration drawn from the theme.
+// An empty alt marks the image as decorative.
+export type ImageSlot = { illustration: IllustrationKind; alt: string; upload?: UploadedImage };
+
+export type ResolvedImage = UploadedImage & { alt: string; kind: IllustrationKind | "upload" };
+
+export const imageSeed = {
+  hero: "hero",
+  item: (sectionId: string, index: number) => `${sectionId}.${index}`,
+};
+
+export const resolveImage = (slot: ImageSlot, theme: IllustrationTheme, seed: string): ResolvedImage => {
+  if (slot.upload) return { ...slot.upload, alt: slot.alt, kind: "upload" };
+  const { svg, width, height } = drawIllustration(slot.illustration, theme, seed);
+  return { src: svgDataUrl(svg), width, height, alt: slot.alt, kind: slot.illustration };
+};
+
+// FAQ answers and comparison rows have nowhere sensible to put a picture.
+export const supportsItemImages = (section: LandingSection) =>
+  section.kind !== "faq" && section.kind !== "comparison" && Boolean(section.items?.length);
+
+export const setHeroImage = (blueprint: PageBlueprint, slot?: ImageSlot): PageBlueprint => ({
+  ...blueprint,
+  heroImage: slot,
+});
+
+const updateItems = (
+  blueprint: PageBlueprint,
+  sectionId: string,
+  update: (image: ImageSlot | undefined, index: number) => ImageSlot | undefined,
+): PageBlueprint => ({
+  ...blueprint,
+  sections: blueprint.sections.map((section) =>
+    section.id === sectionId
+      ? { ...section, items: section.items?.map((item, index) => ({ ...item, image: update(item.image, index) })) }
+      : section,
+  ),
+});
+
+export const setItemImage = (blueprint: PageBlueprint, sectionId: string, index: number, slot?: ImageSlot) =>
+  updateItems(blueprint, sectionId, (image, itemIndex) => (itemIndex === index ? slot : image));
+
+// Switches every item in a section to one kind of illustration, keeping uploads and alt text; none clears them.
+export const setSectionImages = (blueprint: PageBlueprint, sectionId: string, illustration?: IllustrationKind) =>
+  updateItems(blueprint, sectionId, (image) => illustration && { alt: "", ...image, illustration });
+
+// Art in every empty slot in one go, for pages nobody has had design time for.
+export const illustratePage = (blueprint: PageBlueprint): PageBlueprint =>
+  blueprint.sections
+    .filter(supportsItemImages)
+    .reduce<PageBlueprint>(
+      (current, section) => updateItems(current, section.id, (image) => image ?? { illustration: "icon", alt: "" }),
+      { ...blueprint, heroImage: blueprint.heroImage ?? { illustration: "scene", alt: "" } },
+    );
+
+export const describeImage = (slot?: ImageSlot) => {
+  if (!slot) return "";
+  const kind = slot.upload
+    ? "Uploaded image"
+    : ILLUSTRATION_KINDS.find((entry) => entry.id === slot.illustration)?.label;
+  return slot.alt.trim() ? `${kind} “${slot.alt.trim()}”` : (kind ?? "");
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+};
+
+// For exports that ship images as files rather than inline.
+export const decodeDataUrl = (src: string) => {
+  const match = src.match(/^data:([^;,]+)((?:;[^;,]+)*),([\s\S]*)$/);
+  if (!match) return null;
+  const [, type, parameters, data] = match;
+  const bytes = parameters.includes(";base64")
+    ? Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+    : new TextEncoder().encode(decodeURIComponent(data));
+  return { extension: EXTENSIONS[type] ?? "bin", bytes };
+};
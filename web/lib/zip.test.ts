@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildZip } from "@/lib/zip";
+
+// Reads an archive back the way an unzip tool does: from the end record, through the central directory, to each
+// local header.
+const readZip = (archive: Uint8Array) => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const end = archive.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+  let cursor = view.getUint32(end + 16, true);
+  return Array.from({ length: view.getUint16(end + 10, true) }, () => {
+    assert.equal(view.getUint32(cursor, true), 0x02014b50);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const size = view.getUint32(cursor + 20, true);
+    const local = view.getUint32(cursor + 42, true);
+    const entry = {
+      path: decoder.decode(archive.subarray(cursor + 46, cursor + 46 + nameLength)),
+      crc: view.getUint32(cursor + 16, true),
+      time: view.getUint16(cursor + 12, true),
+      date: view.getUint16(cursor + 14, true),
+    };
+    cursor += 46 + nameLength;
+    assert.equal(view.getUint32(local, true), 0x04034b50);
+    assert.equal(view.getUint32(local + 14, true), entry.crc);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    return { ...entry, data: archive.subarray(start, start + size) };
+  });
+};
+
+describe("buildZip", () => {
+  it("stores text as UTF-8 and binary contents as they are", () => {
+    const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    const entries = readZip(
+      buildZip([
+        { path: "landing/README.md", contents: "hello" },
+        { path: "landing/页面.tsx", contents: 'export const title = "Café";' },
+        { path: "landing/logo.png", contents: image },
+      ]),
+    );
+
+    assert.deepEqual(
+      entries.map((entry) => entry.path),
+      ["landing/README.md", "landing/页面.tsx", "landing/logo.png"],
+    );
+    assert.equal(new TextDecoder().decode(entries[1].data), 'export const title = "Café";');
+    assert.deepEqual(entries[2].data, image);
+    // The well-known CRC-32 of "hello".
+    assert.equal(entries[0].crc, 0x3610a686);
+  });
+
+  it("stamps entries with the export time in DOS format", () => {
+    const [entry] = readZip(buildZip([{ path: "a.txt", contents: "" }], new Date(2024, 2, 9, 14, 30, 42)));
+
+    assert.equal(entry.date, ((2024 - 1980) << 9) | (3 << 5) | 9);
+    assert.equal(entry.time, (14 << 11) | (30 << 5) | 21);
+    assert.equal(entry.data.length, 0);
+  });
+
+  it("writes a valid archive with nothing in it", () => {
+    assert.deepEqual(readZip(buildZip([])), []);
+  });
+});
@@ -0,0 +1,117 @@
+// The relay's view of a room's op log, kept apart from the server so it can be tested against lib/crdt.ts: which
+// ops are well formed, what the relay has from each client, and how the log folds down.
+
+const opKey = (id) => `${id[0]}@${id[1]}`;
+
+export const lastClock = (op) => (op.type === "insert" ? op.id[0] + Array.from(op.text).length - 1 : op.id[0]);
+
+// The newest clock taken from each client. Clients send their ops in clock order, so anything at or below it has
+// already arrived.
+export const seenClocks = (ops) =>
+  ops.reduce((seen, op) => ({ ...seen, [op.id[1]]: Math.max(seen[op.id[1]] ?? 0, lastClock(op)) }), {});
+
+export const isOpId = (id) =>
+  Array.isArray(id) &&
+  id.length === 2 &&
+  Number.isSafeInteger(id[0]) &&
+  id[0] > 0 &&
+  typeof id[1] === "string" &&
+  id[1] !== "";
+
+// The relay doesn't merge ops, but every browser in the room does: anything stored or forwarded has to be an op
+// lib/crdt.ts can apply.
+export const isOp = (op) => {
+  if (!op || typeof op !== "object" || typeof op.key !== "string" || !isOpId(op.id) || !Number.isFinite(op.at)) {
+    return false;
+  }
+  switch (op.type) {
+    case "set":
+      return true;
+    case "insert":
+      return (op.after === null || isOpId(op.after)) && typeof op.text === "string" && op.text !== "";
+    case "delete":
+      return Array.isArray(op.targets) && op.targets.length > 0 && op.targets.every(isOpId);
+    default:
+      return false;
+  }
+};
+
+const compareIds = (a, b) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+const sameId = (a, b) => a[0] === b[0] && a[1] === b[1];
+
+// Rewrites a room's ops as the fewest that build the same document: the winning `set` for each key, and each text
+// as runs of its current characters plus one delete. Deleted characters stay in, as they do in lib/crdt.ts, so
+// the sequence is exactly the one browsers hold and ops that point at those characters still land. Characters are
+// placed with the same rule as `integrate` there. Ops that can't apply yet are kept as they are.
+export const compact = (ops) => {
+  const registers = new Map();
+  const texts = new Map();
+  const applied = new Set();
+  let queue = ops;
+  let progressed = true;
+
+  while (progressed) {
+    progressed = false;
+    const waiting = [];
+    queue.forEach((op) => {
+      if (applied.has(opKey(op.id))) return;
+      if (op.type === "set") {
+        const current = registers.get(op.key);
+        if (!current || compareIds(op.id, current.id) > 0) registers.set(op.key, op);
+      } else {
+        const text = texts.get(op.key) ?? { chars: [], lastDelete: null };
+        const find = (id) => text.chars.findIndex((char) => sameId(char.id, id));
+        const positions = op.type === "delete" ? op.targets.map(find) : [op.after ? find(op.after) : -1];
+        if (positions.includes(-1) && !(op.type === "insert" && !op.after)) {
+          waiting.push(op);
+          return;
+        }
+        texts.set(op.key, text);
+        if (op.type === "delete") {
+          positions.forEach((position) => (text.chars[position].deleted = true));
+          if (!text.lastDelete || compareIds(op.id, text.lastDelete.id) > 0) text.lastDelete = op;
+        } else {
+          let previous = positions[0];
+          Array.from(op.text).forEach((value, offset) => {
+            const id = [op.id[0] + offset, op.id[1]];
+            let position = previous + 1;
+            while (position < text.chars.length && compareIds(text.chars[position].id, id) > 0) position++;
+            text.chars.splice(position, 0, { id, value, at: op.at, deleted: false });
+            previous = position;
+          });
+        }
+      }
+      applied.add(opKey(op.id));
+      progressed = true;
+    });
+    queue = waiting;
+  }
+
+  const textOps = [...texts].flatMap(([key, { chars, lastDelete }]) => {
+    // Characters that follow on from each other (same client, next clock) replay as one insert.
+    const runs = [];
+    chars.forEach((char, index) => {
+      const run = runs.at(-1);
+      const previous = chars[index - 1];
+      if (run && previous.id[1] === char.id[1] && previous.id[0] + 1 === char.id[0]) {
+        run.text += char.value;
+        run.at = Math.max(run.at, char.at);
+      } else {
+        runs.push({ type: "insert", key, id: char.id, at: char.at, after: previous?.id ?? null, text: char.value });
+      }
+    });
+    const targets = chars.filter((char) => char.deleted).map((char) => char.id);
+    return targets.length > 0 ? [...runs, { ...lastDelete, targets }] : runs;
+  });
+  const kept = [...registers.values(), ...textOps];
+  // Each client's newest op stays even when it no longer matters (an overwritten `set`, an earlier delete), so the
+  // room still tells how far it has each client: `seenClocks` reads the same before and after.
+  const newest = seenClocks(ops);
+  const keptClocks = seenClocks(kept);
+  const latest = ops.filter((op) => {
+    const client = op.id[1];
+    return applied.has(opKey(op.id)) && (keptClocks[client] ?? 0) < newest[client] && lastClock(op) === newest[client];
+  });
+  return [...kept, ...latest, ...queue];
+};
@@ -0,0 +1,337 @@
+// Relay for live collaboration. Each `/rooms/<id>` WebSocket is a shared brief: the server keeps the room's op log
+// (on disk, one JSON line per op), hands it to whoever joins, forwards new ops and presence to everyone else and
+// acknowledges ops once they're saved. Merging happens in the browsers (lib/crdt.ts), so the relay never needs to
+// understand a brief; it only folds the log down to the ops that still matter (collab-log.mjs), so a long session
+// doesn't replay every keystroke to whoever joins.
+//
+//   node scripts/collab-server.mjs --port 4020 [--data .data/collab]
+//   NEXT_PUBLIC_LAUNCHPILOT_COLLAB_URL=ws://localhost:4020 npm run dev   # only when it isn't on this host at 4020
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import path from "node:path";
+import { compact, isOp, isOpId, lastClock, seenClocks } from "./collab-log.mjs";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? fallback : args[index + 1];
+};
+const port = Number(option("port", process.env.PORT ?? 4020));
+const dataDir = path.resolve(option("data", path.join(".data", "collab")));
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+// Uploaded images travel inside the page, so messages can be large. Same limit as `COLLAB_MAX_MESSAGE_BYTES`.
+const MAX_MESSAGE_BYTES = 8 * 1024 * 1024;
+// How many ops a room takes on before its log is compacted again.
+const COMPACT_EVERY = 500;
+const HEARTBEAT_MS = 30_000;
+
+const OPCODE = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+// Same rule as the app: random, unguessable ids, checked before they reach the file system.
+const ROOM_PATH = /^\/rooms\/([A-Za-z0-9_-]{6,32})\/?(?:\?.*)?$/;
+
+const rooms = new Map();
+
+const roomFile = (id) => path.join(dataDir, `${id}.jsonl`);
+
+const loadOps = async (id) => {
+  const contents = await readFile(roomFile(id), "utf8").catch((error) => {
+    if (error.code === "ENOENT") return "";
+    throw error;
+  });
+  // A crash mid-append can leave a torn last line; it was never acknowledged, so its sender still has it.
+  return contents.split("\n").flatMap((line) => {
+    try {
+      const op = line ? JSON.parse(line) : null;
+      return isOp(op) ? [op] : [];
+    } catch {
+      return [];
+    }
+  });
+};
+
+const PEER_ID = /^[\w-]{1,64}$/;
+const PEER_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Peers are shown to everyone else in the room as they are, so only the fields the panel reads get through, and
+// only in the shapes it expects.
+const parsePeer = (peer) => {
+  if (!peer || typeof peer !== "object" || typeof peer.id !== "string" || !PEER_ID.test(peer.id)) return null;
+  if (typeof peer.name !== "string" || typeof peer.color !== "string" || !PEER_COLOR.test(peer.color)) return null;
+  const { field, caret } = peer.presence ?? {};
+  if (field !== undefined && (typeof field !== "string" || field.length > 64)) return null;
+  if (caret !== undefined && caret !== null && !isOpId(caret)) return null;
+  return {
+    id: peer.id,
+    name: peer.name.slice(0, 40),
+    color: peer.color,
+    presence: { ...(field !== undefined && { field }), ...(caret !== undefined && { caret }) },
+  };
+};
+
+// Replaces the room's file in one step, so a crash mid-write leaves the old log rather than half of the new one.
+const saveCompacted = async (id, ops) => {
+  const file = roomFile(id);
+  const temporary = `${file}.${process.pid}.tmp`;
+  await mkdir(dataDir, { recursive: true });
+  await writeFile(temporary, ops.map((op) => `${JSON.stringify(op)}\n`).join(""), "utf8");
+  await rename(temporary, file);
+};
+
+const getRoom = (id) => {
+  let room = rooms.get(id);
+  if (!room) {
+    room = { id, ops: [], seen: {}, compactedAt: 0, clients: new Set(), seeder: null, writing: Promise.resolve() };
+    room.ready = loadOps(id).then(
+      (ops) => {
+        room.seen = seenClocks(ops);
+        room.ops = compact(ops);
+        room.compactedAt = room.ops.length;
+        if (room.ops.length < ops.length) {
+          room.writing = saveCompacted(id, room.ops).catch((error) => console.error(`Saving room ${id} failed`, error));
+        }
+      },
+      // Rather than serve the room as empty (someone would fill it over the saved one), everyone in it is sent away
+      // and the next to connect loads it afresh.
+      (error) => {
+        console.error(`Loading room ${id} failed`, error);
+        room.failed = true;
+        if (rooms.get(id) === room) rooms.delete(id);
+        room.clients.forEach((client) => close(client, 1011));
+      },
+    );
+    rooms.set(id, room);
+  }
+  return room;
+};
+
+const frame = (opcode, payload) => {
+  const length = payload.length;
+  const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const send = (client, message) => {
+  if (!client.socket.destroyed) client.socket.write(frame(OPCODE.text, Buffer.from(JSON.stringify(message))));
+};
+
+const broadcast = (room, from, message) => {
+  room.clients.forEach((client) => client !== from && client.peer && send(client, message));
+};
+
+const close = (client, code = 1000) => {
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code);
+  if (!client.socket.destroyed) client.socket.end(frame(OPCODE.close, payload));
+};
+
+const welcome = (room, client, seed) =>
+  send(client, {
+    type: "welcome",
+    ops: room.ops,
+    seen: room.seen,
+    peers: [...room.clients].filter((other) => other !== client && other.peer).map((other) => other.peer),
+    seed,
+  });
+
+const handleMessage = async (room, client, text) => {
+  const message = JSON.parse(text);
+  await room.ready;
+  if (room.failed) return;
+
+  if (message.type === "hello" && !client.peer) {
+    client.peer = parsePeer(message.peer);
+    if (!client.peer) {
+      close(client, 1008);
+      return;
+    }
+    // Only the first person into an empty room fills it; anyone arriving meanwhile waits for their ops.
+    const seed = room.ops.length === 0 && !room.seeder;
+    if (seed) room.seeder = client;
+    welcome(room, client, seed);
+    broadcast(room, client, { type: "peer", peer: client.peer });
+    return;
+  }
+  if (!client.peer) return;
+
+  if (message.type === "peer") {
+    const peer = parsePeer(message.peer);
+    if (peer?.id !== client.peer.id) {
+      close(client, 1008);
+      return;
+    }
+    client.peer = peer;
+    broadcast(room, client, { type: "peer", peer: client.peer });
+  } else if (message.type === "ops" && Array.isArray(message.ops)) {
+    const fresh = message.ops.filter((op) => {
+      if (!isOp(op) || op.id[0] <= (room.seen[op.id[1]] ?? 0)) return false;
+      room.seen[op.id[1]] = lastClock(op);
+      return true;
+    });
+    if (room.seeder === client) room.seeder = null;
+    // What the relay has from each client in the batch, resent ops included, so the sender can stop keeping them.
+    const seen = Object.fromEntries(message.ops.filter(isOp).map((op) => [op.id[1], room.seen[op.id[1]] ?? 0]));
+    const acknowledge = () => send(client, { type: "ack", seen });
+    if (fresh.length === 0) {
+      room.writing.then(acknowledge);
+      return;
+    }
+    room.ops.push(...fresh);
+    broadcast(room, client, { type: "ops", ops: fresh });
+    let save;
+    if (room.ops.length - room.compactedAt >= COMPACT_EVERY) {
+      room.ops = compact(room.ops);
+      room.compactedAt = room.ops.length;
+      // Later ops are appended to this file, so it has to hold exactly what the room holds now.
+      const snapshot = [...room.ops];
+      save = () => saveCompacted(room.id, snapshot);
+    } else {
+      const lines = fresh.map((op) => `${JSON.stringify(op)}\n`).join("");
+      save = () => mkdir(dataDir, { recursive: true }).then(() => appendFile(roomFile(room.id), lines, "utf8"));
+    }
+    room.writing = room.writing
+      .then(save)
+      .then(acknowledge, (error) => console.error(`Saving room ${room.id} failed`, error));
+  }
+};
+
+const leave = (room, client) => {
+  if (!room.clients.delete(client)) return;
+  if (client.peer) broadcast(room, client, { type: "leave", id: client.peer.id });
+  // The seeder left before filling the room: hand the job to whoever is still waiting.
+  if (room.seeder === client) {
+    room.seeder = null;
+    const next = [...room.clients].find((other) => other.peer);
+    if (next && room.ops.length === 0) {
+      room.seeder = next;
+      welcome(room, next, true);
+    }
+  }
+  if (room.clients.size === 0) {
+    room.writing.then(() => {
+      if (room.clients.size === 0 && rooms.get(room.id) === room) rooms.delete(room.id);
+    });
+  }
+};
+
+const readFrames = (room, client) => {
+  while (client.buffer.length >= 2) {
+    const buffer = client.buffer;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) return;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (length + client.fragmentBytes > MAX_MESSAGE_BYTES) {
+      close(client, 1009);
+      return;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return;
+
+    const payload = Buffer.alloc(length);
+    for (let index = 0; index < length; index++) {
+      payload[index] = masked ? buffer[offset + index] ^ buffer[maskOffset + (index % 4)] : buffer[offset + index];
+    }
+    client.buffer = buffer.subarray(offset + length);
+
+    if (opcode === OPCODE.close) {
+      close(client);
+      return;
+    }
+    if (opcode === OPCODE.ping) {
+      client.socket.write(frame(OPCODE.pong, payload));
+    } else if (opcode === OPCODE.pong) {
+      client.alive = true;
+    } else if (opcode === OPCODE.text || opcode === OPCODE.continuation) {
+      client.fragments.push(payload);
+      client.fragmentBytes += length;
+      if (fin) {
+        const text = Buffer.concat(client.fragments).toString("utf8");
+        client.fragments = [];
+        client.fragmentBytes = 0;
+        handleMessage(room, client, text).catch((error) => {
+          console.error("Bad message", error);
+          close(client, 1007);
+        });
+      }
+    } else {
+      // Binary frames aren't part of the protocol.
+      close(client, 1003);
+      return;
+    }
+  }
+};
+
+const server = createServer((request, response) => {
+  response.writeHead(426, { "Content-Type": "application/json" });
+  response.end(JSON.stringify({ error: "Connect with a WebSocket to /rooms/<id>" }));
+});
+
+server.on("upgrade", (request, socket, head) => {
+  const match = request.url?.match(ROOM_PATH);
+  const key = request.headers["sec-websocket-key"];
+  if (!match || request.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1").update(`${key}${WEBSOCKET_GUID}`).digest("base64");
+  socket.write(
+    ["HTTP/1.1 101 Switching Protocols", "Upgrade: websocket", "Connection: Upgrade", `Sec-WebSocket-Accept: ${accept}`]
+      .concat("", "")
+      .join("\r\n"),
+  );
+  socket.setNoDelay(true);
+
+  const room = getRoom(match[1]);
+  const client = { socket, peer: null, buffer: head, fragments: [], fragmentBytes: 0, alive: true };
+  room.clients.add(client);
+  readFrames(room, client);
+  socket.on("data", (chunk) => {
+    client.buffer = Buffer.concat([client.buffer, chunk]);
+    readFrames(room, client);
+  });
+  socket.on("close", () => leave(room, client));
+  socket.on("error", () => socket.destroy());
+});
+
+// Browsers answer pings on their own; a socket that misses one is gone without having said so.
+setInterval(() => {
+  rooms.forEach((room) =>
+    room.clients.forEach((client) => {
+      if (!client.alive) {
+        client.socket.destroy();
+        return;
+      }
+      client.alive = false;
+      if (!client.socket.destroyed) client.socket.write(frame(OPCODE.ping, Buffer.alloc(0)));
+    }),
+  );
+}, HEARTBEAT_MS);
+
+server.listen(port, () => {
+  console.log(`Collaboration relay listening on ws://localhost:${port}/rooms/<id>, saving rooms to ${dataDir}`);
+});
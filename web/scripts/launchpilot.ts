@@ -0,0 +1,96 @@
+// Headless generator for release pipelines. Uses the same library as the app and `POST /api/generate`.
+//
+//   bin/launchpilot.mjs generate brief.json --out dist/ [--url https://example.com/] [--template]
+//   bin/launchpilot.mjs schema > brief.schema.json
+//
+// Copy comes from the LAUNCHPILOT_LLM_* endpoint when configured (see README), otherwise from templates.
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { BRIEF_SCHEMA, BriefSchemaError, parseBrief } from "@/lib/brief-schema";
+import { templateProvider } from "@/lib/copy-provider";
+import { LEADS_ROUTE, needsLeadsRoute } from "@/lib/cta";
+import { generatePage } from "@/lib/generate-page";
+
+const USAGE = `Usage:
+  launchpilot generate <brief.json> [--out dir] [--url page-url] [--app-url origin] [--template] [--strict]
+  launchpilot schema
+
+Options:
+  --out       Directory for index.html and blueprint.json (default: dist)
+  --url       Where the page will be published; used for the canonical URL
+  --app-url   A running LaunchPilot app, for the social image and the built-in leads route; required when the
+              page has a lead form without its own endpoint
+  --template  Use template copy even when an LLM endpoint is configured, for reproducible output
+  --strict    Exit with an error when the brief has lint warnings`;
+
+const generate = async (briefPath: string, values: Record<string, string | boolean | undefined>) => {
+  const raw = await readFile(briefPath, "utf8");
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${briefPath} isn't valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const appUrl = typeof values["app-url"] === "string" ? values["app-url"] : undefined;
+  const page = await generatePage(parseBrief(json), {
+    provider: values.template ? templateProvider : undefined,
+    pageUrl: typeof values.url === "string" ? values.url : undefined,
+    appUrl,
+  });
+  if (!appUrl && needsLeadsRoute(page.blueprint)) {
+    throw new Error(
+      `The page has a lead form that posts to ${LEADS_ROUTE}, which a static host doesn't serve. ` +
+        "Pass --app-url with the origin of the LaunchPilot app that should collect the leads.",
+    );
+  }
+  page.warnings.forEach((warning) => console.warn(`warning: ${warning}`));
+
+  const outDir = path.resolve(typeof values.out === "string" ? values.out : "dist");
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, "index.html"), page.html, "utf8");
+  await writeFile(path.join(outDir, "blueprint.json"), `${JSON.stringify(page.blueprint, null, 2)}\n`, "utf8");
+  console.log(`Wrote ${path.relative(process.cwd(), outDir) || "."}/index.html with copy from ${page.provider}`);
+  return values.strict && page.warnings.length ? 1 : 0;
+};
+
+const main = async () => {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      url: { type: "string" },
+      "app-url": { type: "string" },
+      template: { type: "boolean" },
+      strict: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, briefPath] = positionals;
+
+  if (command === "schema") {
+    console.log(JSON.stringify(BRIEF_SCHEMA, null, 2));
+    return 0;
+  }
+  if (command !== "generate" || !briefPath || values.help) {
+    console[values.help ? "log" : "error"](USAGE);
+    return values.help ? 0 : 2;
+  }
+  return generate(briefPath, values);
+};
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    if (error instanceof BriefSchemaError) {
+      console.error("Invalid brief:");
+      error.issues.forEach((issue) => console.error(`  - ${issue}`));
+    } else {
+      console.error(error instanceof Error ? error.message : error);
+    }
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,73 @@
+// OpenAI-compatible stub for local development and tests. It streams a deterministic rewrite of whatever draft
+// the agent sends, so the copy stage can be exercised without a network connection or API key.
+//
+//   node scripts/mock-llm-server.mjs --port 4010 [--fail] [--delay 40]
+//   LAUNCHPILOT_LLM_BASE_URL=http://localhost:4010/v1 npm run dev
+import { createServer } from "node:http";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? fallback : args[index + 1];
+};
+const port = Number(option("port", process.env.PORT ?? 4010));
+const delay = Number(option("delay", 25));
+const shouldFail = args.includes("--fail");
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readJson = async (request) => {
+  let raw = "";
+  for await (const chunk of request) raw += chunk;
+  return JSON.parse(raw || "{}");
+};
+
+const rewrite = ({ brief, draft }) => ({
+  hero: {
+    eyebrow: `For ${brief.audience}`,
+    title: `${brief.productName}: ${draft.hero.title}`,
+    subtitle: `${brief.problem} ${brief.solution}`,
+  },
+  sections: draft.sections.map((section) => ({
+    id: section.id,
+    headline: `[mock] ${section.headline}`,
+    items: section.items?.map((item) => ({ description: `${item.description} (mock)` })),
+  })),
+});
+
+// Translation requests carry `{ locale, strings }`; tagging each string keeps the round trip visible in the preview.
+const translate = ({ locale, strings }) =>
+  Object.fromEntries(Object.entries(strings).map(([key, value]) => [key, `[${locale}] ${value}`]));
+
+const chunk = (content) => ({ choices: [{ index: 0, delta: { content } }] });
+
+const server = createServer(async (request, response) => {
+  if (request.method !== "POST" || !request.url?.endsWith("/chat/completions")) {
+    response.writeHead(404, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ error: { message: "Only POST /v1/chat/completions is mocked" } }));
+    return;
+  }
+
+  const body = await readJson(request);
+  if (shouldFail) {
+    response.writeHead(500, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ error: { message: "Mock failure requested with --fail" } }));
+    return;
+  }
+
+  const userMessage = body.messages?.find((message) => message.role === "user")?.content ?? "{}";
+  const payload = JSON.parse(userMessage);
+  const content = JSON.stringify(payload.strings ? translate(payload) : rewrite(payload));
+
+  response.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  for (let index = 0; index < content.length; index += 48) {
+    if (response.destroyed) return;
+    response.write(`data: ${JSON.stringify(chunk(content.slice(index, index + 48)))}\n\n`);
+    await sleep(delay);
+  }
+  response.end("data: [DONE]\n\n");
+});
+
+server.listen(port, () => {
+  console.log(`Mock LLM listening on http://localhost:${port}/v1 (model: ${shouldFail ? "failing" : "echo"})`);
+});
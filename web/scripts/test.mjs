@@ -0,0 +1,25 @@
+// Runs the unit tests once with Node's test runner, through tsx and tsconfig.tsx.json so JSX compiles against
+// React's automatic runtime. This is what the package's `test` script runs.
+//
+//   node scripts/test.mjs [file…]
+import { spawnSync } from "node:child_process";
+import { readdirSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+const TEST_DIRS = ["lib", "components"];
+
+const findTests = () =>
+  TEST_DIRS.flatMap((dir) =>
+    readdirSync(path.join(root, dir), { recursive: true })
+      .filter((name) => /\.test\.tsx?$/.test(name))
+      .map((name) => path.join(dir, name)),
+  ).sort();
+
+const files = process.argv.length > 2 ? process.argv.slice(2) : findTests();
+const result = spawnSync("npx", ["--no-install", "tsx", "--tsconfig", "tsconfig.tsx.json", "--test", ...files], {
+  cwd: root,
+  stdio: "inherit",
+});
+process.exit(result.status ?? 1);